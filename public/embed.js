@@ -0,0 +1,130 @@
+/*
+ * Floating D-ID agent launcher for any site:
+ *
+ *   <script src="https://<this app>/embed.js" data-agent-id="v2_agt_..." async></script>
+ *
+ * Optional attributes: data-label (launcher text), data-position ("left" or "right").
+ * The page can drive the agent through window.DIDAgent:
+ *   DIDAgent.open() / close() / toggle()
+ *   DIDAgent.connect() / disconnect() / interrupt() / speak(text)
+ *   DIDAgent.on('connection-state' | 'speaking' | 'transcript' | 'error' | 'ready' | '*', handler) → unsubscribe
+ *
+ * The host's origin must be listed in EMBED_ALLOWED_ORIGINS on the server.
+ * Message shapes are defined in src/lib/embed.ts.
+ */
+(function () {
+  var HOST_SOURCE = 'did-agent-host';
+  var WIDGET_SOURCE = 'did-agent-widget';
+  var PROTOCOL_VERSION = 1;
+
+  var script = document.currentScript;
+  if (!script || window.DIDAgent) return;
+
+  var agentId = script.getAttribute('data-agent-id');
+  if (!agentId) {
+    console.error('[did-agent] embed.js needs a data-agent-id attribute');
+    return;
+  }
+  var appOrigin = new URL(script.src, location.href).origin;
+  var side = script.getAttribute('data-position') === 'left' ? 'left' : 'right';
+  var label = script.getAttribute('data-label') || 'Talk to our agent';
+
+  var listeners = {};
+  // Commands sent before the widget said it's ready
+  var pending = [];
+  var isReady = false;
+  var isOpen = false;
+
+  var frame = document.createElement('iframe');
+  frame.src = appOrigin + '/embed/' + encodeURIComponent(agentId) + '?origin=' + encodeURIComponent(location.origin);
+  frame.title = label;
+  frame.allow = 'autoplay; microphone';
+  frame.style.cssText = [
+    'position:fixed', side + ':20px', 'bottom:84px', 'width:360px', 'height:420px',
+    'max-width:calc(100vw - 40px)', 'max-height:calc(100vh - 110px)',
+    'border:none', 'border-radius:12px', 'box-shadow:0 8px 32px rgba(0,0,0,0.2)',
+    'background:white', 'z-index:2147483000', 'visibility:hidden', 'opacity:0',
+    'transition:opacity .2s ease'
+  ].join(';');
+
+  var launcher = document.createElement('button');
+  launcher.type = 'button';
+  launcher.textContent = label;
+  launcher.setAttribute('aria-expanded', 'false');
+  launcher.style.cssText = [
+    'position:fixed', side + ':20px', 'bottom:20px', 'padding:14px 20px',
+    'border:none', 'border-radius:999px', 'background:#ff882e', 'color:white',
+    'font:600 15px/1 sans-serif', 'box-shadow:0 4px 16px rgba(0,0,0,0.2)',
+    'cursor:pointer', 'z-index:2147483000'
+  ].join(';');
+
+  function emit(type, data) {
+    (listeners[type] || []).concat(listeners['*'] || []).forEach(function (handler) {
+      try {
+        handler(data);
+      } catch (error) {
+        console.error('[did-agent] listener failed:', error);
+      }
+    });
+  }
+
+  function send(command) {
+    var message = Object.assign({ source: HOST_SOURCE, version: PROTOCOL_VERSION }, command);
+    if (isReady && frame.contentWindow) {
+      frame.contentWindow.postMessage(message, appOrigin);
+    } else {
+      pending.push(message);
+    }
+  }
+
+  function setOpen(open) {
+    isOpen = open;
+    frame.style.visibility = open ? 'visible' : 'hidden';
+    frame.style.opacity = open ? '1' : '0';
+    launcher.setAttribute('aria-expanded', String(open));
+  }
+
+  window.addEventListener('message', function (event) {
+    if (event.origin !== appOrigin || event.source !== frame.contentWindow) return;
+    var data = event.data;
+    if (!data || data.source !== WIDGET_SOURCE || data.version !== PROTOCOL_VERSION) return;
+    if (data.type === 'ready') {
+      isReady = true;
+      pending.splice(0).forEach(function (message) {
+        frame.contentWindow.postMessage(message, appOrigin);
+      });
+    }
+    emit(data.type, data);
+  });
+
+  launcher.addEventListener('click', function () {
+    setOpen(!isOpen);
+  });
+
+  window.DIDAgent = {
+    open: function () { setOpen(true); },
+    close: function () { setOpen(false); },
+    toggle: function () { setOpen(!isOpen); },
+    connect: function () { send({ type: 'connect' }); },
+    disconnect: function () { send({ type: 'disconnect' }); },
+    interrupt: function () { send({ type: 'interrupt' }); },
+    speak: function (text) { send({ type: 'speak', text: String(text) }); },
+    on: function (type, handler) {
+      (listeners[type] = listeners[type] || []).push(handler);
+      return function () {
+        listeners[type] = listeners[type].filter(function (h) { return h !== handler; });
+      };
+    }
+  };
+
+  function mount() {
+    document.body.appendChild(frame);
+    document.body.appendChild(launcher);
+  }
+
+  if (document.body) {
+    mount();
+  } else {
+    document.addEventListener('DOMContentLoaded', mount);
+  }
+})();
@@ -0,0 +1,17 @@
+import { headers } from 'next/headers';
+import PresentationEditor from '@/components/PresentationEditor';
+import { isAdmin, USER_HEADER } from '@/lib/auth';
+import { getAdminUsers, getAuthConfig } from '@/lib/env';
+import { listPresentations } from '@/lib/presentationStore';
+
+export default async function AdminPresentationsPage() {
+  // Set by the proxy for every request
+  const user = (await headers()).get(USER_HEADER) ?? 'anonymous';
+
+  return (
+    <PresentationEditor
+      initialPresentations={await listPresentations()}
+      canEdit={isAdmin(getAuthConfig(), getAdminUsers(), user)}
+    />
+  );
+}
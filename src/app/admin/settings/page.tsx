@@ -0,0 +1,17 @@
+import { headers } from 'next/headers';
+import StreamSettingsEditor from '@/components/StreamSettingsEditor';
+import { isAdmin, USER_HEADER } from '@/lib/auth';
+import { getAdminUsers, getAuthConfig } from '@/lib/env';
+import { readStreamSettings } from '@/lib/settingsStore';
+
+export default async function AdminSettingsPage() {
+  // Set by the proxy for every request
+  const user = (await headers()).get(USER_HEADER) ?? 'anonymous';
+
+  return (
+    <StreamSettingsEditor
+      initialSettings={await readStreamSettings()}
+      canEdit={isAdmin(getAuthConfig(), getAdminUsers(), user)}
+    />
+  );
+}
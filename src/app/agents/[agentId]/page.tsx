@@ -0,0 +1,20 @@
+import AgentDemo from '@/components/AgentDemo';
+import { isAuthEnabled } from '@/lib/auth';
+import { getAuthConfig, getIdleTimeoutMinutes, getSpeechProviderPreference } from '@/lib/env';
+
+export default async function AgentPage({
+  params,
+}: {
+  params: Promise<{ agentId: string }>;
+}) {
+  const { agentId } = await params;
+
+  return (
+    <AgentDemo
+      initialAgentId={decodeURIComponent(agentId)}
+      idleTimeoutMinutes={getIdleTimeoutMinutes()}
+      speechProvider={getSpeechProviderPreference()}
+      authEnabled={isAuthEnabled(getAuthConfig())}
+    />
+  );
+}
@@ -0,0 +1,33 @@
+import { getRequestUser } from '@/lib/auth';
+import { proxyToDID } from '@/lib/didProxy';
+import { getQuotaConfig } from '@/lib/env';
+import { countAnswerCharacters, quotaExceededResponse, withUsage } from '@/lib/usageStore';
+
+// Sends a user message; the answer is returned and spoken on the given stream
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; chatId: string }> }
+) {
+  const { agentId, chatId } = await params;
+  const user = getRequestUser(request);
+
+  // The answer's length is only known afterwards, so this just checks some allowance is left
+  const exceeded = await withUsage((usage) => usage.checkCharacters(getQuotaConfig(), user, 0));
+  if (exceeded) return quotaExceededResponse(exceeded);
+
+  const body = await request.text();
+  const response = await proxyToDID(
+    `/agents/${encodeURIComponent(agentId)}/chat/${encodeURIComponent(chatId)}`,
+    'POST',
+    body
+  );
+  if (response.ok) {
+    const characters = await countAnswerCharacters(response);
+    const { streamId } = JSON.parse(body || '{}');
+    await withUsage((usage) => {
+      if (typeof streamId === 'string') usage.touchStream(streamId);
+      usage.addCharacters(user, characters);
+    });
+  }
+  return response;
+}
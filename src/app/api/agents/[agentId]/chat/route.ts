@@ -0,0 +1,10 @@
+import { proxyToDID } from '@/lib/didProxy';
+
+// Creates a new chat session with the agent's LLM
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  const { agentId } = await params;
+  return proxyToDID(`/agents/${encodeURIComponent(agentId)}/chat`, 'POST', await request.text());
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { clipPath, CLIP_KINDS, type ClipKind } from '@/lib/clips';
+import { proxyToDID } from '@/lib/didProxy';
+
+// Rendering status of a clip or talk; `kind` comes from the create response.
+// Only clips rendered for this agent are reported, by the `user_data` they were tagged with.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; clipId: string }> }
+) {
+  const { agentId, clipId } = await params;
+  const kind = new URL(request.url).searchParams.get('kind') as ClipKind;
+  if (!CLIP_KINDS.includes(kind)) {
+    return NextResponse.json({ error: 'kind must be clip or talk' }, { status: 400 });
+  }
+  const response = await proxyToDID(clipPath(kind, clipId), 'GET');
+  if (!response.ok) return response;
+  const { user_data } = await response.clone().json().catch(() => ({}));
+  if (user_data !== agentId) {
+    return NextResponse.json({ error: 'Clip not found' }, { status: 404 });
+  }
+  return response;
+}
@@ -0,0 +1,77 @@
+// @vitest-environment node
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getMockDIDBackend } from '@/lib/mock/didBackend';
+import { POST as createClip } from './route';
+import { GET as getClip } from './[clipId]/route';
+
+const AGENT_ID = 'v2_agt_mock';
+
+const render = (body: unknown, user = 'user:alice') =>
+  createClip(
+    new Request('http://localhost:3000/api', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-demo-user': user },
+      body: JSON.stringify(body)
+    }),
+    { params: Promise.resolve({ agentId: AGENT_ID }) }
+  );
+
+describe('clip rendering', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'usage-'));
+    vi.stubEnv('MOCK_DID', '1');
+    vi.stubEnv('USAGE_FILE', path.join(directory, 'usage.json'));
+    getMockDIDBackend().reset();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("renders with the agent's presenter and reports status by kind", async () => {
+    const created = await render({ script: { type: 'text', input: 'Hello there' } });
+    expect(created.status).toBe(201);
+    const { id, kind } = await created.json();
+    expect(kind).toBe('talk');
+    expect(getMockDIDBackend().requestsTo('POST', '/talks')[0].body).toEqual({
+      source_url: 'https://mock.d-id.local/presenter.png',
+      script: { type: 'text', input: 'Hello there' },
+      user_data: AGENT_ID
+    });
+
+    const status = await getClip(
+      new Request(`http://localhost:3000/api/agents/${AGENT_ID}/clips/${id}?kind=talk`),
+      { params: Promise.resolve({ agentId: AGENT_ID, clipId: id }) }
+    );
+    expect(await status.json()).toMatchObject({ status: 'done', result_url: expect.stringContaining(id) });
+
+    const unknownKind = await getClip(
+      new Request(`http://localhost:3000/api/agents/${AGENT_ID}/clips/${id}?kind=video`),
+      { params: Promise.resolve({ agentId: AGENT_ID, clipId: id }) }
+    );
+    expect(unknownKind.status).toBe(400);
+
+    const otherAgent = await getClip(
+      new Request(`http://localhost:3000/api/agents/v2_agt_other/clips/${id}?kind=talk`),
+      { params: Promise.resolve({ agentId: 'v2_agt_other', clipId: id }) }
+    );
+    expect(otherAgent.status).toBe(404);
+  });
+
+  it('refuses empty scripts and counts rendered characters against the quota', async () => {
+    vi.stubEnv('QUOTA_CHARACTERS_PER_DAY', '10');
+    expect((await render({ script: { type: 'text', input: '  ' } })).status).toBe(400);
+    expect((await render({ script: { type: 'text', input: 'Hello' } })).status).toBe(201);
+
+    const refused = await render({ script: { type: 'text', input: 'Hello again' } }, 'user:bob');
+    expect(refused.status).toBe(429);
+    expect((await refused.json()).quota).toMatchObject({ kind: 'characters', scope: 'global', used: 5 });
+    expect(getMockDIDBackend().requestsTo('POST', '/talks')).toHaveLength(1);
+  });
+});
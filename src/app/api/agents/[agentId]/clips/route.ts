@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { clipRequestFor, isClipScript } from '@/lib/clips';
+import type { DIDAgent } from '@/lib/didClient';
+import { proxyToDID } from '@/lib/didProxy';
+import { getQuotaConfig } from '@/lib/env';
+import { countSpokenCharacters, quotaExceededResponse, withUsage } from '@/lib/usageStore';
+
+// Clip mode: renders a script as a video with the agent's presenter. The
+// presenter comes from D-ID rather than the browser, so only agents can be rendered.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  const { agentId } = await params;
+  const user = getRequestUser(request);
+  const body = await request.text();
+
+  let script: unknown;
+  try {
+    script = JSON.parse(body || '{}').script;
+  } catch {
+    script = null;
+  }
+  if (!isClipScript(script)) {
+    return NextResponse.json({ error: 'Expected a text or audio script' }, { status: 400 });
+  }
+
+  const characters = countSpokenCharacters(body);
+  const exceeded = await withUsage((usage) => usage.checkCharacters(getQuotaConfig(), user, characters));
+  if (exceeded) return quotaExceededResponse(exceeded);
+
+  const agentResponse = await proxyToDID(`/agents/${encodeURIComponent(agentId)}`, 'GET');
+  if (!agentResponse.ok) return agentResponse;
+  const clip = clipRequestFor((await agentResponse.json()) as DIDAgent, script);
+  if (!clip) {
+    return NextResponse.json({ error: 'This agent has no presenter that can be rendered as a clip' }, { status: 422 });
+  }
+
+  const response = await proxyToDID(clip.path, 'POST', JSON.stringify(clip.body));
+  if (!response.ok) return response;
+  await withUsage((usage) => usage.addCharacters(user, characters));
+  const created = await response.json();
+  return NextResponse.json({ ...created, kind: clip.kind }, { status: response.status });
+}
@@ -0,0 +1,9 @@
+import { proxyToDID } from '@/lib/didProxy';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  const { agentId } = await params;
+  return proxyToDID(`/agents/${encodeURIComponent(agentId)}`, 'GET');
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { proxyToDID } from '@/lib/didProxy';
+import { withUsage } from '@/lib/usageStore';
+
+// navigator.sendBeacon can only POST; forward it as the stream DELETE
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; streamId: string }> }
+) {
+  const { agentId, streamId } = await params;
+  const closed = await withUsage((usage) => usage.closeStream(streamId, getRequestUser(request)));
+  if (!closed) return NextResponse.json({ error: 'Stream belongs to another user' }, { status: 403 });
+  return proxyToDID(
+    `/agents/${encodeURIComponent(agentId)}/streams/${encodeURIComponent(streamId)}`,
+    'DELETE',
+    await request.text()
+  );
+}
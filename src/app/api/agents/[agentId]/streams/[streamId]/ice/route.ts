@@ -0,0 +1,13 @@
+import { proxyToDID } from '@/lib/didProxy';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; streamId: string }> }
+) {
+  const { agentId, streamId } = await params;
+  return proxyToDID(
+    `/agents/${encodeURIComponent(agentId)}/streams/${encodeURIComponent(streamId)}/ice`,
+    'POST',
+    await request.text()
+  );
+}
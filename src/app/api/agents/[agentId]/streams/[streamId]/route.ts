@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { proxyToDID } from '@/lib/didProxy';
+import { getQuotaConfig } from '@/lib/env';
+import { countSpokenCharacters, quotaExceededResponse, withUsage } from '@/lib/usageStore';
+
+// Speak: sends a script to be rendered on the stream
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; streamId: string }> }
+) {
+  const { agentId, streamId } = await params;
+  const user = getRequestUser(request);
+  const body = await request.text();
+  const characters = countSpokenCharacters(body);
+
+  const exceeded = await withUsage((usage) => {
+    usage.touchStream(streamId);
+    return usage.checkCharacters(getQuotaConfig(), user, characters);
+  });
+  if (exceeded) return quotaExceededResponse(exceeded);
+
+  const response = await proxyToDID(
+    `/agents/${encodeURIComponent(agentId)}/streams/${encodeURIComponent(streamId)}`,
+    'POST',
+    body
+  );
+  if (response.ok) await withUsage((usage) => usage.addCharacters(user, characters));
+  return response;
+}
+
+// Ends the stream session on D-ID
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string; streamId: string }> }
+) {
+  const { agentId, streamId } = await params;
+  const closed = await withUsage((usage) => usage.closeStream(streamId, getRequestUser(request)));
+  if (!closed) return NextResponse.json({ error: 'Stream belongs to another user' }, { status: 403 });
+  return proxyToDID(
+    `/agents/${encodeURIComponent(agentId)}/streams/${encodeURIComponent(streamId)}`,
+    'DELETE',
+    await request.text()
+  );
+}
@@ -0,0 +1,92 @@
+// @vitest-environment node
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getMockDIDBackend } from '@/lib/mock/didBackend';
+import { POST as createStream } from './route';
+import { POST as speak, DELETE as deleteStream } from './[streamId]/route';
+import { POST as closeStream } from './[streamId]/close/route';
+
+const AGENT_ID = 'v2_agt_mock';
+
+const asUser = (user: string, body: unknown = {}) =>
+  new Request('http://localhost:3000/api', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-demo-user': user },
+    body: JSON.stringify(body)
+  });
+
+const open = (user: string) => createStream(asUser(user), { params: Promise.resolve({ agentId: AGENT_ID }) });
+
+const streamParams = (streamId: string) => ({ params: Promise.resolve({ agentId: AGENT_ID, streamId }) });
+
+const say = (user: string, streamId: string, input: string) =>
+  speak(asUser(user, { script: { type: 'text', input }, session_id: 'sess' }), streamParams(streamId));
+
+describe('stream quotas', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'usage-'));
+    vi.stubEnv('MOCK_DID', '1');
+    vi.stubEnv('USAGE_FILE', path.join(directory, 'usage.json'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('refuses a second open session with a quota_exceeded 429 until the first is deleted', async () => {
+    vi.stubEnv('QUOTA_USER_CONCURRENT_SESSIONS', '1');
+
+    const first = await open('user:alice');
+    expect(first.status).toBe(200);
+    const { id } = await first.json();
+
+    const second = await open('user:alice');
+    expect(second.status).toBe(429);
+    expect(await second.json()).toMatchObject({
+      code: 'quota_exceeded',
+      quota: { kind: 'concurrent', scope: 'user', limit: 1, used: 1, resetsAt: null }
+    });
+    expect((await open('user:bob')).status).toBe(200);
+
+    // Only the user who opened a stream may end it
+    expect((await deleteStream(asUser('user:bob', { session_id: 'sess' }), streamParams(id))).status).toBe(403);
+    expect((await closeStream(asUser('user:bob', { session_id: 'sess' }), streamParams(id))).status).toBe(403);
+    expect((await open('user:alice')).status).toBe(429);
+
+    await deleteStream(asUser('user:alice', { session_id: 'sess' }), streamParams(id));
+    expect((await open('user:alice')).status).toBe(200);
+
+    const saved = JSON.parse(await readFile(path.join(directory, 'usage.json'), 'utf8'));
+    expect(saved.daily['user:alice'].streams).toBe(2);
+  });
+
+  it('lets only one of several parallel creates through and gives back the slot when D-ID fails', async () => {
+    vi.stubEnv('QUOTA_USER_CONCURRENT_SESSIONS', '1');
+
+    getMockDIDBackend().injectFailure({ endpoint: `/agents/${AGENT_ID}/streams`, method: 'POST', status: 500 });
+    expect((await open('user:alice')).status).toBe(500);
+
+    const statuses = (await Promise.all([open('user:alice'), open('user:alice'), open('user:alice')])).map((r) => r.status);
+    expect(statuses.sort()).toEqual([200, 429, 429]);
+
+    const saved = JSON.parse(await readFile(path.join(directory, 'usage.json'), 'utf8'));
+    expect(saved.daily['user:alice'].streams).toBe(1);
+    expect(Object.keys(saved.active)).toEqual([expect.stringMatching(/^strm_/)]);
+  });
+
+  it('counts spoken characters against the daily allowance', async () => {
+    vi.stubEnv('QUOTA_CHARACTERS_PER_DAY', '20');
+    const { id } = await (await open('user:alice')).json();
+
+    expect((await say('user:alice', id, 'Hello there')).status).toBe(200);
+    const refused = await say('user:bob', id, 'General Kenobi');
+    expect(refused.status).toBe(429);
+    expect((await refused.json()).quota).toMatchObject({ kind: 'characters', scope: 'global', used: 11, limit: 20 });
+    expect((await say('user:bob', id, 'Hi')).status).toBe(200);
+  });
+});
@@ -0,0 +1,23 @@
+import { getRequestUser } from '@/lib/auth';
+import { proxyToDID } from '@/lib/didProxy';
+import { getQuotaConfig } from '@/lib/env';
+import { quotaExceededResponse, withUsage } from '@/lib/usageStore';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  const { agentId } = await params;
+  const user = getRequestUser(request);
+
+  // Checked and counted in one go, then released if D-ID doesn't make the stream
+  const reserved = await withUsage((usage) => usage.checkStream(getQuotaConfig(), user) ?? usage.reserveStream(user));
+  if (typeof reserved !== 'string') return quotaExceededResponse(reserved);
+
+  const response = await proxyToDID(`/agents/${encodeURIComponent(agentId)}/streams`, 'POST', await request.text());
+  const { id } = response.ok ? await response.clone().json().catch(() => ({})) : {};
+  await withUsage((usage) =>
+    typeof id === 'string' ? usage.confirmStream(reserved, id) : usage.cancelStream(reserved)
+  );
+  return response;
+}
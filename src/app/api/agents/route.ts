@@ -0,0 +1,6 @@
+import { proxyToDID } from '@/lib/didProxy';
+
+// Lists the agents available to the configured D-ID account
+export async function GET() {
+  return proxyToDID('/agents', 'GET');
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { readAudio } from '@/lib/audioStore';
+import { getAudioRetention } from '@/lib/env';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ fileName: string }> }
+) {
+  const { fileName } = await params;
+  const audio = await readAudio(fileName);
+  if (!audio) {
+    return NextResponse.json({ error: 'Audio not found' }, { status: 404 });
+  }
+
+  // Cached only until the file expires here; without an age limit the size cap may remove it at any time
+  const { maxAgeMs } = getAudioRetention();
+  const cacheControl = maxAgeMs > 0
+    ? `public, max-age=${Math.max(0, Math.floor((audio.savedAtMs + maxAgeMs - Date.now()) / 1000))}`
+    : 'no-cache';
+
+  return new Response(new Uint8Array(audio.data), {
+    headers: {
+      'Content-Type': audio.contentType,
+      'Content-Length': String(audio.data.length),
+      // Served from the app's origin, so browsers must not guess a more dangerous type
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': cacheControl
+    }
+  });
+}
@@ -0,0 +1,79 @@
+// @vitest-environment node
+import { mkdtemp, readdir, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from './route';
+import { GET } from './[fileName]/route';
+
+const upload = (file: Blob, name = 'hello.mp3') => {
+  const form = new FormData();
+  form.append('file', file, name);
+  return POST(new Request('http://localhost:3000/api/audio', { method: 'POST', body: form }));
+};
+
+const download = (fileName: string) =>
+  GET(new Request(`http://localhost:3000/api/audio/${fileName}`), { params: Promise.resolve({ fileName }) });
+
+describe('/api/audio', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'audio-'));
+    vi.stubEnv('AUDIO_UPLOAD_DIR', directory);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores an upload and serves it back from the returned URL', async () => {
+    const response = await upload(new Blob([new Uint8Array([1, 2, 3])], { type: 'audio/mpeg' }));
+    expect(response.status).toBe(201);
+    const { fileName, url } = await response.json();
+    expect(fileName).toMatch(/\.mp3$/);
+    expect(url).toBe(`http://localhost:3000/api/audio/${fileName}`);
+
+    const served = await download(fileName);
+    expect(served.headers.get('Content-Type')).toBe('audio/mpeg');
+    expect(served.headers.get('X-Content-Type-Options')).toBe('nosniff');
+    expect(served.headers.get('Cache-Control')).toMatch(/^public, max-age=(86400|86399)$/);
+    expect(new Uint8Array(await served.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('uses PUBLIC_BASE_URL so D-ID can reach the file', async () => {
+    vi.stubEnv('PUBLIC_BASE_URL', 'https://demo.example.com/');
+    const response = await upload(new Blob([new Uint8Array(8)], { type: 'audio/wav' }), 'line.wav');
+    expect((await response.json()).url).toMatch(/^https:\/\/demo\.example\.com\/api\/audio\/[0-9a-f-]+\.wav$/);
+  });
+
+  it('deletes uploads past the retention period, then the oldest over the size cap', async () => {
+    vi.stubEnv('AUDIO_RETENTION_HOURS', '1');
+    vi.stubEnv('AUDIO_MAX_TOTAL_MB', '1');
+    const old = (name: string, hoursAgo: number, bytes: number) => {
+      const file = path.join(directory, `${name}-0000-0000-0000-000000000000.mp3`);
+      const time = new Date(Date.now() - hoursAgo * 60 * 60 * 1000);
+      return writeFile(file, new Uint8Array(bytes)).then(() => utimes(file, time, time));
+    };
+    await old('00000001', 2, 16);
+    await old('00000002', 0.2, 600 * 1024);
+    await old('00000003', 0.1, 300 * 1024);
+    await writeFile(path.join(directory, 'notes.txt'), 'not an upload');
+
+    const { fileName } = await (await upload(new Blob([new Uint8Array(200 * 1024)], { type: 'audio/mpeg' }))).json();
+    expect((await readdir(directory)).sort()).toEqual(['00000003-0000-0000-0000-000000000000.mp3', fileName, 'notes.txt'].sort());
+    // Cached for what's left of its hour
+    const kept = await download('00000003-0000-0000-0000-000000000000.mp3');
+    expect(kept.headers.get('Cache-Control')).toMatch(/^public, max-age=(3240|3239)$/);
+  });
+
+  it('rejects empty and non-audio uploads and unknown files', async () => {
+    expect((await upload(new Blob([]))).status).toBe(400);
+    expect((await upload(new Blob(['text'], { type: 'text/plain' }), 'notes.txt')).status).toBe(415);
+    expect((await download('../secret.mp3')).status).toBe(404);
+    expect((await download('00000000-0000-0000-0000-000000000000.mp3')).status).toBe(404);
+  });
+});
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { audioExtension, MAX_AUDIO_UPLOAD_BYTES, saveAudio } from '@/lib/audioStore';
+import { getPublicBaseUrl } from '@/lib/env';
+
+// Stores an audio script uploaded as the `file` field and returns the URL D-ID fetches it from
+export async function POST(request: Request) {
+  let file: FormDataEntryValue | null = null;
+  try {
+    file = (await request.formData()).get('file');
+  } catch {
+    // Not multipart; handled below
+  }
+
+  if (!(file instanceof Blob) || file.size === 0) {
+    return NextResponse.json({ error: 'No audio file received' }, { status: 400 });
+  }
+  if (file.size > MAX_AUDIO_UPLOAD_BYTES) {
+    return NextResponse.json({ error: 'Audio file too large' }, { status: 413 });
+  }
+  const extension = audioExtension(file.type, file instanceof File ? file.name : '');
+  if (!extension) {
+    return NextResponse.json({ error: 'Unsupported audio format' }, { status: 415 });
+  }
+
+  const fileName = await saveAudio(await file.arrayBuffer(), extension);
+  const baseUrl = getPublicBaseUrl() ?? new URL(request.url).origin;
+  console.log('Stored audio script:', fileName);
+  return NextResponse.json({ fileName, url: `${baseUrl}/api/audio/${fileName}` }, { status: 201 });
+}
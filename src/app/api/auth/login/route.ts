@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { AUTH_COOKIE, checkCredentials, createSessionToken, isAuthEnabled, SESSION_TTL_SECONDS, type LoginInput } from '@/lib/auth';
+import { getAuthConfig, getEmbedAllowedOrigins } from '@/lib/env';
+
+// Signs in with { username, password } or { code } and sets the session cookie
+export async function POST(request: Request) {
+  const auth = getAuthConfig();
+  if (!isAuthEnabled(auth)) {
+    return NextResponse.json({ error: 'Sign-in is not configured' }, { status: 404 });
+  }
+  if (!auth.secret) {
+    console.error('AUTH_SECRET must be set when ACCESS_CODE or AUTH_USERS is');
+    return NextResponse.json({ error: 'Sign-in is not configured' }, { status: 500 });
+  }
+
+  let input: LoginInput;
+  try {
+    const body = await request.json();
+    input = {
+      username: typeof body?.username === 'string' ? body.username.trim() : undefined,
+      password: typeof body?.password === 'string' ? body.password : undefined,
+      code: typeof body?.code === 'string' ? body.code.trim() : undefined
+    };
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const session = checkCredentials(auth, input);
+  if (!session) {
+    console.warn('Failed sign-in attempt', input.username ? `for ${input.username}` : 'with the access code');
+    return NextResponse.json({ error: 'Invalid credentials' }, { status: 401 });
+  }
+
+  // The embed widget runs in other sites' frames, where only SameSite=None cookies
+  // are sent, and browsers accept those over HTTPS only
+  const secure = new URL(request.url).protocol === 'https:';
+  const embedded = secure && getEmbedAllowedOrigins().length > 0;
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.set(AUTH_COOKIE, createSessionToken(session, auth.secret), {
+    httpOnly: true,
+    sameSite: embedded ? 'none' : 'lax',
+    secure,
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS
+  });
+  return response;
+}
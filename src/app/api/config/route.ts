@@ -1,11 +1,19 @@
 import { NextResponse } from 'next/server';
+import { isHistoryEnabled } from '@/lib/env';
+import { isMockDID } from '@/lib/mock/didBackend';
+import { readStreamSettings } from '@/lib/settingsStore';
 
 export async function GET() {
   try {
-    // In production, you should load this from environment variables
+    // The D-ID key stays on the server; clients go through the /api/agents proxy
     const config = {
-      key: "YWRtaW5Aa29vYmlkZS5jb20:2bysJdW0bIPx55xf_ifqE",
-      url: "https://api.d-id.com"
+      url: '/api',
+      // MOCK_DID=1: the client swaps in a fake peer connection
+      mock: isMockDID(),
+      // Sessions report their events to /api/history/events
+      history: isHistoryEnabled(),
+      // Defaults for new streams, edited on /admin/settings
+      stream: await readStreamSettings()
     };
 
     return NextResponse.json(config);
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { isHistoryEnabled } from '@/lib/env';
+import { isHistoryEvent, MAX_HISTORY_BATCH } from '@/lib/history';
+import { appendHistoryEvents } from '@/lib/historyStore';
+import { readUsage } from '@/lib/usageStore';
+
+// Appends a batch of session events ({ events: HistoryEvent[] }) to the history log.
+// Events only go to sessions the requesting user started, and streams they opened.
+export async function POST(request: Request) {
+  if (!isHistoryEnabled()) {
+    return NextResponse.json({ error: 'History is disabled' }, { status: 404 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const events = (body as { events?: unknown } | null)?.events;
+  if (!Array.isArray(events) || events.length === 0 || events.length > MAX_HISTORY_BATCH) {
+    return NextResponse.json({ error: `Expected 1-${MAX_HISTORY_BATCH} events` }, { status: 400 });
+  }
+  if (!events.every(isHistoryEvent)) {
+    return NextResponse.json({ error: 'Malformed history event' }, { status: 400 });
+  }
+
+  const user = getRequestUser(request);
+  // A stream the quota tracker has already forgotten can't be checked; one it knows must be the user's
+  const foreignStream = await readUsage((usage) =>
+    events.find((event) => event.type === 'stream' && (usage.streamOwner(event.streamId) ?? user) !== user)
+  );
+  if (foreignStream) {
+    return NextResponse.json({ error: 'Stream belongs to another user' }, { status: 403 });
+  }
+
+  const rejectedSession = await appendHistoryEvents(user, events);
+  if (rejectedSession) {
+    return NextResponse.json({ error: `History session ${rejectedSession} belongs to another user` }, { status: 403 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
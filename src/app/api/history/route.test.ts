@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { withUsage } from '@/lib/usageStore';
+import { GET } from './route';
+import { POST } from './events/route';
+
+const post = (body: unknown, user = 'ip:127.0.0.1') =>
+  POST(new Request('http://localhost:3000/api/history/events', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-demo-user': user },
+    body: JSON.stringify(body)
+  }));
+
+const get = (query = '', user = 'ip:127.0.0.1') =>
+  GET(new Request(`http://localhost:3000/api/history${query}`, { headers: { 'x-demo-user': user } }));
+
+const at = '2026-10-19T10:00:00.000Z';
+
+describe('/api/history', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'history-'));
+    vi.stubEnv('HISTORY_FILE', path.join(directory, 'history.jsonl'));
+    vi.stubEnv('USAGE_FILE', path.join(directory, 'usage.json'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores posted events and serves them back as sessions', async () => {
+    expect((await get()).status).toBe(200);
+    expect(await (await get()).json()).toEqual({ sessions: [] });
+
+    const response = await post({
+      events: [
+        { type: 'session-start', sessionId: 's1', agentId: 'agt_1', agentName: 'Support', at },
+        { type: 'utterance', sessionId: 's1', role: 'user', kind: 'chat', text: 'Hello', videoId: null, at }
+      ]
+    });
+    expect(response.status).toBe(204);
+    await post({ events: [{ type: 'session-end', sessionId: 's1', outcome: 'idleTimeout', reason: null, at }] });
+
+    const { sessions } = await (await get('?q=hello')).json();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({ id: 's1', outcome: 'idleTimeout', utterances: [{ text: 'Hello' }] });
+    expect((await (await get('?q=nothing')).json()).sessions).toEqual([]);
+  });
+
+  it('downloads CSV and JSON exports', async () => {
+    await post({ events: [{ type: 'session-start', sessionId: 's1', agentId: 'agt_1', agentName: null, at }] });
+
+    const csv = await get('?format=csv');
+    expect(csv.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+    expect(csv.headers.get('Content-Disposition')).toMatch(/^attachment; filename="history-.*\.csv"$/);
+    expect((await csv.text()).split('\r\n')[1]).toMatch(/^s1,agt_1,/);
+
+    const json = await get('?format=json');
+    expect(json.headers.get('Content-Disposition')).toMatch(/\.json"$/);
+    expect((await json.json()).sessions[0].id).toBe('s1');
+  });
+
+  it('only lets admins read it once sign-in is on', async () => {
+    vi.stubEnv('AUTH_USERS', 'alice:wonderland,bob:builder');
+    vi.stubEnv('ADMIN_USERS', 'alice');
+
+    expect((await get('', 'user:bob')).status).toBe(403);
+    expect((await get('?format=csv', 'ip:127.0.0.1')).status).toBe(403);
+    expect((await get('', 'user:alice')).status).toBe(200);
+  });
+
+  it('keeps each session and stream to the user who started it', async () => {
+    const start = { type: 'session-start', sessionId: 's1', agentId: 'agt_1', agentName: null, at };
+    const reconnect = { type: 'reconnect', sessionId: 's1', at };
+    expect((await post({ events: [start] }, 'user:bob')).status).toBe(204);
+
+    expect((await post({ events: [reconnect] }, 'user:eve')).status).toBe(403);
+    expect((await post({ events: [{ ...start, agentId: 'agt_2' }] }, 'user:eve')).status).toBe(403);
+    expect((await post({ events: [{ type: 'reconnect', sessionId: 'unknown', at }] }, 'user:eve')).status).toBe(403);
+    expect((await post({ events: [reconnect] }, 'user:bob')).status).toBe(204);
+
+    await withUsage((usage) => usage.openStream('user:bob', 'strm_bob'));
+    const stream = (sessionId: string) => ({ type: 'stream', sessionId, streamId: 'strm_bob', didSessionId: 'sess', at });
+    expect((await post({ events: [{ ...start, sessionId: 's2' }, stream('s2')] }, 'user:eve')).status).toBe(403);
+    expect((await post({ events: [stream('s1')] }, 'user:bob')).status).toBe(204);
+
+    const { sessions } = await (await get()).json();
+    expect(sessions.map((session: { id: string }) => session.id)).toEqual(['s1']);
+    expect(sessions[0]).toMatchObject({ reconnects: 1, streams: [{ streamId: 'strm_bob' }] });
+  });
+
+  it('rejects malformed batches and honours HISTORY_ENABLED=0', async () => {
+    expect((await post({ events: [] })).status).toBe(400);
+    expect((await post({ events: [{ type: 'session-start', sessionId: 's1', at }] })).status).toBe(400);
+
+    vi.stubEnv('HISTORY_ENABLED', '0');
+    expect((await post({ events: [{ type: 'reconnect', sessionId: 's1', at }] })).status).toBe(404);
+    expect((await get()).status).toBe(404);
+  });
+});
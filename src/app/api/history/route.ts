@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser, isAdmin } from '@/lib/auth';
+import { getAdminUsers, getAuthConfig, isHistoryEnabled } from '@/lib/env';
+import { searchHistory, toHistoryCSV } from '@/lib/history';
+import { readHistory } from '@/lib/historyStore';
+
+// Recorded sessions, newest first; admins only. ?q= searches them; ?format=json|csv downloads the result.
+export async function GET(request: Request) {
+  if (!isHistoryEnabled()) {
+    return NextResponse.json({ error: 'History is disabled' }, { status: 404 });
+  }
+  if (!isAdmin(getAuthConfig(), getAdminUsers(), getRequestUser(request))) {
+    return NextResponse.json({ error: 'Only admins can read the history' }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const sessions = searchHistory(await readHistory(), searchParams.get('q') ?? '');
+  const format = searchParams.get('format');
+  const fileName = `history-${new Date().toISOString().slice(0, 10)}`;
+
+  if (format === 'csv') {
+    return new NextResponse(toHistoryCSV(sessions), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}.csv"`
+      }
+    });
+  }
+  if (format === 'json') {
+    return new NextResponse(JSON.stringify({ sessions }, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}.json"`
+      }
+    });
+  }
+  return NextResponse.json({ sessions });
+}
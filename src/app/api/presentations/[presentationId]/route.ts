@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser, isAdmin } from '@/lib/auth';
+import { getAdminUsers, getAuthConfig } from '@/lib/env';
+import { parsePresentation, readPresentationBody } from '@/lib/presentation';
+import { deletePresentation, getPresentation, updatePresentation } from '@/lib/presentationStore';
+
+type Context = { params: Promise<{ presentationId: string }> };
+
+const notFound = () => NextResponse.json({ error: 'Presentation not found' }, { status: 404 });
+
+const forbidden = () => NextResponse.json({ error: 'Only admins can change presentations' }, { status: 403 });
+
+// The source for the editor and the parsed script for the player
+export async function GET(_request: Request, { params }: Context) {
+  const presentation = await getPresentation((await params).presentationId);
+  if (!presentation) return notFound();
+
+  const parsed = parsePresentation(presentation.source, presentation.format);
+  return NextResponse.json({ presentation, script: parsed.ok ? parsed.script : null });
+}
+
+// Replaces the script ({ format, source }); admins only
+export async function PUT(request: Request, { params }: Context) {
+  if (!isAdmin(getAuthConfig(), getAdminUsers(), getRequestUser(request))) return forbidden();
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const checked = readPresentationBody(body);
+  if (!checked.ok) {
+    return NextResponse.json({ error: checked.error, issues: checked.issues }, { status: 400 });
+  }
+
+  const presentation = await updatePresentation((await params).presentationId, {
+    name: checked.script.name,
+    format: checked.format,
+    source: checked.source
+  });
+  if (!presentation) return notFound();
+  console.log('Presentation updated:', presentation.id, presentation.name);
+  return NextResponse.json({ presentation, script: checked.script });
+}
+
+export async function DELETE(request: Request, { params }: Context) {
+  if (!isAdmin(getAuthConfig(), getAdminUsers(), getRequestUser(request))) return forbidden();
+
+  const { presentationId } = await params;
+  if (!(await deletePresentation(presentationId))) return notFound();
+  console.log('Presentation deleted:', presentationId);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,84 @@
+// @vitest-environment node
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET, POST } from './route';
+import { DELETE, GET as getOne, PUT } from './[presentationId]/route';
+
+const source = 'name: Booth\nsteps:\n  - say: Hello\n';
+
+const send = (method: 'POST' | 'PUT', body: unknown, id?: string, user = 'ip:127.0.0.1') => {
+  const request = new Request(`http://localhost:3000/api/presentations${id ? `/${id}` : ''}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'x-demo-user': user },
+    body: JSON.stringify(body)
+  });
+  return method === 'POST' ? POST(request) : PUT(request, { params: Promise.resolve({ presentationId: id ?? '' }) });
+};
+
+const params = (presentationId: string) => ({ params: Promise.resolve({ presentationId }) });
+
+describe('/api/presentations', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'presentations-'));
+    vi.stubEnv('PRESENTATIONS_FILE', path.join(directory, 'presentations.json'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('saves, lists, updates and deletes scripts', async () => {
+    expect(await (await GET()).json()).toEqual({ presentations: [] });
+
+    const created = await send('POST', { format: 'yaml', source });
+    expect(created.status).toBe(201);
+    const { presentation } = await created.json();
+    expect(presentation).toMatchObject({ name: 'Booth', format: 'yaml', source });
+
+    const listed = await (await GET()).json();
+    expect(listed.presentations).toEqual([{ id: presentation.id, name: 'Booth', format: 'yaml', updatedAt: presentation.updatedAt }]);
+
+    const json = JSON.stringify({ name: 'Renamed', steps: [{ say: 'Hi' }] });
+    expect((await send('PUT', { format: 'json', source: json }, presentation.id)).status).toBe(200);
+    const loaded = await (await getOne(new Request('http://localhost:3000'), params(presentation.id))).json();
+    expect(loaded.presentation).toMatchObject({ name: 'Renamed', format: 'json', source: json });
+    expect(loaded.script.steps).toEqual([{ kind: 'say', text: 'Hi', ssml: false, pauseAfterMs: 0 }]);
+
+    const deleteRequest = new Request('http://localhost:3000', { method: 'DELETE', headers: { 'x-demo-user': 'ip:127.0.0.1' } });
+    expect((await DELETE(deleteRequest, params(presentation.id))).status).toBe(204);
+    expect((await DELETE(deleteRequest, params(presentation.id))).status).toBe(404);
+    expect((await getOne(new Request('http://localhost:3000'), params(presentation.id))).status).toBe(404);
+  });
+
+  it('rejects scripts that do not parse, with the issues', async () => {
+    const response = await send('POST', { format: 'yaml', source: 'name: Booth\nsteps:\n  - goto: nowhere\n' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).issues).toEqual([{ code: 'unknownLabel', path: 'steps[0]', detail: 'nowhere' }]);
+    expect((await send('PUT', { format: 'yaml', source }, 'prs_missing')).status).toBe(404);
+  });
+
+  it('keeps every script saved at the same time', async () => {
+    const names = ['One', 'Two', 'Three', 'Four'];
+    const responses = await Promise.all(names.map((name) => send('POST', { format: 'yaml', source: `name: ${name}\nsteps:\n  - say: Hi\n` })));
+    expect(responses.map((response) => response.status)).toEqual([201, 201, 201, 201]);
+
+    const { presentations } = await (await GET()).json();
+    expect(presentations.map((item: { name: string }) => item.name)).toEqual(['Four', 'One', 'Three', 'Two']);
+    expect(await readdir(directory)).toEqual(['presentations.json']);
+  });
+
+  it('only lets ADMIN_USERS change scripts once sign-in is on', async () => {
+    vi.stubEnv('AUTH_USERS', 'alice:wonderland,bob:builder');
+    vi.stubEnv('ADMIN_USERS', 'alice');
+
+    expect((await send('POST', { format: 'yaml', source }, undefined, 'user:bob')).status).toBe(403);
+    expect((await send('POST', { format: 'yaml', source }, undefined, 'user:alice')).status).toBe(201);
+  });
+});
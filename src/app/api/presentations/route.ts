@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser, isAdmin } from '@/lib/auth';
+import { getAdminUsers, getAuthConfig } from '@/lib/env';
+import { readPresentationBody } from '@/lib/presentation';
+import { createPresentation, listPresentations } from '@/lib/presentationStore';
+
+// Saved presentations without their sources
+export async function GET() {
+  return NextResponse.json({ presentations: await listPresentations() });
+}
+
+// Saves a new script ({ format, source }); admins only
+export async function POST(request: Request) {
+  if (!isAdmin(getAuthConfig(), getAdminUsers(), getRequestUser(request))) {
+    return NextResponse.json({ error: 'Only admins can change presentations' }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const checked = readPresentationBody(body);
+  if (!checked.ok) {
+    return NextResponse.json({ error: checked.error, issues: checked.issues }, { status: 400 });
+  }
+
+  const presentation = await createPresentation({ name: checked.script.name, format: checked.format, source: checked.source });
+  console.log('Presentation created:', presentation.id, presentation.name);
+  return NextResponse.json({ presentation, script: checked.script }, { status: 201 });
+}
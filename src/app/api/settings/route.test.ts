@@ -0,0 +1,65 @@
+// @vitest-environment node
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_STREAM_SETTINGS } from '@/lib/streamSettings';
+import { GET as getConfig } from '../config/route';
+import { GET, PUT } from './route';
+
+const put = (body: unknown, user = 'ip:127.0.0.1') =>
+  PUT(new Request('http://localhost:3000/api/settings', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', 'x-demo-user': user },
+    body: JSON.stringify(body)
+  }));
+
+const talkSettings = { ...DEFAULT_STREAM_SETTINGS, fluent: false, outputResolution: 720 };
+
+describe('/api/settings', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'settings-'));
+    vi.stubEnv('SETTINGS_FILE', path.join(directory, 'settings.json'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('saves new stream defaults and hands them to clients through /api/config', async () => {
+    expect(await (await GET()).json()).toEqual({ stream: DEFAULT_STREAM_SETTINGS });
+
+    const response = await put({ stream: talkSettings });
+    expect(response.status).toBe(200);
+    expect(await (await GET()).json()).toEqual({ stream: talkSettings });
+    expect((await (await getConfig()).json()).stream).toEqual(talkSettings);
+  });
+
+  it('keeps the last of several settings saved at the same time', async () => {
+    const resolutions = [360, 480, 720, 1080];
+    const responses = await Promise.all(resolutions.map((outputResolution) => put({ stream: { ...talkSettings, outputResolution } })));
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200, 200]);
+
+    expect((await (await GET()).json()).stream.outputResolution).toBe(1080);
+    expect(await readdir(directory)).toEqual(['settings.json']);
+  });
+
+  it('rejects invalid settings', async () => {
+    expect((await put({ stream: { ...talkSettings, sessionTimeoutSeconds: 0 } })).status).toBe(400);
+    expect((await put({})).status).toBe(400);
+  });
+
+  it('only lets ADMIN_USERS change settings once sign-in is on', async () => {
+    vi.stubEnv('AUTH_USERS', 'alice:wonderland,bob:builder');
+    vi.stubEnv('ADMIN_USERS', 'alice');
+
+    expect((await put({ stream: talkSettings }, 'user:bob')).status).toBe(403);
+    expect((await put({ stream: talkSettings }, 'ip:127.0.0.1')).status).toBe(403);
+    expect((await put({ stream: talkSettings }, 'user:alice')).status).toBe(200);
+  });
+});
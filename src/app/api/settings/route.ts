@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser, isAdmin } from '@/lib/auth';
+import { getAdminUsers, getAuthConfig } from '@/lib/env';
+import { readStreamSettings, writeStreamSettings } from '@/lib/settingsStore';
+import { isStreamSettings } from '@/lib/streamSettings';
+
+export async function GET() {
+  return NextResponse.json({ stream: await readStreamSettings() });
+}
+
+// Replaces the server defaults ({ stream: StreamSettings }); admins only
+export async function PUT(request: Request) {
+  if (!isAdmin(getAuthConfig(), getAdminUsers(), getRequestUser(request))) {
+    return NextResponse.json({ error: 'Only admins can change settings' }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const stream = (body as { stream?: unknown } | null)?.stream;
+  if (!isStreamSettings(stream)) {
+    return NextResponse.json({ error: 'Invalid stream settings' }, { status: 400 });
+  }
+
+  await writeStreamSettings(stream);
+  console.log('Stream settings updated:', stream);
+  return NextResponse.json({ stream });
+}
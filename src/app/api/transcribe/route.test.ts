@@ -0,0 +1,94 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getSpeechProviderPreference } from '@/lib/env';
+import { POST } from './route';
+
+const post = (body: BodyInit | null, lang = 'tr-TR') =>
+  POST(new Request(`http://localhost/api/transcribe?lang=${lang}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'audio/webm' },
+    body
+  }));
+
+describe('POST /api/transcribe', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('answers from the local stand-in in mock mode only', async () => {
+    vi.stubEnv('TRANSCRIBE_URL', '');
+    vi.stubEnv('MOCK_DID', '');
+    const unavailable = await post(new Uint8Array(2048));
+    expect(unavailable.status).toBe(503);
+    expect(await unavailable.json()).toMatchObject({ code: 'transcriber_unavailable' });
+
+    vi.stubEnv('MOCK_DID', '1');
+    vi.stubEnv('TRANSCRIBE_LOCAL_TEXT', 'merhaba dünya');
+    const response = await post(new Uint8Array(2048));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ text: 'merhaba dünya', transcriber: 'local' });
+  });
+
+  it("only lets 'auto' fall back to the server when it can transcribe", () => {
+    vi.stubEnv('TRANSCRIBE_URL', '');
+    vi.stubEnv('MOCK_DID', '');
+    vi.stubEnv('SPEECH_PROVIDER', 'auto');
+    expect(getSpeechProviderPreference()).toBe('web-speech');
+    vi.stubEnv('TRANSCRIBE_URL', 'https://stt.example.com/v1/audio/transcriptions');
+    expect(getSpeechProviderPreference()).toBe('auto');
+  });
+
+  it('forwards audio to the configured backend', async () => {
+    vi.stubEnv('TRANSCRIBE_URL', 'https://stt.example.com/v1/audio/transcriptions');
+    vi.stubEnv('TRANSCRIBE_API_KEY', 'secret');
+    const fetchMock = vi.fn(async () => Response.json({ text: ' hello ' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await post(new Uint8Array(1024), 'en-US');
+
+    expect(await response.json()).toEqual({ text: 'hello', transcriber: 'http' });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://stt.example.com/v1/audio/transcriptions');
+    expect(init.headers).toEqual({ Authorization: 'Bearer secret' });
+    expect((init.body as FormData).get('language')).toBe('en');
+  });
+
+  it('refuses oversized audio without reading all of it', async () => {
+    vi.stubEnv('MOCK_DID', '1');
+    const declared = await POST(new Request('http://localhost/api/transcribe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'audio/webm', 'Content-Length': String(11 * 1024 * 1024) },
+      body: new Uint8Array(16)
+    }));
+    expect(declared.status).toBe(413);
+
+    let pulled = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled += 1;
+        controller.enqueue(new Uint8Array(1024 * 1024));
+      }
+    });
+    const streamed = await POST(new Request('http://localhost/api/transcribe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'audio/webm' },
+      body: endless,
+      duplex: 'half'
+    } as RequestInit));
+    expect(streamed.status).toBe(413);
+    expect(pulled).toBeLessThan(16);
+  });
+
+  it('rejects empty uploads and reports backend failures', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect((await post(null)).status).toBe(400);
+
+    vi.stubEnv('TRANSCRIBE_URL', 'https://stt.example.com/v1/audio/transcriptions');
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('down', { status: 503 })));
+    const response = await post(new Uint8Array(16));
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'Transcription failed' });
+  });
+});
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getTranscriber, TranscriptionError } from '@/lib/transcriber';
+
+// A few seconds of Opus is tens of KB; anything this large is a mistake
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+// The body as a Blob, or null once it passes maxBytes; stops reading there so it's never all in memory
+async function readAudio(request: Request, maxBytes: number): Promise<Blob | null> {
+  if (Number(request.headers.get('Content-Length')) > maxBytes) return null;
+  const type = request.headers.get('Content-Type') ?? '';
+  if (!request.body) return new Blob([], { type });
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body.getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(chunk.value);
+  }
+  return new Blob(chunks as BlobPart[], { type });
+}
+
+// Transcribes one recorded segment: raw audio body, language in ?lang=
+export async function POST(request: Request) {
+  const language = new URL(request.url).searchParams.get('lang') || 'en-US';
+  const audio = await readAudio(request, MAX_AUDIO_BYTES);
+
+  if (!audio) {
+    return NextResponse.json({ error: 'Audio segment too large' }, { status: 413 });
+  }
+  if (audio.size === 0) {
+    return NextResponse.json({ error: 'No audio received' }, { status: 400 });
+  }
+
+  const transcriber = getTranscriber();
+  if (!transcriber) {
+    return NextResponse.json({ error: 'Speech-to-text is not configured', code: 'transcriber_unavailable' }, { status: 503 });
+  }
+  try {
+    const text = await transcriber.transcribe(audio, language);
+    return NextResponse.json({ text: text.trim(), transcriber: transcriber.name });
+  } catch (error) {
+    console.error('Transcription failed:', error);
+    const status = error instanceof TranscriptionError && error.status === 429 ? 429 : 502;
+    return NextResponse.json({ error: 'Transcription failed' }, { status });
+  }
+}
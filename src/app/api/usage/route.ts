@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { getQuotaConfig } from '@/lib/env';
+import { readUsage } from '@/lib/usageStore';
+
+// Today's usage against the quotas, for the caller and for the whole demo
+export async function GET(request: Request) {
+  const user = getRequestUser(request);
+  const report = await readUsage((usage) => usage.report(getQuotaConfig(), user));
+  return NextResponse.json(report);
+}
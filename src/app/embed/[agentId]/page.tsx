@@ -0,0 +1,22 @@
+import EmbedWidget from '@/components/EmbedWidget';
+import { getEmbedAllowedOrigins, getIdleTimeoutMinutes } from '@/lib/env';
+
+export default async function EmbedPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ agentId: string }>;
+  searchParams: Promise<{ origin?: string | string[] }>;
+}) {
+  const { agentId } = await params;
+  const { origin } = await searchParams;
+
+  return (
+    <EmbedWidget
+      agentId={decodeURIComponent(agentId)}
+      idleTimeoutMinutes={getIdleTimeoutMinutes()}
+      allowedOrigins={getEmbedAllowedOrigins()}
+      hostOrigin={typeof origin === 'string' ? origin : null}
+    />
+  );
+}
@@ -0,0 +1,11 @@
+import { headers } from 'next/headers';
+import HistoryBrowser from '@/components/HistoryBrowser';
+import { isAdmin, USER_HEADER } from '@/lib/auth';
+import { getAdminUsers, getAuthConfig, isHistoryEnabled } from '@/lib/env';
+
+export default async function HistoryPage() {
+  // Set by the proxy for every request
+  const user = (await headers()).get(USER_HEADER) ?? 'anonymous';
+
+  return <HistoryBrowser enabled={isHistoryEnabled()} canRead={isAdmin(getAuthConfig(), getAdminUsers(), user)} />;
+}
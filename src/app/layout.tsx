@@ -1,28 +1,36 @@
 import type { Metadata } from "next";
 import { Manrope } from "next/font/google";
+import { I18nProvider } from "@/components/I18nProvider";
+import { translate } from "@/lib/i18n";
+import { getLocale } from "@/lib/i18n/server";
 import "./globals.css";
 
 const manrope = Manrope({
   variable: "--font-manrope",
-  subsets: ["latin"],
+  subsets: ["latin", "latin-ext"],
   weight: ["200", "300", "400", "500", "600", "700", "800"],
 });
 
-export const metadata: Metadata = {
-  title: "D-ID Agents 2.0 API Demo",
-  description: "D-ID Agents 2.0 API Demo with WebRTC streaming",
-  icons: {
-    icon: "https://studio.d-id.com/favicon/favicon-192x192.png",
-  },
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = await getLocale();
+  return {
+    title: translate(locale, "meta.title"),
+    description: translate(locale, "meta.description"),
+    icons: {
+      icon: "https://studio.d-id.com/favicon/favicon-192x192.png",
+    },
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getLocale();
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <head>
         <link rel="preconnect" href="https://fonts.googleapis.com" />
         <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
@@ -32,7 +40,7 @@ export default function RootLayout({
         className={`${manrope.variable} antialiased`}
         style={{ fontFamily: 'var(--font-manrope), sans-serif' }}
       >
-        {children}
+        <I18nProvider locale={locale}>{children}</I18nProvider>
       </body>
     </html>
   );
@@ -0,0 +1,29 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import LoginForm from '@/components/LoginForm';
+import { AUTH_COOKIE, isAuthEnabled, readSessionToken, safeReturnPath } from '@/lib/auth';
+import { getAuthConfig } from '@/lib/env';
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string | string[] }>;
+}) {
+  const { next } = await searchParams;
+  const returnPath = safeReturnPath(typeof next === 'string' ? next : null);
+  const auth = getAuthConfig();
+
+  // Nothing to sign in to, or already signed in
+  const cookieStore = await cookies();
+  if (!isAuthEnabled(auth) || readSessionToken(cookieStore.get(AUTH_COOKIE)?.value, auth)) {
+    redirect(returnPath);
+  }
+
+  return (
+    <LoginForm
+      returnPath={returnPath}
+      withAccounts={Object.keys(auth.users).length > 0}
+      withAccessCode={!!auth.accessCode}
+    />
+  );
+}
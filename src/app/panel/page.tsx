@@ -0,0 +1,21 @@
+import AgentPanel from '@/components/AgentPanel';
+import { isAuthEnabled } from '@/lib/auth';
+import { getAuthConfig, getIdleTimeoutMinutes } from '@/lib/env';
+
+export default async function PanelPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ agents?: string | string[] }>;
+}) {
+  const { agents } = await searchParams;
+  // ?agents=a,b or ?agents=a&agents=b
+  const initialAgentIds = [agents ?? []].flat().flatMap((value) => value.split(',')).map((id) => id.trim()).filter(Boolean);
+
+  return (
+    <AgentPanel
+      initialAgentIds={initialAgentIds}
+      idleTimeoutMinutes={getIdleTimeoutMinutes()}
+      authEnabled={isAuthEnabled(getAuthConfig())}
+    />
+  );
+}
@@ -0,0 +1,13 @@
+import PreflightPage from '@/components/PreflightPage';
+import { getSpeechProviderPreference } from '@/lib/env';
+
+export default async function Preflight({
+  searchParams,
+}: {
+  searchParams: Promise<{ agent?: string | string[] }>;
+}) {
+  const { agent } = await searchParams;
+  const initialAgentId = (typeof agent === 'string' && agent) || process.env.DID_AGENT_ID;
+
+  return <PreflightPage initialAgentId={initialAgentId} speechProvider={getSpeechProviderPreference()} />;
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { QUOTA_LIMIT_KEYS, type QuotaKind, type UsageReport } from '@/lib/quota';
+import type { MessageKey } from '@/lib/i18n';
+import { useI18n } from './I18nProvider';
+import styles from './AgentDemo.module.css';
+
+interface AccountBarProps {
+  // Sign-in is configured, so offer to sign out
+  authEnabled: boolean;
+  // Usage is fetched again whenever this changes, e.g. after a stream opens or a message is spoken
+  refreshKey?: string;
+}
+
+const USAGE_LABELS: Record<QuotaKind, MessageKey> = {
+  streams: 'usage.streams',
+  concurrent: 'usage.concurrent',
+  characters: 'usage.characters'
+};
+
+// The limit closest to running out, user or global; null when neither is set
+const tightestLimit = (report: UsageReport, kind: QuotaKind) =>
+  (['user', 'global'] as const)
+    .map((scope) => ({ used: report[scope][kind], limit: report.limits[scope][QUOTA_LIMIT_KEYS[kind]] }))
+    .filter(({ limit }) => limit > 0)
+    .sort((a, b) => a.limit - a.used - (b.limit - b.used))[0] ?? null;
+
+// Today's usage against the configured quotas, and sign-out when sign-in is on
+export default function AccountBar({ authEnabled, refreshKey }: AccountBarProps) {
+  const { locale, t } = useI18n();
+  const [report, setReport] = useState<UsageReport | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadUsage = async () => {
+      try {
+        const response = await fetch('/api/usage');
+        if (!response.ok) throw new Error(`Usage request failed with ${response.status}`);
+        const data: UsageReport = await response.json();
+        if (!cancelled) setReport(data);
+      } catch (error) {
+        console.warn('Failed to load usage:', error);
+      }
+    };
+    loadUsage();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    }
+    window.location.assign('/login');
+  };
+
+  const limits = report
+    ? (Object.keys(USAGE_LABELS) as QuotaKind[])
+        .map((kind) => ({ kind, limit: tightestLimit(report, kind) }))
+        .filter((item) => item.limit !== null)
+    : [];
+
+  if (limits.length === 0 && !authEnabled) return null;
+
+  return (
+    <div className={styles.accountBar}>
+      {report && limits.length > 0 && (
+        <span
+          className={styles.usageMeter}
+          title={t('usage.resets', { time: new Date(report.resetsAt).toLocaleString(locale) })}
+        >
+          {limits.map(({ kind, limit }) => limit && (
+            <span key={kind} className={limit.used >= limit.limit ? styles.usageExhausted : undefined}>
+              {t(USAGE_LABELS[kind], { used: limit.used.toLocaleString(locale), limit: limit.limit.toLocaleString(locale) })}
+            </span>
+          ))}
+        </span>
+      )}
+      {authEnabled && (
+        <button className={styles.signOutButton} onClick={handleSignOut}>
+          {t('auth.signOut')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,925 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useAgentConnection, type ConnectionStatus, type ReconnectAttempt, type StreamEvent, type UtteranceStatus } from '@/hooks/useAgentConnection';
+import { useAgentList } from '@/hooks/useAgentList';
+import { useSpeechInput, SPEECH_LANGUAGES, DEFAULT_SILENCE_TIMEOUT_MS } from '@/hooks/useSpeechInput';
+import { useSessionRecorder, type RecorderIssue } from '@/hooks/useSessionRecorder';
+import { useCaptions } from '@/hooks/useCaptions';
+import { usePresentation } from '@/hooks/usePresentation';
+import { useDialogFocus } from '@/hooks/useDialogFocus';
+import { isConnecting } from '@/lib/connectionState';
+import type { RecordingEventInput } from '@/lib/recording';
+import type { SpeechProviderPreference } from '@/lib/speechToText';
+import { uploadAudioScript, validateSsml, VOICE_PROVIDERS, type SpeakScript, type SsmlIssue, type VoiceProviderId, type VoiceSettings } from '@/lib/scripts';
+import { describeError } from '@/lib/i18n/errors';
+import type { MessageKey } from '@/lib/i18n';
+import { useI18n } from './I18nProvider';
+import AccountBar from './AccountBar';
+import LanguageSwitcher from './LanguageSwitcher';
+import PreflightChecks from './PreflightChecks';
+import PresentationControls from './PresentationControls';
+import RecordingsList from './RecordingsList';
+import StatsOverlay from './StatsOverlay';
+import styles from './AgentDemo.module.css';
+
+interface AgentDemoProps {
+  initialAgentId?: string;
+  idleTimeoutMinutes?: number;
+  speechProvider?: SpeechProviderPreference;
+  // Sign-in is configured (ACCESS_CODE or AUTH_USERS)
+  authEnabled?: boolean;
+  // Presentation to load and play once the stream is up (?presentation=)
+  initialPresentationId?: string;
+}
+
+// 'chat' asks the agent's LLM for an answer, 'speak' repeats the text verbatim
+type InputMode = 'chat' | 'speak';
+
+// What the textarea holds in speak mode
+type ComposeMode = 'text' | 'ssml' | 'audio';
+
+const COMPOSE_MODES: ComposeMode[] = ['text', 'ssml', 'audio'];
+
+type CaptionSize = 'small' | 'medium' | 'large';
+
+const CAPTION_SIZES: CaptionSize[] = ['small', 'medium', 'large'];
+
+const VOICE_PROVIDER_LABELS: Record<VoiceProviderId, string> = {
+  microsoft: 'Microsoft',
+  elevenlabs: 'ElevenLabs',
+  amazon: 'Amazon',
+  google: 'Google'
+};
+
+const UTTERANCE_STATUS_LABELS: Record<UtteranceStatus, MessageKey> = {
+  queued: 'utterance.queued',
+  sent: 'utterance.sent',
+  speaking: 'utterance.speaking',
+  done: 'utterance.done',
+  failed: 'utterance.failed'
+};
+
+const RECORDER_ISSUE_LABELS: Record<RecorderIssue, MessageKey> = {
+  unsupported: 'recording.unsupported',
+  micDenied: 'recording.micDenied',
+  failed: 'recording.failed'
+};
+
+const CONNECTION_STATUS_LABELS: Record<ConnectionStatus, MessageKey> = {
+  connecting: 'status.connecting',
+  connected: 'status.connected',
+  reconnecting: 'status.reconnecting',
+  failed: 'status.failed',
+  disconnected: 'status.disconnected',
+  idleTimeout: 'status.idleTimeout'
+};
+
+const captionSizeClasses: Record<CaptionSize, string> = {
+  small: styles.captionsSmall,
+  medium: styles.captionsMedium,
+  large: styles.captionsLarge
+};
+
+const utteranceStatusClasses: Record<UtteranceStatus, string> = {
+  queued: styles.statusQueued,
+  sent: styles.statusSent,
+  speaking: styles.statusSpeaking,
+  done: styles.statusDone,
+  failed: styles.statusFailed
+};
+
+// Speech recognition languages to try first for each UI locale
+const preferredSpeechLanguage = (locale: string) =>
+  SPEECH_LANGUAGES.find((language) => language.code.startsWith(`${locale}-`))?.code ?? SPEECH_LANGUAGES[0].code;
+
+export default function AgentDemo({ initialAgentId, idleTimeoutMinutes, speechProvider, authEnabled = false, initialPresentationId }: AgentDemoProps) {
+  const { locale, t } = useI18n();
+  const [showStartOverlay, setShowStartOverlay] = useState(true);
+  const [showPreflight, setShowPreflight] = useState(false);
+  const [isConnected, setIsConnected] = useState(false);
+  const [selectedAgentId, setSelectedAgentId] = useState(initialAgentId ?? '');
+  // null until the agent loads, so the fallback name follows the locale
+  const [agentName, setAgentName] = useState<string | null>(null);
+  const [agentThumbnail, setAgentThumbnail] = useState<string | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState<ReconnectAttempt | null>(null);
+  const [message, setMessage] = useState('');
+  const [inputMode, setInputMode] = useState<InputMode>('chat');
+  const [composeMode, setComposeMode] = useState<ComposeMode>('text');
+  const [voice, setVoice] = useState<VoiceSettings>({ provider: 'microsoft', voiceId: '', style: '' });
+  const [ssmlIssue, setSsmlIssue] = useState<SsmlIssue | null>(null);
+  const [isUploadingAudio, setIsUploadingAudio] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [isAwaitingAnswer, setIsAwaitingAnswer] = useState(false);
+  const [isBargeInEnabled, setIsBargeInEnabled] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [forceClips, setForceClips] = useState(false);
+  const [speechLanguage, setSpeechLanguage] = useState(() => preferredSpeechLanguage(locale));
+  const [isHandsFree, setIsHandsFree] = useState(false);
+  const [silenceSeconds, setSilenceSeconds] = useState(DEFAULT_SILENCE_TIMEOUT_MS / 1000);
+  const [error, setError] = useState<Error | null>(null);
+  const [includeMicInRecording, setIncludeMicInRecording] = useState(false);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [captionSize, setCaptionSize] = useState<CaptionSize>('medium');
+  
+  const textAreaRef = useRef<HTMLTextAreaElement>(null);
+  const audioFileRef = useRef<HTMLInputElement>(null);
+  const conversationRef = useRef<HTMLDivElement>(null);
+  const streamVideoRef = useRef<HTMLVideoElement>(null);
+  const idleVideoRef = useRef<HTMLVideoElement>(null);
+  const startOverlayRef = useRef<HTMLDivElement>(null);
+  const disconnectedRef = useRef<HTMLDivElement>(null);
+
+  // Stream events reach the recorder, which is set up after the connection hook
+  const streamEventRef = useRef<(event: StreamEvent) => void>(() => {});
+  const handleStreamEvent = useCallback((event: StreamEvent) => streamEventRef.current(event), []);
+
+  const handleConnectionStatusChange = useCallback((status: ConnectionStatus, attempt?: ReconnectAttempt) => {
+    setConnectionStatus(status);
+    setReconnectAttempt(attempt ?? null);
+  }, []);
+
+  const { agents, isLoading: isLoadingAgents } = useAgentList();
+  // Fall back to the first agent on the account when nothing was preset
+  const agentId = selectedAgentId || agents[0]?.id || '';
+  
+  const {
+    connect,
+    disconnect,
+    speak,
+    sendChatMessage,
+    chatMessages,
+    utterances,
+    cancelUtterance,
+    moveUtterance,
+    interrupt,
+    isAgentSpeaking,
+    isReconnecting,
+    isStreamReady,
+    isStreamPlaying,
+    isFluent,
+    playbackMode,
+    clipModeReason,
+    isClipRendering,
+    connectionState,
+    session,
+    remoteStream,
+    peerConnection,
+    streamId,
+    sessionId
+  } = useAgentConnection({
+    agentId,
+    onConnectionChange: setIsConnected,
+    onAgentNameChange: setAgentName,
+    onAgentThumbnailChange: setAgentThumbnail,
+    onConnectionStatusChange: handleConnectionStatusChange,
+    onError: setError,
+    onStreamEvent: handleStreamEvent,
+    reconnect: { maxAttempts: 5 },
+    idleTimeoutMinutes,
+    forceClips,
+    streamVideoRef,
+    idleVideoRef
+  });
+
+  const {
+    isRecording,
+    isSupported: isRecordingSupported,
+    recordings,
+    issue: recorderIssue,
+    start: startRecording,
+    stop: stopRecording,
+    logEvent: logRecordingEvent,
+    removeRecording
+  } = useSessionRecorder({
+    remoteStream,
+    includeMic: includeMicInRecording,
+    agentName: agentName ?? undefined
+  });
+
+  const {
+    caption,
+    hasTranscript,
+    logEvent: logCaptionEvent,
+    downloadTranscript
+  } = useCaptions({ agentName: agentName ?? undefined });
+
+  // The recording's transcript and the live captions follow the same events
+  const logTranscriptEvent = useCallback((event: RecordingEventInput) => {
+    logRecordingEvent(event);
+    logCaptionEvent(event);
+  }, [logRecordingEvent, logCaptionEvent]);
+
+  useEffect(() => {
+    streamEventRef.current = (event) => logTranscriptEvent({ type: 'stream', state: event.type, videoId: event.videoId });
+  }, [logTranscriptEvent]);
+
+  // Speak items enter the transcript once D-ID accepts them, so cancelled ones never do.
+  // Chat answers played as clips are already there as assistant messages.
+  const loggedUtteranceIdsRef = useRef(new Set<string>());
+  useEffect(() => {
+    for (const utterance of utterances) {
+      if (!utterance.videoId || utterance.chat || loggedUtteranceIdsRef.current.has(utterance.id)) continue;
+      loggedUtteranceIdsRef.current.add(utterance.id);
+      logTranscriptEvent({ type: 'message', role: 'speak', text: utterance.text, videoId: utterance.videoId });
+    }
+  }, [utterances, logTranscriptEvent]);
+
+  // Recording ends with the session; a reconnect keeps it going
+  useEffect(() => {
+    if (!isConnected && isRecording) stopRecording();
+  }, [isConnected, isRecording, stopRecording]);
+
+  const presentation = usePresentation({ speak, interrupt, cancelUtterance, utterances });
+  const { select: selectPresentation, start: startPresentation, noteInteraction, script: presentationScript } = presentation;
+
+  // ?presentation= plays once, as soon as both the script and the stream are ready
+  const autoStartPresentationRef = useRef(Boolean(initialPresentationId));
+  useEffect(() => {
+    if (initialPresentationId) selectPresentation(initialPresentationId);
+  }, [initialPresentationId, selectPresentation]);
+
+  useEffect(() => {
+    if (!autoStartPresentationRef.current || !isStreamReady || !presentationScript) return;
+    autoStartPresentationRef.current = false;
+    startPresentation();
+  }, [isStreamReady, presentationScript, startPresentation]);
+
+  // Messages typed while reconnecting are queued by the hook
+  const canSend = isStreamReady || isReconnecting;
+
+  // Barge-in: user speech cuts the agent off. A ref keeps the speech callbacks current.
+  const bargeInRef = useRef(() => {});
+  useEffect(() => {
+    bargeInRef.current = () => {
+      if (isBargeInEnabled && isAgentSpeaking) {
+        console.log('Barge-in: interrupting agent');
+        interrupt();
+      }
+    };
+  }, [isBargeInEnabled, isAgentSpeaking, interrupt]);
+
+  const {
+    status: speechStatus,
+    isListening,
+    isSupported: isSpeechSupported,
+    interimTranscript,
+    error: speechError,
+    start: startListening,
+    stop: stopListening
+  } = useSpeechInput({
+    language: speechLanguage,
+    provider: speechProvider,
+    handsFree: isHandsFree,
+    silenceTimeoutMs: silenceSeconds * 1000,
+    onSpeech: () => {
+      noteInteraction();
+      bargeInRef.current();
+    },
+    onFinalTranscript: (transcript) => {
+      if (textAreaRef.current) {
+        textAreaRef.current.value += transcript;
+      }
+    },
+    onAutoSend: () => handleSendMessage()
+  });
+
+  const handleAgentChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSelectedAgentId(e.target.value);
+    setConnectionStatus(null);
+  };
+
+  const handleStart = async () => {
+    setError(null);
+    setShowStartOverlay(false);
+    document.body.classList.remove('blurred');
+    await connect();
+  };
+
+  // Speak mode: the textarea as a script of the chosen kind, or null if it can't be sent
+  const buildScript = (value: string): SpeakScript | null => {
+    if (composeMode === 'audio') return { type: 'audio', audioUrl: value };
+    if (composeMode === 'ssml') {
+      const issue = validateSsml(value);
+      setSsmlIssue(issue);
+      if (issue) return null;
+      return { type: 'ssml', ssml: value, voice };
+    }
+    return { type: 'text', text: value, voice };
+  };
+
+  const handleSendMessage = async () => {
+    noteInteraction();
+    if (textAreaRef.current && canSend) {
+      const message = textAreaRef.current.value.trim();
+      if (message) {
+        if (inputMode === 'chat') {
+          textAreaRef.current.value = '';
+          setIsAwaitingAnswer(true);
+          logTranscriptEvent({ type: 'message', role: 'user', text: message });
+          const answer = await sendChatMessage(message);
+          if (answer) logTranscriptEvent({ type: 'message', role: 'assistant', text: answer });
+          setIsAwaitingAnswer(false);
+        } else {
+          const script = buildScript(message);
+          if (!script) return;
+          textAreaRef.current.value = '';
+          speak(script);
+        }
+      }
+    }
+  };
+
+  const handleComposeModeChange = (mode: ComposeMode) => {
+    setComposeMode(mode);
+    setSsmlIssue(null);
+    setUploadError(null);
+  };
+
+  // Uploads the chosen file and puts its URL in the textarea, ready to send
+  const handleAudioFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setUploadError(null);
+    setIsUploadingAudio(true);
+    try {
+      const url = await uploadAudioScript(file);
+      if (textAreaRef.current) {
+        textAreaRef.current.value = url;
+      }
+    } catch (error) {
+      console.error('Audio upload failed:', error);
+      setUploadError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsUploadingAudio(false);
+    }
+  };
+
+  // Keep the latest message in view
+  useEffect(() => {
+    if (conversationRef.current) {
+      conversationRef.current.scrollTop = conversationRef.current.scrollHeight;
+    }
+  }, [chatMessages, isAwaitingAnswer]);
+
+  // Keyboard users land on the overlay's button; the start overlay covers the page, so Tab stays in it
+  useDialogFocus(startOverlayRef, showStartOverlay && Boolean(agentId), true);
+  useDialogFocus(disconnectedRef, !isConnected && !showStartOverlay);
+
+  // Once started, typing goes straight to the message box
+  useEffect(() => {
+    if (!showStartOverlay) textAreaRef.current?.focus();
+  }, [showStartOverlay]);
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    noteInteraction();
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSendMessage();
+    }
+  };
+
+  const handleSpeechToggle = () => {
+    noteInteraction();
+    if (isListening) {
+      stopListening();
+      return;
+    }
+    if (textAreaRef.current) {
+      textAreaRef.current.value = '';
+    }
+    startListening();
+    bargeInRef.current();
+  };
+
+  const speechStatusMessage =
+    speechStatus === 'unsupported' ? t('speech.unsupported') :
+    speechStatus === 'permission-denied' ? t('speech.permissionDenied') :
+    speechStatus === 'error' ? speechError :
+    null;
+
+  const connectionStatusMessage =
+    connectionStatus === 'reconnecting' && reconnectAttempt ? t('status.reconnectingAttempt', { ...reconnectAttempt }) :
+    connectionStatus ? t(CONNECTION_STATUS_LABELS[connectionStatus]) :
+    '';
+
+  const ssmlIssueMessage =
+    ssmlIssue?.code === 'malformed' ? t('ssml.malformed', { detail: ssmlIssue.detail ?? '' }) :
+    ssmlIssue?.code === 'unsupportedTag' ? t('ssml.unsupportedTag', { detail: ssmlIssue.detail ?? '' }) :
+    ssmlIssue ? t('ssml.empty') :
+    null;
+
+  const speakPlaceholder =
+    composeMode === 'ssml' ? t('compose.ssmlPlaceholder') :
+    composeMode === 'audio' ? t('compose.audioPlaceholder') :
+    t('input.speakPlaceholder');
+
+  const errorKey = error && describeError(error);
+  const errorMessage = errorKey ? t(errorKey) : error?.message;
+  const displayedAgentName = agentName ?? t('agent.defaultName');
+
+  return (
+    <div className={styles.container}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>
+          <img 
+            src="https://studio.d-id.com/assets/did_logo_dark-17fd213e.svg" 
+            alt={t('header.logoAlt')} 
+            className={styles.logo}
+          />
+          {t('header.title')}
+        </h1>
+        <div className={styles.headerActions}>
+          <AccountBar
+            authEnabled={authEnabled}
+            refreshKey={`${connectionStatus}:${chatMessages.length}:${isAgentSpeaking}`}
+          />
+          <LanguageSwitcher />
+        </div>
+      </header>
+
+      {showStartOverlay && (
+        <div
+          ref={startOverlayRef}
+          className={styles.startOverlay}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="start-title"
+          aria-describedby="start-subtitle"
+        >
+          <div className={styles.startContent}>
+            <h2 id="start-title">{t('start.title')}</h2>
+            <p id="start-subtitle">{t('start.subtitle')}</p>
+            <button 
+              className={styles.startButton}
+              onClick={handleStart}
+              disabled={!agentId}
+            >
+              {t('start.button')}
+            </button>
+            <div className={styles.preflightToggle}>
+              <button
+                className={styles.linkButton}
+                onClick={() => setShowPreflight((prev) => !prev)}
+                aria-expanded={showPreflight}
+              >
+                {showPreflight ? t('start.hideCheck') : t('start.checkSetup')}
+              </button>
+              {showPreflight && (
+                <Link href={agentId ? `/preflight?agent=${encodeURIComponent(agentId)}` : '/preflight'} className={styles.linkButton}>
+                  {t('preflight.fullPage')}
+                </Link>
+              )}
+            </div>
+            {showPreflight && (
+              <PreflightChecks agentId={agentId} speechProvider={speechProvider} autoRun compact />
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className={`${styles.mainContainer} ${showStartOverlay ? styles.hidden : ''}`}>
+        <div className={styles.agentHeader}>
+          <div className={styles.agentIdentity}>
+            {agentThumbnail && (
+              <img src={agentThumbnail} alt="" className={styles.agentThumbnail} />
+            )}
+            <span className={styles.agentName}>{displayedAgentName}</span>
+          </div>
+          <select
+            className={styles.agentSelect}
+            value={agentId}
+            onChange={handleAgentChange}
+            disabled={isLoadingAgents}
+            title={t('agent.select')}
+          >
+            {isLoadingAgents && <option value={agentId}>{t('agent.loading')}</option>}
+            {!isLoadingAgents && agentId && !agents.some((agent) => agent.id === agentId) && (
+              <option value={agentId}>{agentId}</option>
+            )}
+            {agents.map((agent) => (
+              <option key={agent.id} value={agent.id}>{agent.name}</option>
+            ))}
+          </select>
+          {isConnected && (
+            <button
+              className={styles.disconnectButton}
+              onClick={disconnect}
+              title={t('session.disconnectTitle')}
+            >
+              {t('session.disconnect')}
+            </button>
+          )}
+          {isConnected && (
+            <span className={styles.recordingControls}>
+              <button
+                className={`${styles.recordButton} ${isRecording ? styles.recordButtonActive : ''}`}
+                onClick={isRecording ? stopRecording : startRecording}
+                disabled={!isRecordingSupported}
+                title={isRecordingSupported ? t('recording.toggleTitle') : t('recording.unsupported')}
+              >
+                {isRecording ? t('recording.stop') : t('recording.start')}
+              </button>
+              <label className={styles.optionToggle} title={t('recording.includeMicTitle')}>
+                <input
+                  type="checkbox"
+                  checked={includeMicInRecording}
+                  onChange={(e) => setIncludeMicInRecording(e.target.checked)}
+                  disabled={isRecording}
+                />
+                {t('recording.includeMic')}
+              </label>
+            </span>
+          )}
+          {recorderIssue && (
+            <span className={styles.speechStatus} role="status">{t(RECORDER_ISSUE_LABELS[recorderIssue])}</span>
+          )}
+          <span
+            className={`${styles.connectionStatus} ${isReconnecting ? styles.reconnecting : ''}`}
+            role="status"
+            aria-live="polite"
+            aria-atomic="true"
+          >
+            {connectionStatusMessage}
+          </span>
+          {isConnected && (
+            <span
+              className={`${styles.playbackMode} ${playbackMode === 'clip' ? styles.playbackModeClip : ''}`}
+              title={clipModeReason ? t(`playback.${clipModeReason}`) : undefined}
+            >
+              {t(`playback.${playbackMode}`)}
+            </span>
+          )}
+          {errorMessage && (
+            <span className={styles.errorMessage} role="alert">
+              {errorMessage}
+              <button
+                className={styles.dismissButton}
+                onClick={() => setError(null)}
+                title={t('error.dismiss')}
+              >
+                ×
+              </button>
+            </span>
+          )}
+        </div>
+
+        <div className={styles.videoWrapper}>
+          <video 
+            ref={streamVideoRef}
+            loop 
+            playsInline 
+            className={styles.video}
+            style={{ opacity: 0 }}
+            onLoadStart={() => console.log('Stream video load start')}
+            onLoadedData={() => console.log('Stream video loaded data')}
+            onCanPlay={() => console.log('Stream video can play')}
+            onPlay={() => console.log('Stream video playing')}
+            onError={(e) => console.log('Stream video error:', e)}
+          />
+          <video 
+            ref={idleVideoRef}
+            autoPlay 
+            loop 
+            playsInline 
+            className={styles.video}
+            style={{ opacity: 1 }}
+            onLoadStart={() => console.log('Idle video load start')}
+            onLoadedData={() => console.log('Idle video loaded data')}
+            onCanPlay={() => console.log('Idle video can play')}
+            onPlay={() => console.log('Idle video playing')}
+          />
+          {isClipRendering && (
+            <div className={styles.clipRendering} role="status">
+              <span className={styles.clipSpinner} aria-hidden="true" />
+              {t('playback.rendering')}
+            </div>
+          )}
+          {showCaptions && caption && (
+            <div className={`${styles.captions} ${captionSizeClasses[captionSize]}`}>
+              <span className={styles.captionText}>{caption}</span>
+            </div>
+          )}
+          {showDiagnostics && <StatsOverlay session={session} />}
+        </div>
+
+        {inputMode === 'chat' && (
+          <div className={styles.conversation} ref={conversationRef}>
+            {chatMessages.map((chatMessage, index) => (
+              <div
+                key={`${chatMessage.created_at}-${index}`}
+                className={`${styles.chatMessage} ${chatMessage.role === 'user' ? styles.userMessage : styles.assistantMessage}`}
+              >
+                {chatMessage.content}
+              </div>
+            ))}
+            {isAwaitingAnswer && (
+              <div className={`${styles.chatMessage} ${styles.assistantMessage} ${styles.pendingMessage}`}>…</div>
+            )}
+          </div>
+        )}
+
+        {inputMode === 'speak' && utterances.length > 0 && (
+          <ol className={styles.utteranceQueue}>
+            {utterances.map((utterance) => {
+              const queuedIndex = utterances.filter((u) => u.status === 'queued').indexOf(utterance);
+              return (
+                <li key={utterance.id} className={styles.utterance}>
+                  <span className={styles.utteranceText}>{utterance.text}</span>
+                  <span
+                    className={`${styles.utteranceStatus} ${utteranceStatusClasses[utterance.status]}`}
+                    title={utterance.error ?? undefined}
+                  >
+                    {t(UTTERANCE_STATUS_LABELS[utterance.status])}
+                  </span>
+                  {utterance.status === 'queued' && (
+                    <span className={styles.utteranceActions}>
+                      <button onClick={() => moveUtterance(utterance.id, queuedIndex - 1)} title={t('utterance.moveUp')}>↑</button>
+                      <button onClick={() => moveUtterance(utterance.id, queuedIndex + 1)} title={t('utterance.moveDown')}>↓</button>
+                      <button onClick={() => cancelUtterance(utterance.id)} title={t('utterance.cancel')}>×</button>
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        <div className={styles.modeSwitch}>
+          <button
+            className={`${styles.modeButton} ${inputMode === 'chat' ? styles.modeButtonActive : ''}`}
+            onClick={() => setInputMode('chat')}
+            title={t('mode.chatTitle')}
+          >
+            {t('mode.chat')}
+          </button>
+          <button
+            className={`${styles.modeButton} ${inputMode === 'speak' ? styles.modeButtonActive : ''}`}
+            onClick={() => setInputMode('speak')}
+            title={t('mode.speakTitle')}
+          >
+            {t('mode.speak')}
+          </button>
+          <label className={styles.optionToggle} title={t('options.bargeInTitle')}>
+            <input
+              type="checkbox"
+              checked={isBargeInEnabled}
+              onChange={(e) => setIsBargeInEnabled(e.target.checked)}
+            />
+            {t('options.bargeIn')}
+          </label>
+          <label className={styles.optionToggle} title={t('options.diagnosticsTitle')}>
+            <input
+              type="checkbox"
+              checked={showDiagnostics}
+              onChange={(e) => setShowDiagnostics(e.target.checked)}
+            />
+            {t('options.diagnostics')}
+          </label>
+          <label className={styles.optionToggle} title={t('options.forceClipsTitle')}>
+            <input
+              type="checkbox"
+              checked={forceClips}
+              onChange={(e) => setForceClips(e.target.checked)}
+            />
+            {t('options.forceClips')}
+          </label>
+        </div>
+
+        <div className={styles.captionOptions}>
+          <label className={styles.optionToggle} title={t('captions.toggleTitle')}>
+            <input
+              type="checkbox"
+              checked={showCaptions}
+              onChange={(e) => setShowCaptions(e.target.checked)}
+            />
+            {t('captions.toggle')}
+          </label>
+          <select
+            className={styles.languageSelect}
+            value={captionSize}
+            onChange={(e) => setCaptionSize(e.target.value as CaptionSize)}
+            disabled={!showCaptions}
+            title={t('captions.size')}
+            aria-label={t('captions.size')}
+          >
+            {CAPTION_SIZES.map((size) => (
+              <option key={size} value={size}>{t(`captions.${size}`)}</option>
+            ))}
+          </select>
+          <button
+            className={styles.modeButton}
+            onClick={() => downloadTranscript('vtt')}
+            disabled={!hasTranscript}
+            title={t('captions.downloadTitle')}
+          >
+            {t('captions.downloadVtt')}
+          </button>
+          <button
+            className={styles.modeButton}
+            onClick={() => downloadTranscript('srt')}
+            disabled={!hasTranscript}
+            title={t('captions.downloadTitle')}
+          >
+            {t('captions.downloadSrt')}
+          </button>
+        </div>
+
+        <PresentationControls presentation={presentation} isStreamReady={isStreamReady} />
+
+        {inputMode === 'speak' && (
+          <div className={styles.composeOptions}>
+            <select
+              className={styles.languageSelect}
+              value={composeMode}
+              onChange={(e) => handleComposeModeChange(e.target.value as ComposeMode)}
+              title={t('compose.label')}
+            >
+              {COMPOSE_MODES.map((mode) => (
+                <option key={mode} value={mode}>{t(`compose.${mode}`)}</option>
+              ))}
+            </select>
+            {composeMode === 'audio' ? (
+              <>
+                <input
+                  ref={audioFileRef}
+                  type="file"
+                  accept="audio/*"
+                  hidden
+                  onChange={handleAudioFileChange}
+                />
+                <button
+                  className={styles.modeButton}
+                  onClick={() => audioFileRef.current?.click()}
+                  disabled={isUploadingAudio}
+                >
+                  {isUploadingAudio ? t('compose.uploading') : t('compose.upload')}
+                </button>
+              </>
+            ) : (
+              <>
+                <select
+                  className={styles.languageSelect}
+                  value={voice.provider}
+                  onChange={(e) => setVoice((prev) => ({ ...prev, provider: e.target.value as VoiceProviderId }))}
+                  title={t('voice.provider')}
+                >
+                  {VOICE_PROVIDERS.map((provider) => (
+                    <option key={provider} value={provider}>{VOICE_PROVIDER_LABELS[provider]}</option>
+                  ))}
+                </select>
+                <input
+                  className={styles.voiceInput}
+                  value={voice.voiceId}
+                  onChange={(e) => setVoice((prev) => ({ ...prev, voiceId: e.target.value }))}
+                  placeholder={t('voice.idPlaceholder')}
+                  title={t('voice.id')}
+                />
+                {voice.provider === 'microsoft' && (
+                  <input
+                    className={styles.voiceInput}
+                    value={voice.style}
+                    onChange={(e) => setVoice((prev) => ({ ...prev, style: e.target.value }))}
+                    placeholder={t('voice.stylePlaceholder')}
+                    title={t('voice.style')}
+                    disabled={!voice.voiceId.trim()}
+                  />
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <div className={styles.speechOptions}>
+          <select
+            className={styles.languageSelect}
+            value={speechLanguage}
+            onChange={(e) => setSpeechLanguage(e.target.value)}
+            title={t('speech.language')}
+          >
+            {SPEECH_LANGUAGES.map((language) => (
+              <option key={language.code} value={language.code}>{language.label}</option>
+            ))}
+          </select>
+          <label className={styles.optionToggle} title={t('speech.handsFreeTitle')}>
+            <input
+              type="checkbox"
+              checked={isHandsFree}
+              onChange={(e) => setIsHandsFree(e.target.checked)}
+            />
+            {t('speech.handsFree')}
+          </label>
+          {isHandsFree && (
+            <label className={styles.optionToggle} title={t('speech.silenceTitle')}>
+              {t('speech.silenceBefore')}
+              <input
+                type="number"
+                className={styles.silenceInput}
+                min={0.5}
+                max={10}
+                step={0.5}
+                value={silenceSeconds}
+                onChange={(e) => setSilenceSeconds(Math.max(0.5, Number(e.target.value) || DEFAULT_SILENCE_TIMEOUT_MS / 1000))}
+              />
+              {t('speech.silenceAfter')}
+            </label>
+          )}
+        </div>
+
+        <div className={styles.inputsContainer}>
+          <div className={styles.mainInput}>
+            <textarea
+              ref={textAreaRef}
+              placeholder={inputMode === 'chat' ? t('input.chatPlaceholder') : speakPlaceholder}
+              className={styles.textArea}
+              onKeyPress={handleKeyPress}
+              autoFocus
+            />
+            <button
+              className={`${styles.roundButton} ${styles.speechButton}`}
+              onClick={handleSpeechToggle}
+              disabled={!isStreamReady || !isSpeechSupported}
+              title={isSpeechSupported ? t('speech.toggle') : t('speech.unsupported')}
+              aria-label={isListening ? t('speech.stopListening') : t('speech.startListening')}
+              aria-pressed={isListening}
+            >
+              {isListening ? (
+                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" aria-hidden="true" focusable="false">
+                  <path stroke="white" strokeWidth="1.5" d="M7 8a5 5 0 0 1 10 0v3a5 5 0 0 1-10 0V8Z"/>
+                  <path stroke="white" strokeLinecap="round" strokeWidth="1.5" d="M11 8h2M10 11h4M20 10v1a8 8 0 1 1-16 0v-1M12 19v3"/>
+                </svg>
+              ) : (
+                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" aria-hidden="true" focusable="false">
+                  <path stroke="currentColor" strokeWidth="1.5" d="M7 8a5 5 0 0 1 10 0v3a5 5 0 0 1-10 0V8Z"/>
+                  <path stroke="currentColor" strokeLinecap="round" strokeWidth="1.5" d="M11 8h2M10 11h4M20 10v1a8 8 0 1 1-16 0v-1M12 19v3"/>
+                </svg>
+              )}
+            </button>
+            {isAgentSpeaking && (
+              <button
+                className={`${styles.roundButton} ${styles.stopButton}`}
+                onClick={interrupt}
+                title={t('input.stop')}
+                aria-label={t('input.stop')}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" aria-hidden="true" focusable="false">
+                  <rect x="6" y="6" width="12" height="12" rx="2" fill="currentColor" />
+                </svg>
+              </button>
+            )}
+            <button
+              className={`${styles.roundButton} ${styles.actionButton}`}
+              onClick={handleSendMessage}
+              disabled={!canSend}
+              title={t('input.send')}
+              aria-label={t('input.send')}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="26" height="27" viewBox="0 0 26 27" fill="none" aria-hidden="true" focusable="false">
+                <path d="M10.8753 20.9288L15.8809 18.3172C20.2537 16.0357 22.4402 14.895 22.4402 13.0885C22.4402 11.2821 20.2537 10.1413 15.8809 7.85984L10.8753 5.24821C7.34598 3.40683 5.58133 2.48614 4.5583 2.76876C3.58508 3.03761 2.82497 3.83076 2.56732 4.84629C2.29649 5.91381 3.17881 7.75518 4.94346 11.4379C5.16215 11.8943 5.60928 12.198 6.09829 12.2003L14.0891 12.2391C14.5386 12.2413 14.9014 12.6234 14.8993 13.0925C14.8972 13.5616 14.531 13.9401 14.0815 13.9379L6.21975 13.8997C5.68076 13.8971 5.1845 14.2361 4.94346 14.7391C3.17882 18.4218 2.29648 20.2632 2.56732 21.3307C2.82497 22.3463 3.58507 23.1394 4.5583 23.4083C5.58133 23.6909 7.34599 22.7702 10.8753 20.9288Z" fill="currentColor" />
+              </svg>
+            </button>
+          </div>
+          {isListening && interimTranscript && (
+            <div className={styles.interimTranscript}>{interimTranscript}</div>
+          )}
+          {inputMode === 'speak' && (ssmlIssueMessage || uploadError) && (
+            <div className={styles.speechStatus} role="alert">
+              {ssmlIssueMessage ?? t('compose.uploadFailed', { message: uploadError ?? '' })}
+            </div>
+          )}
+          {speechStatusMessage && (
+            <div className={styles.speechStatus} role="status">{speechStatusMessage}</div>
+          )}
+        </div>
+
+        <RecordingsList recordings={recordings} onRemove={removeRecording} />
+      </div>
+
+      {!isConnected && !showStartOverlay && (
+        <div
+          ref={disconnectedRef}
+          className={styles.disconnectedContainer}
+          role="dialog"
+          aria-labelledby="disconnected-title"
+          aria-describedby="disconnected-question"
+        >
+          <h2 id="disconnected-title">{t('disconnected.title', { name: displayedAgentName })}</h2>
+          <br />
+          <h3 id="disconnected-question">{t('disconnected.question')}</h3>
+          <br />
+          <button 
+            className={styles.reconnectButton}
+            onClick={handleStart}
+            disabled={isConnecting(connectionState)}
+            title={t('disconnected.buttonTitle')}
+          >
+            {t('disconnected.button')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,199 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useAgentList } from '@/hooks/useAgentList';
+import { useAgentSessions } from '@/hooks/useAgentSession';
+import { fetchApiConfig, type AgentSession } from '@/lib/agentSession';
+import { AgentSessionManager, ALL_SESSIONS, type SessionTarget } from '@/lib/agentSessionManager';
+import { useI18n } from './I18nProvider';
+import AccountBar from './AccountBar';
+import AgentTile from './AgentTile';
+import LanguageSwitcher from './LanguageSwitcher';
+import styles from './AgentPanel.module.css';
+
+interface AgentPanelProps {
+  // Agents to open on load, from ?agents=a,b
+  initialAgentIds: string[];
+  idleTimeoutMinutes?: number;
+  authEnabled?: boolean;
+}
+
+type InputMode = 'chat' | 'speak';
+
+// Several agents side by side; each message goes to one of them or to all
+export default function AgentPanel({ initialAgentIds, idleTimeoutMinutes, authEnabled = false }: AgentPanelProps) {
+  const { t } = useI18n();
+  const [manager, setManager] = useState<AgentSessionManager | null>(null);
+  const [agentToAdd, setAgentToAdd] = useState('');
+  const [target, setTarget] = useState<SessionTarget>(ALL_SESSIONS);
+  const [inputMode, setInputMode] = useState<InputMode>('chat');
+  const [message, setMessage] = useState('');
+  // Bumped on every send so the usage meter catches up
+  const [sentCount, setSentCount] = useState(0);
+  const { agents, isLoading: isLoadingAgents } = useAgentList();
+  const sessions = useAgentSessions(manager);
+
+  // A refresh (e.g. a locale switch) sends a new array; only a different list should reset the panel
+  const initialAgents = initialAgentIds.join(',');
+
+  // Sessions need the proxy config; the manager is built once it has loaded
+  useEffect(() => {
+    let cancelled = false;
+    let created: AgentSessionManager | null = null;
+
+    const createManager = async () => {
+      try {
+        const config = await fetchApiConfig();
+        if (cancelled) return;
+        created = new AgentSessionManager(config, { idleTimeoutMinutes });
+        initialAgents.split(',').filter(Boolean).forEach((agentId) => created?.add(agentId));
+        setManager(created);
+      } catch (error) {
+        console.error('Failed to load API config:', error);
+      }
+    };
+    createManager();
+
+    return () => {
+      cancelled = true;
+      created?.closeAll();
+    };
+  }, [initialAgents, idleTimeoutMinutes]);
+
+  const selectedAgentId = agentToAdd || agents[0]?.id || '';
+  // A removed session can't stay the target
+  const activeTarget = target === ALL_SESSIONS || sessions.some((session) => session.id === target) ? target : ALL_SESSIONS;
+
+  // Agent name, numbered when the same agent is open more than once
+  const labelFor = (session: AgentSession) => {
+    const name = agents.find((agent) => agent.id === session.agentId)?.name ?? session.agentId;
+    const sameAgent = sessions.filter((item) => item.agentId === session.agentId);
+    return sameAgent.length > 1 ? `${name} #${sameAgent.indexOf(session) + 1}` : name;
+  };
+
+  const handleSend = () => {
+    const text = message.trim();
+    if (!manager || !text) return;
+    setMessage('');
+    setSentCount((count) => count + 1);
+    if (inputMode === 'chat') {
+      manager.sendChatMessage(text, activeTarget);
+    } else {
+      manager.speak(text, activeTarget);
+    }
+  };
+
+  return (
+    <div className={styles.panel}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>{t('panel.title')}</h1>
+        <div className={styles.headerActions}>
+          <Link href="/" className={styles.link}>{t('panel.singleLink')}</Link>
+          <AccountBar authEnabled={authEnabled} refreshKey={`${sessions.length}:${sentCount}`} />
+          <LanguageSwitcher />
+        </div>
+      </header>
+
+      <div className={styles.toolbar}>
+        <select
+          className={styles.select}
+          value={selectedAgentId}
+          onChange={(e) => setAgentToAdd(e.target.value)}
+          disabled={isLoadingAgents}
+          title={t('agent.select')}
+        >
+          {isLoadingAgents && <option value="">{t('agent.loading')}</option>}
+          {agents.map((agent) => (
+            <option key={agent.id} value={agent.id}>{agent.name}</option>
+          ))}
+        </select>
+        <button
+          className={styles.toolbarButton}
+          onClick={() => manager?.add(selectedAgentId)}
+          disabled={!manager || !selectedAgentId}
+          title={t('panel.addAgentTitle')}
+        >
+          {t('panel.addAgent')}
+        </button>
+        <button
+          className={styles.toolbarButton}
+          onClick={() => manager?.connectAll()}
+          disabled={sessions.length === 0}
+        >
+          {t('panel.connectAll')}
+        </button>
+        <button
+          className={styles.toolbarButton}
+          onClick={() => manager?.disconnectAll()}
+          disabled={sessions.length === 0}
+        >
+          {t('panel.disconnectAll')}
+        </button>
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className={styles.empty}>{t('panel.empty')}</p>
+      ) : (
+        <div className={styles.grid}>
+          {sessions.map((session) => (
+            <AgentTile
+              key={session.id}
+              session={session}
+              label={labelFor(session)}
+              onRemove={(id) => manager?.remove(id)}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className={styles.composer}>
+        <label className={styles.targetLabel}>
+          {t('panel.target')}
+          <select
+            className={styles.select}
+            value={activeTarget}
+            onChange={(e) => setTarget(e.target.value)}
+          >
+            <option value={ALL_SESSIONS}>{t('panel.targetAll')}</option>
+            {sessions.map((session) => (
+              <option key={session.id} value={session.id}>{labelFor(session)}</option>
+            ))}
+          </select>
+        </label>
+        <div className={styles.modeSwitch}>
+          <button
+            className={`${styles.modeButton} ${inputMode === 'chat' ? styles.modeButtonActive : ''}`}
+            onClick={() => setInputMode('chat')}
+            title={t('mode.chatTitle')}
+          >
+            {t('mode.chat')}
+          </button>
+          <button
+            className={`${styles.modeButton} ${inputMode === 'speak' ? styles.modeButtonActive : ''}`}
+            onClick={() => setInputMode('speak')}
+            title={t('mode.speakTitle')}
+          >
+            {t('mode.speak')}
+          </button>
+        </div>
+        <input
+          className={styles.input}
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+          placeholder={inputMode === 'chat' ? t('input.chatPlaceholder') : t('input.speakPlaceholder')}
+          disabled={sessions.length === 0}
+        />
+        <button
+          className={styles.toolbarButton}
+          onClick={handleSend}
+          disabled={sessions.length === 0 || !message.trim()}
+          title={t('input.send')}
+        >
+          ➤
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { useAgentSessionState } from '@/hooks/useAgentSession';
+import type { AgentSession } from '@/lib/agentSession';
+import { isConnecting } from '@/lib/connectionState';
+import { describeError } from '@/lib/i18n/errors';
+import { useI18n } from './I18nProvider';
+import StatsOverlay from './StatsOverlay';
+import styles from './AgentPanel.module.css';
+
+interface AgentTileProps {
+  session: AgentSession;
+  // Shown in the panel's target picker, so tiles of the same agent can be told apart
+  label: string;
+  onRemove: (id: string) => void;
+}
+
+// One panel session: its own videos, status, conversation and stats
+export default function AgentTile({ session, label, onRemove }: AgentTileProps) {
+  const { t } = useI18n();
+  const {
+    agentName,
+    agentThumbnail,
+    status,
+    connectionState,
+    reconnectAttempt,
+    isConnected,
+    isAgentSpeaking,
+    isReconnecting,
+    chatMessages
+  } = useAgentSessionState(session);
+  const [error, setError] = useState<Error | null>(null);
+  const [showStats, setShowStats] = useState(false);
+
+  const streamVideoRef = useRef<HTMLVideoElement>(null);
+  const idleVideoRef = useRef<HTMLVideoElement>(null);
+  const conversationRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    session.setHandlers({ onError: setError });
+  }, [session]);
+
+  useEffect(() => {
+    session.loadAgentInfo();
+  }, [session]);
+
+  useEffect(() => {
+    return session.attachMedia({ streamVideo: streamVideoRef.current, idleVideo: idleVideoRef.current });
+  }, [session]);
+
+  useEffect(() => {
+    conversationRef.current?.scrollTo({ top: conversationRef.current.scrollHeight });
+  }, [chatMessages]);
+
+  const handleConnect = () => {
+    setError(null);
+    session.connect();
+  };
+
+  const statusText = reconnectAttempt
+    ? t('status.reconnectingAttempt', { attempt: reconnectAttempt.attempt, maxAttempts: reconnectAttempt.maxAttempts })
+    : status && t(`status.${status}`);
+  const errorKey = error && describeError(error);
+  const errorMessage = errorKey ? t(errorKey) : error?.message;
+
+  return (
+    <section className={styles.tile} aria-label={agentName ?? t('agent.defaultName')}>
+      <div className={styles.tileHeader}>
+        <div className={styles.tileIdentity}>
+          {agentThumbnail && <img src={agentThumbnail} alt="" className={styles.tileThumbnail} />}
+          <span className={styles.tileName}>{label}</span>
+        </div>
+        <button
+          className={styles.tileButton}
+          onClick={() => onRemove(session.id)}
+          title={t('panel.removeTitle')}
+        >
+          {t('panel.remove')}
+        </button>
+      </div>
+
+      <div className={styles.videoWrapper}>
+        <video ref={streamVideoRef} playsInline className={styles.video} style={{ opacity: 0 }} />
+        <video ref={idleVideoRef} autoPlay loop playsInline muted className={styles.video} style={{ opacity: 1 }} />
+        {showStats && <StatsOverlay session={session} />}
+        {isAgentSpeaking && <span className={styles.speakingBadge}>{t('panel.speaking')}</span>}
+      </div>
+
+      <div className={styles.tileControls}>
+        {isConnected ? (
+          <button className={styles.tileButton} onClick={() => session.disconnect()} title={t('session.disconnectTitle')}>
+            {t('session.disconnect')}
+          </button>
+        ) : (
+          <button className={styles.tileButton} onClick={handleConnect} disabled={isConnecting(connectionState)}>
+            {t('panel.connect')}
+          </button>
+        )}
+        <label className={styles.optionToggle} title={t('options.diagnosticsTitle')}>
+          <input type="checkbox" checked={showStats} onChange={(e) => setShowStats(e.target.checked)} />
+          {t('options.diagnostics')}
+        </label>
+        {statusText && (
+          <span className={`${styles.tileStatus} ${isReconnecting ? styles.reconnecting : ''}`}>{statusText}</span>
+        )}
+      </div>
+
+      {errorMessage && (
+        <span className={styles.errorMessage} role="alert">
+          {errorMessage}
+          <button className={styles.dismissButton} onClick={() => setError(null)} title={t('error.dismiss')}>
+            ×
+          </button>
+        </span>
+      )}
+
+      {chatMessages.length > 0 && (
+        <div className={styles.conversation} ref={conversationRef}>
+          {chatMessages.map((chatMessage, index) => (
+            <div
+              key={`${chatMessage.created_at}-${index}`}
+              className={`${styles.chatMessage} ${chatMessage.role === 'user' ? styles.userMessage : styles.assistantMessage}`}
+            >
+              {chatMessage.content}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
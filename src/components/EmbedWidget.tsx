@@ -0,0 +1,169 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { useAgentConnection, type ConnectionStatus } from '@/hooks/useAgentConnection';
+import { isConnecting } from '@/lib/connectionState';
+import { isOriginAllowed, parseHostMessage, toWidgetMessage, type HostCommand, type WidgetEvent } from '@/lib/embed';
+import { useI18n } from './I18nProvider';
+import styles from './EmbedWidget.module.css';
+
+interface EmbedWidgetProps {
+  agentId: string;
+  idleTimeoutMinutes?: number;
+  // Origins allowed to drive the widget (EMBED_ALLOWED_ORIGINS)
+  allowedOrigins: string[];
+  // The embedding page's origin, passed by the loader as ?origin=
+  hostOrigin: string | null;
+}
+
+// Compact, iframe-friendly agent: video, one input and a postMessage bridge to the host page
+export default function EmbedWidget({ agentId, idleTimeoutMinutes, allowedOrigins, hostOrigin }: EmbedWidgetProps) {
+  const { t } = useI18n();
+  const [isConnected, setIsConnected] = useState(false);
+  const [hasStarted, setHasStarted] = useState(false);
+  const [agentName, setAgentName] = useState<string | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus | null>(null);
+  const [isAwaitingAnswer, setIsAwaitingAnswer] = useState(false);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const streamVideoRef = useRef<HTMLVideoElement>(null);
+  const idleVideoRef = useRef<HTMLVideoElement>(null);
+
+  // Events only go to a host we were told about and that is on the allow list
+  const targetOrigin = hostOrigin && isOriginAllowed(hostOrigin, allowedOrigins) ? hostOrigin : null;
+
+  const postToHost = useCallback((event: WidgetEvent) => {
+    if (!targetOrigin || window.parent === window) return;
+    window.parent.postMessage(toWidgetMessage(event), targetOrigin);
+  }, [targetOrigin]);
+
+  // Host commands can arrive between renders; read the connected flag from here
+  const isConnectedRef = useRef(false);
+  const handleConnectionChange = useCallback((connected: boolean) => {
+    isConnectedRef.current = connected;
+    setIsConnected(connected);
+  }, []);
+
+  const handleConnectionStatusChange = useCallback((status: ConnectionStatus) => {
+    setConnectionStatus(status);
+    postToHost({ type: 'connection-state', state: status, connected: status === 'connected' || status === 'reconnecting' });
+  }, [postToHost]);
+
+  const handleError = useCallback((error: Error) => {
+    postToHost({ type: 'error', message: error.message });
+  }, [postToHost]);
+
+  const {
+    connect,
+    disconnect,
+    speak,
+    sendChatMessage,
+    interrupt,
+    isAgentSpeaking,
+    isReconnecting,
+    isStreamReady,
+    connectionState
+  } = useAgentConnection({
+    agentId,
+    onConnectionChange: handleConnectionChange,
+    onAgentNameChange: setAgentName,
+    onConnectionStatusChange: handleConnectionStatusChange,
+    onError: handleError,
+    idleTimeoutMinutes,
+    streamVideoRef,
+    idleVideoRef
+  });
+
+  const canSend = isStreamReady || isReconnecting;
+
+  const handleStart = useCallback(async () => {
+    setHasStarted(true);
+    await connect();
+  }, [connect]);
+
+  const handleSend = async () => {
+    const message = inputRef.current?.value.trim();
+    if (!message || !canSend || !inputRef.current) return;
+    inputRef.current.value = '';
+    postToHost({ type: 'transcript', role: 'user', text: message });
+    setIsAwaitingAnswer(true);
+    const answer = await sendChatMessage(message);
+    setIsAwaitingAnswer(false);
+    if (answer) postToHost({ type: 'transcript', role: 'agent', text: answer });
+  };
+
+  // Host commands run against the latest hook state
+  const runCommandRef = useRef<(command: HostCommand) => void>(() => {});
+  useEffect(() => {
+    runCommandRef.current = (command) => {
+      console.log('Embed command:', command.type);
+      if (command.type === 'connect') {
+        if (!isConnectedRef.current) handleStart();
+      } else if (command.type === 'disconnect') {
+        disconnect();
+      } else if (command.type === 'interrupt') {
+        interrupt();
+      } else if (speak(command.text)) {
+        postToHost({ type: 'transcript', role: 'agent', text: command.text.trim() });
+      } else {
+        postToHost({ type: 'error', message: 'The agent is not connected', command: 'speak' });
+      }
+    };
+  }, [handleStart, disconnect, interrupt, speak, postToHost]);
+
+  useEffect(() => {
+    if (!targetOrigin) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || event.origin !== targetOrigin) return;
+      const command = parseHostMessage(event.data);
+      if (command) runCommandRef.current(command);
+    };
+    window.addEventListener('message', handleMessage);
+    postToHost({ type: 'ready', agentId });
+    return () => window.removeEventListener('message', handleMessage);
+  }, [targetOrigin, agentId, postToHost]);
+
+  useEffect(() => {
+    postToHost({ type: 'speaking', speaking: isAgentSpeaking });
+  }, [isAgentSpeaking, postToHost]);
+
+  const statusText = connectionStatus && connectionStatus !== 'connected' ? t(`status.${connectionStatus}`) : '';
+
+  return (
+    <div className={styles.widget}>
+      <div className={styles.videoWrapper}>
+        <video ref={streamVideoRef} playsInline className={styles.video} style={{ opacity: 0 }} />
+        <video ref={idleVideoRef} autoPlay loop playsInline muted className={styles.video} style={{ opacity: 1 }} />
+        {!isConnected && (
+          <div className={styles.startOverlay}>
+            <span className={styles.agentName}>{agentName ?? t('agent.defaultName')}</span>
+            <button className={styles.startButton} onClick={handleStart} disabled={!agentId || isConnecting(connectionState)}>
+              {hasStarted ? t('disconnected.button') : t('start.button')}
+            </button>
+          </div>
+        )}
+        {statusText && <span className={styles.status}>{statusText}</span>}
+      </div>
+
+      <div className={styles.inputRow}>
+        <input
+          ref={inputRef}
+          className={styles.input}
+          placeholder={t('input.chatPlaceholder')}
+          onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+          disabled={!canSend}
+        />
+        {isAgentSpeaking ? (
+          <button className={styles.button} onClick={interrupt} title={t('input.stop')}>■</button>
+        ) : (
+          <button className={styles.button} onClick={handleSend} disabled={!canSend || isAwaitingAnswer} title={t('input.send')}>
+            ➤
+          </button>
+        )}
+        {isConnected && (
+          <button className={styles.button} onClick={disconnect} title={t('session.disconnectTitle')}>×</button>
+        )}
+      </div>
+    </div>
+  );
+}
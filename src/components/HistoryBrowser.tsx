@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import type { HistorySession, SessionOutcome } from '@/lib/history';
+import type { MessageKey } from '@/lib/i18n';
+import { useI18n } from './I18nProvider';
+import LanguageSwitcher from './LanguageSwitcher';
+import styles from './HistoryBrowser.module.css';
+
+interface HistoryBrowserProps {
+  // HISTORY_ENABLED; when off the page only explains why it's empty
+  enabled: boolean;
+  // Only admins may read other people's conversations
+  canRead: boolean;
+}
+
+const OUTCOME_LABELS: Record<SessionOutcome, MessageKey> = {
+  disconnected: 'history.outcome.disconnected',
+  idleTimeout: 'history.outcome.idleTimeout',
+  failed: 'history.outcome.failed',
+  closed: 'history.outcome.closed'
+};
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+
+const formatDuration = (startedAt: string, endedAt: string) => {
+  const seconds = Math.max(0, Math.round((Date.parse(endedAt) - Date.parse(startedAt)) / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+// Recorded sessions with search, transcripts and JSON/CSV export
+export default function HistoryBrowser({ enabled, canRead }: HistoryBrowserProps) {
+  const { locale, t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [sessions, setSessions] = useState<HistorySession[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !canRead) return;
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/history?q=${encodeURIComponent(query)}`);
+        if (!response.ok) throw new Error(`History request failed with ${response.status}`);
+        const data: { sessions: HistorySession[] } = await response.json();
+        if (cancelled) return;
+        setSessions(data.sessions);
+        setLoadFailed(false);
+      } catch (error) {
+        console.error('Failed to load history:', error);
+        if (!cancelled) setLoadFailed(true);
+      }
+    }, query ? SEARCH_DELAY_MS : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [enabled, canRead, query]);
+
+  const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString(locale);
+  const formatClock = (timestamp: string) => new Date(timestamp).toLocaleTimeString(locale);
+  const exportUrl = (format: 'json' | 'csv') => `/api/history?format=${format}&q=${encodeURIComponent(query)}`;
+
+  const renderBody = () => {
+    if (!enabled) return <p className={styles.notice}>{t('history.disabled')}</p>;
+    if (!canRead) return <p className={styles.notice} role="status">{t('history.adminOnly')}</p>;
+    if (loadFailed) return <p className={styles.notice} role="alert">{t('history.loadFailed')}</p>;
+    if (!sessions) return <p className={styles.notice}>{t('history.loading')}</p>;
+    if (sessions.length === 0) return <p className={styles.notice}>{query ? t('history.noMatches') : t('history.empty')}</p>;
+
+    return (
+      <ul className={styles.sessions}>
+        {sessions.map((session) => {
+          const isExpanded = expandedId === session.id;
+          return (
+            <li key={session.id} className={styles.session}>
+              <button
+                className={styles.sessionSummary}
+                onClick={() => setExpandedId(isExpanded ? null : session.id)}
+                aria-expanded={isExpanded}
+              >
+                <span className={styles.sessionTime}>{formatTime(session.startedAt)}</span>
+                <span className={styles.sessionAgent}>{session.agentName ?? session.agentId}</span>
+                <span className={`${styles.outcome} ${session.outcome === 'failed' ? styles.outcomeFailed : ''}`}>
+                  {session.outcome ? t(OUTCOME_LABELS[session.outcome]) : t('history.inProgress')}
+                </span>
+                {session.endedAt && (
+                  <span title={t('history.duration')}>{formatDuration(session.startedAt, session.endedAt)}</span>
+                )}
+                <span>{t('history.messages', { count: session.utterances.length })}</span>
+                {session.reconnects > 0 && <span>{t('history.reconnects', { count: session.reconnects })}</span>}
+              </button>
+
+              {isExpanded && (
+                <div className={styles.sessionDetails}>
+                  {session.failureReason && (
+                    <p className={styles.failureReason}>{t('history.failureReason', { reason: session.failureReason })}</p>
+                  )}
+                  {session.streams.length > 0 && (
+                    <p className={styles.streams}>
+                      {t('history.streams')}: {session.streams.map((stream) => stream.streamId).join(', ')}
+                    </p>
+                  )}
+                  {session.utterances.length === 0 ? (
+                    <p className={styles.notice}>{t('history.noMessages')}</p>
+                  ) : (
+                    <ol className={styles.transcript}>
+                      {session.utterances.map((utterance, index) => (
+                        <li key={index} className={styles.utterance}>
+                          <span className={styles.utteranceMeta}>
+                            {formatClock(utterance.at)} · {t(`history.role.${utterance.role}`)}
+                            {utterance.kind === 'speak' && ` · ${t('history.kind.speak')}`}
+                          </span>
+                          <span className={styles.utteranceText}>{utterance.text}</span>
+                          {utterance.startedAt && (
+                            <span className={styles.utteranceMeta}>
+                              {t('history.spoken', {
+                                start: formatClock(utterance.startedAt),
+                                end: utterance.doneAt ? formatClock(utterance.doneAt) : '…'
+                              })}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>{t('history.title')}</h1>
+        <div className={styles.headerActions}>
+          <Link href="/" className={styles.link}>{t('history.backLink')}</Link>
+          <LanguageSwitcher />
+        </div>
+      </header>
+
+      {enabled && canRead && (
+        <div className={styles.toolbar}>
+          <input
+            type="search"
+            className={styles.search}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('history.searchPlaceholder')}
+            aria-label={t('history.search')}
+          />
+          <a className={styles.exportLink} href={exportUrl('json')} download>{t('history.exportJson')}</a>
+          <a className={styles.exportLink} href={exportUrl('csv')} download>{t('history.exportCsv')}</a>
+        </div>
+      )}
+
+      {renderBody()}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { LOCALE_COOKIE, translate, type Locale, type MessageKey, type TranslateParams } from '@/lib/i18n';
+
+interface I18nContextValue {
+  locale: Locale;
+  t: (key: MessageKey, params?: TranslateParams) => string;
+  // Remembers the choice in a cookie and re-renders server parts (html lang, metadata)
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+export function I18nProvider({ locale: initialLocale, children }: { locale: Locale; children: React.ReactNode }) {
+  const router = useRouter();
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`;
+    document.documentElement.lang = next;
+    setLocaleState(next);
+    router.refresh();
+  }, [router]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    t: (key, params) => translate(locale, key, params),
+    setLocale
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used inside <I18nProvider>');
+  }
+  return context;
+};
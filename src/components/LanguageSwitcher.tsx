@@ -0,0 +1,23 @@
+'use client';
+
+import { LOCALES, LOCALE_NAMES, isLocale } from '@/lib/i18n';
+import { useI18n } from './I18nProvider';
+import styles from './AgentDemo.module.css';
+
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <select
+      className={styles.localeSelect}
+      value={locale}
+      onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+      title={t('locale.label')}
+      aria-label={t('locale.label')}
+    >
+      {LOCALES.map((code) => (
+        <option key={code} value={code} lang={code}>{LOCALE_NAMES[code]}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { useI18n } from './I18nProvider';
+import LanguageSwitcher from './LanguageSwitcher';
+import styles from './LoginForm.module.css';
+
+interface LoginFormProps {
+  // Same-site path to open after signing in
+  returnPath: string;
+  // AUTH_USERS is set: ask for a user name and password
+  withAccounts: boolean;
+  // ACCESS_CODE is set: ask for the shared code
+  withAccessCode: boolean;
+}
+
+export default function LoginForm({ returnPath, withAccounts, withAccessCode }: LoginFormProps) {
+  const { t } = useI18n();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      // The access code wins when both were filled in
+      const credentials = code.trim() ? { code } : { username, password };
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(credentials)
+      });
+      if (response.status === 401) {
+        setError(t('auth.invalid'));
+        return;
+      }
+      if (!response.ok) throw new Error(`Sign-in failed with ${response.status}`);
+      // A full load so the server renders the page with the new cookie
+      window.location.assign(returnPath);
+    } catch (err) {
+      console.error('Sign-in failed:', err);
+      setError(t('auth.failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const canSubmit = !isSubmitting && (!!code.trim() || (!!username.trim() && !!password));
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <LanguageSwitcher />
+      </header>
+
+      <form className={styles.form} onSubmit={handleSubmit}>
+        <h1 className={styles.title}>{t('auth.title')}</h1>
+        <p className={styles.subtitle}>{t('auth.subtitle')}</p>
+
+        {withAccounts && (
+          <>
+            <label className={styles.field}>
+              {t('auth.username')}
+              <input
+                className={styles.input}
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                autoFocus
+              />
+            </label>
+            <label className={styles.field}>
+              {t('auth.password')}
+              <input
+                className={styles.input}
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+              />
+            </label>
+          </>
+        )}
+
+        {withAccounts && withAccessCode && <p className={styles.divider}>{t('auth.or')}</p>}
+
+        {withAccessCode && (
+          <label className={styles.field}>
+            {t('auth.accessCode')}
+            <input
+              className={styles.input}
+              type="password"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="off"
+              autoFocus={!withAccounts}
+            />
+          </label>
+        )}
+
+        {error && <p className={styles.error} role="alert">{error}</p>}
+
+        <button className={styles.submit} type="submit" disabled={!canSubmit}>
+          {isSubmitting ? t('auth.signingIn') : t('auth.signIn')}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  formatPreflightReport,
+  overallStatus,
+  runPreflight,
+  sortResults,
+  type PreflightResult,
+  type PreflightStatus
+} from '@/lib/preflight';
+import type { SpeechProviderPreference } from '@/lib/speechToText';
+import { useI18n } from './I18nProvider';
+import styles from './PreflightChecks.module.css';
+
+interface PreflightChecksProps {
+  // Agent whose ICE servers are tested
+  agentId?: string;
+  speechProvider?: SpeechProviderPreference;
+  // Start checking as soon as it's shown
+  autoRun?: boolean;
+  // Smaller layout for the start overlay
+  compact?: boolean;
+}
+
+type CopyState = 'idle' | 'copied' | 'failed';
+
+const statusClasses: Record<PreflightStatus, string> = {
+  pass: styles.statusPass,
+  warn: styles.statusWarn,
+  fail: styles.statusFail
+};
+
+// Pass/warn/fail list for /preflight and the start overlay, with a copyable report
+export default function PreflightChecks({ agentId, speechProvider, autoRun = false, compact = false }: PreflightChecksProps) {
+  const { t } = useI18n();
+  const [results, setResults] = useState<PreflightResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [checkedAt, setCheckedAt] = useState<string | null>(null);
+  const [copyState, setCopyState] = useState<CopyState>('idle');
+  // Results from an earlier run, or after unmounting, are dropped
+  const runRef = useRef(0);
+
+  const run = useCallback(async () => {
+    runRef.current += 1;
+    const runId = runRef.current;
+    setResults([]);
+    setCheckedAt(null);
+    setCopyState('idle');
+    setIsRunning(true);
+    const onResult = (result: PreflightResult) => {
+      if (runId === runRef.current) setResults((prev) => sortResults([...prev, result]));
+    };
+    try {
+      await runPreflight({ agentId, speechProvider, onResult });
+    } catch (error) {
+      console.error('Preflight failed:', error);
+    } finally {
+      if (runId === runRef.current) {
+        setIsRunning(false);
+        setCheckedAt(new Date().toISOString());
+      }
+    }
+  }, [agentId, speechProvider]);
+
+  useEffect(() => {
+    if (autoRun) run();
+  }, [autoRun, run]);
+
+  useEffect(() => {
+    return () => {
+      runRef.current += 1;
+    };
+  }, []);
+
+  const report = checkedAt
+    ? formatPreflightReport(
+      results,
+      { title: t('preflight.title'), checkedAt, agentId: agentId || null, userAgent: navigator.userAgent },
+      (result) => ({ label: t(`preflight.check.${result.id}`), message: t(`preflight.result.${result.code}`) })
+    )
+    : null;
+
+  const handleCopy = async () => {
+    if (!report) return;
+    try {
+      await navigator.clipboard.writeText(report);
+      setCopyState('copied');
+    } catch (error) {
+      console.warn('Could not copy the preflight report:', error);
+      setCopyState('failed');
+    }
+  };
+
+  return (
+    <div className={`${styles.checks} ${compact ? styles.compact : ''}`}>
+      <ul className={styles.results} aria-busy={isRunning}>
+        {results.map((result) => (
+          <li key={result.id} className={styles.result}>
+            <span className={`${styles.status} ${statusClasses[result.status]}`}>{t(`preflight.status.${result.status}`)}</span>
+            <span className={styles.label}>{t(`preflight.check.${result.id}`)}</span>
+            <span className={styles.message}>
+              {t(`preflight.result.${result.code}`)}
+              {result.detail && <span className={styles.detail}> ({result.detail})</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <p className={styles.summary} role="status">
+        {isRunning ? t('preflight.running') : checkedAt ? t(`preflight.overall.${overallStatus(results)}`) : ''}
+      </p>
+
+      <div className={styles.actions}>
+        <button className={styles.button} onClick={run} disabled={isRunning}>
+          {checkedAt ? t('preflight.rerun') : t('preflight.run')}
+        </button>
+        <button className={styles.button} onClick={handleCopy} disabled={!report}>
+          {t('preflight.copy')}
+        </button>
+        {copyState !== 'idle' && (
+          <span className={styles.copyState} role="status">
+            {copyState === 'copied' ? t('preflight.copied') : t('preflight.copyFailed')}
+          </span>
+        )}
+      </div>
+
+      {report && (
+        <details className={styles.report} open={copyState === 'failed'}>
+          <summary>{t('preflight.report')}</summary>
+          <textarea className={styles.reportText} value={report} readOnly rows={compact ? 6 : 12} aria-label={t('preflight.report')} />
+        </details>
+      )}
+    </div>
+  );
+}
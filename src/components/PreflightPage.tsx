@@ -0,0 +1,41 @@
+'use client';
+
+import Link from 'next/link';
+import { useAgentList } from '@/hooks/useAgentList';
+import type { SpeechProviderPreference } from '@/lib/speechToText';
+import { useI18n } from './I18nProvider';
+import LanguageSwitcher from './LanguageSwitcher';
+import PreflightChecks from './PreflightChecks';
+import styles from './PreflightChecks.module.css';
+
+interface PreflightPageProps {
+  initialAgentId?: string;
+  speechProvider?: SpeechProviderPreference;
+}
+
+// /preflight: the environment checks on their own, for support and before a demo
+export default function PreflightPage({ initialAgentId, speechProvider }: PreflightPageProps) {
+  const { t } = useI18n();
+  const { agents, isLoading } = useAgentList();
+  // Same fallback as the demo page: the first agent on the account
+  const agentId = initialAgentId || agents[0]?.id || '';
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>{t('preflight.title')}</h1>
+        <div className={styles.headerActions}>
+          <Link href={agentId ? `/?agent=${encodeURIComponent(agentId)}` : '/'} className={styles.link}>{t('preflight.backLink')}</Link>
+          <LanguageSwitcher />
+        </div>
+      </header>
+
+      <p className={styles.notice}>{t('preflight.intro')}</p>
+      <p className={styles.notice}>{t('preflight.quotaNote')}</p>
+
+      {(initialAgentId || !isLoading) && (
+        <PreflightChecks agentId={agentId} speechProvider={speechProvider} autoRun />
+      )}
+    </div>
+  );
+}
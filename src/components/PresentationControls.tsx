@@ -0,0 +1,93 @@
+'use client';
+
+import Link from 'next/link';
+import type { usePresentation } from '@/hooks/usePresentation';
+import { useI18n } from './I18nProvider';
+import styles from './AgentDemo.module.css';
+
+interface PresentationControlsProps {
+  presentation: ReturnType<typeof usePresentation>;
+  // Lines wait for the stream, but starting before it's up would look stuck
+  isStreamReady: boolean;
+}
+
+// Script picker and transport for presentation mode
+export default function PresentationControls({ presentation, isStreamReady }: PresentationControlsProps) {
+  const { t } = useI18n();
+  const {
+    presentations,
+    selectedId,
+    isLoading,
+    loadFailed,
+    status,
+    script,
+    currentLine,
+    liveOnInteraction,
+    select,
+    start,
+    pause,
+    resume,
+    skip,
+    stop,
+    setLiveOnInteraction
+  } = presentation;
+
+  const isRunning = status === 'playing' || status === 'paused' || status === 'live';
+
+  return (
+    <section className={styles.presentation} aria-label={t('presentation.title')}>
+      <div className={styles.captionOptions}>
+        <select
+          className={styles.languageSelect}
+          value={selectedId}
+          onChange={(e) => select(e.target.value)}
+          disabled={isLoading}
+          title={t('presentation.select')}
+          aria-label={t('presentation.select')}
+        >
+          <option value="">{presentations.length > 0 ? t('presentation.none') : t('presentation.empty')}</option>
+          {presentations.map((item) => (
+            <option key={item.id} value={item.id}>{item.name}</option>
+          ))}
+        </select>
+        {isRunning ? (
+          <>
+            {status === 'playing' && (
+              <button className={styles.modeButton} onClick={pause}>{t('presentation.pause')}</button>
+            )}
+            {status !== 'playing' && (
+              <button className={styles.modeButton} onClick={resume}>
+                {status === 'live' ? t('presentation.backToScript') : t('presentation.resume')}
+              </button>
+            )}
+            <button className={styles.modeButton} onClick={skip} disabled={status === 'live'}>
+              {t('presentation.skip')}
+            </button>
+            <button className={styles.modeButton} onClick={stop}>{t('presentation.stop')}</button>
+          </>
+        ) : (
+          <button className={styles.modeButton} onClick={start} disabled={!script || !isStreamReady}>
+            {status === 'finished' ? t('presentation.restart') : t('presentation.start')}
+          </button>
+        )}
+        <label className={styles.optionToggle} title={t('presentation.liveTitle')}>
+          <input
+            type="checkbox"
+            checked={liveOnInteraction}
+            onChange={(e) => setLiveOnInteraction(e.target.checked)}
+          />
+          {t('presentation.live')}
+        </label>
+        <Link href="/admin/presentations" className={styles.presentationLink}>
+          {t('presentation.edit')}
+        </Link>
+      </div>
+      {(selectedId || loadFailed) && (
+        <p className={styles.presentationStatus} role="status" aria-live="polite">
+          {loadFailed ? t('presentation.loadFailed') : isLoading ? t('presentation.loading') : t(`presentation.status.${status}`)}
+          {currentLine && <span className={styles.presentationLine}>{currentLine}</span>}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import {
+  parsePresentation,
+  PRESENTATION_FORMATS,
+  PRESENTATION_TEMPLATE,
+  type PresentationFormat,
+  type PresentationIssue,
+  type PresentationStep
+} from '@/lib/presentation';
+import type { PresentationSummary, StoredPresentation } from '@/lib/presentationStore';
+import { useI18n } from './I18nProvider';
+import LanguageSwitcher from './LanguageSwitcher';
+import styles from './PresentationEditor.module.css';
+
+interface PresentationEditorProps {
+  initialPresentations: PresentationSummary[];
+  // Only admins may save; everyone else sees the scripts read-only
+  canEdit: boolean;
+}
+
+type SaveState = 'idle' | 'loading' | 'saving' | 'saved' | 'failed' | 'loadFailed';
+
+const byName = (a: PresentationSummary, b: PresentationSummary) => a.name.localeCompare(b.name);
+
+// Scripts for presentation mode, edited as YAML or JSON with a live check
+export default function PresentationEditor({ initialPresentations, canEdit }: PresentationEditorProps) {
+  const { t } = useI18n();
+  const [presentations, setPresentations] = useState(initialPresentations);
+  // null while editing a script that hasn't been saved yet
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [format, setFormat] = useState<PresentationFormat>('yaml');
+  const [source, setSource] = useState(PRESENTATION_TEMPLATE);
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+  // From the server, when it disagrees with the check here
+  const [serverIssues, setServerIssues] = useState<PresentationIssue[]>([]);
+
+  const parsed = parsePresentation(source, format);
+  const issues = parsed.ok ? serverIssues : parsed.issues;
+
+  const describeStep = (step: PresentationStep) => {
+    switch (step.kind) {
+      case 'say':
+        return step.text;
+      case 'wait':
+        return t('presentations.step.wait', { seconds: step.ms / 1000 });
+      case 'goto':
+        return step.times === null
+          ? t('presentations.step.goto', { label: step.target })
+          : t('presentations.step.loop', { label: step.target, times: step.times });
+      case 'branch':
+        return t('presentations.step.branch', { labels: step.options.map((option) => option.target).join(', ') });
+    }
+  };
+
+  const edit = (next: { format?: PresentationFormat; source?: string }) => {
+    if (next.format) setFormat(next.format);
+    if (next.source !== undefined) setSource(next.source);
+    setServerIssues([]);
+    setSaveState('idle');
+  };
+
+  const handleNew = () => {
+    setSelectedId(null);
+    edit({ format: 'yaml', source: PRESENTATION_TEMPLATE });
+  };
+
+  const handleSelect = async (id: string) => {
+    setSelectedId(id);
+    setServerIssues([]);
+    setSaveState('loading');
+    try {
+      const response = await fetch(`/api/presentations/${encodeURIComponent(id)}`);
+      if (!response.ok) throw new Error(`Loading presentation failed with ${response.status}`);
+      const { presentation }: { presentation: StoredPresentation } = await response.json();
+      setFormat(presentation.format);
+      setSource(presentation.source);
+      setSaveState('idle');
+    } catch (error) {
+      console.error('Failed to load presentation:', error);
+      setSaveState('loadFailed');
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!parsed.ok) return;
+    setSaveState('saving');
+    try {
+      const response = await fetch(selectedId ? `/api/presentations/${encodeURIComponent(selectedId)}` : '/api/presentations', {
+        method: selectedId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format, source })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setServerIssues(data.issues ?? []);
+        throw new Error(`Saving presentation failed with ${response.status}`);
+      }
+      const { id, name, format: savedFormat, updatedAt }: StoredPresentation = data.presentation;
+      const summary = { id, name, format: savedFormat, updatedAt };
+      setPresentations((prev) => [...prev.filter((item) => item.id !== summary.id), summary].sort(byName));
+      setSelectedId(summary.id);
+      setSaveState('saved');
+    } catch (error) {
+      console.error('Failed to save presentation:', error);
+      setSaveState('failed');
+    }
+  };
+
+  const handleDelete = async () => {
+    const current = presentations.find((item) => item.id === selectedId);
+    if (!current || !window.confirm(t('presentations.confirmDelete', { name: current.name }))) return;
+    try {
+      const response = await fetch(`/api/presentations/${encodeURIComponent(current.id)}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error(`Deleting presentation failed with ${response.status}`);
+      setPresentations((prev) => prev.filter((item) => item.id !== current.id));
+      handleNew();
+    } catch (error) {
+      console.error('Failed to delete presentation:', error);
+      setSaveState('failed');
+    }
+  };
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>{t('presentations.title')}</h1>
+        <div className={styles.headerActions}>
+          <Link href="/" className={styles.link}>{t('presentations.backLink')}</Link>
+          <LanguageSwitcher />
+        </div>
+      </header>
+
+      <p className={styles.notice}>{t('presentations.description')}</p>
+      {!canEdit && <p className={styles.notice} role="status">{t('presentations.readOnly')}</p>}
+
+      <div className={styles.layout}>
+        <nav className={styles.list} aria-label={t('presentations.list')}>
+          {canEdit && (
+            <button className={styles.button} onClick={handleNew}>{t('presentations.new')}</button>
+          )}
+          {presentations.length === 0 && <p className={styles.notice}>{t('presentations.empty')}</p>}
+          {presentations.map((item) => (
+            <button
+              key={item.id}
+              className={`${styles.listItem} ${item.id === selectedId ? styles.listItemActive : ''}`}
+              onClick={() => handleSelect(item.id)}
+              aria-current={item.id === selectedId}
+            >
+              {item.name}
+            </button>
+          ))}
+        </nav>
+
+        <form className={styles.form} onSubmit={handleSubmit}>
+          <label className={styles.field}>
+            {t('presentations.format')}
+            <select
+              className={styles.input}
+              value={format}
+              onChange={(e) => edit({ format: e.target.value as PresentationFormat })}
+              disabled={!canEdit}
+            >
+              {PRESENTATION_FORMATS.map((item) => (
+                <option key={item} value={item}>{item.toUpperCase()}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className={styles.field}>
+            {t('presentations.source')}
+            <textarea
+              className={styles.source}
+              value={source}
+              onChange={(e) => edit({ source: e.target.value })}
+              readOnly={!canEdit}
+              rows={20}
+              spellCheck={false}
+              aria-invalid={issues.length > 0}
+            />
+            <small className={styles.hint}>{t('presentations.sourceHint')}</small>
+          </label>
+
+          {issues.length > 0 ? (
+            <ul className={styles.issues} role="alert">
+              {issues.map((issue, index) => (
+                <li key={`${issue.path}-${index}`}>
+                  {issue.path && <code>{issue.path}</code>} {t(`presentation.issue.${issue.code}`)}
+                  {issue.detail && <span className={styles.hint}> ({issue.detail})</span>}
+                </li>
+              ))}
+            </ul>
+          ) : parsed.ok && (
+            <section className={styles.preview} aria-label={t('presentations.preview')}>
+              <h2>{parsed.script.name}</h2>
+              <ol className={styles.steps}>
+                {parsed.script.steps.map((step, index) => (
+                  <li key={index} className={step.kind === 'say' ? '' : styles.controlStep}>
+                    {step.label && <span className={styles.stepLabel}>{step.label}</span>}
+                    {describeStep(step)}
+                  </li>
+                ))}
+              </ol>
+            </section>
+          )}
+
+          {saveState === 'loadFailed' && <p className={styles.error} role="alert">{t('presentations.loadFailed')}</p>}
+          {saveState === 'saved' && <p className={styles.success} role="status">{t('presentations.saved')}</p>}
+          {saveState === 'failed' && <p className={styles.error} role="alert">{t('presentations.saveFailed')}</p>}
+
+          <div className={styles.actions}>
+            {canEdit && (
+              <button className={styles.primaryButton} type="submit" disabled={!parsed.ok || saveState === 'saving' || saveState === 'loading'}>
+                {saveState === 'saving' ? t('presentations.saving') : t('presentations.save')}
+              </button>
+            )}
+            {canEdit && selectedId && (
+              <button className={styles.button} type="button" onClick={handleDelete}>
+                {t('presentations.delete')}
+              </button>
+            )}
+            {selectedId && (
+              <Link href={`/?presentation=${encodeURIComponent(selectedId)}`} className={styles.link}>
+                {t('presentations.play')}
+              </Link>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import type { Recording } from '@/lib/recording';
+import { useI18n } from './I18nProvider';
+import styles from './AgentDemo.module.css';
+
+interface RecordingsListProps {
+  recordings: Recording[];
+  onRemove: (id: string) => void;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export default function RecordingsList({ recordings, onRemove }: RecordingsListProps) {
+  const { locale, t } = useI18n();
+  if (recordings.length === 0) return null;
+
+  return (
+    <section className={styles.recordings}>
+      <h3>{t('recording.listTitle')}</h3>
+      {recordings.map((recording) => (
+        <article key={recording.id} className={styles.recording}>
+          <div className={styles.recordingHeader}>
+            <span>
+              {new Date(recording.startedAt).toLocaleString(locale)} · {formatDuration(recording.durationMs)}
+            </span>
+            <button className={styles.dismissButton} onClick={() => onRemove(recording.id)} title={t('recording.delete')}>
+              ×
+            </button>
+          </div>
+          {recording.segments.map((segment) => (
+            <div key={segment.index} className={styles.recordingSegment}>
+              <video src={segment.url} controls preload="metadata" className={styles.recordingPreview}>
+                {/* Cues are timed from the start of the recording, which only matches a single segment */}
+                {recording.segments.length === 1 && (
+                  <track kind="subtitles" src={recording.subtitlesUrl} srcLang={locale} label={t('recording.subtitles')} />
+                )}
+              </video>
+              <a href={segment.url} download={segment.fileName}>
+                {recording.segments.length > 1 ? t('recording.downloadPart', { index: segment.index }) : t('recording.downloadVideo')}
+              </a>
+            </div>
+          ))}
+          <div className={styles.recordingLinks}>
+            <a href={recording.transcriptUrl} download={recording.transcriptFileName}>{t('recording.downloadTranscript')}</a>
+            <a href={recording.subtitlesUrl} download={recording.subtitlesFileName}>{t('recording.downloadSubtitles')}</a>
+          </div>
+        </article>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useStreamMetrics } from '@/hooks/useAgentSession';
+import type { AgentSession } from '@/lib/agentSession';
+import type { InboundMediaMetrics, StreamMetrics } from '@/lib/streamMetrics';
+import { useI18n } from './I18nProvider';
+import styles from './StatsOverlay.module.css';
+
+interface StatsOverlayProps {
+  // Stats are only collected while the overlay is mounted
+  session: AgentSession | null;
+}
+
+interface SeriesProps {
+  label: string;
+  values: number[];
+  format: (value: number) => string;
+  // Fixed top of the scale; otherwise the largest value seen
+  max?: number;
+}
+
+const GRAPH_WIDTH = 120;
+const GRAPH_HEIGHT = 28;
+
+// One metric: its current value and a sparkline of the last minute
+const Series = ({ label, values, format, max }: SeriesProps) => {
+  const top = Math.max(max ?? 0, ...values, 1);
+  const step = values.length > 1 ? GRAPH_WIDTH / (values.length - 1) : 0;
+  const points = values
+    .map((value, index) => `${(index * step).toFixed(1)},${(GRAPH_HEIGHT - (value / top) * GRAPH_HEIGHT).toFixed(1)}`)
+    .join(' ');
+  const current = values[values.length - 1];
+
+  return (
+    <div className={styles.series}>
+      <div className={styles.seriesHeader}>
+        <span>{label}</span>
+        <span className={styles.value}>{current === undefined ? '–' : format(current)}</span>
+      </div>
+      <svg className={styles.graph} width={GRAPH_WIDTH} height={GRAPH_HEIGHT} viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}>
+        {values.length > 1 && <polyline points={points} fill="none" stroke="currentColor" strokeWidth="1.5" />}
+      </svg>
+    </div>
+  );
+};
+
+const pick = (history: StreamMetrics[], kind: 'video' | 'audio', read: (media: InboundMediaMetrics) => number | null) =>
+  history.flatMap((sample) => {
+    const value = sample[kind] ? read(sample[kind]) : null;
+    return value === null ? [] : [value];
+  });
+
+export default function StatsOverlay({ session }: StatsOverlayProps) {
+  const history = useStreamMetrics(session);
+  const latest = history[history.length - 1];
+  const video = latest?.video;
+  const pair = latest?.candidatePair;
+  const { t } = useI18n();
+
+  return (
+    <div className={styles.overlay} aria-label={t('stats.label')}>
+      <div className={styles.summary}>
+        <span>{video?.width && video.height ? `${video.width}×${video.height}` : t('stats.noVideo')}</span>
+        <span>{t('stats.freezes')}: {video?.freezeCount ?? '–'}</span>
+        <span title={t('stats.iceTitle')}>
+          {t('stats.ice')}: {pair ? `${pair.local ?? '?'} → ${pair.remote ?? '?'}` : '–'}
+        </span>
+      </div>
+      <Series label={t('stats.videoBitrate')} values={pick(history, 'video', (m) => m.bitrateKbps)} format={(v) => v.toFixed(0)} />
+      <Series label={t('stats.audioBitrate')} values={pick(history, 'audio', (m) => m.bitrateKbps)} format={(v) => v.toFixed(0)} />
+      <Series label={t('stats.fps')} values={pick(history, 'video', (m) => m.framesPerSecond)} format={(v) => v.toFixed(0)} max={30} />
+      <Series label={t('stats.videoJitter')} values={pick(history, 'video', (m) => m.jitterMs)} format={(v) => v.toFixed(1)} />
+      <Series label={t('stats.videoLoss')} values={pick(history, 'video', (m) => m.packetLossPercent)} format={(v) => v.toFixed(1)} max={5} />
+      <Series label={t('stats.audioJitter')} values={pick(history, 'audio', (m) => m.jitterMs)} format={(v) => v.toFixed(1)} />
+      <Series label={t('stats.audioLoss')} values={pick(history, 'audio', (m) => m.packetLossPercent)} format={(v) => v.toFixed(1)} max={5} />
+      <Series
+        label={t('stats.rtt')}
+        values={history.flatMap((sample) => (sample.roundTripTimeMs === null ? [] : [sample.roundTripTimeMs]))}
+        format={(v) => v.toFixed(0)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import {
+  COMPATIBILITY_MODES,
+  DEFAULT_STREAM_SETTINGS,
+  isStreamSettings,
+  OUTPUT_RESOLUTION_RANGE,
+  SESSION_TIMEOUT_RANGE,
+  type CompatibilityMode,
+  type StreamSettings
+} from '@/lib/streamSettings';
+import type { MessageKey } from '@/lib/i18n';
+import { useI18n } from './I18nProvider';
+import LanguageSwitcher from './LanguageSwitcher';
+import styles from './StreamSettingsEditor.module.css';
+
+interface StreamSettingsEditorProps {
+  initialSettings: StreamSettings;
+  // Only admins may save; everyone else sees the settings read-only
+  canEdit: boolean;
+}
+
+type SaveState = 'idle' | 'saving' | 'saved' | 'failed';
+
+const COMPATIBILITY_LABELS: Record<CompatibilityMode, MessageKey> = {
+  on: 'settings.compatibility.on',
+  off: 'settings.compatibility.off',
+  auto: 'settings.compatibility.auto'
+};
+
+// Number inputs are edited as text so they can be left empty for D-ID's default
+const toText = (value: number | null) => (value === null ? '' : String(value));
+const toNumber = (text: string) => (text.trim() ? Number(text) : null);
+
+// Server defaults for new streams
+export default function StreamSettingsEditor({ initialSettings, canEdit }: StreamSettingsEditorProps) {
+  const { t } = useI18n();
+  const [fluent, setFluent] = useState(initialSettings.fluent);
+  const [compatibilityMode, setCompatibilityMode] = useState(initialSettings.compatibilityMode);
+  const [outputResolution, setOutputResolution] = useState(toText(initialSettings.outputResolution));
+  const [streamWarmup, setStreamWarmup] = useState(initialSettings.streamWarmup);
+  const [sessionTimeout, setSessionTimeout] = useState(toText(initialSettings.sessionTimeoutSeconds));
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+
+  const settings = {
+    fluent,
+    compatibilityMode,
+    outputResolution: toNumber(outputResolution),
+    streamWarmup,
+    sessionTimeoutSeconds: toNumber(sessionTimeout)
+  };
+  const isValid = isStreamSettings(settings);
+
+  const applySettings = (next: StreamSettings) => {
+    setFluent(next.fluent);
+    setCompatibilityMode(next.compatibilityMode);
+    setOutputResolution(toText(next.outputResolution));
+    setStreamWarmup(next.streamWarmup);
+    setSessionTimeout(toText(next.sessionTimeoutSeconds));
+    setSaveState('idle');
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    setSaveState('saving');
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ stream: settings })
+      });
+      if (!response.ok) throw new Error(`Saving settings failed with ${response.status}`);
+      applySettings((await response.json()).stream);
+      setSaveState('saved');
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+      setSaveState('failed');
+    }
+  };
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>{t('settings.title')}</h1>
+        <div className={styles.headerActions}>
+          <Link href="/" className={styles.link}>{t('settings.backLink')}</Link>
+          <LanguageSwitcher />
+        </div>
+      </header>
+
+      <p className={styles.notice}>{t('settings.description')}</p>
+      {!canEdit && <p className={styles.notice} role="status">{t('settings.readOnly')}</p>}
+
+      <form className={styles.form} onSubmit={handleSubmit}>
+        <fieldset className={styles.fieldset} disabled={!canEdit}>
+          <label className={styles.checkboxField}>
+            <input type="checkbox" checked={fluent} onChange={(e) => setFluent(e.target.checked)} />
+            <span>
+              {t('settings.fluent')}
+              <small className={styles.hint}>{t('settings.fluentHint')}</small>
+            </span>
+          </label>
+
+          <label className={styles.field}>
+            {t('settings.compatibility')}
+            <select
+              className={styles.input}
+              value={compatibilityMode}
+              onChange={(e) => setCompatibilityMode(e.target.value as CompatibilityMode)}
+            >
+              {COMPATIBILITY_MODES.map((mode) => (
+                <option key={mode} value={mode}>{t(COMPATIBILITY_LABELS[mode])}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className={styles.field}>
+            {t('settings.resolution')}
+            <input
+              className={styles.input}
+              type="number"
+              min={OUTPUT_RESOLUTION_RANGE.min}
+              max={OUTPUT_RESOLUTION_RANGE.max}
+              step={1}
+              value={outputResolution}
+              onChange={(e) => setOutputResolution(e.target.value)}
+              placeholder={t('settings.didDefault')}
+            />
+            <small className={styles.hint}>{t('settings.resolutionHint', OUTPUT_RESOLUTION_RANGE)}</small>
+          </label>
+
+          <label className={styles.checkboxField}>
+            <input type="checkbox" checked={streamWarmup} onChange={(e) => setStreamWarmup(e.target.checked)} />
+            <span>
+              {t('settings.warmup')}
+              <small className={styles.hint}>{t('settings.warmupHint')}</small>
+            </span>
+          </label>
+
+          <label className={styles.field}>
+            {t('settings.sessionTimeout')}
+            <input
+              className={styles.input}
+              type="number"
+              min={SESSION_TIMEOUT_RANGE.min}
+              max={SESSION_TIMEOUT_RANGE.max}
+              step={1}
+              value={sessionTimeout}
+              onChange={(e) => setSessionTimeout(e.target.value)}
+              placeholder={t('settings.didDefault')}
+            />
+            <small className={styles.hint}>{t('settings.sessionTimeoutHint', SESSION_TIMEOUT_RANGE)}</small>
+          </label>
+        </fieldset>
+
+        {!isValid && <p className={styles.error} role="alert">{t('settings.invalid')}</p>}
+        {saveState === 'saved' && <p className={styles.success} role="status">{t('settings.saved')}</p>}
+        {saveState === 'failed' && <p className={styles.error} role="alert">{t('settings.saveFailed')}</p>}
+
+        {canEdit && (
+          <div className={styles.actions}>
+            <button className={styles.primaryButton} type="submit" disabled={!isValid || saveState === 'saving'}>
+              {saveState === 'saving' ? t('settings.saving') : t('settings.save')}
+            </button>
+            <button className={styles.button} type="button" onClick={() => applySettings(DEFAULT_STREAM_SETTINGS)}>
+              {t('settings.reset')}
+            </button>
+          </div>
+        )}
+      </form>
+    </div>
+  );
+}
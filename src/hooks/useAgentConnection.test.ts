@@ -0,0 +1,589 @@
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useAgentConnection } from '@/hooks/useAgentConnection';
+import { DIDApiError } from '@/lib/didClient';
+import { DEFAULT_STREAM_SETTINGS } from '@/lib/streamSettings';
+import { MOCK_AGENT, MockDIDBackend } from '@/lib/mock/didBackend';
+import { FakeRTCPeerConnection } from '@/lib/mock/fakeWebRTC';
+
+const agentPath = `/agents/${MOCK_AGENT.id}`;
+const streamsPath = `${agentPath}/streams`;
+
+const setup = (props: Partial<Parameters<typeof useAgentConnection>[0]> = {}) => {
+  const wrapper = document.createElement('div');
+  const streamVideo = document.createElement('video');
+  const idleVideo = document.createElement('video');
+  wrapper.append(streamVideo, idleVideo);
+
+  const callbacks = {
+    onConnectionChange: vi.fn(),
+    onAgentNameChange: vi.fn(),
+    onConnectionStatusChange: vi.fn(),
+    onError: vi.fn()
+  };
+  // Stable like useRef() results; new ref objects would re-run the agent switch teardown
+  const streamVideoRef = { current: streamVideo };
+  const idleVideoRef = { current: idleVideo };
+  const hook = renderHook(() =>
+    useAgentConnection({
+      agentId: MOCK_AGENT.id,
+      ...callbacks,
+      streamVideoRef,
+      idleVideoRef,
+      ...props
+    })
+  );
+  return { ...hook, ...callbacks, streamVideo, idleVideo };
+};
+
+describe('useAgentConnection', () => {
+  let backend: MockDIDBackend;
+
+  beforeEach(() => {
+    backend = new MockDIDBackend();
+    vi.stubGlobal('fetch', backend.fetch);
+    vi.stubGlobal('RTCPeerConnection', FakeRTCPeerConnection);
+    FakeRTCPeerConnection.instances = [];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    // Unmounting closes each session, so none is left listening for pagehide
+    cleanup();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // Renders the hook and waits until the API config and agent info have loaded
+  const setupLoaded = async (props?: Parameters<typeof setup>[0]) => {
+    const rendered = setup(props);
+    await waitFor(() => expect(rendered.onAgentNameChange).toHaveBeenCalledWith('Mock Agent'));
+    return rendered;
+  };
+
+  const connect = async (result: ReturnType<typeof setup>['result']) => {
+    await act(() => result.current.connect());
+    const peer = FakeRTCPeerConnection.latest();
+    expect(peer).toBeDefined();
+    return peer;
+  };
+
+  it('creates a stream, answers the offer and forwards ICE candidates', async () => {
+    const { result, onConnectionChange, onConnectionStatusChange } = await setupLoaded();
+    const peer = await connect(result);
+
+    expect(backend.requestsTo('POST', streamsPath)[0].body).toEqual({ compatibility_mode: 'on', fluent: true });
+    expect(peer.remoteDescription?.type).toBe('offer');
+    expect(backend.requestsTo('POST', `${streamsPath}/strm_mock_1/sdp`)[0].body).toMatchObject({
+      session_id: 'sess_mock_1',
+      answer: { type: 'answer' }
+    });
+
+    act(() => peer.simulateIceCandidate({ candidate: 'candidate:1', sdpMid: '0', sdpMLineIndex: 0 }));
+    await waitFor(() =>
+      expect(backend.requestsTo('POST', `${streamsPath}/strm_mock_1/ice`)[0]?.body).toMatchObject({
+        session_id: 'sess_mock_1',
+        candidate: 'candidate:1'
+      })
+    );
+
+    act(() => peer.simulateConnectionState('connected'));
+    expect(result.current.isStreamReady).toBe(true);
+    expect(result.current.streamId).toBe('strm_mock_1');
+    expect(onConnectionChange).toHaveBeenLastCalledWith(true);
+    expect(onConnectionStatusChange).toHaveBeenLastCalledWith('connected');
+  });
+
+  it('does not retry stream creation, which D-ID may have done before failing', async () => {
+    backend.injectFailure({ endpoint: streamsPath, method: 'POST', status: 500 });
+    const { result, onError } = await setupLoaded();
+    await act(() => result.current.connect());
+
+    expect(backend.requestsTo('POST', streamsPath)).toHaveLength(1);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ status: 500 }));
+  });
+
+  it('reports a typed error when the stream cannot be created', async () => {
+    backend.injectFailure({ endpoint: streamsPath, method: 'POST', status: 401 });
+    const { result, onError, onConnectionStatusChange } = await setupLoaded();
+    await act(() => result.current.connect());
+
+    expect(backend.requestsTo('POST', streamsPath)).toHaveLength(1);
+    expect(onError).toHaveBeenCalledWith(expect.any(DIDApiError));
+    expect(onError.mock.calls[0][0]).toMatchObject({ status: 401, endpoint: streamsPath });
+    expect(onConnectionStatusChange).toHaveBeenLastCalledWith('failed');
+  });
+
+  it('only speaks once the stream is ready', async () => {
+    const { result } = await setupLoaded();
+    const peer = await connect(result);
+
+    act(() => {
+      expect(result.current.speak('Too early')).toBeNull();
+    });
+    expect(result.current.utterances).toHaveLength(0);
+
+    act(() => peer.simulateConnectionState('connected'));
+    act(() => {
+      result.current.speak('  Hello there  ');
+    });
+    await waitFor(() =>
+      expect(backend.requestsTo('POST', `${streamsPath}/strm_mock_1`)[0]?.body).toEqual({
+        script: { type: 'text', input: 'Hello there' },
+        session_id: 'sess_mock_1'
+      })
+    );
+  });
+
+  it('sends SSML and audio scripts with their options', async () => {
+    const { result } = await setupLoaded();
+    const peer = await connect(result);
+    act(() => peer.simulateConnectionState('connected'));
+
+    act(() => {
+      result.current.speak({ type: 'ssml', ssml: '<speak>Hi</speak>', voice: { provider: 'elevenlabs', voiceId: 'v1' } });
+      result.current.speak({ type: 'audio', audioUrl: 'https://example.com/a.mp3', label: 'Intro' });
+    });
+    expect(result.current.utterances.map((u) => u.text)).toEqual(['Hi', 'Intro']);
+    await waitFor(() =>
+      expect(backend.requestsTo('POST', `${streamsPath}/strm_mock_1`)[0]?.body).toMatchObject({
+        script: { type: 'text', input: '<speak>Hi</speak>', ssml: true, provider: { type: 'elevenlabs', voice_id: 'v1' } }
+      })
+    );
+
+    await waitFor(() => expect(result.current.utterances[0].status).toBe('sent'));
+    act(() => peer.dataChannels[0].receive(`stream/started:${JSON.stringify({ metadata: { videoId: 'vid_mock_1' } })}`));
+    act(() => peer.dataChannels[0].receive(`stream/done:${JSON.stringify({ metadata: { videoId: 'vid_mock_1' } })}`));
+    await waitFor(() =>
+      expect(backend.requestsTo('POST', `${streamsPath}/strm_mock_1`)[1]?.body).toMatchObject({
+        script: { type: 'audio', audio_url: 'https://example.com/a.mp3' }
+      })
+    );
+  });
+
+  it('plays queued utterances one at a time and tracks their status', async () => {
+    const { result } = await setupLoaded();
+    const peer = await connect(result);
+    act(() => peer.simulateConnectionState('connected'));
+
+    act(() => {
+      result.current.speak('First');
+      result.current.speak('Second');
+    });
+    await waitFor(() => expect(result.current.utterances[0]).toMatchObject({ status: 'sent', videoId: 'vid_mock_1' }));
+    expect(result.current.utterances[1].status).toBe('queued');
+    expect(backend.requestsTo('POST', `${streamsPath}/strm_mock_1`)).toHaveLength(1);
+
+    act(() => peer.dataChannels[0].receive(`stream/started:${JSON.stringify({ metadata: { videoId: 'vid_mock_1' } })}`));
+    expect(result.current.utterances[0].status).toBe('speaking');
+
+    act(() => peer.dataChannels[0].receive(`stream/done:${JSON.stringify({ metadata: { videoId: 'vid_mock_1' } })}`));
+    expect(result.current.utterances[0].status).toBe('done');
+    await waitFor(() => expect(result.current.utterances[1].status).toBe('sent'));
+    expect(backend.requestsTo('POST', `${streamsPath}/strm_mock_1`)[1].body).toMatchObject({ script: { input: 'Second' } });
+  });
+
+  it('cancels and reorders items that are still queued', async () => {
+    const { result } = await setupLoaded();
+    const peer = await connect(result);
+    act(() => peer.simulateConnectionState('connected'));
+
+    const ids: (string | null)[] = [];
+    act(() => {
+      ids.push(result.current.speak('One'), result.current.speak('Two'), result.current.speak('Three'));
+    });
+    await waitFor(() => expect(result.current.utterances[0].status).toBe('sent'));
+
+    act(() => result.current.moveUtterance(ids[2]!, 0));
+    expect(result.current.utterances.map((u) => u.text)).toEqual(['One', 'Three', 'Two']);
+
+    act(() => result.current.cancelUtterance(ids[1]!));
+    act(() => result.current.cancelUtterance(ids[0]!));
+    expect(result.current.utterances.map((u) => u.text)).toEqual(['One', 'Three']);
+  });
+
+  it('shows the stream immediately for fluent agents', async () => {
+    const { result, streamVideo, idleVideo } = await setupLoaded();
+    const peer = await connect(result);
+
+    act(() => {
+      peer.simulateConnectionState('connected');
+      peer.emitTrack();
+    });
+    expect(result.current.isFluent).toBe(true);
+    expect(streamVideo.style.opacity).toBe('1');
+    expect(idleVideo.style.opacity).toBe('0');
+  });
+
+  it('switches between idle and stream video for non-fluent agents', async () => {
+    backend.configure({ fluent: false });
+    const { result, streamVideo, idleVideo } = await setupLoaded();
+    const peer = await connect(result);
+
+    act(() => {
+      peer.simulateConnectionState('connected');
+      peer.emitTrack();
+    });
+    expect(result.current.isFluent).toBe(false);
+    expect(streamVideo.style.opacity).not.toBe('1');
+
+    act(() => peer.setMediaFlowing(true));
+    await waitFor(() => expect(streamVideo.style.opacity).toBe('1'), { timeout: 3000 });
+    expect(idleVideo.style.opacity).toBe('0');
+    expect(result.current.isStreamPlaying).toBe(true);
+
+    act(() => peer.setMediaFlowing(false));
+    await waitFor(() => expect(streamVideo.style.opacity).toBe('0'), { timeout: 3000 });
+    expect(idleVideo.style.opacity).toBe('1');
+  });
+
+  it('creates streams with the server settings, overridden by the hook', async () => {
+    const serverSettings = { ...DEFAULT_STREAM_SETTINGS, outputResolution: 720, sessionTimeoutSeconds: 120 };
+    vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) =>
+      String(input) === '/api/config'
+        ? Promise.resolve(Response.json({ url: '/api', stream: serverSettings }))
+        : backend.fetch(input, init)
+    );
+    const { result, streamVideo, idleVideo } = await setupLoaded({ streamSettings: { fluent: false, streamWarmup: true } });
+    const peer = await connect(result);
+
+    expect(backend.requestsTo('POST', streamsPath)[0].body).toEqual({
+      compatibility_mode: 'on',
+      fluent: false,
+      output_resolution: 720,
+      stream_warmup: true,
+      session_timeout: 120
+    });
+
+    // Talk agents keep the idle video up until media flows
+    act(() => {
+      peer.simulateConnectionState('connected');
+      peer.emitTrack();
+    });
+    expect(result.current.isFluent).toBe(false);
+    expect(streamVideo.style.opacity).not.toBe('1');
+    act(() => peer.setMediaFlowing(true));
+    await waitFor(() => expect(streamVideo.style.opacity).toBe('1'), { timeout: 3000 });
+    expect(idleVideo.style.opacity).toBe('0');
+  });
+
+  it('tracks speaking state from the data channel and interrupts the current video', async () => {
+    const { result } = await setupLoaded();
+    const peer = await connect(result);
+    act(() => peer.simulateConnectionState('connected'));
+
+    act(() => peer.simulateUtterance('vid_1', 60000));
+    expect(result.current.isAgentSpeaking).toBe(true);
+
+    act(() => result.current.interrupt());
+    expect(result.current.isAgentSpeaking).toBe(false);
+    expect(JSON.parse(peer.dataChannels[0].sent[0])).toMatchObject({ type: 'stream/interrupt', videoId: 'vid_1' });
+  });
+
+  it('walks the connection states and emits typed events', async () => {
+    const { result } = await setupLoaded();
+    const states: string[] = [];
+    const events: string[] = [];
+    const unsubscribe = result.current.on('stateChange', ({ to }) => states.push(to));
+    result.current.on('trackReceived', ({ track }) => events.push(`track:${track.kind}`));
+    result.current.on('utteranceStarted', ({ videoId }) => events.push(`started:${videoId}`));
+    result.current.on('utteranceDone', ({ videoId, interrupted }) => events.push(`done:${videoId}:${interrupted}`));
+
+    const peer = await connect(result);
+    expect(result.current.connectionState).toBe('negotiating');
+    act(() => peer.simulateConnectionState('connected'));
+    act(() => {
+      peer.emitTrack();
+    });
+    act(() => peer.simulateUtterance('vid_1', 60000));
+    expect(result.current.connectionState).toBe('speaking');
+    act(() => result.current.interrupt());
+
+    expect(states).toEqual(['loadingAgent', 'creatingStream', 'negotiating', 'connected', 'speaking', 'connected']);
+    expect(events).toEqual(['track:video', 'track:audio', 'started:vid_1', 'done:vid_1:true']);
+    expect(console.warn).not.toHaveBeenCalledWith(expect.stringContaining('Ignoring invalid connection state change'));
+
+    unsubscribe();
+    act(() => result.current.disconnect());
+    expect(result.current.connectionState).toBe('closed');
+    expect(states).toHaveLength(6);
+  });
+
+  it('emits errors to subscribers as well as the handler', async () => {
+    backend.injectFailure({ endpoint: streamsPath, method: 'POST', status: 401 });
+    const { result, onError } = await setupLoaded();
+    const errors: Error[] = [];
+    result.current.on('error', ({ error }) => errors.push(error));
+    await act(() => result.current.connect());
+
+    expect(result.current.connectionState).toBe('failed');
+    expect(errors).toEqual([onError.mock.calls[0][0]]);
+  });
+
+  it('falls back to rendered clips when ICE fails before connecting', async () => {
+    const { result, streamVideo, idleVideo } = await setupLoaded();
+    const peer = await connect(result);
+
+    act(() => peer.simulateConnectionState('failed'));
+    expect(result.current.playbackMode).toBe('clip');
+    expect(result.current.clipModeReason).toBe('iceFailed');
+    expect(result.current.connectionState).toBe('connected');
+    await waitFor(() => expect(backend.requestsTo('DELETE', `${streamsPath}/strm_mock_1`)).toHaveLength(1));
+    expect(backend.requestsTo('POST', streamsPath)).toHaveLength(1);
+
+    act(() => {
+      result.current.speak('Hello');
+    });
+    await waitFor(() => expect(result.current.utterances[0].status).toBe('speaking'));
+    expect(backend.requestsTo('POST', '/talks')[0].body).toMatchObject({ script: { type: 'text', input: 'Hello' } });
+    expect(streamVideo.src).toBe('https://mock.d-id.local/talks/tlk_mock_1.mp4');
+    expect(streamVideo.style.opacity).toBe('1');
+    expect(result.current.isClipRendering).toBe(false);
+
+    act(() => {
+      streamVideo.dispatchEvent(new Event('ended'));
+    });
+    expect(result.current.utterances[0].status).toBe('done');
+    expect(result.current.isAgentSpeaking).toBe(false);
+    expect(streamVideo.getAttribute('src')).toBeNull();
+    expect(idleVideo.style.opacity).toBe('1');
+  });
+
+  it('tries WebRTC again from clip mode', async () => {
+    const { result } = await setupLoaded();
+    const states: string[] = [];
+    const first = await connect(result);
+    act(() => first.simulateConnectionState('failed'));
+    expect(result.current.playbackMode).toBe('clip');
+
+    const unsubscribe = result.current.on('stateChange', ({ to }) => states.push(to));
+    const second = await connect(result);
+    unsubscribe();
+    expect(second).not.toBe(first);
+    expect(states).toEqual(['closed', 'loadingAgent', 'creatingStream', 'negotiating']);
+    expect(backend.requestsTo('POST', streamsPath)).toHaveLength(2);
+
+    act(() => second.simulateConnectionState('connected'));
+    expect(result.current.connectionState).toBe('connected');
+    expect(result.current.playbackMode).toBe('stream');
+  });
+
+  it('plays chat answers as clips when clip mode is forced', async () => {
+    const { result, onConnectionChange } = await setupLoaded({ forceClips: true });
+    await act(() => result.current.connect());
+
+    expect(backend.requestsTo('POST', streamsPath)).toHaveLength(0);
+    expect(result.current.clipModeReason).toBe('forced');
+    expect(onConnectionChange).toHaveBeenLastCalledWith(true);
+
+    await act(() => result.current.sendChatMessage('Hi'));
+    expect(backend.requestsTo('POST', `${agentPath}/chat/cht_mock_1`)[0].body).toMatchObject({ chatMode: 'TextOnly' });
+    await waitFor(() =>
+      expect(backend.requestsTo('POST', '/talks')[0]?.body).toMatchObject({ script: { type: 'text', input: 'You said: Hi' } })
+    );
+  });
+
+  it('restarts ICE on the same stream before opening a new one', async () => {
+    const { result } = await setupLoaded({ reconnect: { iceRestartTimeoutMs: 1000 } });
+    const peer = await connect(result);
+    act(() => peer.simulateConnectionState('connected'));
+
+    act(() => peer.simulateConnectionState('disconnected'));
+    expect(result.current.connectionState).toBe('reconnecting');
+    await waitFor(() => expect(peer.remoteDescription?.type).toBe('answer'));
+    expect(peer.restartIceCalls).toBe(1);
+    const [, restart] = backend.requestsTo('POST', `${streamsPath}/strm_mock_1/sdp`);
+    expect(restart.body).toEqual({ offer: peer.localDescription, session_id: 'sess_mock_1' });
+    expect(peer.localDescription?.sdp).toContain('fake-offer-restart');
+    act(() => peer.simulateConnectionState('connected'));
+    await waitFor(() => expect(result.current.connectionState).toBe('connected'));
+    expect(result.current.isReconnecting).toBe(false);
+    expect(backend.requestsTo('POST', streamsPath)).toHaveLength(1);
+  });
+
+  it('opens a new stream after a failure and sends the messages typed meanwhile', async () => {
+    const { result, onConnectionStatusChange } = await setupLoaded({ reconnect: { baseDelayMs: 10, iceRestartTimeoutMs: 1000 } });
+    const peer = await connect(result);
+    act(() => peer.simulateConnectionState('connected'));
+    // A backend that only takes answers refuses the restart offer
+    backend.injectFailure({ endpoint: `${streamsPath}/strm_mock_1/sdp`, method: 'POST', status: 400 });
+
+    act(() => peer.simulateConnectionState('failed'));
+    expect(result.current.isReconnecting).toBe(true);
+    await act(() => result.current.sendChatMessage('Still there?'));
+    expect(backend.requestsTo('POST', `${agentPath}/chat/cht_mock_1`)).toHaveLength(0);
+
+    await waitFor(() => expect(backend.requestsTo('POST', streamsPath)).toHaveLength(2));
+    expect(peer.signalingState).toBe('stable');
+    expect(onConnectionStatusChange).toHaveBeenCalledWith('reconnecting', { attempt: 1, maxAttempts: 5 });
+    await waitFor(() => expect(backend.requestsTo('DELETE', `${streamsPath}/strm_mock_1`)).toHaveLength(1));
+    await waitFor(() => expect(FakeRTCPeerConnection.instances).toHaveLength(2));
+    act(() => FakeRTCPeerConnection.latest().simulateConnectionState('connected'));
+
+    await waitFor(() => expect(result.current.connectionState).toBe('connected'));
+    expect(result.current.streamId).toBe('strm_mock_2');
+    await waitFor(() =>
+      expect(backend.requestsTo('POST', `${agentPath}/chat/cht_mock_1`)[0]?.body).toMatchObject({
+        streamId: 'strm_mock_2',
+        messages: [expect.objectContaining({ role: 'user', content: 'Still there?' })]
+      })
+    );
+  });
+
+  it('backs off between new streams and gives up after the last attempt', async () => {
+    const { result, onError, onConnectionStatusChange } = await setupLoaded({
+      reconnect: { maxAttempts: 2, baseDelayMs: 20, iceRestartTimeoutMs: 10 }
+    });
+    const peer = await connect(result);
+    act(() => peer.simulateConnectionState('connected'));
+
+    const started = Date.now();
+    act(() => peer.simulateConnectionState('failed'));
+    await waitFor(() => expect(result.current.connectionState).toBe('failed'));
+    // 20ms then 40ms of backoff, and each new stream never connects
+    expect(Date.now() - started).toBeGreaterThanOrEqual(60);
+    expect(backend.requestsTo('POST', streamsPath)).toHaveLength(3);
+    expect(onConnectionStatusChange).toHaveBeenCalledWith('reconnecting', { attempt: 2, maxAttempts: 2 });
+    expect(result.current.isReconnecting).toBe(false);
+    expect(onError).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  it('stops reconnecting once the session is closed between streams', async () => {
+    let finishCreate = () => {};
+    const created = new Promise<void>((resolve) => { finishCreate = resolve; });
+    let creates = 0;
+    vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (init?.method === 'POST' && String(input).endsWith(streamsPath) && ++creates === 2) await created;
+      return backend.fetch(input, init);
+    });
+    const { result, unmount } = await setupLoaded({ reconnect: { baseDelayMs: 10, iceRestartTimeoutMs: 10 } });
+    const peer = await connect(result);
+    act(() => peer.simulateConnectionState('connected'));
+
+    act(() => peer.simulateConnectionState('failed'));
+    await waitFor(() => expect(creates).toBe(2));
+    unmount();
+    finishCreate();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(creates).toBe(2);
+    expect(FakeRTCPeerConnection.instances).toEqual([peer]);
+    await waitFor(() =>
+      expect(backend.requestsTo('DELETE', `${streamsPath}/strm_mock_2`)[0]?.body).toEqual({ session_id: 'sess_mock_2' })
+    );
+  });
+
+  it('deletes a stream that D-ID made after the session was closed', async () => {
+    let finishCreate = () => {};
+    const created = new Promise<void>((resolve) => { finishCreate = resolve; });
+    vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (init?.method === 'POST' && String(input).endsWith(streamsPath)) await created;
+      return backend.fetch(input, init);
+    });
+    const { result, unmount } = await setupLoaded();
+
+    let connecting: Promise<void> = Promise.resolve();
+    act(() => {
+      connecting = result.current.connect();
+    });
+    await waitFor(() => expect(result.current.connectionState).toBe('creatingStream'));
+    unmount();
+    finishCreate();
+    await act(() => connecting);
+
+    expect(FakeRTCPeerConnection.instances).toHaveLength(0);
+    await waitFor(() =>
+      expect(backend.requestsTo('DELETE', `${streamsPath}/strm_mock_1`)[0]?.body).toEqual({ session_id: 'sess_mock_1' })
+    );
+  });
+
+  it('keeps only the latest stream when connect is called again mid-connect', async () => {
+    let finishFirstCreate = () => {};
+    const firstCreated = new Promise<void>((resolve) => { finishFirstCreate = resolve; });
+    let creates = 0;
+    vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (init?.method === 'POST' && String(input).endsWith(streamsPath) && ++creates === 1) await firstCreated;
+      return backend.fetch(input, init);
+    });
+    const { result } = await setupLoaded();
+
+    let first: Promise<void> = Promise.resolve();
+    act(() => {
+      first = result.current.connect();
+    });
+    await waitFor(() => expect(result.current.connectionState).toBe('creatingStream'));
+    const peer = await connect(result);
+    finishFirstCreate();
+    await act(() => first);
+
+    expect(FakeRTCPeerConnection.instances).toEqual([peer]);
+    expect(result.current.streamId).toBe('strm_mock_1');
+    await waitFor(() =>
+      expect(backend.requestsTo('DELETE', `${streamsPath}/strm_mock_2`)[0]?.body).toEqual({ session_id: 'sess_mock_2' })
+    );
+    expect(backend.requestsTo('DELETE', `${streamsPath}/strm_mock_1`)).toHaveLength(0);
+  });
+
+  it('ends the session and deletes the stream once the idle timeout passes', async () => {
+    const { result, onConnectionChange, onConnectionStatusChange } = await setupLoaded({ idleTimeoutMinutes: 2 });
+    const peer = await connect(result);
+    // Only the idle timer, which starts once the stream connects
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      act(() => peer.simulateConnectionState('connected'));
+      act(() => vi.advanceTimersByTime(2 * 60 * 1000 - 1));
+      expect(result.current.connectionState).toBe('connected');
+
+      act(() => vi.advanceTimersByTime(1));
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(result.current.connectionState).toBe('closed');
+    expect(onConnectionStatusChange).toHaveBeenLastCalledWith('idleTimeout');
+    expect(onConnectionChange).toHaveBeenLastCalledWith(false);
+    await waitFor(() =>
+      expect(backend.requestsTo('DELETE', `${streamsPath}/strm_mock_1`)[0]?.body).toEqual({ session_id: 'sess_mock_1' })
+    );
+  });
+
+  it('sends a beacon to the close route when the page is hidden', async () => {
+    const sendBeacon = vi.fn(() => true);
+    vi.stubGlobal('navigator', { ...navigator, sendBeacon });
+    const { result } = await setupLoaded();
+    const peer = await connect(result);
+    act(() => peer.simulateConnectionState('connected'));
+
+    act(() => {
+      window.dispatchEvent(new Event('pagehide'));
+    });
+    // The history log sends its own beacons to /api/history/events
+    const closes = (sendBeacon.mock.calls as unknown as [string, Blob][]).filter(([url]) => url.endsWith('/close'));
+    expect(closes).toHaveLength(1);
+    const [url, body] = closes[0];
+    expect(url).toBe(`/api${streamsPath}/strm_mock_1/close`);
+    // jsdom's Blob has no text()
+    const text = await new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(body);
+    });
+    expect(JSON.parse(text)).toEqual({ session_id: 'sess_mock_1' });
+    expect(peer.connectionState).toBe('closed');
+    expect(backend.requestsTo('DELETE', `${streamsPath}/strm_mock_1`)).toHaveLength(0);
+  });
+
+  it('deletes the stream on disconnect', async () => {
+    const { result, onConnectionChange } = await setupLoaded();
+    const peer = await connect(result);
+    act(() => peer.simulateConnectionState('connected'));
+
+    act(() => result.current.disconnect());
+    expect(peer.connectionState).toBe('closed');
+    expect(onConnectionChange).toHaveBeenLastCalledWith(false);
+    await waitFor(() =>
+      expect(backend.requestsTo('DELETE', `${streamsPath}/strm_mock_1`)[0]?.body).toEqual({ session_id: 'sess_mock_1' })
+    );
+  });
+});
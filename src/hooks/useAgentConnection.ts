@@ -1,55 +1,129 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type { DIDApiError } from '@/lib/didClient';
+import type { SpeakScript } from '@/lib/scripts';
+import type { StreamSettings } from '@/lib/streamSettings';
+import {
+  AgentSession,
+  fetchApiConfig,
+  type AgentApiConfig,
+  type AgentSessionEventType,
+  type AgentSessionListener,
+  type ChatMessage,
+  type ClipModeReason,
+  type ConnectionState,
+  type ConnectionStatus,
+  type PlaybackMode,
+  type ReconnectAttempt,
+  type ReconnectOptions,
+  type StreamEvent,
+  type Utterance
+} from '@/lib/agentSession';
+import { useAgentSessionState } from './useAgentSession';
+
+export {
+  DEFAULT_RECONNECT_OPTIONS,
+  type AgentSessionEvents,
+  type AgentSessionEventType,
+  type AgentSessionListener,
+  type ChatMessage,
+  type ClipModeReason,
+  type ConnectionState,
+  type ConnectionStatus,
+  type PlaybackMode,
+  type ReconnectAttempt,
+  type ReconnectOptions,
+  type StateChangeEvent,
+  type StreamEvent,
+  type TrackReceivedEvent,
+  type Utterance,
+  type UtteranceEvent,
+  type UtteranceStatus
+} from '@/lib/agentSession';
+export { DEFAULT_STREAM_SETTINGS, type StreamSettings } from '@/lib/streamSettings';
 
 interface AgentConnectionProps {
+  agentId: string;
+  reconnect?: Partial<ReconnectOptions>;
+  // Ends the session after this many minutes without a message; 0 disables
+  idleTimeoutMinutes?: number;
+  // Overrides the server's stream settings (/admin/settings); applies from the next connect
+  streamSettings?: Partial<StreamSettings>;
+  // Plays rendered clips instead of trying WebRTC; applies from the next connect
+  forceClips?: boolean;
   onConnectionChange: (connected: boolean) => void;
   onAgentNameChange: (name: string) => void;
-  onConnectionStatusChange: (status: string) => void;
+  onAgentThumbnailChange?: (thumbnail: string | null) => void;
+  // `attempt` is only passed while reconnecting with a new stream
+  onConnectionStatusChange: (status: ConnectionStatus, attempt?: ReconnectAttempt) => void;
+  onError?: (error: DIDApiError | Error) => void;
+  // stream/started and stream/done from the data channel
+  onStreamEvent?: (event: StreamEvent) => void;
   streamVideoRef: React.RefObject<HTMLVideoElement | null>;
   idleVideoRef: React.RefObject<HTMLVideoElement | null>;
 }
 
 interface AgentConnectionReturn {
+  // For components that subscribe to part of the session themselves, like StatsOverlay
+  session: AgentSession | null;
+  // Lifecycle state: idle → loadingAgent → creatingStream → negotiating → connected ⇄ speaking
+  connectionState: ConnectionState;
+  // Subscribes to the current session's events and returns an unsubscribe function.
+  // Changes when the agent does, so listeners registered in an effect should depend on it.
+  on: <K extends AgentSessionEventType>(type: K, listener: AgentSessionListener<K>) => () => void;
   connect: () => Promise<void>;
-  speak: (message: string) => Promise<void>;
+  disconnect: () => void;
+  // Queues plain text or a script and returns the queue item's id, or null if nothing was queued
+  speak: (input: string | SpeakScript) => string | null;
+  sendChatMessage: (message: string) => Promise<string | null>;
+  chatMessages: ChatMessage[];
+  utterances: Utterance[];
+  // Only queued items can be cancelled or moved; `toIndex` counts queued items only
+  cancelUtterance: (id: string) => void;
+  moveUtterance: (id: string, toIndex: number) => void;
+  interrupt: () => void;
+  isAgentSpeaking: boolean;
+  isReconnecting: boolean;
   isStreamReady: boolean;
   isStreamPlaying: boolean;
   isFluent: boolean;
+  // 'clip' when WebRTC couldn't connect (or forceClips is set) and messages play as rendered clips
+  playbackMode: PlaybackMode;
+  clipModeReason: ClipModeReason | null;
+  isClipRendering: boolean;
+  // The agent's audio and video as attached to streamVideoRef; replaced when a reconnect opens a new stream
+  remoteStream: MediaStream | null;
   peerConnection: RTCPeerConnection | null;
   streamId: string | null;
   sessionId: string | null;
 }
 
-interface DIDApiConfig {
-  key: string;
-  url: string;
-}
+const noopUnsubscribe = () => {};
 
+// A single AgentSession bound to one pair of <video> elements; switching agents starts a fresh session
 export const useAgentConnection = ({
+  agentId,
+  reconnect,
+  idleTimeoutMinutes = 0,
+  streamSettings,
+  forceClips = false,
   onConnectionChange,
   onAgentNameChange,
+  onAgentThumbnailChange,
   onConnectionStatusChange,
+  onError,
+  onStreamEvent,
   streamVideoRef,
   idleVideoRef
 }: AgentConnectionProps): AgentConnectionReturn => {
-  const [isStreamReady, setIsStreamReady] = useState(false);
-  const [isStreamPlaying, setIsStreamPlaying] = useState(false);
-  const [isFluent, setIsFluent] = useState(false);
-  const [peerConnection, setPeerConnection] = useState<RTCPeerConnection | null>(null);
-  const [streamId, setStreamId] = useState<string | null>(null);
-  const [sessionId, setSessionId] = useState<string | null>(null);
-  const [apiConfig, setApiConfig] = useState<DIDApiConfig | null>(null);
-
-  const agentId = 'v2_agt_08Ix5nLz';
+  const [apiConfig, setApiConfig] = useState<AgentApiConfig | null>(null);
 
   // Load API configuration
   useEffect(() => {
     const loadApiConfig = async () => {
       try {
-        const response = await fetch('/api/config');
-        const config = await response.json();
-        setApiConfig(config);
+        setApiConfig(await fetchApiConfig());
       } catch (error) {
         console.error('Failed to load API config:', error);
       }
@@ -57,326 +131,116 @@ export const useAgentConnection = ({
     loadApiConfig();
   }, []);
 
-  const fetchWithRetry = useCallback(async (url: string, options: RequestInit, retries = 3) => {
-    try {
-      const res = await fetch(url, options);
-      if (!res.ok && retries > 0) {
-        console.warn('Fetch failed, retrying...', url);
-        await new Promise((r) => setTimeout(r, (Math.random() + 1) * 1000));
-        return fetchWithRetry(url, options, retries - 1);
-      }
-      return res;
-    } catch (err) {
-      if (retries > 0) {
-        console.warn('Fetch error, retrying...', url);
-        await new Promise((r) => setTimeout(r, (Math.random() + 1) * 1000));
-        return fetchWithRetry(url, options, retries - 1);
-      }
-      throw err;
-    }
-  }, []);
+  // Constructing a session has no side effects; the effects below start and end it
+  const session = useMemo(
+    () => (apiConfig && agentId ? new AgentSession({ agentId, api: apiConfig }) : null),
+    [apiConfig, agentId]
+  );
+  const state = useAgentSessionState(session);
+
+  const maxAttempts = reconnect?.maxAttempts;
+  const baseDelayMs = reconnect?.baseDelayMs;
+  const iceRestartTimeoutMs = reconnect?.iceRestartTimeoutMs;
+  const fluent = streamSettings?.fluent;
+  const compatibilityMode = streamSettings?.compatibilityMode;
+  const outputResolution = streamSettings?.outputResolution;
+  const streamWarmup = streamSettings?.streamWarmup;
+  const sessionTimeoutSeconds = streamSettings?.sessionTimeoutSeconds;
 
-  const updateVideoDisplay = useCallback((stream: MediaStream | null, isPlaying: boolean) => {
-    console.log('updateVideoDisplay called:', { isFluent, isStreamReady, isPlaying, hasStream: !!stream });
-    
-    if (!streamVideoRef.current || !idleVideoRef.current) {
-      console.log('Video refs not available');
-      return;
-    }
+  useEffect(() => {
+    session?.setOptions({
+      reconnect: { maxAttempts, baseDelayMs, iceRestartTimeoutMs },
+      idleTimeoutMinutes,
+      stream: { fluent, compatibilityMode, outputResolution, streamWarmup, sessionTimeoutSeconds },
+      forceClips
+    });
+  }, [
+    session,
+    maxAttempts,
+    baseDelayMs,
+    iceRestartTimeoutMs,
+    idleTimeoutMinutes,
+    fluent,
+    compatibilityMode,
+    outputResolution,
+    streamWarmup,
+    sessionTimeoutSeconds,
+    forceClips
+  ]);
 
-    if (!isFluent) {
-      const streamOpacity = isPlaying && isStreamReady ? 1 : 0;
-      console.log('Non-fluent mode - setting opacities:', { streamOpacity });
-      idleVideoRef.current.style.opacity = (1 - streamOpacity).toString();
-      streamVideoRef.current.style.opacity = streamOpacity.toString();
-      if (isPlaying && stream) {
-        streamVideoRef.current.srcObject = stream;
-        streamVideoRef.current.muted = !isStreamReady;
-        if (streamVideoRef.current.paused) {
-          streamVideoRef.current.play().catch((e) => console.log('Play error:', e));
-        }
-      }
-    } else {
-      console.log('Fluent mode - setting video display');
-      idleVideoRef.current.style.opacity = '0';
-      streamVideoRef.current.style.opacity = '1';
-      streamVideoRef.current.muted = false;
-      if (stream) {
-        streamVideoRef.current.srcObject = stream;
-        if (streamVideoRef.current.paused) {
-          streamVideoRef.current.play().catch((e) => console.log('Play error:', e));
-        }
-      }
-    }
-  }, [isFluent, isStreamReady]);
+  useEffect(() => {
+    session?.setHandlers({
+      onConnectionChange,
+      onAgentChange: (name, thumbnail) => {
+        onAgentNameChange(name);
+        onAgentThumbnailChange?.(thumbnail);
+      },
+      onConnectionStatusChange,
+      onError,
+      onStreamEvent
+    });
+  }, [session, onConnectionChange, onAgentNameChange, onAgentThumbnailChange, onConnectionStatusChange, onError, onStreamEvent]);
 
-  const stopStream = useCallback(() => {
-    if (!streamVideoRef.current) return;
-    const stream = streamVideoRef.current.srcObject as MediaStream;
-    if (stream) {
-      stream.getTracks().forEach((t) => t.stop());
-      streamVideoRef.current.srcObject = null;
-    }
-  }, [streamVideoRef]);
+  // Switching agents (or unmounting) closes the previous agent's stream.
+  // Declared before the media effect so close() can still reset the videos.
+  useEffect(() => {
+    if (!session) return;
+    session.loadAgentInfo();
+    return () => session.close();
+  }, [session]);
 
-  const closeConnection = useCallback(() => {
-    if (!peerConnection) return;
-    try {
-      peerConnection.close();
-    } catch {}
-    setPeerConnection(null);
-    setIsStreamReady(false);
-    setIsStreamPlaying(false);
-  }, [peerConnection]);
+  useEffect(() => {
+    if (!session) return;
+    return session.attachMedia({ streamVideo: streamVideoRef.current, idleVideo: idleVideoRef.current });
+  }, [session, streamVideoRef, idleVideoRef]);
 
   const connect = useCallback(async () => {
-    if (!apiConfig) {
+    if (!session) {
       console.error('API config not loaded');
       return;
     }
-
-    console.log('Connecting to Agent...');
-    onConnectionStatusChange('Connecting…');
-
-    if (peerConnection?.connectionState === 'connected') return;
-
-    // Clean up any existing connections or streams
-    stopStream();
-    closeConnection();
-
-    try {
-      // 1) Fetch Agent info
-      console.log('Fetching agent info...');
-      const resAgent = await fetch(`${apiConfig.url}/agents/${agentId}`, {
-        method: 'GET',
-        headers: { 
-          Authorization: `Basic ${apiConfig.key}`, 
-          'Content-Type': 'application/json' 
-        }
-      });
-      
-      if (!resAgent.ok) {
-        throw new Error(`Failed to fetch agent info: ${resAgent.status} ${resAgent.statusText}`);
-      }
-      
-      const agentData = await resAgent.json();
-      onAgentNameChange(agentData.preview_name);
-      console.log('Agent loaded:', agentData);
-
-      // Create a new stream
-      console.log('Creating stream session...');
-      const streamOptions = { compatibility_mode: 'on', fluent: true };
-      const resStream = await fetchWithRetry(`${apiConfig.url}/agents/${agentId}/streams`, {
-        method: 'POST',
-        headers: { 
-          Authorization: `Basic ${apiConfig.key}`, 
-          'Content-Type': 'application/json' 
-        },
-        body: JSON.stringify(streamOptions)
-      });
-      
-      if (!resStream.ok) {
-        throw new Error(`Failed to create stream: ${resStream.status} ${resStream.statusText}`);
-      }
-      
-      const { id, session_id, offer, ice_servers, fluent } = await resStream.json();
-      setStreamId(id);
-      setSessionId(session_id);
-      const isFluentMode = !!fluent;
-      setIsFluent(isFluentMode);
-      console.log('Stream created: ', id, '\nFluent mode:', isFluentMode);
-
-      if (!fluent && streamVideoRef.current && idleVideoRef.current) {
-        // Prep idle visuals for talk (non-fluent) avatars
-        const videoWrapper = streamVideoRef.current.parentElement;
-        if (videoWrapper) {
-          videoWrapper.style.backgroundImage = `url(${agentData.presenter.thumbnail})`;
-        }
-        idleVideoRef.current.src = agentData.presenter.idle_video;
-      }
-
-      // Start the WebRTC connection
-      console.log('Setting up WebRTC connection...');
-      const RTCPeerConnectionCtor =
-        window.RTCPeerConnection || (window as any).webkitRTCPeerConnection || (window as any).mozRTCPeerConnection;
-      
-      const newPeerConnection = new RTCPeerConnectionCtor({ iceServers: ice_servers });
-      setPeerConnection(newPeerConnection);
-
-      // Submit Network information (ICE candidates → API)
-      newPeerConnection.addEventListener('icecandidate', (event) => {
-        const body = event.candidate
-          ? { 
-              candidate: event.candidate.candidate, 
-              sdpMid: event.candidate.sdpMid, 
-              sdpMLineIndex: event.candidate.sdpMLineIndex 
-            }
-          : {};
-        fetch(`${apiConfig.url}/agents/${agentId}/streams/${id}/ice`, {
-          method: 'POST',
-          headers: { 
-            Authorization: `Basic ${apiConfig.key}`, 
-            'Content-Type': 'application/json' 
-          },
-          body: JSON.stringify({ session_id: session_id, ...body })
-        });
-        console.log('ICE candidate sent');
-      });
-
-      // Connection state changes
-      newPeerConnection.addEventListener('connectionstatechange', () => {
-        console.log('Peer connection state:', newPeerConnection.connectionState);
-        if (newPeerConnection.connectionState === 'connecting') {
-          onConnectionStatusChange('Connecting…');
-        }
-        if (newPeerConnection.connectionState === 'connected') {
-          console.log('Connection established, setting stream ready');
-          setIsStreamReady(true);
-          onConnectionStatusChange('Connected');
-          onConnectionChange(true);
-        }
-        if (newPeerConnection.connectionState === 'disconnected') {
-          onConnectionChange(false);
-        }
-        if (newPeerConnection.connectionState === 'failed' || newPeerConnection.connectionState === 'closed') {
-          stopStream();
-          closeConnection();
-        }
-      });
-
-      // Remote media → <video> + simple "playing" detection
-      newPeerConnection.addEventListener('track', (event) => {
-        console.log('Remote track received');
-        const stream = event.streams[0];
-        const [track] = stream.getVideoTracks();
-        if (!track || !streamVideoRef.current) return;
-
-        console.log('Setting video stream to element');
-        streamVideoRef.current.srcObject = stream;
-        streamVideoRef.current.muted = false; // Always unmute for fluent mode
-        
-        // For fluent mode, immediately show the video
-        if (isFluentMode) {
-          console.log('Fluent mode - showing video immediately');
-          // Set video opacity directly for fluent mode
-          if (streamVideoRef.current) {
-            streamVideoRef.current.style.opacity = '1';
-          }
-          if (idleVideoRef.current) {
-            idleVideoRef.current.style.opacity = '0';
-          }
-          // Set stream ready immediately for fluent mode
-          setIsStreamReady(true);
-          // Try to play the video after a short delay to avoid AbortError
-          setTimeout(() => {
-            if (streamVideoRef.current && streamVideoRef.current.paused) {
-              streamVideoRef.current.play().catch((e) => console.log('Delayed play error:', e));
-            }
-          }, 100);
-        }
-
-        let lastBytes = 0;
-        let lastPlayingState = false;
-        const interval = setInterval(async () => {
-          if (!newPeerConnection || newPeerConnection.connectionState === 'closed') {
-            clearInterval(interval);
-            return;
-          }
-          try {
-            const receiver = newPeerConnection.getReceivers().find((r) => r.track === track);
-            if (!receiver) return;
-            const stats = await receiver.getStats();
-            stats.forEach((report) => {
-              if (report.type === 'inbound-rtp' && report.kind === 'video') {
-                const nowPlaying = report.bytesReceived > lastBytes;
-                if (nowPlaying !== lastPlayingState) {
-                  setIsStreamPlaying(nowPlaying);
-                  console.log('Stream playing state changed:', nowPlaying);
-                  // For fluent mode, don't call updateVideoDisplay to avoid opacity changes
-                  if (!isFluentMode) {
-                    updateVideoDisplay(stream, nowPlaying);
-                  }
-                  lastPlayingState = nowPlaying;
-                }
-                lastBytes = report.bytesReceived;
-              }
-            });
-          } catch {}
-        }, 1000);
-      });
-
-      // Data channel - Fluent + Interrupt (Only for Premium+ Agents)
-      const dc = newPeerConnection.createDataChannel('JanusDataChannel');
-      dc.onmessage = (event) => {
-        let msg = event.data;
-        if (msg.includes('stream/started')) {
-          console.log(msg);
-          if (fluent) {
-            const m = msg.match(/{.*}/);
-            if (m) {
-              const data = JSON.parse(m[0]);
-              // Interrupt functionality is preserved but no UI button
-            }
-          }
-        }
-        if (msg.includes('stream/done')) {
-          console.log(msg);
-          if (fluent) {
-            // Interrupt functionality is preserved but no UI button
-          }
-        }
-      };
-
-      await newPeerConnection.setRemoteDescription(offer);
-      const answer = await newPeerConnection.createAnswer();
-      await newPeerConnection.setLocalDescription(answer);
-
-      // Send SDP answer (Start a WebRTC connection endpoint)
-      console.log('Sending local SDP answer...');
-      await fetch(`${apiConfig.url}/agents/${agentId}/streams/${id}/sdp`, {
-        method: 'POST',
-        headers: { 
-          Authorization: `Basic ${apiConfig.key}`, 
-          'Content-Type': 'application/json' 
-        },
-        body: JSON.stringify({ answer, session_id: session_id })
-      });
-
-    } catch (error) {
-      console.error('Connection failed:', error);
-      onConnectionStatusChange('Connection failed');
-      onConnectionChange(false);
-    }
-  }, [apiConfig, peerConnection, isStreamReady, stopStream, closeConnection, updateVideoDisplay, onConnectionChange, onAgentNameChange, onConnectionStatusChange, fetchWithRetry]);
-
-  const speak = useCallback(async (message: string) => {
-    if (!peerConnection || !isStreamReady || !apiConfig || !streamId || !sessionId) return;
-    
-    const val = message.trim();
-    if (!val) return;
-    
-    console.log('Sending speak text:', val);
-    await fetchWithRetry(`${apiConfig.url}/agents/${agentId}/streams/${streamId}`, {
-      method: 'POST',
-      headers: { 
-        Authorization: `Basic ${apiConfig.key}`, 
-        'Content-Type': 'application/json' 
-      },
-      body: JSON.stringify({ 
-        script: { type: 'text', input: val }, 
-        session_id: sessionId 
-      })
-    });
-  }, [peerConnection, isStreamReady, apiConfig, streamId, sessionId, fetchWithRetry]);
+    await session.connect();
+  }, [session]);
+
+  const disconnect = useCallback(() => session?.disconnect(), [session]);
+  const speak = useCallback((input: string | SpeakScript) => session?.speak(input) ?? null, [session]);
+  const sendChatMessage = useCallback(
+    async (message: string) => (session ? session.sendChatMessage(message) : null),
+    [session]
+  );
+  const cancelUtterance = useCallback((id: string) => session?.cancelUtterance(id), [session]);
+  const moveUtterance = useCallback((id: string, toIndex: number) => session?.moveUtterance(id, toIndex), [session]);
+  const interrupt = useCallback(() => session?.interrupt(), [session]);
+  const on = useCallback(
+    <K extends AgentSessionEventType>(type: K, listener: AgentSessionListener<K>) =>
+      session ? session.on(type, listener) : noopUnsubscribe,
+    [session]
+  );
 
   return {
+    session,
+    connectionState: state.connectionState,
+    on,
     connect,
+    disconnect,
     speak,
-    isStreamReady,
-    isStreamPlaying,
-    isFluent,
-    peerConnection,
-    streamId,
-    sessionId
+    sendChatMessage,
+    chatMessages: state.chatMessages,
+    utterances: state.utterances,
+    cancelUtterance,
+    moveUtterance,
+    interrupt,
+    isAgentSpeaking: state.isAgentSpeaking,
+    isReconnecting: state.isReconnecting,
+    isStreamReady: state.isStreamReady,
+    isStreamPlaying: state.isStreamPlaying,
+    isFluent: state.isFluent,
+    playbackMode: state.playbackMode,
+    clipModeReason: state.clipModeReason,
+    isClipRendering: state.isClipRendering,
+    remoteStream: state.remoteStream,
+    peerConnection: state.peerConnection,
+    streamId: state.streamId,
+    sessionId: state.sessionId
   };
 };
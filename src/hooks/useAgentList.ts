@@ -0,0 +1,47 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { DIDClient } from '@/lib/didClient';
+
+export interface AgentSummary {
+  id: string;
+  name: string;
+  thumbnail: string | null;
+}
+
+interface AgentListReturn {
+  agents: AgentSummary[];
+  isLoading: boolean;
+}
+
+export const useAgentList = (): AgentListReturn => {
+  const [agents, setAgents] = useState<AgentSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadAgents = async () => {
+      try {
+        const { agents: items } = await new DIDClient('/api').listAgents();
+        if (cancelled) return;
+        setAgents(items.map((agent) => ({
+          id: agent.id,
+          name: agent.preview_name || agent.id,
+          thumbnail: agent.presenter.thumbnail ?? null
+        })));
+      } catch (error) {
+        console.error('Failed to load agents:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadAgents();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { agents, isLoading };
+};
@@ -0,0 +1,40 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { INITIAL_SESSION_STATE, type AgentSession, type AgentSessionState } from '@/lib/agentSession';
+import type { AgentSessionManager } from '@/lib/agentSessionManager';
+import type { StreamMetrics } from '@/lib/streamMetrics';
+
+const noopUnsubscribe = () => {};
+const NO_SESSIONS: AgentSession[] = [];
+const NO_METRICS: StreamMetrics[] = [];
+
+// Re-renders whenever the session's snapshot changes; a missing session reads as idle
+export const useAgentSessionState = (session: AgentSession | null): AgentSessionState => {
+  const subscribe = useCallback(
+    (listener: () => void) => (session ? session.subscribe(listener) : noopUnsubscribe),
+    [session]
+  );
+  const getSnapshot = useCallback(() => session?.getSnapshot() ?? INITIAL_SESSION_STATE, [session]);
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+};
+
+// The session's stats samples; subscribing is what makes the session collect them
+export const useStreamMetrics = (session: AgentSession | null): StreamMetrics[] => {
+  const subscribe = useCallback(
+    (listener: () => void) => (session ? session.subscribeMetrics(listener) : noopUnsubscribe),
+    [session]
+  );
+  const getSnapshot = useCallback(() => session?.getMetricsSnapshot() ?? NO_METRICS, [session]);
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+};
+
+// The manager's sessions, re-read when one is added or removed
+export const useAgentSessions = (manager: AgentSessionManager | null): AgentSession[] => {
+  const subscribe = useCallback(
+    (listener: () => void) => (manager ? manager.subscribe(listener) : noopUnsubscribe),
+    [manager]
+  );
+  const getSnapshot = useCallback(() => manager?.getSessions() ?? NO_SESSIONS, [manager]);
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+};
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import {
+  buildCues,
+  currentCaption,
+  recordingFileName,
+  toSRT,
+  toWebVTT,
+  type RecordingEvent,
+  type RecordingEventInput
+} from '@/lib/recording';
+
+interface CaptionsProps {
+  // Speaker name used in the exported transcript
+  agentName?: string;
+}
+
+export type TranscriptFormat = 'vtt' | 'srt';
+
+interface CaptionsReturn {
+  // What the agent is saying right now, between stream/started and stream/done
+  caption: string | null;
+  hasTranscript: boolean;
+  // Same events the session recorder takes; segments are ignored
+  logEvent: (event: RecordingEventInput) => void;
+  // Saves everything said since the first event as a subtitle file
+  downloadTranscript: (format: TranscriptFormat) => void;
+}
+
+const TRANSCRIPT_TYPES: Record<TranscriptFormat, string> = {
+  vtt: 'text/vtt',
+  srt: 'application/x-subrip'
+};
+
+// Unlike a recording, the transcript runs for the whole page, not just while recording
+export const useCaptions = ({ agentName }: CaptionsProps = {}): CaptionsReturn => {
+  const [caption, setCaption] = useState<string | null>(null);
+  const [hasTranscript, setHasTranscript] = useState(false);
+
+  const eventsRef = useRef<RecordingEvent[]>([]);
+  const startRef = useRef<{ startedAt: Date; startTime: number } | null>(null);
+
+  const logEvent = useCallback((event: RecordingEventInput) => {
+    if (event.type === 'segment') return;
+    startRef.current ??= { startedAt: new Date(), startTime: performance.now() };
+    const atMs = Math.round(performance.now() - startRef.current.startTime);
+    eventsRef.current.push({ ...event, atMs } as RecordingEvent);
+    setCaption(currentCaption(eventsRef.current));
+    if (event.type === 'message') setHasTranscript(true);
+  }, []);
+
+  const downloadTranscript = useCallback((format: TranscriptFormat) => {
+    const start = startRef.current;
+    if (!start) return;
+    const cues = buildCues(eventsRef.current, performance.now() - start.startTime);
+    const text = format === 'srt' ? toSRT(cues, agentName) : toWebVTT(cues, agentName);
+    const url = URL.createObjectURL(new Blob([text], { type: TRANSCRIPT_TYPES[format] }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = recordingFileName(start.startedAt, `-transcript.${format}`);
+    link.click();
+    // Give the download a moment to start before freeing the file
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }, [agentName]);
+
+  return {
+    caption,
+    hasTranscript,
+    logEvent,
+    downloadTranscript
+  };
+};
@@ -0,0 +1,38 @@
+'use client';
+
+import { useEffect, type RefObject } from 'react';
+
+const FOCUSABLE = 'button:not(:disabled), [href], input:not(:disabled), select:not(:disabled), textarea:not(:disabled), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Moves focus into an overlay while it's active, so Enter or Space acts on its
+ * first control. With trap, Tab and Shift+Tab cycle inside it instead of
+ * reaching the page behind.
+ */
+export const useDialogFocus = (ref: RefObject<HTMLElement | null>, active: boolean, trap = false) => {
+  useEffect(() => {
+    const container = ref.current;
+    if (!active || !container) return;
+
+    const focusable = () => Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
+    focusable()[0]?.focus();
+    if (!trap) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab') return;
+      const items = focusable();
+      if (items.length === 0) return;
+      const first = items[0];
+      const last = items[items.length - 1];
+      if (e.shiftKey && (document.activeElement === first || !container.contains(document.activeElement))) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (document.activeElement === last || !container.contains(document.activeElement))) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [ref, active, trap]);
+};
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react';
+import type { Utterance } from '@/lib/agentSession';
+import type { PresentationScript } from '@/lib/presentation';
+import { PresentationPlayer, type PresentationState, type PresentationTarget } from '@/lib/presentationPlayer';
+import type { PresentationSummary } from '@/lib/presentationStore';
+
+interface PresentationProps extends PresentationTarget {
+  // The session's queue; the player moves on as its lines finish
+  utterances: Utterance[];
+}
+
+interface PresentationReturn extends PresentationState {
+  presentations: PresentationSummary[];
+  selectedId: string;
+  isLoading: boolean;
+  // The selected script couldn't be fetched or no longer parses
+  loadFailed: boolean;
+  select: (id: string) => void;
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  skip: () => void;
+  stop: () => void;
+  setLiveOnInteraction: (liveOnInteraction: boolean) => void;
+  noteInteraction: () => void;
+}
+
+export const usePresentation = ({ speak, interrupt, cancelUtterance, utterances }: PresentationProps): PresentationReturn => {
+  // The player outlives renders and follows the session functions as they change
+  const [player] = useState(() => new PresentationPlayer());
+  const state = useSyncExternalStore(player.subscribe, player.getSnapshot, player.getSnapshot);
+
+  const [presentations, setPresentations] = useState<PresentationSummary[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  // Answers for an earlier selection are dropped
+  const selectionRef = useRef(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch('/api/presentations', { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : { presentations: [] }))
+      .then((data: { presentations: PresentationSummary[] }) => setPresentations(data.presentations))
+      .catch((error) => {
+        if (!controller.signal.aborted) console.warn('Failed to load presentations:', error);
+      });
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    player.setTarget({ speak, interrupt, cancelUtterance });
+  }, [player, speak, interrupt, cancelUtterance]);
+
+  useEffect(() => {
+    player.handleUtterances(utterances);
+  }, [player, utterances]);
+
+  useEffect(() => {
+    return () => player.dispose();
+  }, [player]);
+
+  // Selecting a script stops whatever was playing
+  const select = useCallback((id: string) => {
+    selectionRef.current += 1;
+    const selection = selectionRef.current;
+    setSelectedId(id);
+    setLoadFailed(false);
+    player.load(null);
+    if (!id) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    fetch(`/api/presentations/${encodeURIComponent(id)}`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data: { script: PresentationScript | null } = await response.json();
+        if (selection !== selectionRef.current) return;
+        if (!data.script) throw new Error('Saved script no longer parses');
+        player.load(data.script);
+      })
+      .catch((error) => {
+        if (selection !== selectionRef.current) return;
+        console.warn('Failed to load presentation:', error);
+        setLoadFailed(true);
+      })
+      .finally(() => {
+        if (selection === selectionRef.current) setIsLoading(false);
+      });
+  }, [player]);
+
+  return {
+    ...state,
+    presentations,
+    selectedId,
+    isLoading,
+    loadFailed,
+    select,
+    start: useCallback(() => player.start(), [player]),
+    pause: useCallback(() => player.pause(), [player]),
+    resume: useCallback(() => player.resume(), [player]),
+    skip: useCallback(() => player.skip(), [player]),
+    stop: useCallback(() => player.stop(), [player]),
+    setLiveOnInteraction: useCallback((value: boolean) => player.setLiveOnInteraction(value), [player]),
+    noteInteraction: useCallback(() => player.noteInteraction(), [player])
+  };
+};
@@ -0,0 +1,285 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect, useSyncExternalStore } from 'react';
+import {
+  recordingFileName,
+  toTranscriptJSON,
+  toWebVTT,
+  buildCues,
+  type Recording,
+  type RecordingEvent,
+  type RecordingEventInput,
+  type RecordingSegment
+} from '@/lib/recording';
+
+interface SessionRecorderProps {
+  // The agent's stream; a different stream while recording starts a new segment
+  remoteStream: MediaStream | null;
+  // Mix the user's microphone into the recorded audio
+  includeMic: boolean;
+  // Speaker name used in the subtitles
+  agentName?: string;
+}
+
+export type RecorderIssue = 'unsupported' | 'micDenied' | 'failed';
+
+interface SessionRecorderReturn {
+  isRecording: boolean;
+  isSupported: boolean;
+  recordings: Recording[];
+  issue: RecorderIssue | null;
+  start: () => Promise<void>;
+  // Resolves once the last segment is written and the recording is in the list
+  stop: () => Promise<void>;
+  // Adds to the transcript; ignored while not recording
+  logEvent: (event: RecordingEventInput) => void;
+  removeRecording: (id: string) => void;
+}
+
+// What is being recorded right now
+interface ActiveSession {
+  id: string;
+  startedAt: Date;
+  startTime: number;
+  includesMic: boolean;
+  events: RecordingEvent[];
+  segments: RecordingSegment[];
+  // One per segment; each resolves when its recorder has flushed
+  pendingSegments: Promise<void>[];
+  recorder: MediaRecorder | null;
+  source: MediaStream | null;
+  mic: MediaStream | null;
+  audioContext: AudioContext | null;
+  micSource: MediaStreamAudioSourceNode | null;
+}
+
+const MIME_TYPES = ['video/webm;codecs=vp8,opus', 'video/webm;codecs=vp9,opus', 'video/webm'];
+
+const isRecorderAvailable = () => typeof window !== 'undefined' && typeof window.MediaRecorder !== 'undefined';
+
+// Support never changes while the page is open
+const subscribeToSupport = () => () => {};
+
+const pickMimeType = () => MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+
+const elapsed = (session: ActiveSession) => performance.now() - session.startTime;
+
+// The stream to record: the agent's video plus its audio, mixed with the mic when there is one
+const buildRecordedStream = (session: ActiveSession, source: MediaStream) => {
+  if (!session.audioContext || !session.micSource) return source;
+  const destination = session.audioContext.createMediaStreamDestination();
+  session.micSource.connect(destination);
+  if (source.getAudioTracks().length > 0) {
+    session.audioContext.createMediaStreamSource(new MediaStream(source.getAudioTracks())).connect(destination);
+  }
+  return new MediaStream([...source.getVideoTracks(), ...destination.stream.getAudioTracks()]);
+};
+
+const releaseMic = (session: ActiveSession) => {
+  session.mic?.getTracks().forEach((track) => track.stop());
+  session.audioContext?.close().catch(() => {});
+};
+
+export const useSessionRecorder = ({ remoteStream, includeMic, agentName }: SessionRecorderProps): SessionRecorderReturn => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [issue, setIssue] = useState<RecorderIssue | null>(null);
+  // Assumed supported while rendering on the server so hydration matches most browsers
+  const isSupported = useSyncExternalStore(subscribeToSupport, isRecorderAvailable, () => true);
+
+  const sessionRef = useRef<ActiveSession | null>(null);
+  // A start waiting on the mic prompt; stop() and unmounting clear it to call the start off
+  const startingRef = useRef<ActiveSession | null>(null);
+  const recordingsRef = useRef<Recording[]>([]);
+  const countRef = useRef(0);
+
+  const logEvent = useCallback((event: RecordingEventInput) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.events.push({ ...event, atMs: Math.round(elapsed(session)) } as RecordingEvent);
+  }, []);
+
+  const startSegment = useCallback((session: ActiveSession, source: MediaStream) => {
+    const index = session.pendingSegments.length + 1;
+    const startMs = elapsed(session);
+    const mimeType = pickMimeType();
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(buildRecordedStream(session, source), mimeType ? { mimeType } : undefined);
+    } catch (error) {
+      console.error('Could not start recording segment:', error);
+      setIssue('failed');
+      return;
+    }
+    const chunks: Blob[] = [];
+
+    session.recorder = recorder;
+    session.source = source;
+    session.events.push({ type: 'segment', index, atMs: Math.round(startMs) });
+
+    session.pendingSegments.push(new Promise<void>((resolve) => {
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onerror = (event) => {
+        console.error('Recorder error:', event);
+        setIssue('failed');
+      };
+      recorder.onstop = () => {
+        if (chunks.length > 0) {
+          const blob = new Blob(chunks, { type: recorder.mimeType || 'video/webm' });
+          session.segments.push({
+            index,
+            blob,
+            url: URL.createObjectURL(blob),
+            fileName: recordingFileName(session.startedAt, `-part${index}.webm`),
+            startMs: Math.round(startMs),
+            endMs: Math.round(elapsed(session))
+          });
+        }
+        resolve();
+      };
+    }));
+
+    // Timesliced so a crash mid-session still leaves most of the data
+    recorder.start(1000);
+    console.log('Recording segment', index, 'started');
+  }, []);
+
+  const stopSegment = useCallback((session: ActiveSession) => {
+    const recorder = session.recorder;
+    session.recorder = null;
+    session.source = null;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  }, []);
+
+  const start = useCallback(async () => {
+    if (sessionRef.current || startingRef.current) return;
+    if (!isRecorderAvailable()) {
+      setIssue('unsupported');
+      return;
+    }
+    setIssue(null);
+
+    countRef.current += 1;
+    const session: ActiveSession = {
+      id: `rec_${countRef.current}`,
+      startedAt: new Date(),
+      startTime: performance.now(),
+      includesMic: false,
+      events: [],
+      segments: [],
+      pendingSegments: [],
+      recorder: null,
+      source: null,
+      mic: null,
+      audioContext: null,
+      micSource: null
+    };
+
+    startingRef.current = session;
+    if (includeMic) {
+      try {
+        session.mic = await navigator.mediaDevices.getUserMedia({ audio: true });
+        session.audioContext = new AudioContext();
+        session.micSource = session.audioContext.createMediaStreamSource(session.mic);
+        session.includesMic = true;
+      } catch (error) {
+        console.warn('Recording without the microphone:', error);
+        setIssue('micDenied');
+      }
+    }
+
+    if (startingRef.current !== session) {
+      console.log('Recording', session.id, 'called off while asking for the microphone');
+      releaseMic(session);
+      return;
+    }
+    startingRef.current = null;
+    sessionRef.current = session;
+    setIsRecording(true);
+    if (remoteStream) startSegment(session, remoteStream);
+  }, [includeMic, remoteStream, startSegment]);
+
+  const stop = useCallback(async () => {
+    startingRef.current = null;
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+    setIsRecording(false);
+
+    const durationMs = elapsed(session);
+    stopSegment(session);
+    await Promise.all(session.pendingSegments);
+    releaseMic(session);
+
+    if (session.segments.length === 0) {
+      console.log('Recording', session.id, 'captured nothing');
+      return;
+    }
+
+    const startedAt = session.startedAt.toISOString();
+    const segments = [...session.segments].sort((a, b) => a.index - b.index);
+    const transcript = toTranscriptJSON({ startedAt, durationMs, includesMic: session.includesMic, events: session.events, segments });
+    const subtitles = toWebVTT(buildCues(session.events, durationMs), agentName);
+
+    const recording: Recording = {
+      id: session.id,
+      startedAt,
+      durationMs,
+      includesMic: session.includesMic,
+      segments,
+      events: session.events,
+      transcriptUrl: URL.createObjectURL(new Blob([transcript], { type: 'application/json' })),
+      transcriptFileName: recordingFileName(session.startedAt, '.json'),
+      subtitlesUrl: URL.createObjectURL(new Blob([subtitles], { type: 'text/vtt' })),
+      subtitlesFileName: recordingFileName(session.startedAt, '.vtt')
+    };
+    recordingsRef.current = [recording, ...recordingsRef.current];
+    setRecordings(recordingsRef.current);
+    console.log('Recording', session.id, 'saved with', segments.length, 'segment(s)');
+  }, [agentName, stopSegment]);
+
+  // A reconnect swaps the stream: close the current file and continue in a new one
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session || session.source === remoteStream) return;
+    stopSegment(session);
+    if (remoteStream) startSegment(session, remoteStream);
+  }, [remoteStream, startSegment, stopSegment]);
+
+  const removeRecording = useCallback((id: string) => {
+    const recording = recordingsRef.current.find((item) => item.id === id);
+    if (!recording) return;
+    recording.segments.forEach((segment) => URL.revokeObjectURL(segment.url));
+    URL.revokeObjectURL(recording.transcriptUrl);
+    URL.revokeObjectURL(recording.subtitlesUrl);
+    recordingsRef.current = recordingsRef.current.filter((item) => item.id !== id);
+    setRecordings(recordingsRef.current);
+  }, []);
+
+  // Leaving the page stops the recorder and frees the mic; object URLs go with the document
+  useEffect(() => {
+    return () => {
+      startingRef.current = null;
+      const session = sessionRef.current;
+      sessionRef.current = null;
+      if (!session) return;
+      if (session.recorder && session.recorder.state !== 'inactive') session.recorder.stop();
+      releaseMic(session);
+    };
+  }, []);
+
+  return {
+    isRecording,
+    isSupported,
+    recordings,
+    issue,
+    start,
+    stop,
+    logEvent,
+    removeRecording
+  };
+};
@@ -0,0 +1,119 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useSpeechInput } from '@/hooks/useSpeechInput';
+
+// Minimal SpeechRecognition the tests drive by hand
+class FakeRecognition {
+  static latest: FakeRecognition;
+  continuous = false;
+  interimResults = false;
+  lang = '';
+  started = false;
+  onresult: ((event: unknown) => void) | null = null;
+  onerror: ((event: { error: string }) => void) | null = null;
+  onend: (() => void) | null = null;
+
+  constructor() {
+    FakeRecognition.latest = this;
+  }
+
+  start() {
+    this.started = true;
+  }
+
+  stop() {
+    this.started = false;
+    this.onend?.();
+  }
+
+  abort() {
+    this.started = false;
+  }
+
+  hear(transcript: string, isFinal: boolean) {
+    const result = Object.assign([{ transcript, confidence: 1 }], { isFinal });
+    this.onresult?.({ resultIndex: 0, results: [result] });
+  }
+}
+
+describe('useSpeechInput', () => {
+  beforeEach(() => {
+    vi.stubGlobal('SpeechRecognition', FakeRecognition);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('listens in the selected language and shows interim results', () => {
+    const onFinalTranscript = vi.fn();
+    const { result } = renderHook(() => useSpeechInput({ language: 'tr-TR', onFinalTranscript }));
+
+    act(() => result.current.start());
+    expect(result.current.status).toBe('listening');
+    expect(FakeRecognition.latest.lang).toBe('tr-TR');
+    expect(FakeRecognition.latest.interimResults).toBe(true);
+
+    act(() => FakeRecognition.latest.hear('merha', false));
+    expect(result.current.interimTranscript).toBe('merha');
+
+    act(() => FakeRecognition.latest.hear('merhaba', true));
+    expect(result.current.interimTranscript).toBe('');
+    expect(onFinalTranscript).toHaveBeenCalledWith('merhaba');
+  });
+
+  it('sends the transcript after the configured silence in hands-free mode', () => {
+    vi.useFakeTimers();
+    const onAutoSend = vi.fn();
+    const { result } = renderHook(() =>
+      useSpeechInput({ language: 'en-US', handsFree: true, silenceTimeoutMs: 2000, onAutoSend })
+    );
+
+    act(() => result.current.start());
+    act(() => FakeRecognition.latest.hear('hello ', true));
+    act(() => vi.advanceTimersByTime(1000));
+    act(() => FakeRecognition.latest.hear('there', true));
+    act(() => vi.advanceTimersByTime(1999));
+    expect(onAutoSend).not.toHaveBeenCalled();
+
+    act(() => vi.advanceTimersByTime(1));
+    expect(onAutoSend).toHaveBeenCalledWith('hello there');
+    // Recognition that ends on its own keeps going hands-free
+    act(() => FakeRecognition.latest.onend?.());
+    expect(FakeRecognition.latest.started).toBe(true);
+    expect(result.current.status).toBe('listening');
+  });
+
+  it('reports denied microphone access', () => {
+    const { result } = renderHook(() => useSpeechInput({ language: 'en-US' }));
+
+    act(() => result.current.start());
+    act(() => {
+      FakeRecognition.latest.onerror?.({ error: 'not-allowed' });
+      FakeRecognition.latest.onend?.();
+    });
+    expect(result.current.status).toBe('permission-denied');
+    expect(result.current.error).toBe('Microphone access was denied');
+  });
+
+  it('falls back to server transcription without SpeechRecognition', () => {
+    vi.stubGlobal('SpeechRecognition', undefined);
+    vi.stubGlobal('MediaRecorder', class {});
+    vi.stubGlobal('navigator', { ...navigator, mediaDevices: { getUserMedia: vi.fn() } });
+
+    expect(renderHook(() => useSpeechInput({ language: 'en-US' })).result.current.providerId).toBe('server');
+    expect(renderHook(() => useSpeechInput({ language: 'en-US', provider: 'web-speech' })).result.current.status).toBe('unsupported');
+  });
+
+  it('reports missing browser support', () => {
+    vi.stubGlobal('SpeechRecognition', undefined);
+    const { result } = renderHook(() => useSpeechInput({ language: 'en-US' }));
+
+    expect(result.current.status).toBe('unsupported');
+    expect(result.current.isSupported).toBe(false);
+  });
+});
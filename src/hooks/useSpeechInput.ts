@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect, useSyncExternalStore } from 'react';
+import {
+  createSpeechProvider,
+  resolveSpeechProvider,
+  type SpeechProviderId,
+  type SpeechProviderPreference,
+  type SpeechToTextProvider
+} from '@/lib/speechToText';
+
+export type SpeechInputStatus = 'idle' | 'listening' | 'unsupported' | 'permission-denied' | 'error';
+
+export interface SpeechLanguage {
+  // BCP-47 tag passed to the provider
+  code: string;
+  label: string;
+}
+
+export const SPEECH_LANGUAGES: SpeechLanguage[] = [
+  { code: 'en-US', label: 'English' },
+  { code: 'tr-TR', label: 'Türkçe' }
+];
+
+export const DEFAULT_SILENCE_TIMEOUT_MS = 1500;
+
+interface SpeechInputProps {
+  language: string;
+  // Which speech-to-text provider to use; 'auto' detects what the browser supports
+  provider?: SpeechProviderPreference;
+  // Sends what was said on its own once the user pauses for `silenceTimeoutMs`
+  handsFree?: boolean;
+  silenceTimeoutMs?: number;
+  // Any recognised speech, interim or final (used for barge-in)
+  onSpeech?: () => void;
+  onFinalTranscript?: (transcript: string) => void;
+  // Hands-free only: everything said since the last send
+  onAutoSend?: (transcript: string) => void;
+}
+
+interface SpeechInputReturn {
+  status: SpeechInputStatus;
+  isListening: boolean;
+  isSupported: boolean;
+  // The provider in use, null when the browser supports none
+  providerId: SpeechProviderId | null;
+  // Words recognised so far that may still change
+  interimTranscript: string;
+  error: string | null;
+  start: () => void;
+  stop: () => void;
+  toggle: () => void;
+}
+
+// Support never changes at runtime
+const subscribeToSupport = () => () => {};
+
+export const useSpeechInput = ({
+  language,
+  provider: preference = 'auto',
+  handsFree = false,
+  silenceTimeoutMs = DEFAULT_SILENCE_TIMEOUT_MS,
+  onSpeech,
+  onFinalTranscript,
+  onAutoSend
+}: SpeechInputProps): SpeechInputReturn => {
+  // The server can't detect anything, so it assumes the preferred provider works (no hydration mismatch)
+  const providerId = useSyncExternalStore(
+    subscribeToSupport,
+    () => resolveSpeechProvider(preference),
+    () => (preference === 'auto' ? 'web-speech' : preference)
+  );
+  const [status, setStatus] = useState<SpeechInputStatus>('idle');
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const providerRef = useRef<SpeechToTextProvider | null>(null);
+  // True between start() and stop(); a provider that ends on its own is restarted in hands-free mode
+  const shouldListenRef = useRef(false);
+  // Set when the language changes mid-session so onEnd starts again with the new one
+  const restartRef = useRef(false);
+  // The language the running session was started with
+  const activeLanguageRef = useRef<string | null>(null);
+  // Final text since the last hands-free send
+  const unsentTranscriptRef = useRef('');
+  const silenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // onEnd restarts listening through this, since listen() can't refer to itself
+  const listenRef = useRef<(speechProvider: SpeechToTextProvider) => void>(() => {});
+
+  // Provider callbacks outlive renders; these keep them on the latest props
+  const optionsRef = useRef({ language, handsFree, silenceTimeoutMs, onSpeech, onFinalTranscript, onAutoSend });
+  useEffect(() => {
+    optionsRef.current = { language, handsFree, silenceTimeoutMs, onSpeech, onFinalTranscript, onAutoSend };
+  }, [language, handsFree, silenceTimeoutMs, onSpeech, onFinalTranscript, onAutoSend]);
+
+  const clearSilenceTimer = useCallback(() => {
+    if (silenceTimerRef.current) {
+      clearTimeout(silenceTimerRef.current);
+      silenceTimerRef.current = null;
+    }
+  }, []);
+
+  const scheduleAutoSend = useCallback(() => {
+    clearSilenceTimer();
+    if (!optionsRef.current.handsFree) return;
+
+    silenceTimerRef.current = setTimeout(() => {
+      silenceTimerRef.current = null;
+      const transcript = unsentTranscriptRef.current.trim();
+      if (!transcript) return;
+      console.log('Silence detected, sending transcript');
+      unsentTranscriptRef.current = '';
+      optionsRef.current.onAutoSend?.(transcript);
+    }, optionsRef.current.silenceTimeoutMs);
+  }, [clearSilenceTimer]);
+
+  const listen = useCallback((speechProvider: SpeechToTextProvider) => {
+    const listeningLanguage = optionsRef.current.language;
+    activeLanguageRef.current = listeningLanguage;
+
+    speechProvider.start(listeningLanguage, {
+      onSpeechStart: () => optionsRef.current.onSpeech?.(),
+      onResult: ({ transcript, isFinal }) => {
+        if (isFinal) {
+          unsentTranscriptRef.current += transcript;
+          optionsRef.current.onFinalTranscript?.(transcript);
+          setInterimTranscript('');
+        } else {
+          setInterimTranscript(transcript);
+        }
+        scheduleAutoSend();
+      },
+      onError: (kind, message) => {
+        console.warn('Speech input error:', message);
+        shouldListenRef.current = false;
+        restartRef.current = false;
+        clearSilenceTimer();
+        speechProvider.abort();
+        setInterimTranscript('');
+        setStatus(kind);
+        setError(message);
+      },
+      onEnd: () => {
+        setInterimTranscript('');
+        if (restartRef.current || (shouldListenRef.current && optionsRef.current.handsFree)) {
+          restartRef.current = false;
+          try {
+            listenRef.current(speechProvider);
+            return;
+          } catch (err) {
+            console.warn('Failed to restart speech input:', err);
+          }
+        }
+        shouldListenRef.current = false;
+        activeLanguageRef.current = null;
+        clearSilenceTimer();
+        setStatus((current) => (current === 'listening' ? 'idle' : current));
+      }
+    });
+  }, [scheduleAutoSend, clearSilenceTimer]);
+
+  useEffect(() => {
+    listenRef.current = listen;
+  }, [listen]);
+
+  const start = useCallback(() => {
+    if (!providerId) {
+      console.warn('Speech input not supported');
+      return;
+    }
+
+    if (providerRef.current?.id !== providerId) {
+      providerRef.current?.abort();
+      providerRef.current = createSpeechProvider(providerId);
+    }
+    shouldListenRef.current = true;
+    unsentTranscriptRef.current = '';
+    setError(null);
+    try {
+      listen(providerRef.current);
+      setStatus('listening');
+    } catch (err) {
+      // Already started
+      console.warn('Speech input start failed:', err);
+    }
+  }, [providerId, listen]);
+
+  const stop = useCallback(() => {
+    shouldListenRef.current = false;
+    restartRef.current = false;
+    clearSilenceTimer();
+    providerRef.current?.stop();
+    setInterimTranscript('');
+    setStatus((current) => (current === 'listening' ? 'idle' : current));
+  }, [clearSilenceTimer]);
+
+  const isListening = status === 'listening';
+
+  const toggle = useCallback(() => {
+    if (isListening) {
+      stop();
+    } else {
+      start();
+    }
+  }, [isListening, start, stop]);
+
+  // A new language takes effect on the next start, so restart a running session
+  useEffect(() => {
+    const speechProvider = providerRef.current;
+    if (!speechProvider || !shouldListenRef.current || activeLanguageRef.current === language) return;
+    console.log('Speech language changed to', language);
+    restartRef.current = true;
+    speechProvider.stop();
+  }, [language]);
+
+  useEffect(() => {
+    return () => {
+      shouldListenRef.current = false;
+      restartRef.current = false;
+      clearSilenceTimer();
+      providerRef.current?.abort();
+    };
+  }, [clearSilenceTimer]);
+
+  return {
+    status: providerId ? status : 'unsupported',
+    isListening,
+    isSupported: !!providerId,
+    providerId,
+    interimTranscript,
+    error,
+    start,
+    stop,
+    toggle
+  };
+};
@@ -0,0 +1,1420 @@
+// One D-ID agent stream: peer connection, data channel, speak queue, chat and
+// stats. Nothing here depends on React, so a page can run several sessions side
+// by side; components read them through subscribe/getSnapshot.
+
+import { DIDClient, DIDApiError, type DIDAgent, type DIDChatMessage } from '@/lib/didClient';
+import type { ClipKind } from '@/lib/clips';
+import { FakeRTCPeerConnection } from '@/lib/mock/fakeWebRTC';
+import { createMetricsSampler, METRICS_HISTORY_LENGTH, type MetricsSampler, type StreamMetrics } from '@/lib/streamMetrics';
+import { describeScript, isEmptyScript, toDIDScript, type SpeakScript } from '@/lib/scripts';
+import { HistoryLog } from '@/lib/historyLog';
+import { resolveStreamSettings, toDIDStreamOptions, type StreamSettings } from '@/lib/streamSettings';
+import { canTransition, STATUS_FOR_STATE, type ConnectionState } from '@/lib/connectionState';
+
+export type { ConnectionState } from '@/lib/connectionState';
+
+export interface ReconnectOptions {
+  // New-stream attempts after the ICE restart fails
+  maxAttempts: number;
+  // First backoff delay; doubled on every attempt
+  baseDelayMs: number;
+  // How long an ICE restart gets to bring the same stream back; a new stream gets twice as long to connect
+  iceRestartTimeoutMs: number;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  iceRestartTimeoutMs: 5000
+};
+
+export type ChatMessage = DIDChatMessage;
+
+export interface StreamEvent {
+  type: 'started' | 'done';
+  videoId: string | null;
+}
+
+// Reported as codes so the UI can word them in the user's language
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'disconnected' | 'idleTimeout';
+
+export interface ReconnectAttempt {
+  attempt: number;
+  maxAttempts: number;
+}
+
+export type UtteranceStatus = 'queued' | 'sent' | 'speaking' | 'done' | 'failed';
+
+// 'clip' renders every message to a video file instead of streaming it over WebRTC
+export type PlaybackMode = 'stream' | 'clip';
+// Why a session plays clips: asked to, or WebRTC failed or timed out before it ever connected
+export type ClipModeReason = 'forced' | 'iceFailed' | 'iceTimeout';
+
+// One speak() call as it moves through the queue
+export interface Utterance {
+  id: string;
+  // What the queue shows; the script is what gets sent
+  text: string;
+  script: SpeakScript;
+  status: UtteranceStatus;
+  // Set once D-ID accepts the text; matched against stream/started and stream/done
+  videoId: string | null;
+  error: string | null;
+  // A chat answer spoken as a clip; history records it with the chat
+  chat?: boolean;
+}
+
+export interface AgentApiConfig {
+  // Same-origin proxy base; the D-ID key is added server-side
+  url: string;
+  // Server runs with MOCK_DID=1
+  mock?: boolean;
+  // Server records sessions for /history (HISTORY_ENABLED)
+  history?: boolean;
+  // Server defaults for new streams (/admin/settings)
+  stream?: StreamSettings;
+}
+
+export interface AgentSessionOptions {
+  agentId: string;
+  api: AgentApiConfig;
+  reconnect?: Partial<ReconnectOptions>;
+  // Ends the session after this many minutes without a message; 0 disables
+  idleTimeoutMinutes?: number;
+  // Overrides the server's stream settings for this session
+  stream?: Partial<StreamSettings>;
+  // Plays clips without trying WebRTC first, e.g. to test clip mode
+  forceClips?: boolean;
+}
+
+export interface AgentSessionHandlers {
+  onConnectionChange?: (connected: boolean) => void;
+  onAgentChange?: (name: string, thumbnail: string | null) => void;
+  // `attempt` is only passed while reconnecting with a new stream
+  onConnectionStatusChange?: (status: ConnectionStatus, attempt?: ReconnectAttempt) => void;
+  onError?: (error: DIDApiError | Error) => void;
+  // stream/started and stream/done from the data channel
+  onStreamEvent?: (event: StreamEvent) => void;
+}
+
+export interface StateChangeEvent {
+  from: ConnectionState;
+  to: ConnectionState;
+  // Set while reconnecting with a new stream
+  attempt: ReconnectAttempt | null;
+}
+
+export interface TrackReceivedEvent {
+  track: MediaStreamTrack;
+  stream: MediaStream | null;
+}
+
+export interface UtteranceEvent {
+  videoId: string | null;
+  // The queue item being spoken; null for chat answers
+  utterance: Utterance | null;
+}
+
+// Everything on(type, listener) can subscribe to
+export interface AgentSessionEvents {
+  stateChange: StateChangeEvent;
+  trackReceived: TrackReceivedEvent;
+  utteranceStarted: UtteranceEvent;
+  utteranceDone: UtteranceEvent & { interrupted: boolean };
+  error: { error: DIDApiError | Error };
+}
+
+export type AgentSessionEventType = keyof AgentSessionEvents;
+export type AgentSessionListener<K extends AgentSessionEventType> = (event: AgentSessionEvents[K]) => void;
+
+// The <video> elements this session draws into; each session needs its own pair
+export interface AgentMediaElements {
+  streamVideo: HTMLVideoElement | null;
+  idleVideo: HTMLVideoElement | null;
+}
+
+// Immutable snapshot; replaced on every change
+export interface AgentSessionState {
+  agentName: string | null;
+  agentThumbnail: string | null;
+  connectionState: ConnectionState;
+  // User-facing summary of connectionState
+  status: ConnectionStatus | null;
+  reconnectAttempt: ReconnectAttempt | null;
+  isConnected: boolean;
+  isStreamReady: boolean;
+  isStreamPlaying: boolean;
+  isFluent: boolean;
+  isAgentSpeaking: boolean;
+  isReconnecting: boolean;
+  playbackMode: PlaybackMode;
+  clipModeReason: ClipModeReason | null;
+  // Clip mode: D-ID is rendering the next clip
+  isClipRendering: boolean;
+  chatMessages: ChatMessage[];
+  utterances: Utterance[];
+  // The agent's audio and video; replaced when a reconnect opens a new stream
+  remoteStream: MediaStream | null;
+  peerConnection: RTCPeerConnection | null;
+  streamId: string | null;
+  sessionId: string | null;
+}
+
+export const INITIAL_SESSION_STATE: AgentSessionState = {
+  agentName: null,
+  agentThumbnail: null,
+  connectionState: 'idle',
+  status: null,
+  reconnectAttempt: null,
+  isConnected: false,
+  isStreamReady: false,
+  isStreamPlaying: false,
+  isFluent: false,
+  isAgentSpeaking: false,
+  isReconnecting: false,
+  playbackMode: 'stream',
+  clipModeReason: null,
+  isClipRendering: false,
+  chatMessages: [],
+  utterances: [],
+  remoteStream: null,
+  peerConnection: null,
+  streamId: null,
+  sessionId: null
+};
+
+// Agents without data channel events never report stream/started; move on after this long
+const UTTERANCE_START_TIMEOUT_MS = 15000;
+// Finished items kept for display
+const UTTERANCE_HISTORY_LIMIT = 20;
+// A first connection that isn't up by then is treated as blocked, and the session plays clips instead
+const NEGOTIATION_TIMEOUT_MS = 20000;
+const CLIP_POLL_INTERVAL_MS = 1000;
+const CLIP_RENDER_TIMEOUT_MS = 2 * 60 * 1000;
+
+interface StreamSession {
+  url: string;
+  agentId: string;
+  streamId: string;
+  sessionId: string;
+}
+
+// Presenter visuals for talk (non-fluent) agents while nothing is streaming
+interface IdleVisuals {
+  poster: string | null;
+  video: string | null;
+}
+
+// The clip on screen in clip mode; stop() detaches it from the video element
+interface ClipPlayback {
+  videoId: string;
+  stop: () => void;
+}
+
+const presenterVisuals = (agent: DIDAgent): IdleVisuals => ({
+  poster: agent.presenter.thumbnail ?? null,
+  video: agent.presenter.idle_video ?? null
+});
+
+// How long mock mode pretends a script takes to say
+const mockDurationMs = (script: SpeakScript) =>
+  script.type === 'audio' ? 3000 : Math.max(1500, describeScript(script).length * 60);
+
+const clipErrorMessage = (clipId: string, error: unknown) => {
+  const description = typeof error === 'object' && error !== null ? (error as { description?: unknown }).description : null;
+  return typeof description === 'string' ? description : `Clip ${clipId} failed to render`;
+};
+
+export async function fetchApiConfig(): Promise<AgentApiConfig> {
+  const response = await fetch('/api/config');
+  return response.json();
+}
+
+// Tells D-ID the stream is finished so it stops billing. Beacons survive page
+// unload but can only POST, so they go to the proxy's close route.
+const releaseStreamSession = (session: StreamSession, useBeacon = false) => {
+  const streamUrl = `${session.url}/agents/${encodeURIComponent(session.agentId)}/streams/${encodeURIComponent(session.streamId)}`;
+  const body = JSON.stringify({ session_id: session.sessionId });
+  console.log('Deleting stream session:', session.streamId);
+
+  if (useBeacon && typeof navigator.sendBeacon === 'function') {
+    navigator.sendBeacon(`${streamUrl}/close`, new Blob([body], { type: 'application/json' }));
+    return;
+  }
+  new DIDClient(session.url)
+    .deleteStream(session.agentId, session.streamId, session.sessionId, true)
+    .catch((error) => console.warn('Failed to delete stream session:', error));
+};
+
+// Unset fields (including explicit undefined) fall back to the defaults
+const resolveReconnectOptions = (overrides: Partial<ReconnectOptions> = {}): ReconnectOptions => ({
+  maxAttempts: overrides.maxAttempts ?? DEFAULT_RECONNECT_OPTIONS.maxAttempts,
+  baseDelayMs: overrides.baseDelayMs ?? DEFAULT_RECONNECT_OPTIONS.baseDelayMs,
+  iceRestartTimeoutMs: overrides.iceRestartTimeoutMs ?? DEFAULT_RECONNECT_OPTIONS.iceRestartTimeoutMs
+});
+
+// Normalises anything thrown into an Error for onError
+const toError = (error: unknown) => (error instanceof Error ? error : new Error(String(error)));
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const isFinished = (utterance: Utterance) => utterance.status === 'done' || utterance.status === 'failed';
+
+// Finds the item a data channel event is about: same video if both sides know it, else the oldest candidate
+const findUtterance = (items: Utterance[], status: UtteranceStatus, videoId: string | null) =>
+  items.find((item) => item.status === status && (!videoId || !item.videoId || item.videoId === videoId));
+
+const parseVideoId = (message: string) => {
+  const match = message.match(/{.*}/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[0]).metadata?.videoId ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Resolves true once the connection reports `connected`, false on failure or timeout.
+// A connection that has already failed may still come back from an ICE restart.
+const waitForConnected = (pc: RTCPeerConnection, timeoutMs: number) =>
+  new Promise<boolean>((resolve) => {
+    if (pc.connectionState === 'connected' || pc.connectionState === 'closed') {
+      resolve(pc.connectionState === 'connected');
+      return;
+    }
+    const onChange = () => {
+      if (pc.connectionState === 'connected') finish(true);
+      if (pc.connectionState === 'failed' || pc.connectionState === 'closed') finish(false);
+    };
+    const timer = setTimeout(() => finish(false), timeoutMs);
+    const finish = (connected: boolean) => {
+      clearTimeout(timer);
+      pc.removeEventListener('connectionstatechange', onChange);
+      resolve(connected);
+    };
+    pc.addEventListener('connectionstatechange', onChange);
+  });
+
+let sessionCount = 0;
+
+export class AgentSession {
+  readonly id: string;
+  readonly agentId: string;
+
+  private readonly api: AgentApiConfig;
+  private readonly client: DIDClient;
+  private readonly history: HistoryLog | null;
+  private reconnectOptions: ReconnectOptions;
+  private idleTimeoutMinutes: number;
+  private streamSettings: StreamSettings;
+  private handlers: AgentSessionHandlers = {};
+  private media: AgentMediaElements = { streamVideo: null, idleVideo: null };
+  private idleVisuals: IdleVisuals | null = null;
+  // The presenter of the agent being connected, shown between clips in clip mode
+  private agentVisuals: IdleVisuals | null = null;
+  private forceClips: boolean;
+  private state: AgentSessionState = INITIAL_SESSION_STATE;
+  private readonly listeners = new Set<() => void>();
+  private readonly eventListeners = new Map<AgentSessionEventType, Set<AgentSessionListener<never>>>();
+
+  private peerConnection: RTCPeerConnection | null = null;
+  private dataChannel: RTCDataChannel | null = null;
+  // Video currently being spoken, reported by stream/started
+  private currentVideoId: string | null = null;
+  // The live D-ID stream, kept so it can be deleted on teardown or tab close
+  private streamSession: StreamSession | null = null;
+  private chatId: string | null = null;
+  private isRecovering = false;
+  // Bumped on teardown so an in-flight recovery loop knows to give up
+  private recoveryGeneration = 0;
+  // Bumped by close() and connect() so agent lookups and connects started before it are dropped
+  private epoch = 0;
+  // Last error seen by connect() while recovering, reported if recovery gives up
+  private lastRecoveryError: Error | null = null;
+  // Chat messages typed while reconnecting, flushed once the stream is ready again
+  private pendingChatMessages: string[] = [];
+  private utteranceCount = 0;
+  // The item whose speak POST is in flight; the queue never sends two at once
+  private sendingUtteranceId: string | null = null;
+  private utteranceTimer: ReturnType<typeof setTimeout> | null = null;
+  private statsInterval: ReturnType<typeof setInterval> | null = null;
+  // Stream metrics live outside the snapshot so only the stats overlay re-renders for them,
+  // and are only sampled while something subscribes
+  private metricsHistory: StreamMetrics[] = [];
+  private metricsSampler: MetricsSampler | null = null;
+  private readonly metricsListeners = new Set<() => void>();
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private negotiationTimer: ReturnType<typeof setTimeout> | null = null;
+  private clipPlayback: ClipPlayback | null = null;
+  // Bumped on teardown so clips still rendering are dropped
+  private clipGeneration = 0;
+
+  constructor({ agentId, api, reconnect, idleTimeoutMinutes = 0, stream, forceClips = false }: AgentSessionOptions) {
+    sessionCount += 1;
+    this.id = `session_${sessionCount}`;
+    this.agentId = agentId;
+    this.api = api;
+    this.client = new DIDClient(api.url);
+    this.history = api.history ? new HistoryLog(`${api.url}/history/events`) : null;
+    this.reconnectOptions = resolveReconnectOptions(reconnect);
+    this.idleTimeoutMinutes = idleTimeoutMinutes;
+    this.streamSettings = resolveStreamSettings(api.stream, stream);
+    this.forceClips = forceClips;
+  }
+
+  readonly subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  readonly getSnapshot = () => this.state;
+
+  // The last minute of stats samples, one per second, while at least one listener is subscribed
+  readonly subscribeMetrics = (listener: () => void) => {
+    this.metricsListeners.add(listener);
+    return () => {
+      this.metricsListeners.delete(listener);
+      if (this.metricsListeners.size === 0) this.resetMetrics();
+    };
+  };
+
+  readonly getMetricsSnapshot = () => this.metricsHistory;
+
+  // Typed events for code that reacts to the session without being a handler; returns an unsubscribe function
+  readonly on = <K extends AgentSessionEventType>(type: K, listener: AgentSessionListener<K>) => {
+    let listeners = this.eventListeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  setHandlers(handlers: AgentSessionHandlers) {
+    this.handlers = handlers;
+  }
+
+  // Stream settings and forceClips apply from the next connect
+  setOptions({
+    reconnect,
+    idleTimeoutMinutes,
+    stream,
+    forceClips
+  }: Pick<AgentSessionOptions, 'reconnect' | 'idleTimeoutMinutes' | 'stream' | 'forceClips'>) {
+    this.reconnectOptions = resolveReconnectOptions(reconnect);
+    this.idleTimeoutMinutes = idleTimeoutMinutes ?? 0;
+    this.streamSettings = resolveStreamSettings(this.api.stream, stream);
+    this.forceClips = forceClips ?? false;
+  }
+
+  // Hands the session its video elements; returns a function that detaches them
+  attachMedia(elements: AgentMediaElements) {
+    this.media = elements;
+    this.applyIdleVisuals();
+    const { remoteStream, isStreamPlaying } = this.state;
+    if (remoteStream) this.updateVideoDisplay(remoteStream, isStreamPlaying);
+    return () => {
+      if (this.media === elements) this.media = { streamVideo: null, idleVideo: null };
+    };
+  }
+
+  // Loads the agent's name and presenter thumbnail without opening a stream
+  async loadAgentInfo() {
+    const epoch = this.epoch;
+    try {
+      const agentData = await this.client.getAgent(this.agentId);
+      if (epoch !== this.epoch) return;
+      this.setAgent(agentData.preview_name ?? agentData.id, agentData.presenter.thumbnail ?? null);
+    } catch (error) {
+      console.error('Failed to load agent info:', error);
+      if (epoch === this.epoch) this.reportError(toError(error));
+    }
+  }
+
+  async connect() {
+    if (this.peerConnection?.connectionState === 'connected') return;
+
+    console.log('Connecting to Agent...');
+    if (!this.isRecovering) {
+      // A connect still in flight would otherwise store its stream over this one's
+      this.epoch += 1;
+      // Trying WebRTC again from clip mode ends the clip session first
+      if (this.state.connectionState === 'connected' || this.state.connectionState === 'speaking') {
+        this.transition('closed', { status: null });
+      }
+      this.transition('loadingAgent');
+      // Clean up any existing connections or streams (recovery releases its own)
+      this.teardown();
+      this.history?.end('closed');
+      this.history?.start(this.agentId, this.state.agentName);
+    }
+
+    const { agentId, client } = this;
+    const epoch = this.epoch;
+
+    try {
+      // 1) Fetch Agent info
+      console.log('Fetching agent info...');
+      const agentData = await client.getAgent(agentId);
+      if (epoch !== this.epoch) return;
+      this.setAgent(agentData.preview_name ?? agentData.id, agentData.presenter.thumbnail ?? null);
+      console.log('Agent loaded:', agentData);
+      this.agentVisuals = presenterVisuals(agentData);
+      if (this.forceClips && !this.isRecovering) {
+        this.startClipMode('forced');
+        return;
+      }
+      // Recovery stays 'reconnecting' until it's done
+      if (!this.isRecovering) this.transition('creatingStream');
+
+      // Create a new stream
+      console.log('Creating stream session...');
+      const settings = this.streamSettings;
+      const { id, session_id, offer, ice_servers, fluent } = await client.createStream(agentId, toDIDStreamOptions(settings));
+      if (epoch !== this.epoch) {
+        // D-ID made it all the same, so it still has to be ended
+        console.log('Session closed while creating stream, discarding', id);
+        releaseStreamSession({ url: this.api.url, agentId, streamId: id, sessionId: session_id });
+        return;
+      }
+      this.setStreamSession({ url: this.api.url, agentId, streamId: id, sessionId: session_id });
+      this.history?.record({ type: 'stream', streamId: id, didSessionId: session_id });
+      // D-ID says whether the agent can stream fluently; older responses leave it out
+      const isFluentMode = fluent ?? settings.fluent;
+      this.update({ streamId: id, sessionId: session_id, isFluent: isFluentMode });
+      console.log('Stream created: ', id, '\nFluent mode:', isFluentMode);
+      if (!this.isRecovering) this.transition('negotiating');
+
+      if (!isFluentMode) {
+        // Talk (non-fluent) avatars loop the presenter's idle video between answers
+        this.idleVisuals = this.agentVisuals;
+        this.applyIdleVisuals();
+      }
+
+      // Start the WebRTC connection
+      console.log('Setting up WebRTC connection...');
+      const RTCPeerConnectionCtor =
+        window.RTCPeerConnection || (window as any).webkitRTCPeerConnection || (window as any).mozRTCPeerConnection;
+
+      const pc: RTCPeerConnection = this.api.mock
+        ? new FakeRTCPeerConnection({ iceServers: ice_servers }, { autoConnect: true }) as unknown as RTCPeerConnection
+        : new RTCPeerConnectionCtor({ iceServers: ice_servers });
+      this.peerConnection = pc;
+      this.update({ peerConnection: pc });
+
+      // Submit Network information (ICE candidates → API)
+      pc.addEventListener('icecandidate', (event) => {
+        const candidate = event.candidate
+          ? {
+              candidate: event.candidate.candidate,
+              sdpMid: event.candidate.sdpMid,
+              sdpMLineIndex: event.candidate.sdpMLineIndex
+            }
+          : {};
+        client.sendIceCandidate(agentId, id, session_id, candidate)
+          .catch((error) => console.warn('Failed to send ICE candidate:', error));
+        console.log('ICE candidate sent');
+      });
+
+      pc.addEventListener('connectionstatechange', () => this.handleConnectionStateChange(pc));
+
+      // Remote media → <video> + simple "playing" detection
+      pc.addEventListener('track', (event) => {
+        console.log('Remote track received');
+        const stream = event.streams[0];
+        this.emit('trackReceived', { track: event.track, stream: stream ?? null });
+        if (!stream) return;
+        const [track] = stream.getVideoTracks();
+        if (!track) return;
+
+        this.update({ remoteStream: stream });
+        const { streamVideo } = this.media;
+        if (streamVideo) {
+          console.log('Setting video stream to element');
+          streamVideo.srcObject = stream;
+          streamVideo.muted = false; // Always unmute for fluent mode
+        }
+
+        // For fluent mode, immediately show the video
+        if (isFluentMode) {
+          console.log('Fluent mode - showing video immediately');
+          this.update({ isStreamReady: true });
+          this.updateVideoDisplay(stream, true);
+          // Try again after a short delay in case the first play() hit an AbortError
+          setTimeout(() => {
+            const video = this.media.streamVideo;
+            if (video && video.paused) {
+              video.play().catch((e) => console.log('Delayed play error:', e));
+            }
+          }, 100);
+        }
+
+        this.startStatsPolling(pc, track, stream, isFluentMode);
+      });
+
+      // Data channel - Fluent + Interrupt (Only for Premium+ Agents)
+      const dc = pc.createDataChannel('JanusDataChannel');
+      this.dataChannel = dc;
+      dc.onmessage = (event) => this.handleDataChannelMessage(event.data);
+
+      await pc.setRemoteDescription(offer);
+      const answer = await pc.createAnswer();
+      await pc.setLocalDescription(answer);
+
+      // Send SDP answer (Start a WebRTC connection endpoint)
+      console.log('Sending local SDP answer...');
+      await client.sendSdpAnswer(agentId, id, session_id, answer);
+      if (epoch !== this.epoch) return;
+      if (!this.isRecovering) this.startNegotiationTimer(pc);
+    } catch (error) {
+      console.error('Connection failed:', error);
+      // Closed or started over meanwhile; whoever did that owns the state now
+      if (epoch !== this.epoch) return;
+      // The recovery loop reports its own outcome
+      if (this.isRecovering) {
+        this.lastRecoveryError = toError(error);
+        return;
+      }
+      this.transition('failed');
+      this.setConnected(false);
+      this.history?.end('failed', toError(error).message);
+      this.reportError(toError(error));
+    }
+  }
+
+  disconnect() {
+    console.log('Disconnecting from Agent...');
+    this.teardown();
+    this.failUtterances(['queued', 'sent', 'speaking'], 'Disconnected');
+    this.transition('closed', { status: 'disconnected' });
+    this.setConnected(false);
+    this.history?.end('disconnected');
+  }
+
+  // Ends the stream and forgets the conversation; the session can connect again afterwards
+  close() {
+    this.epoch += 1;
+    this.history?.end('closed');
+    // Nothing to show for a session closed by its owner, e.g. when switching agents
+    if (this.state.connectionState !== 'idle') this.transition('closed', { status: null });
+    const hadStream = !!this.peerConnection || !!this.streamSession || this.state.playbackMode === 'clip';
+    // Even without a stream: recovery holds none while it opens the next one, and must stop too
+    this.teardown();
+    if (!hadStream) return;
+    console.log('Closing agent session', this.id);
+
+    const { streamVideo, idleVideo } = this.media;
+    if (streamVideo) streamVideo.style.opacity = '0';
+    if (idleVideo) {
+      idleVideo.removeAttribute('src');
+      idleVideo.removeAttribute('poster');
+      idleVideo.style.opacity = '1';
+    }
+    this.idleVisuals = null;
+    this.chatId = null;
+    this.update({ isFluent: false, chatMessages: [] });
+    this.updateUtterances(() => []);
+    this.setConnected(false);
+  }
+
+  // Queues plain text or a script and returns the queue item's id, or null if nothing was queued.
+  // While reconnecting it waits for the new stream.
+  speak(input: string | SpeakScript): string | null {
+    if (!this.isRecovering && !this.canSend()) return null;
+
+    const script: SpeakScript = typeof input === 'string' ? { type: 'text', text: input } : input;
+    if (isEmptyScript(script)) return null;
+    return this.queueUtterance(script);
+  }
+
+  // Chat mode: the agent's LLM answers the message and speaks the reply on the stream
+  async sendChatMessage(message: string): Promise<string | null> {
+    if (this.isRecovering) {
+      this.pendingChatMessages.push(message);
+      return null;
+    }
+    if (!this.canSend()) return null;
+    const { streamId, sessionId } = this.state;
+
+    const val = message.trim();
+    if (!val) return null;
+
+    this.resetIdleTimer();
+    const epoch = this.epoch;
+    const userMessage: ChatMessage = { role: 'user', content: val, created_at: new Date().toISOString() };
+    const history = [...this.state.chatMessages, userMessage];
+    this.update({ chatMessages: history });
+    this.history?.record({ type: 'utterance', role: 'user', kind: 'chat', text: val, videoId: null });
+
+    try {
+      let chatId = this.chatId;
+      if (!chatId) {
+        console.log('Creating chat session...');
+        const chat = await this.client.createChat(this.agentId);
+        chatId = chat.id;
+        this.chatId = chatId;
+        console.log('Chat created:', chatId);
+      }
+
+      console.log('Sending chat message:', val);
+      const { result: answer } = await this.client.sendChatMessage(this.agentId, chatId, streamId, sessionId, history);
+      if (epoch !== this.epoch) return null;
+      // Streams speak the answer themselves; clips have to render it
+      if (this.state.playbackMode === 'clip') {
+        this.queueUtterance({ type: 'text', text: answer }, true);
+      } else {
+        this.playMockUtterance({ type: 'text', text: answer });
+      }
+      this.history?.record({ type: 'utterance', role: 'agent', kind: 'chat', text: answer, videoId: null });
+      this.update({
+        chatMessages: [...this.state.chatMessages, { role: 'assistant', content: answer, created_at: new Date().toISOString() }]
+      });
+      return answer;
+    } catch (error) {
+      console.error('Chat message failed:', error);
+      this.reportError(toError(error));
+      return null;
+    }
+  }
+
+  // Only queued items can be cancelled or moved; `toIndex` counts queued items only
+  cancelUtterance(id: string) {
+    if (id === this.sendingUtteranceId) return;
+    this.updateUtterances((items) => items.filter((item) => item.id !== id || item.status !== 'queued'));
+  }
+
+  moveUtterance(id: string, toIndex: number) {
+    const isMovable = (item: Utterance) => item.status === 'queued' && item.id !== this.sendingUtteranceId;
+    this.updateUtterances((items) => {
+      const queued = items.filter(isMovable);
+      const from = queued.findIndex((item) => item.id === id);
+      if (from === -1) return items;
+      const [moved] = queued.splice(from, 1);
+      queued.splice(Math.max(0, Math.min(toIndex, queued.length)), 0, moved);
+      // Queued slots keep their place in the list; only their occupants change
+      let slot = 0;
+      return items.map((item) => (isMovable(item) ? queued[slot++] : item));
+    });
+  }
+
+  // Stops the current utterance (Fluent / Premium+ agents only, or any clip)
+  interrupt() {
+    const dc = this.dataChannel;
+    const videoId = this.currentVideoId;
+    if (!videoId) return;
+
+    if (this.clipPlayback) {
+      console.log('Stopping clip:', videoId);
+      this.stopClip();
+    } else {
+      if (!dc || dc.readyState !== 'open') return;
+      console.log('Interrupting video:', videoId);
+      const type = 'stream/interrupt';
+      dc.send(JSON.stringify({ type, videoId, timestamp: Date.now() }));
+    }
+    this.currentVideoId = null;
+    this.update({ isAgentSpeaking: false });
+    this.handleUtteranceDone(videoId, true);
+  }
+
+  // Every state change goes through here; queued work is picked up as soon as the stream allows it
+  // Messages go out on a ready stream, or as clips once clip mode is connected
+  private canSend() {
+    const { playbackMode, connectionState, peerConnection, isStreamReady, streamId, sessionId } = this.state;
+    if (playbackMode === 'clip') return connectionState === 'connected' || connectionState === 'speaking';
+    return !!peerConnection && isStreamReady && !!streamId && !!sessionId;
+  }
+
+  private queueUtterance(script: SpeakScript, chat = false) {
+    this.utteranceCount += 1;
+    const utterance: Utterance = {
+      id: `utt_${this.utteranceCount}`,
+      text: describeScript(script),
+      script,
+      status: 'queued',
+      videoId: null,
+      error: null,
+      ...(chat ? { chat } : {})
+    };
+    this.updateUtterances((items) => [...items, utterance]);
+    return utterance.id;
+  }
+
+  private update(changes: Partial<AgentSessionState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach((listener) => listener());
+    this.processQueue();
+    this.flushPendingChat();
+  }
+
+  private setAgent(name: string, thumbnail: string | null) {
+    this.update({ agentName: name, agentThumbnail: thumbnail });
+    this.handlers.onAgentChange?.(name, thumbnail);
+  }
+
+  // The only way connectionState changes. Transitions missing from CONNECTION_TRANSITIONS are
+  // ignored with a warning; `status` overrides what users are shown, null shows nothing.
+  private transition(
+    to: ConnectionState,
+    { attempt = null, status = STATUS_FOR_STATE[to] }: { attempt?: ReconnectAttempt | null; status?: ConnectionStatus | null } = {}
+  ) {
+    const from = this.state.connectionState;
+    if (from === to && !attempt) return;
+    if (from !== to && !canTransition(from, to)) {
+      console.warn(`Ignoring invalid connection state change: ${from} → ${to}`);
+      return;
+    }
+    const statusChanged = status !== this.state.status || attempt !== null;
+    this.update({ connectionState: to, status, reconnectAttempt: attempt });
+    if (status && statusChanged) {
+      if (attempt) {
+        this.handlers.onConnectionStatusChange?.(status, attempt);
+      } else {
+        this.handlers.onConnectionStatusChange?.(status);
+      }
+    }
+    this.emit('stateChange', { from, to, attempt });
+  }
+
+  // Listener errors are logged so one bad subscriber can't break the session
+  private emit<K extends AgentSessionEventType>(type: K, event: AgentSessionEvents[K]) {
+    this.eventListeners.get(type)?.forEach((listener) => {
+      try {
+        (listener as AgentSessionListener<K>)(event);
+      } catch (error) {
+        console.error(`Session ${type} listener failed:`, error);
+      }
+    });
+  }
+
+  private reportError(error: DIDApiError | Error) {
+    this.handlers.onError?.(error);
+    this.emit('error', { error });
+  }
+
+  private setConnected(connected: boolean) {
+    this.update({ isConnected: connected });
+    this.handlers.onConnectionChange?.(connected);
+  }
+
+  // Registers the stream for deletion when the tab closes
+  private setStreamSession(session: StreamSession | null) {
+    this.streamSession = session;
+    window.removeEventListener('pagehide', this.handlePageHide);
+    if (session) window.addEventListener('pagehide', this.handlePageHide);
+  }
+
+  // Closing the tab: fetches may be cancelled, so delete the stream with a beacon
+  private readonly handlePageHide = () => {
+    const session = this.streamSession;
+    if (!session) return;
+    this.setStreamSession(null);
+    releaseStreamSession(session, true);
+    this.history?.end('closed', null, true);
+    try {
+      this.peerConnection?.close();
+    } catch {}
+  };
+
+  private handleConnectionStateChange(pc: RTCPeerConnection) {
+    // Read once: handling one state (e.g. falling back to clips) can close the connection
+    const { connectionState } = pc;
+    console.log('Peer connection state:', connectionState);
+    // Ignore connections abandoned by recovery or close()
+    if (this.peerConnection !== pc) return;
+    if (connectionState === 'connected') {
+      this.clearNegotiationTimer();
+      console.log('Connection established, setting stream ready');
+      this.update({ isStreamReady: true });
+      // Recovery moves on from 'reconnecting' itself once the new connection holds
+      if (!this.isRecovering) this.transition('connected');
+      this.setConnected(true);
+      this.resetIdleTimer();
+    }
+    if (connectionState === 'failed' && this.state.connectionState === 'negotiating') {
+      // Never got through: the network blocks WebRTC, so a new stream would fail the same way
+      this.startClipMode('iceFailed');
+    } else if (connectionState === 'disconnected' || connectionState === 'failed') {
+      this.recoverConnection(pc);
+    }
+    if (connectionState === 'closed') {
+      this.stopStream();
+      this.closeConnection(pc);
+      this.transition('closed');
+    }
+  }
+
+  private handleDataChannelMessage(msg: string) {
+    if (msg.includes('stream/started')) {
+      console.log(msg);
+      this.handleSpeechStarted(parseVideoId(msg));
+    }
+    if (msg.includes('stream/done')) {
+      console.log(msg);
+      this.handleSpeechDone(parseVideoId(msg) ?? this.currentVideoId);
+    }
+  }
+
+  // stream/started from the data channel, or a clip starting to play
+  private handleSpeechStarted(videoId: string | null) {
+    this.currentVideoId = videoId;
+    this.update({ isAgentSpeaking: true });
+    if (this.state.connectionState === 'connected') this.transition('speaking');
+    this.handleUtteranceStarted(videoId);
+    this.history?.record({ type: 'speech', state: 'started', videoId });
+    this.handlers.onStreamEvent?.({ type: 'started', videoId });
+  }
+
+  private handleSpeechDone(videoId: string | null) {
+    this.update({ isAgentSpeaking: false });
+    this.handleUtteranceDone(videoId, false);
+    this.history?.record({ type: 'speech', state: 'done', videoId });
+    this.handlers.onStreamEvent?.({ type: 'done', videoId });
+    this.currentVideoId = null;
+  }
+
+  // 'track' fires once per track; keep a single stats poll per connection
+  private startStatsPolling(pc: RTCPeerConnection, track: MediaStreamTrack, stream: MediaStream, isFluentMode: boolean) {
+    this.clearStatsInterval();
+    let lastBytes = 0;
+    let lastPlayingState = false;
+    this.resetMetrics();
+    const interval = setInterval(async () => {
+      if (pc.connectionState === 'closed') {
+        clearInterval(interval);
+        if (this.statsInterval === interval) this.statsInterval = null;
+        return;
+      }
+      try {
+        const receiver = pc.getReceivers().find((r) => r.track === track);
+        if (!receiver) return;
+        const stats = await receiver.getStats();
+        stats.forEach((report) => {
+          if (report.type === 'inbound-rtp' && report.kind === 'video') {
+            const nowPlaying = report.bytesReceived > lastBytes;
+            if (nowPlaying !== lastPlayingState) {
+              this.update({ isStreamPlaying: nowPlaying });
+              console.log('Stream playing state changed:', nowPlaying);
+              // For fluent mode, don't call updateVideoDisplay to avoid opacity changes
+              if (!isFluentMode) {
+                this.updateVideoDisplay(stream, nowPlaying);
+              }
+              lastPlayingState = nowPlaying;
+            }
+            lastBytes = report.bytesReceived;
+          }
+        });
+      } catch {}
+      if (this.metricsListeners.size === 0) return;
+      try {
+        this.metricsSampler ??= createMetricsSampler();
+        const metrics = this.metricsSampler.sample(await pc.getStats());
+        if (this.statsInterval !== interval || this.metricsListeners.size === 0) return;
+        this.metricsHistory = [...this.metricsHistory.slice(1 - METRICS_HISTORY_LENGTH), metrics];
+        this.metricsListeners.forEach((listener) => listener());
+      } catch {}
+    }, 1000);
+    this.statsInterval = interval;
+  }
+
+  private updateVideoDisplay(stream: MediaStream | null, isPlaying: boolean) {
+    const { isFluent, isStreamReady } = this.state;
+    const { streamVideo, idleVideo } = this.media;
+    console.log('updateVideoDisplay called:', { isFluent, isStreamReady, isPlaying, hasStream: !!stream });
+
+    if (!streamVideo || !idleVideo) {
+      console.log('Video elements not attached');
+      return;
+    }
+
+    if (!isFluent) {
+      const streamOpacity = isPlaying && isStreamReady ? 1 : 0;
+      console.log('Non-fluent mode - setting opacities:', { streamOpacity });
+      idleVideo.style.opacity = (1 - streamOpacity).toString();
+      streamVideo.style.opacity = streamOpacity.toString();
+      if (isPlaying && stream) {
+        streamVideo.srcObject = stream;
+        streamVideo.muted = !isStreamReady;
+        if (streamVideo.paused) {
+          streamVideo.play().catch((e) => console.log('Play error:', e));
+        }
+      }
+    } else {
+      console.log('Fluent mode - setting video display');
+      idleVideo.style.opacity = '0';
+      streamVideo.style.opacity = '1';
+      streamVideo.muted = false;
+      if (stream) {
+        streamVideo.srcObject = stream;
+        if (streamVideo.paused) {
+          streamVideo.play().catch((e) => console.log('Play error:', e));
+        }
+      }
+    }
+  }
+
+  // The presenter thumbnail doubles as the idle video's poster while it loads
+  private applyIdleVisuals() {
+    const { idleVideo } = this.media;
+    if (!idleVideo || !this.idleVisuals) return;
+    idleVideo.poster = this.idleVisuals.poster ?? '';
+    idleVideo.src = this.idleVisuals.video ?? '';
+  }
+
+  private stopStream() {
+    const { streamVideo } = this.media;
+    if (!streamVideo) return;
+    const stream = streamVideo.srcObject as MediaStream;
+    if (stream) {
+      stream.getTracks().forEach((t) => t.stop());
+      streamVideo.srcObject = null;
+    }
+  }
+
+  private closeConnection(pc: RTCPeerConnection) {
+    try {
+      pc.close();
+    } catch {}
+    if (this.peerConnection !== pc) return;
+    this.peerConnection = null;
+    this.dataChannel = null;
+    this.currentVideoId = null;
+    this.update({ peerConnection: null, isStreamReady: false, isStreamPlaying: false, isAgentSpeaking: false });
+  }
+
+  // A new connection or a closed overlay starts the graphs over
+  private resetMetrics() {
+    this.metricsSampler = null;
+    if (this.metricsHistory.length === 0) return;
+    this.metricsHistory = [];
+    this.metricsListeners.forEach((listener) => listener());
+  }
+
+  private clearStatsInterval() {
+    if (this.statsInterval) {
+      clearInterval(this.statsInterval);
+      this.statsInterval = null;
+    }
+  }
+
+  private clearIdleTimer() {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  // Ends everything this session holds: server stream, peer connection, clips, tracks and timers
+  private teardown() {
+    this.recoveryGeneration += 1;
+    this.clipGeneration += 1;
+    this.isRecovering = false;
+    this.pendingChatMessages = [];
+    this.sendingUtteranceId = null;
+    this.clearStatsInterval();
+    this.clearUtteranceTimer();
+    this.clearIdleTimer();
+    this.clearNegotiationTimer();
+    this.stopClip();
+
+    const session = this.streamSession;
+    this.setStreamSession(null);
+    if (session) releaseStreamSession(session);
+
+    const connection = this.peerConnection;
+    this.peerConnection = null;
+    this.dataChannel = null;
+    this.currentVideoId = null;
+    try {
+      connection?.close();
+    } catch {}
+
+    this.state.remoteStream?.getTracks().forEach((t) => t.stop());
+    if (this.media.streamVideo) {
+      this.media.streamVideo.srcObject = null;
+    }
+
+    this.update({
+      remoteStream: null,
+      peerConnection: null,
+      streamId: null,
+      sessionId: null,
+      isStreamReady: false,
+      isStreamPlaying: false,
+      isAgentSpeaking: false,
+      isReconnecting: false,
+      playbackMode: 'stream',
+      clipModeReason: null,
+      isClipRendering: false
+    });
+    this.resetMetrics();
+  }
+
+  // Restarted on every message; when it fires the session is ended
+  private resetIdleTimer() {
+    this.clearIdleTimer();
+    const minutes = this.idleTimeoutMinutes;
+    if (!minutes || minutes <= 0) return;
+
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (!this.streamSession && this.state.playbackMode !== 'clip') return;
+      console.log(`No interaction for ${minutes} minute(s), ending session`);
+      this.teardown();
+      this.failUtterances(['queued', 'sent', 'speaking'], 'Session ended');
+      this.transition('closed', { status: 'idleTimeout' });
+      this.setConnected(false);
+      this.history?.end('idleTimeout');
+    }, minutes * 60 * 1000);
+  }
+
+  // Recovery: ICE restart on the same stream first, then new streams with exponential backoff
+  private async recoverConnection(failedConnection: RTCPeerConnection) {
+    if (this.isRecovering) return;
+    this.isRecovering = true;
+    this.lastRecoveryError = null;
+    const { maxAttempts, baseDelayMs, iceRestartTimeoutMs } = this.reconnectOptions;
+    const generation = this.recoveryGeneration;
+    const isAbandoned = () => this.recoveryGeneration !== generation;
+
+    this.update({ isReconnecting: true, isStreamReady: false });
+    this.failUtterances(['sent', 'speaking'], 'Connection lost');
+    this.transition('reconnecting');
+    this.history?.record({ type: 'reconnect' });
+
+    const finish = (recovered: boolean) => {
+      this.isRecovering = false;
+      this.update({ isReconnecting: false });
+      if (recovered) {
+        this.transition('connected');
+        return;
+      }
+      console.error('Reconnection gave up after', maxAttempts, 'attempts');
+      // Keep queued messages for the next manual connect
+      const pending = this.pendingChatMessages;
+      this.teardown();
+      this.pendingChatMessages = pending;
+      const error = this.lastRecoveryError ?? new Error('Reconnection failed');
+      this.transition('failed');
+      this.setConnected(false);
+      this.history?.end('failed', error.message);
+      this.reportError(error);
+    };
+
+    console.log('Connection lost, trying ICE restart...');
+    if (await this.restartIce(failedConnection, iceRestartTimeoutMs)) {
+      if (isAbandoned()) return;
+      console.log('ICE restart recovered the stream');
+      this.update({ isStreamReady: true });
+      finish(true);
+      return;
+    }
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (isAbandoned()) return;
+      this.transition('reconnecting', { attempt: { attempt, maxAttempts } });
+      const delay = baseDelayMs * 2 ** (attempt - 1);
+      console.log(`Reconnect attempt ${attempt}/${maxAttempts} in ${delay}ms`);
+      await sleep(delay);
+      if (isAbandoned()) return;
+
+      // Detach the dead connection so its events are ignored, then open a new stream
+      const staleConnection = this.peerConnection;
+      this.peerConnection = null;
+      try {
+        staleConnection?.close();
+      } catch {}
+      const staleSession = this.streamSession;
+      this.setStreamSession(null);
+      if (staleSession) releaseStreamSession(staleSession);
+      this.clearStatsInterval();
+      this.stopStream();
+
+      await this.connect();
+      if (isAbandoned()) return;
+      // Out of quota: more attempts would be refused the same way (connect() sets the error)
+      const attemptError = this.lastRecoveryError as Error | null;
+      if (attemptError instanceof DIDApiError && attemptError.quota) break;
+      const nextConnection = this.peerConnection;
+      if (nextConnection && await waitForConnected(nextConnection, iceRestartTimeoutMs * 2)) {
+        if (isAbandoned()) return;
+        finish(true);
+        return;
+      }
+    }
+
+    if (!isAbandoned()) finish(false);
+  }
+
+  // D-ID made the first offer, so the restart offer comes from this side: new ICE credentials,
+  // answered through the stream's SDP endpoint. False if the offer is refused or the path stays down.
+  private async restartIce(pc: RTCPeerConnection, timeoutMs: number) {
+    const session = this.streamSession;
+    if (!session || this.peerConnection !== pc) return false;
+    try {
+      pc.restartIce();
+      const offer = await pc.createOffer({ iceRestart: true });
+      await pc.setLocalDescription(offer);
+      const { answer } = await this.client.sendSdpOffer(session.agentId, session.streamId, session.sessionId, offer);
+      if (this.peerConnection !== pc) return false;
+      await pc.setRemoteDescription(answer);
+    } catch (error) {
+      console.warn('ICE restart failed:', error);
+      // Back to the last working description, so the stream isn't left half renegotiated
+      if (pc.signalingState === 'have-local-offer') {
+        await pc.setLocalDescription({ type: 'rollback' }).catch(() => {});
+      }
+      return false;
+    }
+    return waitForConnected(pc, timeoutMs);
+  }
+
+  // Every queue change goes through here so old finished items are trimmed
+  private updateUtterances(change: (items: Utterance[]) => Utterance[]) {
+    let items = change(this.state.utterances);
+    const finished = items.filter(isFinished);
+    if (finished.length > UTTERANCE_HISTORY_LIMIT) {
+      const dropped = new Set(finished.slice(0, finished.length - UTTERANCE_HISTORY_LIMIT));
+      items = items.filter((item) => !dropped.has(item));
+    }
+    this.update({ utterances: items });
+  }
+
+  private setUtteranceStatus(id: string, status: UtteranceStatus, changes: Partial<Utterance> = {}) {
+    this.updateUtterances((items) =>
+      items.map((item) => (item.id === id && !isFinished(item) ? { ...item, ...changes, status } : item))
+    );
+  }
+
+  private clearUtteranceTimer() {
+    if (this.utteranceTimer) {
+      clearTimeout(this.utteranceTimer);
+      this.utteranceTimer = null;
+    }
+  }
+
+  // Items on a stream that went away will never play
+  private failUtterances(statuses: UtteranceStatus[], error: string) {
+    this.clearUtteranceTimer();
+    this.updateUtterances((items) =>
+      items.map((item) => (statuses.includes(item.status) ? { ...item, status: 'failed', error } : item))
+    );
+  }
+
+  private handleUtteranceStarted(videoId: string | null) {
+    const item = findUtterance(this.state.utterances, 'sent', videoId);
+    if (item) {
+      this.clearUtteranceTimer();
+      this.setUtteranceStatus(item.id, 'speaking');
+    }
+    this.emit('utteranceStarted', { videoId, utterance: this.findUtteranceById(item?.id) });
+  }
+
+  private handleUtteranceDone(videoId: string | null, interrupted: boolean) {
+    const item = findUtterance(this.state.utterances, 'speaking', videoId);
+    if (item) this.setUtteranceStatus(item.id, 'done');
+    if (this.state.connectionState === 'speaking') this.transition('connected');
+    this.emit('utteranceDone', { videoId, utterance: this.findUtteranceById(item?.id), interrupted });
+  }
+
+  private findUtteranceById(id: string | undefined) {
+    return (id && this.state.utterances.find((item) => item.id === id)) || null;
+  }
+
+  // Mock mode has no real stream behind it, so the fake peer acts out each utterance
+  private playMockUtterance(script: SpeakScript, videoId?: string) {
+    const pc = this.peerConnection;
+    if (!this.api.mock || !(pc instanceof FakeRTCPeerConnection)) return;
+    pc.simulateUtterance(videoId ?? `vid_mock_${Date.now()}`, mockDurationMs(script));
+  }
+
+  // Sends the oldest queued item once nothing else is playing on the stream
+  private processQueue() {
+    const { playbackMode, isStreamReady, isReconnecting, isAgentSpeaking, streamId, sessionId } = this.state;
+    if (playbackMode === 'clip') {
+      const next = this.canSend() && !isAgentSpeaking ? this.nextQueuedUtterance() : null;
+      if (next) this.playClip(next);
+      return;
+    }
+    if (!isStreamReady || isReconnecting || isAgentSpeaking || !streamId || !sessionId) return;
+    const next = this.nextQueuedUtterance();
+    if (!next) return;
+
+    this.sendingUtteranceId = next.id;
+    this.resetIdleTimer();
+    console.log('Sending speak script:', next.script.type, next.text);
+    this.client.speak(this.agentId, streamId, sessionId, toDIDScript(next.script))
+      .then((result) => {
+        this.sendingUtteranceId = null;
+        this.setUtteranceStatus(next.id, 'sent', { videoId: result.video_id ?? null });
+        this.history?.record({ type: 'utterance', role: 'agent', kind: 'speak', text: next.text, videoId: result.video_id ?? null });
+        this.utteranceTimer = setTimeout(() => {
+          this.utteranceTimer = null;
+          if (this.state.utterances.some((item) => item.id === next.id && item.status === 'sent')) {
+            console.warn('No stream/started for', next.id, '- assuming it played');
+            this.setUtteranceStatus(next.id, 'done');
+          }
+        }, UTTERANCE_START_TIMEOUT_MS);
+        this.playMockUtterance(next.script, result.video_id);
+      })
+      .catch((error) => {
+        this.sendingUtteranceId = null;
+        console.error('Speak failed:', error);
+        this.setUtteranceStatus(next.id, 'failed', { error: toError(error).message });
+        this.reportError(toError(error));
+      });
+  }
+
+  // The oldest queued item, unless one is still being sent or played
+  private nextQueuedUtterance() {
+    const { utterances } = this.state;
+    if (this.sendingUtteranceId || utterances.some((item) => item.status === 'sent' || item.status === 'speaking')) return null;
+    return utterances.find((item) => item.status === 'queued') ?? null;
+  }
+
+  // Clip mode: has D-ID render the item, waits for the file, then plays it on the stream video
+  private async playClip(utterance: Utterance) {
+    const generation = this.clipGeneration;
+    const isStale = () => generation !== this.clipGeneration;
+    this.sendingUtteranceId = utterance.id;
+    this.resetIdleTimer();
+    this.update({ isClipRendering: true });
+    console.log('Rendering clip:', utterance.script.type, utterance.text);
+
+    try {
+      const { id, kind } = await this.client.createClip(this.agentId, toDIDScript(utterance.script));
+      if (isStale()) return;
+      this.sendingUtteranceId = null;
+      this.setUtteranceStatus(utterance.id, 'sent', { videoId: id });
+      if (!utterance.chat) {
+        this.history?.record({ type: 'utterance', role: 'agent', kind: 'speak', text: utterance.text, videoId: id });
+      }
+      const url = await this.waitForClip(kind, id, isStale);
+      if (isStale()) return;
+      this.update({ isClipRendering: false });
+      this.showClip(id, url, utterance.script);
+    } catch (error) {
+      if (isStale()) return;
+      console.error('Clip failed:', error);
+      this.sendingUtteranceId = null;
+      this.update({ isClipRendering: false });
+      this.setUtteranceStatus(utterance.id, 'failed', { error: toError(error).message });
+      this.reportError(toError(error));
+    }
+  }
+
+  // Polls until the clip is rendered and resolves with its URL
+  private async waitForClip(kind: ClipKind, id: string, isStale: () => boolean) {
+    const deadline = Date.now() + CLIP_RENDER_TIMEOUT_MS;
+    while (!isStale()) {
+      const clip = await this.client.getClip(this.agentId, kind, id);
+      if (clip.status === 'done' && clip.result_url) return clip.result_url;
+      if (clip.status === 'error' || clip.status === 'rejected') throw new Error(clipErrorMessage(id, clip.error));
+      if (Date.now() > deadline) throw new Error(`Clip ${id} took too long to render`);
+      await sleep(CLIP_POLL_INTERVAL_MS);
+    }
+    return '';
+  }
+
+  // Plays a rendered clip over the idle video, like the stream would; mock mode only pretends
+  private showClip(videoId: string, url: string, script: SpeakScript) {
+    const { streamVideo, idleVideo } = this.media;
+    const finish = () => {
+      if (this.clipPlayback?.videoId !== videoId) return;
+      this.stopClip();
+      this.handleSpeechDone(videoId);
+    };
+
+    if (this.api.mock || !streamVideo) {
+      const timer = setTimeout(finish, this.api.mock ? mockDurationMs(script) : 0);
+      this.clipPlayback = { videoId, stop: () => clearTimeout(timer) };
+    } else {
+      streamVideo.srcObject = null;
+      streamVideo.loop = false;
+      streamVideo.muted = false;
+      streamVideo.src = url;
+      streamVideo.style.opacity = '1';
+      if (idleVideo) idleVideo.style.opacity = '0';
+      streamVideo.addEventListener('ended', finish);
+      streamVideo.addEventListener('error', finish);
+      streamVideo.play().catch((e) => console.log('Clip play error:', e));
+      this.clipPlayback = {
+        videoId,
+        stop: () => {
+          streamVideo.removeEventListener('ended', finish);
+          streamVideo.removeEventListener('error', finish);
+          streamVideo.pause();
+          streamVideo.removeAttribute('src');
+          streamVideo.loop = true;
+          streamVideo.style.opacity = '0';
+          if (idleVideo) idleVideo.style.opacity = '1';
+        }
+      };
+    }
+    this.handleSpeechStarted(videoId);
+  }
+
+  private stopClip() {
+    const playback = this.clipPlayback;
+    this.clipPlayback = null;
+    playback?.stop();
+  }
+
+  // Clip mode: no peer connection; the idle video shows between clips
+  private startClipMode(reason: ClipModeReason) {
+    console.log('Switching to clip playback:', reason);
+    // Forced mode never opened a stream; a stream that couldn't connect is released
+    if (reason !== 'forced') this.teardown();
+    this.idleVisuals = this.agentVisuals;
+    this.applyIdleVisuals();
+    const { streamVideo, idleVideo } = this.media;
+    if (streamVideo) streamVideo.style.opacity = '0';
+    if (idleVideo) idleVideo.style.opacity = '1';
+
+    // Ready for messages as far as the UI is concerned; they just play as clips
+    this.update({ playbackMode: 'clip', clipModeReason: reason, isFluent: false, isStreamReady: true });
+    this.transition('connected');
+    this.setConnected(true);
+    this.resetIdleTimer();
+  }
+
+  // A first connection that never comes up usually means UDP or the TURN servers are blocked
+  private startNegotiationTimer(pc: RTCPeerConnection) {
+    this.clearNegotiationTimer();
+    this.negotiationTimer = setTimeout(() => {
+      this.negotiationTimer = null;
+      if (this.peerConnection === pc && this.state.connectionState === 'negotiating') {
+        console.warn(`No connection after ${NEGOTIATION_TIMEOUT_MS}ms, falling back to clips`);
+        this.startClipMode('iceTimeout');
+      }
+    }, NEGOTIATION_TIMEOUT_MS);
+  }
+
+  private clearNegotiationTimer() {
+    if (this.negotiationTimer) {
+      clearTimeout(this.negotiationTimer);
+      this.negotiationTimer = null;
+    }
+  }
+
+  // Send chat messages typed during a reconnect, in order, once the stream is back
+  private flushPendingChat() {
+    const { isStreamReady, isReconnecting, streamId } = this.state;
+    if (!isStreamReady || isReconnecting || !streamId || this.pendingChatMessages.length === 0) return;
+    const pending = this.pendingChatMessages;
+    this.pendingChatMessages = [];
+    console.log('Flushing', pending.length, 'queued message(s)');
+
+    const flush = async () => {
+      for (const message of pending) {
+        await this.sendChatMessage(message);
+      }
+    };
+    flush();
+  }
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AgentSessionManager, ALL_SESSIONS } from '@/lib/agentSessionManager';
+import { MOCK_AGENT, MockDIDBackend } from '@/lib/mock/didBackend';
+import { FakeRTCPeerConnection } from '@/lib/mock/fakeWebRTC';
+
+const streamsPath = `/agents/${MOCK_AGENT.id}/streams`;
+
+describe('AgentSessionManager', () => {
+  let backend: MockDIDBackend;
+  let manager: AgentSessionManager;
+
+  beforeEach(() => {
+    backend = new MockDIDBackend();
+    vi.stubGlobal('fetch', backend.fetch);
+    vi.stubGlobal('RTCPeerConnection', FakeRTCPeerConnection);
+    FakeRTCPeerConnection.instances = [];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    manager = new AgentSessionManager({ url: '/api' });
+  });
+
+  afterEach(() => {
+    manager.closeAll();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // Adds a session per video element pair and brings its stream up
+  const addConnected = async () => {
+    const session = manager.add(MOCK_AGENT.id);
+    const streamVideo = document.createElement('video');
+    const idleVideo = document.createElement('video');
+    session.attachMedia({ streamVideo, idleVideo });
+    await session.connect();
+    const peer = FakeRTCPeerConnection.latest();
+    peer.simulateConnectionState('connected');
+    peer.emitTrack();
+    return { session, peer, streamVideo };
+  };
+
+  it('gives every session its own stream, peer connection and video', async () => {
+    const first = await addConnected();
+    const second = await addConnected();
+
+    expect(manager.getSessions()).toEqual([first.session, second.session]);
+    expect(first.session.getSnapshot().streamId).toBe('strm_mock_1');
+    expect(second.session.getSnapshot().streamId).toBe('strm_mock_2');
+    expect(first.peer).not.toBe(second.peer);
+    expect(first.streamVideo.srcObject).toBe(first.session.getSnapshot().remoteStream);
+    expect(second.streamVideo.srcObject).toBe(second.session.getSnapshot().remoteStream);
+
+    // Speaking on one stream doesn't touch the other
+    first.peer.simulateUtterance('vid_1', 60000);
+    expect(first.session.getSnapshot().isAgentSpeaking).toBe(true);
+    expect(second.session.getSnapshot().isAgentSpeaking).toBe(false);
+  });
+
+  it('routes a message to one session or broadcasts it to all', async () => {
+    const first = await addConnected();
+    const second = await addConnected();
+
+    expect(manager.speak('Only you', second.session.id)).toEqual([expect.any(String)]);
+    await vi.waitFor(() => expect(backend.requestsTo('POST', `${streamsPath}/strm_mock_2`)).toHaveLength(1));
+    expect(backend.requestsTo('POST', `${streamsPath}/strm_mock_1`)).toHaveLength(0);
+
+    const answers = await manager.sendChatMessage('Hello everyone', ALL_SESSIONS);
+    expect(answers).toHaveLength(2);
+    expect(first.session.getSnapshot().chatMessages.map((m) => m.role)).toEqual(['user', 'assistant']);
+    expect(second.session.getSnapshot().chatMessages.map((m) => m.role)).toEqual(['user', 'assistant']);
+  });
+
+  it('only samples stream stats while something subscribes to them', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    try {
+      const { session, peer } = await addConnected();
+      const getStats = vi.spyOn(peer, 'getStats');
+      const snapshots = vi.fn();
+      session.subscribe(snapshots);
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(getStats).not.toHaveBeenCalled();
+
+      const listener = vi.fn();
+      const unsubscribe = session.subscribeMetrics(listener);
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(session.getMetricsSnapshot()).toHaveLength(2);
+      expect(listener).toHaveBeenCalledTimes(2);
+      // The samples don't touch the session snapshot, so nothing else re-renders
+      expect(snapshots).not.toHaveBeenCalled();
+
+      unsubscribe();
+      expect(session.getMetricsSnapshot()).toEqual([]);
+      getStats.mockClear();
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(getStats).not.toHaveBeenCalled();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('closes a removed session and deletes its stream', async () => {
+    const first = await addConnected();
+    const second = await addConnected();
+
+    manager.remove(first.session.id);
+    expect(manager.getSessions()).toEqual([second.session]);
+    expect(first.peer.connectionState).toBe('closed');
+    expect(second.peer.connectionState).toBe('connected');
+    await vi.waitFor(() =>
+      expect(backend.requestsTo('DELETE', `${streamsPath}/strm_mock_1`)[0]?.body).toEqual({ session_id: 'sess_mock_1' })
+    );
+  });
+});
@@ -0,0 +1,99 @@
+// Runs several AgentSessions on one page (the /panel view) and routes messages
+// to one of them or to all at once.
+
+import type { SpeakScript } from '@/lib/scripts';
+import { AgentSession, type AgentApiConfig, type AgentSessionOptions } from '@/lib/agentSession';
+import { isConnecting } from '@/lib/connectionState';
+
+// Target for sendChatMessage/speak: a session id, or every session
+export const ALL_SESSIONS = 'all';
+export type SessionTarget = typeof ALL_SESSIONS | string;
+
+type SessionDefaults = Pick<AgentSessionOptions, 'reconnect' | 'idleTimeoutMinutes' | 'stream' | 'forceClips'>;
+
+export class AgentSessionManager {
+  private sessions: AgentSession[] = [];
+  private readonly listeners = new Set<() => void>();
+
+  constructor(
+    private readonly api: AgentApiConfig,
+    private readonly defaults: SessionDefaults = {}
+  ) {}
+
+  readonly subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Stable until a session is added or removed
+  readonly getSessions = () => this.sessions;
+
+  get(id: string) {
+    return this.sessions.find((session) => session.id === id) ?? null;
+  }
+
+  // The same agent may be added more than once; each gets its own stream
+  add(agentId: string) {
+    const session = new AgentSession({ ...this.defaults, agentId, api: this.api });
+    this.sessions = [...this.sessions, session];
+    this.emit();
+    return session;
+  }
+
+  remove(id: string) {
+    const session = this.get(id);
+    if (!session) return;
+    session.close();
+    this.sessions = this.sessions.filter((item) => item !== session);
+    this.emit();
+  }
+
+  // Answers in target order; sessions that aren't connected answer null
+  sendChatMessage(message: string, target: SessionTarget = ALL_SESSIONS) {
+    return Promise.all(this.resolve(target).map((session) => session.sendChatMessage(message)));
+  }
+
+  // Queue item ids in target order; null where nothing was queued
+  speak(input: string | SpeakScript, target: SessionTarget = ALL_SESSIONS) {
+    return this.resolve(target).map((session) => session.speak(input));
+  }
+
+  interrupt(target: SessionTarget = ALL_SESSIONS) {
+    this.resolve(target).forEach((session) => session.interrupt());
+  }
+
+  // Sessions already connected or on their way are left alone
+  connectAll() {
+    return Promise.all(
+      this.sessions
+        .filter((session) => {
+          const { isConnected, connectionState } = session.getSnapshot();
+          return !isConnected && !isConnecting(connectionState);
+        })
+        .map((session) => session.connect())
+    );
+  }
+
+  disconnectAll() {
+    this.sessions.forEach((session) => session.disconnect());
+  }
+
+  // Ends every stream and forgets the sessions
+  closeAll() {
+    this.sessions.forEach((session) => session.close());
+    this.sessions = [];
+    this.emit();
+  }
+
+  private resolve(target: SessionTarget) {
+    if (target === ALL_SESSIONS) return this.sessions;
+    const session = this.get(target);
+    return session ? [session] : [];
+  }
+
+  private emit() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,102 @@
+// Uploaded audio scripts, kept on the local disk and served back by /api/audio
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getAudioRetention, getAudioUploadDir } from '@/lib/env';
+
+// Formats D-ID accepts for audio scripts, by file extension
+const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  ogg: 'audio/ogg',
+  webm: 'audio/webm',
+  flac: 'audio/flac'
+};
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/flac': 'flac'
+};
+
+// Only names saveAudio() produced, so a request can never reach outside the folder
+const FILE_NAME_PATTERN = /^[0-9a-f-]{36}\.(mp3|wav|m4a|ogg|webm|flac)$/;
+
+export const MAX_AUDIO_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export interface StoredAudio {
+  data: Buffer;
+  contentType: string;
+  // When it was saved, in ms since the epoch; retention counts from here
+  savedAtMs: number;
+}
+
+// The extension for an upload, from its MIME type or else its file name
+export function audioExtension(contentType: string, fileName = ''): string | null {
+  const fromType = EXTENSIONS_BY_TYPE[contentType.split(';')[0].trim().toLowerCase()];
+  if (fromType) return fromType;
+  const fromName = path.extname(fileName).slice(1).toLowerCase();
+  return fromName in AUDIO_CONTENT_TYPES ? fromName : null;
+}
+
+// Stores the audio and returns its file name; older uploads past the retention limits are deleted
+export async function saveAudio(data: ArrayBuffer, extension: string): Promise<string> {
+  const directory = getAudioUploadDir();
+  await mkdir(directory, { recursive: true });
+  const fileName = `${randomUUID()}.${extension}`;
+  await writeFile(path.join(directory, fileName), Buffer.from(data));
+  await pruneAudio(directory).catch((error) => console.warn('Failed to clean up old audio uploads:', error));
+  return fileName;
+}
+
+// Deletes uploads older than the retention period, then the oldest ones until the rest fit the
+// total size cap. The newest file is always kept, since it was most likely just uploaded.
+async function pruneAudio(directory: string) {
+  const { maxAgeMs, maxTotalBytes } = getAudioRetention();
+  if (!maxAgeMs && !maxTotalBytes) return;
+
+  const names = (await readdir(directory)).filter((name) => FILE_NAME_PATTERN.test(name));
+  const files = (await Promise.all(names.map(async (name) => {
+    try {
+      const { size, mtimeMs } = await stat(path.join(directory, name));
+      return { name, size, mtimeMs };
+    } catch {
+      // Deleted by another upload's clean-up meanwhile
+      return null;
+    }
+  }))).filter((file) => file !== null).sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+  const now = Date.now();
+  let kept = 0;
+  let full = false;
+  const expired = files.filter((file, index) => {
+    full ||= index > 0 && maxTotalBytes > 0 && kept + file.size > maxTotalBytes;
+    if (full || (index > 0 && maxAgeMs > 0 && now - file.mtimeMs > maxAgeMs)) return true;
+    kept += file.size;
+    return false;
+  });
+  await Promise.all(expired.map(({ name }) => unlink(path.join(directory, name)).catch(() => {})));
+  if (expired.length > 0) console.log('Deleted', expired.length, 'old audio upload(s)');
+}
+
+export async function readAudio(fileName: string): Promise<StoredAudio | null> {
+  const match = FILE_NAME_PATTERN.exec(fileName);
+  if (!match) return null;
+  try {
+    const file = path.join(getAudioUploadDir(), fileName);
+    const [data, { mtimeMs }] = await Promise.all([readFile(file), stat(file)]);
+    return { data, contentType: AUDIO_CONTENT_TYPES[match[1]], savedAtMs: mtimeMs };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
@@ -0,0 +1,88 @@
+// Sign-in for the demo: a shared access code and/or named accounts from the
+// environment, remembered in an HMAC-signed session cookie
+
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+
+export const AUTH_COOKIE = 'demo_session';
+// Set by the proxy on every request it lets through; quota checks read it
+export const USER_HEADER = 'x-demo-user';
+export const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+export interface AuthConfig {
+  accessCode: string | null;
+  // user name → password
+  users: Record<string, string>;
+  // Signs the session cookie; without it nobody can sign in
+  secret: string | null;
+}
+
+export interface LoginInput {
+  username?: string;
+  password?: string;
+  code?: string;
+}
+
+export interface AuthSession {
+  // Account name; null for the shared access code
+  user: string | null;
+  // Unix seconds
+  expiresAt: number;
+}
+
+export const isAuthEnabled = (config: AuthConfig) => !!config.accessCode || Object.keys(config.users).length > 0;
+
+// Compares hashes so neither the length nor the contents leak through timing
+const safeEqual = (a: string, b: string) =>
+  timingSafeEqual(createHash('sha256').update(a).digest(), createHash('sha256').update(b).digest());
+
+// The session to issue for a login, or null if the credentials are wrong
+export function checkCredentials(config: AuthConfig, input: LoginInput, now = Date.now()): AuthSession | null {
+  const expiresAt = Math.floor(now / 1000) + SESSION_TTL_SECONDS;
+  const { username, password, code } = input;
+
+  if (username && password) {
+    const expected = Object.hasOwn(config.users, username) ? config.users[username] : null;
+    // Hash against something even for unknown users so they take as long as wrong passwords
+    const matches = safeEqual(password, expected ?? '');
+    return expected !== null && matches ? { user: username, expiresAt } : null;
+  }
+  if (code && config.accessCode) {
+    return safeEqual(code, config.accessCode) ? { user: null, expiresAt } : null;
+  }
+  return null;
+}
+
+const sign = (payload: string, secret: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+// <payload>.<signature>, both base64url
+export function createSessionToken(session: AuthSession, secret: string): string {
+  const payload = Buffer.from(JSON.stringify({ u: session.user, exp: session.expiresAt })).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+// The session in a cookie value, or null if it's missing, tampered with, expired
+// or for an account or access code that's no longer configured
+export function readSessionToken(token: string | undefined, config: AuthConfig, now = Date.now()): AuthSession | null {
+  const [payload, signature] = token?.split('.') ?? [];
+  if (!config.secret || !payload || !signature || !safeEqual(signature, sign(payload, config.secret))) return null;
+
+  try {
+    const { u, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if ((u !== null && typeof u !== 'string') || typeof exp !== 'number' || exp * 1000 <= now) return null;
+    if (u === null ? !config.accessCode : !Object.hasOwn(config.users, u)) return null;
+    return { user: u, expiresAt: exp };
+  } catch {
+    return null;
+  }
+}
+
+// Only same-site paths may be returned to after signing in
+export const safeReturnPath = (path: string | null | undefined) =>
+  path && path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/\\') ? path : '/';
+
+// Who a proxied request counts against for quotas; the proxy always sets it
+export const getRequestUser = (request: Request) => request.headers.get(USER_HEADER) || 'anonymous';
+
+// Admins are named accounts listed in ADMIN_USERS; an open demo has no one to keep out
+export const isAdmin = (config: AuthConfig, admins: string[], user: string) =>
+  !isAuthEnabled(config) || admins.some((name) => user === `user:${name}`);
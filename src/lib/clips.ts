@@ -0,0 +1,61 @@
+// Clip playback for networks where WebRTC can't connect: each message is
+// rendered to a video file by D-ID (clips API for clip presenters, talks API
+// for photo presenters) and played once it's ready
+
+import type { DIDAgent, DIDScript, DIDVoiceProvider } from '@/lib/didClient';
+
+export type ClipKind = 'clip' | 'talk';
+
+export const CLIP_KINDS: ClipKind[] = ['clip', 'talk'];
+
+// A D-ID request that renders one script for an agent
+export interface ClipRequest {
+  kind: ClipKind;
+  path: string;
+  body: Record<string, unknown>;
+}
+
+const isVoiceProvider = (value: unknown): value is DIDVoiceProvider =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as DIDVoiceProvider).type === 'string' &&
+  typeof (value as DIDVoiceProvider).voice_id === 'string';
+
+// Checks the script sent to /api/agents/[agentId]/clips
+export function isClipScript(data: unknown): data is DIDScript {
+  const script = data as Partial<DIDScript> | null;
+  if (typeof script !== 'object' || script === null) return false;
+  if (script.type === 'text') return typeof script.input === 'string' && script.input.trim() !== '';
+  return script.type === 'audio' && typeof script.audio_url === 'string';
+}
+
+/**
+ * Picks the endpoint for the agent's presenter. Text without its own voice
+ * gets the agent's, so clips sound like the stream would. The agent id goes
+ * along as `user_data`, which D-ID returns with the clip, so status requests
+ * can be checked against it. Null when the presenter has nothing to render from.
+ */
+export function clipRequestFor(agent: DIDAgent, script: DIDScript): ClipRequest | null {
+  const { presenter } = agent;
+  const voiced = script.type === 'text' && !script.provider && isVoiceProvider(presenter.voice)
+    ? { ...script, provider: presenter.voice }
+    : script;
+
+  if (presenter.type === 'clip' && presenter.presenter_id) {
+    return {
+      kind: 'clip',
+      path: '/clips',
+      body: {
+        presenter_id: presenter.presenter_id,
+        ...(presenter.driver_id ? { driver_id: presenter.driver_id } : {}),
+        script: voiced,
+        user_data: agent.id
+      }
+    };
+  }
+  const source = presenter.source_url || presenter.thumbnail;
+  if (!source) return null;
+  return { kind: 'talk', path: '/talks', body: { source_url: source, script: voiced, user_data: agent.id } };
+}
+
+// D-ID path of a rendered clip or talk, for polling its status
+export const clipPath = (kind: ClipKind, id: string) => `/${kind}s/${encodeURIComponent(id)}`;
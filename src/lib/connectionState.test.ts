@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { canTransition, CONNECTION_TRANSITIONS, type ConnectionState } from '@/lib/connectionState';
+
+describe('connection state machine', () => {
+  it('follows the connect path and allows starting over once the stream is gone', () => {
+    const path: ConnectionState[] = ['idle', 'loadingAgent', 'creatingStream', 'negotiating', 'connected', 'speaking', 'connected', 'closed', 'loadingAgent'];
+    path.slice(1).forEach((to, index) => expect(canTransition(path[index], to)).toBe(true));
+    expect(canTransition('failed', 'loadingAgent')).toBe(true);
+    expect(canTransition('reconnecting', 'connected')).toBe(true);
+  });
+
+  it('rejects skipped steps and leaving a final state sideways', () => {
+    expect(canTransition('idle', 'connected')).toBe(false);
+    expect(canTransition('loadingAgent', 'speaking')).toBe(false);
+    // A clip mode session is closed before connect() starts over
+    expect(canTransition('connected', 'loadingAgent')).toBe(false);
+    expect(canTransition('closed', 'connected')).toBe(false);
+    expect(canTransition('failed', 'reconnecting')).toBe(false);
+  });
+
+  it('lets every state be closed except an already closed one', () => {
+    const states = Object.keys(CONNECTION_TRANSITIONS) as ConnectionState[];
+    states.filter((state) => state !== 'closed').forEach((state) => expect(canTransition(state, 'closed')).toBe(true));
+  });
+});
@@ -0,0 +1,48 @@
+// Lifecycle of one agent session. AgentSession moves through these states only
+// along the transitions below; everything else is a bug and is logged and ignored.
+
+import type { ConnectionStatus } from '@/lib/agentSession';
+
+export type ConnectionState =
+  | 'idle'
+  | 'loadingAgent'
+  | 'creatingStream'
+  | 'negotiating'
+  | 'connected'
+  | 'speaking'
+  | 'reconnecting'
+  | 'closed'
+  | 'failed';
+
+// connect() can start over from any state that doesn't have a live stream, and closes a
+// clip mode session before starting over; forced clip mode goes straight from loadingAgent to connected.
+// Staying in a state isn't a transition; reconnecting uses it to report each attempt.
+export const CONNECTION_TRANSITIONS: Record<ConnectionState, readonly ConnectionState[]> = {
+  idle: ['loadingAgent', 'closed'],
+  loadingAgent: ['creatingStream', 'connected', 'failed', 'closed'],
+  creatingStream: ['loadingAgent', 'negotiating', 'failed', 'closed'],
+  negotiating: ['loadingAgent', 'connected', 'reconnecting', 'failed', 'closed'],
+  connected: ['speaking', 'reconnecting', 'closed'],
+  speaking: ['connected', 'reconnecting', 'closed'],
+  reconnecting: ['connected', 'failed', 'closed'],
+  closed: ['loadingAgent'],
+  failed: ['loadingAgent', 'closed']
+};
+
+export const canTransition = (from: ConnectionState, to: ConnectionState) => CONNECTION_TRANSITIONS[from].includes(to);
+
+// The coarse status shown to users; callers closing the session can give a more specific reason
+export const STATUS_FOR_STATE: Record<ConnectionState, ConnectionStatus | null> = {
+  idle: null,
+  loadingAgent: 'connecting',
+  creatingStream: 'connecting',
+  negotiating: 'connecting',
+  connected: 'connected',
+  speaking: 'connected',
+  reconnecting: 'reconnecting',
+  closed: 'disconnected',
+  failed: 'failed'
+};
+
+// Between connect() and a stream or clip mode; a second connect() would start over
+export const isConnecting = (state: ConnectionState) => STATUS_FOR_STATE[state] === 'connecting';
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DIDApiError, DIDClient } from '@/lib/didClient';
+import { MOCK_AGENT, MockDIDBackend } from '@/lib/mock/didBackend';
+
+const agentPath = `/agents/${MOCK_AGENT.id}`;
+
+describe('DIDClient', () => {
+  let backend: MockDIDBackend;
+  let client: DIDClient;
+
+  beforeEach(() => {
+    backend = new MockDIDBackend();
+    vi.stubGlobal('fetch', backend.fetch);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    client = new DIDClient('/api', { retries: 2, baseDelayMs: 1, maxDelayMs: 5 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('returns validated agent data', async () => {
+    const agent = await client.getAgent(MOCK_AGENT.id);
+    expect(agent.preview_name).toBe('Mock Agent');
+  });
+
+  it('retries 5xx responses and succeeds', async () => {
+    backend.injectFailure({ endpoint: agentPath, status: 503, times: 2 });
+    await expect(client.getAgent(MOCK_AGENT.id)).resolves.toMatchObject({ id: MOCK_AGENT.id });
+    expect(backend.requestsTo('GET', agentPath)).toHaveLength(3);
+  });
+
+  it('retries 429 and honours Retry-After', async () => {
+    backend.injectFailure({ endpoint: agentPath, status: 429, retryAfter: 0 });
+    await client.getAgent(MOCK_AGENT.id);
+    expect(backend.requestsTo('GET', agentPath)).toHaveLength(2);
+  });
+
+  it('retries network errors such as timeouts', async () => {
+    backend.injectFailure({ endpoint: agentPath, timeoutMs: 5 });
+    await client.getAgent(MOCK_AGENT.id);
+    expect(backend.requestsTo('GET', agentPath)).toHaveLength(2);
+  });
+
+  it('does not retry client errors and reports status, endpoint and body', async () => {
+    const error = await client.getAgent('missing').catch((e) => e);
+    expect(error).toBeInstanceOf(DIDApiError);
+    expect(error).toMatchObject({ status: 404, endpoint: '/agents/missing' });
+    expect(error.body).toMatchObject({ kind: 'NotFoundError' });
+    expect(backend.requestsTo('GET', '/agents/missing')).toHaveLength(1);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    backend.injectFailure({ endpoint: agentPath, status: 500, times: 10 });
+    await expect(client.getAgent(MOCK_AGENT.id)).rejects.toMatchObject({ status: 500 });
+    expect(backend.requestsTo('GET', agentPath)).toHaveLength(3);
+  });
+
+  it('sends ICE restart offers once and returns the answer', async () => {
+    const offer = { type: 'offer' as const, sdp: 'v=0\r\n' };
+    const { answer } = await client.sendSdpOffer(MOCK_AGENT.id, 'strm_1', 'sess_1', offer);
+    expect(answer.type).toBe('answer');
+    expect(backend.requestsTo('POST', `${agentPath}/streams/strm_1/sdp`)[0].body).toEqual({ offer, session_id: 'sess_1' });
+
+    backend.injectFailure({ endpoint: `${agentPath}/streams/strm_1/sdp`, status: 503 });
+    await expect(client.sendSdpOffer(MOCK_AGENT.id, 'strm_1', 'sess_1', offer)).rejects.toMatchObject({ status: 503 });
+    expect(backend.requestsTo('POST', `${agentPath}/streams/strm_1/sdp`)).toHaveLength(2);
+  });
+
+  it('rejects responses that do not match the expected shape', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({ id: 42 }))));
+    await expect(client.getAgent(MOCK_AGENT.id)).rejects.toMatchObject({ status: 200, endpoint: agentPath });
+  });
+
+  it('caps a long Retry-After at the maximum delay', async () => {
+    backend.injectFailure({ endpoint: agentPath, status: 429, retryAfter: 3600 });
+    const started = Date.now();
+    await client.getAgent(MOCK_AGENT.id);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(backend.requestsTo('GET', agentPath)).toHaveLength(2);
+  });
+
+  it('never retries stream creation or speech, and escapes ids in paths', async () => {
+    backend.injectFailure({ endpoint: `${agentPath}/streams`, method: 'POST', status: 503 });
+    await expect(client.createStream(MOCK_AGENT.id, { compatibility_mode: 'on', fluent: true })).rejects.toMatchObject({ status: 503 });
+    expect(backend.requestsTo('POST', `${agentPath}/streams`)).toHaveLength(1);
+
+    const { id, session_id } = await client.createStream(MOCK_AGENT.id, { compatibility_mode: 'on', fluent: true });
+    backend.injectFailure({ endpoint: `${agentPath}/streams/${id}`, method: 'POST', status: 500 });
+    await expect(client.speak(MOCK_AGENT.id, id, session_id, { type: 'text', input: 'Hi' })).rejects.toBeInstanceOf(DIDApiError);
+    expect(backend.requestsTo('POST', `${agentPath}/streams/${id}`)).toHaveLength(1);
+
+    const fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ id: 'a', presenter: {} })));
+    vi.stubGlobal('fetch', fetch);
+    await client.getAgent('../agents?x=1');
+    expect(fetch.mock.calls[0][0]).toBe('/api/agents/..%2Fagents%3Fx%3D1');
+  });
+
+  it('never retries chat messages', async () => {
+    const chatPath = `${agentPath}/chat/cht_1`;
+    backend.injectFailure({ endpoint: chatPath, status: 500 });
+    await expect(client.sendChatMessage(MOCK_AGENT.id, 'cht_1', 'strm', 'sess', [])).rejects.toBeInstanceOf(DIDApiError);
+    expect(backend.requestsTo('POST', chatPath)).toHaveLength(1);
+  });
+});
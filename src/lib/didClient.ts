@@ -0,0 +1,409 @@
+// Typed client for the D-ID Agents API, called through the same-origin /api proxy
+
+import type { ClipKind } from '@/lib/clips';
+import type { QuotaExceeded } from '@/lib/quota';
+
+export interface DIDPresenter {
+  // 'clip' presenters render with the clips API, others (photos) with talks
+  type?: string;
+  thumbnail?: string;
+  idle_video?: string;
+  source_url?: string;
+  presenter_id?: string;
+  driver_id?: string;
+  voice?: DIDVoiceProvider;
+  [key: string]: unknown;
+}
+
+export interface DIDAgent {
+  id: string;
+  preview_name?: string;
+  presenter: DIDPresenter;
+  [key: string]: unknown;
+}
+
+export interface DIDAgentList {
+  agents: DIDAgent[];
+}
+
+export interface DIDStreamOptions {
+  compatibility_mode?: 'on' | 'off' | 'auto';
+  fluent?: boolean;
+  output_resolution?: number;
+  stream_warmup?: boolean;
+  // Seconds
+  session_timeout?: number;
+  [key: string]: unknown;
+}
+
+export interface DIDStreamCreateResponse {
+  id: string;
+  session_id: string;
+  offer: RTCSessionDescriptionInit;
+  ice_servers: RTCIceServer[];
+  fluent?: boolean;
+}
+
+export interface DIDSdpResponse {
+  status?: string;
+  [key: string]: unknown;
+}
+
+// The backend's answer to an ICE restart offer
+export interface DIDSdpOfferResponse {
+  answer: RTCSessionDescriptionInit;
+  [key: string]: unknown;
+}
+
+export interface DIDIceResponse {
+  status?: string;
+  [key: string]: unknown;
+}
+
+export interface DIDSpeakResponse {
+  status?: string;
+  video_id?: string;
+  [key: string]: unknown;
+}
+
+export interface DIDIceCandidate {
+  candidate?: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+}
+
+// Text-to-speech voice for one script; omitted to use the agent's own voice
+export interface DIDVoiceProvider {
+  type: string;
+  voice_id: string;
+  voice_config?: {
+    style?: string;
+  };
+}
+
+export interface DIDTextScript {
+  type: 'text';
+  input: string;
+  // `input` is SSML rather than plain text
+  ssml?: boolean;
+  provider?: DIDVoiceProvider;
+}
+
+// Pre-recorded speech the agent lip-syncs to; D-ID fetches it from `audio_url`
+export interface DIDAudioScript {
+  type: 'audio';
+  audio_url: string;
+}
+
+export type DIDScript = DIDTextScript | DIDAudioScript;
+
+export interface DIDChatCreateResponse {
+  id: string;
+}
+
+export interface DIDChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+}
+
+export interface DIDChatResponse {
+  result: string;
+  [key: string]: unknown;
+}
+
+// A clip or talk accepted for rendering; `kind` is added by the proxy
+export interface DIDClipCreateResponse {
+  id: string;
+  kind: ClipKind;
+  status?: string;
+}
+
+// Rendering status: created → started → done (or error / rejected)
+export interface DIDClip {
+  id?: string;
+  status: string;
+  result_url?: string;
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * A failed D-ID call. `status` is the HTTP status (0 for network errors and
+ * unreadable responses), `endpoint` the path that was called and `body` the
+ * parsed response body, if any.
+ */
+export class DIDApiError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  readonly body: unknown;
+
+  constructor(message: string, status: number, endpoint: string, body: unknown = null) {
+    super(message);
+    this.name = 'DIDApiError';
+    this.status = status;
+    this.endpoint = endpoint;
+    this.body = body;
+  }
+
+  get isNetworkError() {
+    return this.status === 0;
+  }
+
+  // Set by this app's proxy rather than D-ID: `auth_required` or `quota_exceeded`
+  get code(): string | null {
+    const code = isObject(this.body) ? this.body.code : null;
+    return typeof code === 'string' ? code : null;
+  }
+
+  // The exhausted quota behind a `quota_exceeded` 429
+  get quota(): QuotaExceeded | null {
+    return this.code === 'quota_exceeded' && isObject(this.body) && isObject(this.body.quota)
+      ? (this.body.quota as unknown as QuotaExceeded)
+      : null;
+  }
+
+  get isRetryable() {
+    // An exhausted quota won't come back by retrying
+    if (this.code === 'quota_exceeded') return false;
+    return this.status === 0 || this.status === 429 || this.status >= 500;
+  }
+}
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000
+};
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'DELETE';
+  body?: unknown;
+  keepalive?: boolean;
+  // Non-idempotent calls (e.g. chat messages) pass 0 so they're never sent twice
+  retries?: number;
+}
+
+type Validator<T> = (data: unknown) => data is T;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const isObject = (data: unknown): data is Record<string, unknown> =>
+  typeof data === 'object' && data !== null && !Array.isArray(data);
+
+const isAgent: Validator<DIDAgent> = (data): data is DIDAgent =>
+  isObject(data) && typeof data.id === 'string' && isObject(data.presenter);
+
+const isAgentList: Validator<DIDAgentList> = (data): data is DIDAgentList =>
+  isObject(data) && Array.isArray(data.agents) && data.agents.every(isAgent);
+
+const isStreamCreateResponse: Validator<DIDStreamCreateResponse> = (data): data is DIDStreamCreateResponse =>
+  isObject(data) &&
+  typeof data.id === 'string' &&
+  typeof data.session_id === 'string' &&
+  isObject(data.offer) &&
+  typeof data.offer.sdp === 'string' &&
+  Array.isArray(data.ice_servers);
+
+const isSdpOfferResponse: Validator<DIDSdpOfferResponse> = (data): data is DIDSdpOfferResponse =>
+  isObject(data) && isObject(data.answer) && data.answer.type === 'answer' && typeof data.answer.sdp === 'string';
+
+const isChatCreateResponse: Validator<DIDChatCreateResponse> = (data): data is DIDChatCreateResponse =>
+  isObject(data) && typeof data.id === 'string';
+
+const isChatResponse: Validator<DIDChatResponse> = (data): data is DIDChatResponse =>
+  isObject(data) && typeof data.result === 'string';
+
+const isClipCreateResponse: Validator<DIDClipCreateResponse> = (data): data is DIDClipCreateResponse =>
+  isObject(data) && typeof data.id === 'string' && (data.kind === 'clip' || data.kind === 'talk');
+
+const isClip: Validator<DIDClip> = (data): data is DIDClip =>
+  isObject(data) && typeof data.status === 'string';
+
+// SDP, ICE, speak and delete only acknowledge; any object (or empty body) will do
+const isAcknowledgement = <T>(data: unknown): data is T => data === null || isObject(data);
+
+// Retry-After is either delta-seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const readBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const errorMessage = (body: unknown, fallback: string) => {
+  if (isObject(body)) {
+    if (typeof body.description === 'string') return body.description;
+    if (typeof body.message === 'string') return body.message;
+    if (typeof body.error === 'string') return body.error;
+  }
+  return fallback;
+};
+
+const streamPath = (agentId: string, streamId: string) =>
+  `/agents/${encodeURIComponent(agentId)}/streams/${encodeURIComponent(streamId)}`;
+
+export class DIDClient {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+  ) {}
+
+  getAgent(agentId: string) {
+    return this.request(`/agents/${encodeURIComponent(agentId)}`, isAgent);
+  }
+
+  listAgents() {
+    return this.request('/agents', isAgentList);
+  }
+
+  // D-ID may have made the stream before failing, and a retry would make another
+  createStream(agentId: string, options: DIDStreamOptions) {
+    return this.request(`/agents/${encodeURIComponent(agentId)}/streams`, isStreamCreateResponse, {
+      method: 'POST',
+      body: options,
+      retries: 0
+    });
+  }
+
+  sendSdpAnswer(agentId: string, streamId: string, sessionId: string, answer: RTCSessionDescriptionInit) {
+    return this.request<DIDSdpResponse>(`${streamPath(agentId, streamId)}/sdp`, isAcknowledgement, {
+      method: 'POST',
+      body: { answer, session_id: sessionId }
+    });
+  }
+
+  // ICE restart: the browser offers and the answer comes back in the response. A retry
+  // would answer an offer that's no longer current.
+  sendSdpOffer(agentId: string, streamId: string, sessionId: string, offer: RTCSessionDescriptionInit) {
+    return this.request(`${streamPath(agentId, streamId)}/sdp`, isSdpOfferResponse, {
+      method: 'POST',
+      body: { offer, session_id: sessionId },
+      retries: 0
+    });
+  }
+
+  sendIceCandidate(agentId: string, streamId: string, sessionId: string, candidate: DIDIceCandidate) {
+    return this.request<DIDIceResponse>(`${streamPath(agentId, streamId)}/ice`, isAcknowledgement, {
+      method: 'POST',
+      body: { session_id: sessionId, ...candidate }
+    });
+  }
+
+  // A retry could say the line twice
+  speak(agentId: string, streamId: string, sessionId: string, script: DIDScript) {
+    return this.request<DIDSpeakResponse>(streamPath(agentId, streamId), isAcknowledgement, {
+      method: 'POST',
+      body: { script, session_id: sessionId },
+      retries: 0
+    });
+  }
+
+  deleteStream(agentId: string, streamId: string, sessionId: string, keepalive = false) {
+    return this.request<unknown>(streamPath(agentId, streamId), isAcknowledgement, {
+      method: 'DELETE',
+      body: { session_id: sessionId },
+      keepalive,
+      retries: 0
+    });
+  }
+
+  createChat(agentId: string) {
+    return this.request(`/agents/${encodeURIComponent(agentId)}/chat`, isChatCreateResponse, { method: 'POST' });
+  }
+
+  // Without a stream (clip mode) the answer only comes back as text
+  sendChatMessage(agentId: string, chatId: string, streamId: string | null, sessionId: string | null, messages: DIDChatMessage[]) {
+    return this.request(`/agents/${encodeURIComponent(agentId)}/chat/${encodeURIComponent(chatId)}`, isChatResponse, {
+      method: 'POST',
+      body: streamId && sessionId ? { streamId, sessionId, messages } : { chatMode: 'TextOnly', messages },
+      retries: 0
+    });
+  }
+
+  // Every render costs credits, so a failed request is never sent twice
+  createClip(agentId: string, script: DIDScript) {
+    return this.request(`/agents/${encodeURIComponent(agentId)}/clips`, isClipCreateResponse, {
+      method: 'POST',
+      body: { script },
+      retries: 0
+    });
+  }
+
+  getClip(agentId: string, kind: ClipKind, clipId: string) {
+    return this.request(`/agents/${encodeURIComponent(agentId)}/clips/${encodeURIComponent(clipId)}?kind=${kind}`, isClip);
+  }
+
+  /**
+   * Retries network errors, 429 and 5xx with exponential backoff, honouring
+   * Retry-After (up to maxDelayMs) when the server sends one. Other failures
+   * throw immediately.
+   */
+  private async request<T>(endpoint: string, validate: Validator<T>, options: RequestOptions = {}): Promise<T> {
+    const { method = 'GET', body, keepalive, retries = this.retryPolicy.retries } = options;
+
+    for (let attempt = 0; ; attempt++) {
+      let error: DIDApiError;
+      let retryAfterMs: number | null = null;
+
+      try {
+        const response = await fetch(`${this.baseUrl}${endpoint}`, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          body: body === undefined ? undefined : JSON.stringify(body),
+          keepalive
+        });
+        const data = await readBody(response);
+
+        if (response.ok) {
+          if (!validate(data)) {
+            throw new DIDApiError(`Unexpected response from ${endpoint}`, response.status, endpoint, data);
+          }
+          return data;
+        }
+
+        error = new DIDApiError(
+          errorMessage(data, `${method} ${endpoint} failed: ${response.status} ${response.statusText}`),
+          response.status,
+          endpoint,
+          data
+        );
+        retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      } catch (err) {
+        if (err instanceof DIDApiError) throw err;
+        error = new DIDApiError(
+          `${method} ${endpoint} failed: ${err instanceof Error ? err.message : 'network error'}`,
+          0,
+          endpoint
+        );
+      }
+
+      if (!error.isRetryable || attempt >= retries) throw error;
+
+      const backoff = Math.min(this.retryPolicy.baseDelayMs * 2 ** attempt, this.retryPolicy.maxDelayMs);
+      // A far-off Retry-After is capped like the backoff, so a request never hangs for long
+      const delay = retryAfterMs === null
+        ? backoff + Math.random() * backoff * 0.25
+        : Math.min(retryAfterMs, this.retryPolicy.maxDelayMs);
+      console.warn(`Request failed (${error.status || 'network'}), retrying in ${Math.round(delay)}ms...`, endpoint);
+      await sleep(delay);
+    }
+  }
+}
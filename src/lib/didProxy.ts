@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { getMockDIDBackend, isMockDID } from '@/lib/mock/didBackend';
+
+const DEFAULT_DID_API_URL = 'https://api.d-id.com';
+
+interface DIDCredentials {
+  key: string;
+  url: string;
+}
+
+// Credentials only ever live on the server; the browser talks to /api/agents/*
+function getDIDCredentials(): DIDCredentials {
+  const key = process.env.DID_API_KEY;
+  if (!key) {
+    throw new Error('DID_API_KEY is not set');
+  }
+  return {
+    key,
+    url: (process.env.DID_API_URL || DEFAULT_DID_API_URL).replace(/\/+$/, '')
+  };
+}
+
+// MOCK_DID=1: answer from the offline backend instead of D-ID
+async function proxyToMock(path: string, method: 'GET' | 'POST' | 'DELETE', body?: string) {
+  try {
+    const response = await getMockDIDBackend().handle(method, path, body ? JSON.parse(body) : null);
+    return NextResponse.json(response.body, { status: response.status, headers: response.headers });
+  } catch (error) {
+    console.error('Mock D-ID request failed:', path, error);
+    return NextResponse.json(
+      { error: 'Failed to reach D-ID API' },
+      { status: 502 }
+    );
+  }
+}
+
+/**
+ * Forwards a request to the D-ID API with the Basic key attached and relays
+ * the upstream status and body back to the caller unchanged.
+ */
+export async function proxyToDID(path: string, method: 'GET' | 'POST' | 'DELETE', body?: string) {
+  if (isMockDID()) {
+    return proxyToMock(path, method, body);
+  }
+
+  let credentials: DIDCredentials;
+  try {
+    credentials = getDIDCredentials();
+  } catch (error) {
+    console.error('Failed to load D-ID credentials:', error);
+    return NextResponse.json(
+      { error: 'D-ID API is not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const upstream = await fetch(`${credentials.url}${path}`, {
+      method,
+      headers: {
+        Authorization: `Basic ${credentials.key}`,
+        'Content-Type': 'application/json'
+      },
+      body: body || undefined,
+      cache: 'no-store'
+    });
+
+    const text = await upstream.text();
+    return new NextResponse(text || null, {
+      status: upstream.status,
+      headers: {
+        'Content-Type': upstream.headers.get('Content-Type') || 'application/json'
+      }
+    });
+  } catch (error) {
+    console.error('D-ID proxy request failed:', path, error);
+    return NextResponse.json(
+      { error: 'Failed to reach D-ID API' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { frameAncestors, HOST_SOURCE, isOriginAllowed, parseHostMessage, toWidgetMessage } from './embed';
+
+describe('parseHostMessage', () => {
+  it('accepts known commands from the host', () => {
+    expect(parseHostMessage({ source: HOST_SOURCE, version: 1, type: 'connect' })).toEqual({ type: 'connect' });
+    expect(parseHostMessage({ source: HOST_SOURCE, version: 1, type: 'speak', text: 'Hi', extra: true }))
+      .toEqual({ type: 'speak', text: 'Hi' });
+  });
+
+  it('ignores other traffic and malformed commands', () => {
+    expect(parseHostMessage('connect')).toBeNull();
+    expect(parseHostMessage({ source: 'other', version: 1, type: 'connect' })).toBeNull();
+    expect(parseHostMessage({ source: HOST_SOURCE, version: 2, type: 'connect' })).toBeNull();
+    expect(parseHostMessage({ source: HOST_SOURCE, version: 1, type: 'speak' })).toBeNull();
+    expect(parseHostMessage({ source: HOST_SOURCE, version: 1, type: 'eval' })).toBeNull();
+  });
+
+  it('stamps widget events', () => {
+    expect(toWidgetMessage({ type: 'speaking', speaking: true }))
+      .toEqual({ type: 'speaking', speaking: true, source: 'did-agent-widget', version: 1 });
+  });
+});
+
+describe('allowed origins', () => {
+  const allowed = ['https://shop.example.com', 'https://*.customer.io'];
+
+  it('matches exact origins and wildcard subdomains', () => {
+    expect(isOriginAllowed('https://shop.example.com', allowed)).toBe(true);
+    expect(isOriginAllowed('https://eu.customer.io', allowed)).toBe(true);
+    expect(isOriginAllowed('https://customer.io', allowed)).toBe(false);
+    expect(isOriginAllowed('http://eu.customer.io', allowed)).toBe(false);
+    expect(isOriginAllowed('https://evil-customer.io', allowed)).toBe(false);
+    expect(isOriginAllowed('https://anything.dev', ['*'])).toBe(true);
+  });
+
+  it('builds the frame-ancestors policy', () => {
+    expect(frameAncestors(allowed)).toBe("'self' https://shop.example.com https://*.customer.io");
+    expect(frameAncestors([])).toBe("'self'");
+    expect(frameAncestors(['*'])).toBe('*');
+  });
+});
@@ -0,0 +1,70 @@
+// postMessage protocol between a host page (driven by public/embed.js) and the /embed widget.
+// Keep the constants in sync with the loader script.
+
+import type { ConnectionStatus } from '@/hooks/useAgentConnection';
+
+export const HOST_SOURCE = 'did-agent-host';
+export const WIDGET_SOURCE = 'did-agent-widget';
+export const EMBED_PROTOCOL_VERSION = 1;
+
+// Sent by the host page
+export type HostCommand =
+  | { type: 'connect' }
+  | { type: 'disconnect' }
+  | { type: 'interrupt' }
+  // The agent says `text` verbatim
+  | { type: 'speak'; text: string };
+
+// Sent by the widget
+export type WidgetEvent =
+  | { type: 'ready'; agentId: string }
+  | { type: 'connection-state'; state: ConnectionStatus; connected: boolean }
+  | { type: 'speaking'; speaking: boolean }
+  | { type: 'transcript'; role: 'user' | 'agent'; text: string }
+  | { type: 'error'; message: string; command?: HostCommand['type'] };
+
+export type HostMessage = HostCommand & { source: typeof HOST_SOURCE; version: number };
+export type WidgetMessage = WidgetEvent & { source: typeof WIDGET_SOURCE; version: number };
+
+const isObject = (data: unknown): data is Record<string, unknown> =>
+  typeof data === 'object' && data !== null && !Array.isArray(data);
+
+// The command in a message from the host, or null for anything else posted to the frame
+export function parseHostMessage(data: unknown): HostCommand | null {
+  if (!isObject(data) || data.source !== HOST_SOURCE || data.version !== EMBED_PROTOCOL_VERSION) return null;
+  switch (data.type) {
+    case 'connect':
+    case 'disconnect':
+    case 'interrupt':
+      return { type: data.type };
+    case 'speak':
+      return typeof data.text === 'string' ? { type: 'speak', text: data.text } : null;
+    default:
+      return null;
+  }
+}
+
+export function toWidgetMessage(event: WidgetEvent): WidgetMessage {
+  return { ...event, source: WIDGET_SOURCE, version: EMBED_PROTOCOL_VERSION };
+}
+
+/**
+ * Whether `origin` matches one of the configured origins. Entries are exact
+ * origins (`https://shop.example.com`), wildcard subdomains
+ * (`https://*.example.com`) or `*` for any site.
+ */
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+  return allowedOrigins.some((allowed) => {
+    if (allowed === '*') return true;
+    const wildcard = /^(https?):\/\/\*\.(.+)$/.exec(allowed);
+    if (!wildcard) return allowed === origin;
+    const [, scheme, domain] = wildcard;
+    return origin.startsWith(`${scheme}://`) && origin.endsWith(`.${domain}`);
+  });
+}
+
+// CSP frame-ancestors value; the app itself may always frame the widget
+export function frameAncestors(allowedOrigins: string[]): string {
+  if (allowedOrigins.includes('*')) return '*';
+  return ["'self'", ...allowedOrigins].join(' ');
+}
@@ -0,0 +1,146 @@
+import path from 'node:path';
+import type { SpeechProviderPreference } from '@/lib/speechToText';
+import type { AuthConfig } from '@/lib/auth';
+import type { QuotaConfig } from '@/lib/quota';
+
+// Session idle timeout for the demo pages, in minutes (0 disables it)
+export function getIdleTimeoutMinutes(): number {
+  const minutes = Number(process.env.DID_IDLE_TIMEOUT_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : 0;
+}
+
+// /api/transcribe needs TRANSCRIBE_URL; MOCK_DID=1 answers from an offline stand-in instead
+export function isTranscriberConfigured(): boolean {
+  return !!process.env.TRANSCRIBE_URL || process.env.MOCK_DID === '1';
+}
+
+// SPEECH_PROVIDER: 'web-speech', 'server' (MediaRecorder + /api/transcribe) or 'auto'.
+// 'auto' only falls back to the server when there's a transcriber behind it.
+export function getSpeechProviderPreference(): SpeechProviderPreference {
+  const provider = process.env.SPEECH_PROVIDER;
+  if (provider === 'web-speech' || provider === 'server') return provider;
+  return isTranscriberConfigured() ? 'auto' : 'web-speech';
+}
+
+// Where /api/audio keeps uploaded audio scripts
+export function getAudioUploadDir(): string {
+  return process.env.AUDIO_UPLOAD_DIR || path.join(process.cwd(), 'uploads', 'audio');
+}
+
+// A number of at least 0 from the environment, or `fallback` when unset or invalid
+const nonNegativeSetting = (name: string, fallback: number) => {
+  const value = process.env[name]?.trim();
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// AUDIO_RETENTION_HOURS (default 24) and AUDIO_MAX_TOTAL_MB (default 500) bound the
+// uploads kept on disk; 0 turns either limit off
+export function getAudioRetention(): { maxAgeMs: number; maxTotalBytes: number } {
+  return {
+    maxAgeMs: nonNegativeSetting('AUDIO_RETENTION_HOURS', 24) * 60 * 60 * 1000,
+    maxTotalBytes: nonNegativeSetting('AUDIO_MAX_TOTAL_MB', 500) * 1024 * 1024
+  };
+}
+
+// Origin D-ID downloads uploaded audio from; must be reachable from the internet.
+// Falls back to the origin of the upload request.
+export function getPublicBaseUrl(): string | null {
+  return process.env.PUBLIC_BASE_URL?.replace(/\/+$/, '') || null;
+}
+
+// EMBED_ALLOWED_ORIGINS: comma-separated sites that may embed /embed/[agentId]
+// (exact origins, https://*.example.com or *). Empty allows only this app.
+export function getEmbedAllowedOrigins(): string[] {
+  return (process.env.EMBED_ALLOWED_ORIGINS ?? '')
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+// HISTORY_ENABLED=0 stops recording conversations; on by default
+export function isHistoryEnabled(): boolean {
+  return process.env.HISTORY_ENABLED !== '0' && process.env.HISTORY_ENABLED !== 'false';
+}
+
+// JSON Lines log behind /api/history
+export function getHistoryFile(): string {
+  return process.env.HISTORY_FILE || path.join(process.cwd(), 'data', 'history.jsonl');
+}
+
+// AUTH_USERS: user:password pairs, comma-separated
+const parseAuthUsers = (value: string) => {
+  const users: Record<string, string> = {};
+  for (const entry of value.split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+    const name = entry.slice(0, separator).trim();
+    const password = entry.slice(separator + 1).trim();
+    if (name && password) users[name] = password;
+  }
+  return users;
+};
+
+// ACCESS_CODE and/or AUTH_USERS turn on sign-in. AUTH_SECRET signs the session
+// cookie and is required with them; anything derived from the credentials could be
+// worked out by whoever holds the access code.
+export function getAuthConfig(): AuthConfig {
+  const accessCode = process.env.ACCESS_CODE?.trim() || null;
+  const users = process.env.AUTH_USERS ?? '';
+  return {
+    accessCode,
+    users: parseAuthUsers(users),
+    secret: process.env.AUTH_SECRET || null
+  };
+}
+
+const quotaLimit = (name: string) => {
+  const limit = Number(process.env[name]);
+  return Number.isFinite(limit) && limit > 0 ? Math.floor(limit) : 0;
+};
+
+// QUOTA_* settings; 0 or unset means unlimited. Daily counts reset at midnight UTC.
+export function getQuotaConfig(): QuotaConfig {
+  return {
+    user: {
+      streamsPerDay: quotaLimit('QUOTA_USER_STREAMS_PER_DAY'),
+      concurrentSessions: quotaLimit('QUOTA_USER_CONCURRENT_SESSIONS'),
+      charactersPerDay: quotaLimit('QUOTA_USER_CHARACTERS_PER_DAY')
+    },
+    global: {
+      streamsPerDay: quotaLimit('QUOTA_STREAMS_PER_DAY'),
+      concurrentSessions: quotaLimit('QUOTA_CONCURRENT_SESSIONS'),
+      charactersPerDay: quotaLimit('QUOTA_CHARACTERS_PER_DAY')
+    }
+  };
+}
+
+// Where quota usage is kept between restarts
+export function getUsageFile(): string {
+  return process.env.USAGE_FILE || path.join(process.cwd(), 'data', 'usage.json');
+}
+
+// TRUSTED_PROXY_HOPS: reverse proxies in front of the app that append to X-Forwarded-For.
+// 0 (the default) ignores the header, since the browser can set it to anything.
+export function getTrustedProxyHops(): number {
+  return quotaLimit('TRUSTED_PROXY_HOPS');
+}
+
+// ADMIN_USERS: AUTH_USERS accounts that may change /admin/settings and /admin/presentations, comma-separated.
+// Without sign-in anyone may.
+export function getAdminUsers(): string[] {
+  return (process.env.ADMIN_USERS ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+// Server-side defaults edited on /admin/settings
+export function getSettingsFile(): string {
+  return process.env.SETTINGS_FILE || path.join(process.cwd(), 'data', 'settings.json');
+}
+
+// Presentation scripts edited on /admin/presentations
+export function getPresentationsFile(): string {
+  return process.env.PRESENTATIONS_FILE || path.join(process.cwd(), 'data', 'presentations.json');
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { foldHistory, isHistoryEvent, searchHistory, toHistoryCSV, type HistoryEvent } from '@/lib/history';
+
+const at = (second: number) => new Date(Date.UTC(2026, 9, 19, 10, 0, second)).toISOString();
+
+const events: HistoryEvent[] = [
+  { type: 'session-start', sessionId: 's1', agentId: 'agt_1', agentName: 'Support', at: at(0) },
+  { type: 'stream', sessionId: 's1', streamId: 'strm_1', didSessionId: 'sess_1', at: at(1) },
+  { type: 'utterance', sessionId: 's1', role: 'user', kind: 'chat', text: 'Where is my order?', videoId: null, at: at(2) },
+  { type: 'utterance', sessionId: 's1', role: 'agent', kind: 'chat', text: 'It ships today, "probably".', videoId: null, at: at(3) },
+  { type: 'speech', sessionId: 's1', state: 'started', videoId: 'vid_1', at: at(4) },
+  { type: 'speech', sessionId: 's1', state: 'done', videoId: 'vid_1', at: at(6) },
+  { type: 'reconnect', sessionId: 's1', at: at(7) },
+  { type: 'stream', sessionId: 's1', streamId: 'strm_2', didSessionId: 'sess_2', at: at(9) },
+  { type: 'session-end', sessionId: 's1', outcome: 'disconnected', reason: null, at: at(10) },
+  { type: 'session-start', sessionId: 's2', agentId: 'agt_2', agentName: null, at: at(20) },
+  { type: 'session-end', sessionId: 's2', outcome: 'failed', reason: 'D-ID API error 402', at: at(21) },
+  // Belongs to no recorded session
+  { type: 'reconnect', sessionId: 'lost', at: at(30) }
+];
+
+describe('history', () => {
+  it('folds events into sessions, newest first', () => {
+    const [failed, support] = foldHistory(events);
+
+    expect(failed).toMatchObject({ id: 's2', outcome: 'failed', failureReason: 'D-ID API error 402', utterances: [] });
+    expect(support).toMatchObject({
+      id: 's1',
+      agentName: 'Support',
+      startedAt: at(0),
+      endedAt: at(10),
+      outcome: 'disconnected',
+      reconnects: 1
+    });
+    expect(support.streams.map((stream) => stream.streamId)).toEqual(['strm_1', 'strm_2']);
+  });
+
+  it('times agent answers from stream/started and stream/done', () => {
+    const [, support] = foldHistory(events);
+    expect(support.utterances[0]).toMatchObject({ role: 'user', startedAt: null });
+    expect(support.utterances[1]).toMatchObject({ role: 'agent', videoId: 'vid_1', startedAt: at(4), doneAt: at(6) });
+  });
+
+  it('searches agents, ids and what was said', () => {
+    const sessions = foldHistory(events);
+    expect(searchHistory(sessions, 'ORDER').map((session) => session.id)).toEqual(['s1']);
+    expect(searchHistory(sessions, 'strm_2').map((session) => session.id)).toEqual(['s1']);
+    expect(searchHistory(sessions, 'agt_2').map((session) => session.id)).toEqual(['s2']);
+    expect(searchHistory(sessions, '  ')).toHaveLength(2);
+  });
+
+  it('exports one CSV row per utterance with quoting', () => {
+    const lines = toHistoryCSV(foldHistory(events)).trimEnd().split('\r\n');
+    expect(lines[0]).toBe('session_id,agent_id,agent_name,session_started_at,session_ended_at,outcome,reconnects,role,kind,text,at,started_at,done_at');
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toBe(`s2,agt_2,,${at(20)},${at(21)},failed,0,,,,,,`);
+    expect(lines[3]).toContain('"It ships today, ""probably""."');
+  });
+
+  it('rejects malformed events', () => {
+    expect(isHistoryEvent(events[0])).toBe(true);
+    expect(isHistoryEvent({ ...events[0], at: 'yesterday' })).toBe(false);
+    expect(isHistoryEvent({ ...events[2], role: 'system' })).toBe(false);
+    expect(isHistoryEvent({ type: 'session-end', sessionId: 's1', outcome: 'exploded', reason: null, at: at(0) })).toBe(false);
+    expect(isHistoryEvent({ type: 'other', sessionId: 's1', at: at(0) })).toBe(false);
+  });
+});
@@ -0,0 +1,238 @@
+// Conversation history: the events sessions report to /api/history/events, and
+// how the /history page folds them back into sessions, searches and exports them.
+
+// How a session ended; `closed` covers agent switches, removed panel tiles and closed tabs
+export type SessionOutcome = 'disconnected' | 'idleTimeout' | 'failed' | 'closed';
+
+export type UtteranceRole = 'user' | 'agent';
+// `chat` turns go through the agent's LLM; `speak` items are said verbatim
+export type UtteranceKind = 'chat' | 'speak';
+
+// Every event belongs to one history session (a connect() up to its end, across reconnects)
+export type HistoryEvent =
+  // `user` is stamped by the server from the request; whatever the browser sends is replaced
+  | { type: 'session-start'; sessionId: string; agentId: string; agentName: string | null; at: string; user?: string }
+  // A D-ID stream opened for the session; reconnects add more
+  | { type: 'stream'; sessionId: string; streamId: string; didSessionId: string; at: string }
+  | { type: 'reconnect'; sessionId: string; at: string }
+  | { type: 'session-end'; sessionId: string; outcome: SessionOutcome; reason: string | null; at: string }
+  | {
+      type: 'utterance';
+      sessionId: string;
+      role: UtteranceRole;
+      kind: UtteranceKind;
+      text: string;
+      videoId: string | null;
+      at: string;
+    }
+  // stream/started and stream/done from the data channel
+  | { type: 'speech'; sessionId: string; state: 'started' | 'done'; videoId: string | null; at: string };
+
+export interface HistoryStream {
+  streamId: string;
+  didSessionId: string;
+  at: string;
+}
+
+export interface HistoryUtterance {
+  role: UtteranceRole;
+  kind: UtteranceKind;
+  text: string;
+  videoId: string | null;
+  at: string;
+  // When the agent started and finished saying it, if the data channel reported it
+  startedAt: string | null;
+  doneAt: string | null;
+}
+
+export interface HistorySession {
+  id: string;
+  agentId: string;
+  agentName: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  outcome: SessionOutcome | null;
+  failureReason: string | null;
+  reconnects: number;
+  streams: HistoryStream[];
+  utterances: HistoryUtterance[];
+}
+
+export const SESSION_OUTCOMES: SessionOutcome[] = ['disconnected', 'idleTimeout', 'failed', 'closed'];
+
+// Events accepted per POST
+export const MAX_HISTORY_BATCH = 100;
+// Longest text kept per utterance or failure reason
+const MAX_TEXT_LENGTH = 10000;
+
+const isObject = (data: unknown): data is Record<string, unknown> =>
+  typeof data === 'object' && data !== null && !Array.isArray(data);
+
+const isString = (value: unknown, maxLength = 200): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+
+const isNullableString = (value: unknown, maxLength = 200): value is string | null =>
+  value === null || isString(value, maxLength);
+
+const isTimestamp = (value: unknown): value is string => isString(value, 40) && !Number.isNaN(Date.parse(value));
+
+// Checks an event posted by a browser; anything malformed is rejected as a whole batch
+export function isHistoryEvent(data: unknown): data is HistoryEvent {
+  if (!isObject(data) || !isString(data.sessionId) || !isTimestamp(data.at)) return false;
+  switch (data.type) {
+    case 'session-start':
+      return isString(data.agentId) && isNullableString(data.agentName);
+    case 'stream':
+      return isString(data.streamId) && isString(data.didSessionId);
+    case 'reconnect':
+      return true;
+    case 'session-end':
+      return SESSION_OUTCOMES.includes(data.outcome as SessionOutcome) && isNullableString(data.reason, MAX_TEXT_LENGTH);
+    case 'utterance':
+      return (
+        (data.role === 'user' || data.role === 'agent') &&
+        (data.kind === 'chat' || data.kind === 'speak') &&
+        isString(data.text, MAX_TEXT_LENGTH) &&
+        isNullableString(data.videoId)
+      );
+    case 'speech':
+      return (data.state === 'started' || data.state === 'done') && isNullableString(data.videoId);
+    default:
+      return false;
+  }
+}
+
+// The agent line a speech event is about: same video if both sides know it, else the oldest one waiting
+const findSpokenUtterance = (session: HistorySession, state: 'started' | 'done', videoId: string | null) => {
+  const waiting = session.utterances.filter((utterance) =>
+    utterance.role === 'agent' && (state === 'started' ? !utterance.startedAt : utterance.startedAt && !utterance.doneAt)
+  );
+  return (videoId && waiting.find((utterance) => utterance.videoId === videoId)) || waiting.find((utterance) => !utterance.videoId || !videoId);
+};
+
+// Rebuilds sessions from the event log, newest first. Events for unknown sessions are skipped.
+export function foldHistory(events: HistoryEvent[]): HistorySession[] {
+  const sessions = new Map<string, HistorySession>();
+
+  for (const event of events) {
+    if (event.type === 'session-start') {
+      sessions.set(event.sessionId, {
+        id: event.sessionId,
+        agentId: event.agentId,
+        agentName: event.agentName,
+        startedAt: event.at,
+        endedAt: null,
+        outcome: null,
+        failureReason: null,
+        reconnects: 0,
+        streams: [],
+        utterances: []
+      });
+      continue;
+    }
+
+    const session = sessions.get(event.sessionId);
+    if (!session) continue;
+
+    switch (event.type) {
+      case 'stream':
+        session.streams.push({ streamId: event.streamId, didSessionId: event.didSessionId, at: event.at });
+        break;
+      case 'reconnect':
+        session.reconnects += 1;
+        break;
+      case 'session-end':
+        session.endedAt = event.at;
+        session.outcome = event.outcome;
+        session.failureReason = event.reason;
+        break;
+      case 'utterance':
+        session.utterances.push({
+          role: event.role,
+          kind: event.kind,
+          text: event.text,
+          videoId: event.videoId,
+          at: event.at,
+          startedAt: null,
+          doneAt: null
+        });
+        break;
+      case 'speech': {
+        const utterance = findSpokenUtterance(session, event.state, event.videoId);
+        if (!utterance) break;
+        if (event.state === 'started') {
+          utterance.startedAt = event.at;
+          utterance.videoId ??= event.videoId;
+        } else {
+          utterance.doneAt = event.at;
+        }
+        break;
+      }
+    }
+  }
+
+  return [...sessions.values()].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+// Case-insensitive match on the agent, ids and anything said in the session
+export function searchHistory(sessions: HistorySession[], query: string): HistorySession[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return sessions;
+  return sessions.filter((session) =>
+    [
+      session.id,
+      session.agentId,
+      session.agentName ?? '',
+      session.failureReason ?? '',
+      ...session.streams.map((stream) => stream.streamId),
+      ...session.utterances.map((utterance) => utterance.text)
+    ].some((value) => value.toLowerCase().includes(needle))
+  );
+}
+
+const CSV_COLUMNS = [
+  'session_id',
+  'agent_id',
+  'agent_name',
+  'session_started_at',
+  'session_ended_at',
+  'outcome',
+  'reconnects',
+  'role',
+  'kind',
+  'text',
+  'at',
+  'started_at',
+  'done_at'
+];
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per utterance; sessions without any still get a row so they show up in the export
+export function toHistoryCSV(sessions: HistorySession[]): string {
+  const rows = sessions.flatMap((session) => {
+    const sessionCells = [
+      session.id,
+      session.agentId,
+      session.agentName,
+      session.startedAt,
+      session.endedAt,
+      session.outcome,
+      session.reconnects
+    ];
+    if (session.utterances.length === 0) return [[...sessionCells, null, null, null, null, null, null]];
+    return session.utterances.map((utterance) => [
+      ...sessionCells,
+      utterance.role,
+      utterance.kind,
+      utterance.text,
+      utterance.at,
+      utterance.startedAt,
+      utterance.doneAt
+    ]);
+  });
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,66 @@
+// Client side of the conversation history: stamps a session's events and posts
+// them to /api/history/events in small batches
+
+import { MAX_HISTORY_BATCH, type HistoryEvent, type SessionOutcome } from '@/lib/history';
+
+// Events as recorded by AgentSession; the log adds the session id and time
+type WithoutSessionAndTime<E> = E extends HistoryEvent ? Omit<E, 'sessionId' | 'at'> : never;
+export type HistoryEventInput = WithoutSessionAndTime<HistoryEvent>;
+
+const FLUSH_DELAY_MS = 2000;
+
+export class HistoryLog {
+  private pending: HistoryEvent[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  // History session in progress; null between end() and the next start()
+  private sessionId: string | null = null;
+  // Batches are posted one after another: the server only accepts a session's events after its start
+  private sending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly endpoint: string) {}
+
+  // Starts a new history session; events belong to it until end()
+  start(agentId: string, agentName: string | null) {
+    this.sessionId = crypto.randomUUID();
+    this.record({ type: 'session-start', agentId, agentName });
+  }
+
+  record(event: HistoryEventInput) {
+    if (!this.sessionId) return;
+    this.pending.push({ ...event, sessionId: this.sessionId, at: new Date().toISOString() } as HistoryEvent);
+    if (this.pending.length >= MAX_HISTORY_BATCH) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    }
+  }
+
+  // No-op when no session is in progress. Pass useBeacon while the page is unloading.
+  end(outcome: SessionOutcome, reason: string | null = null, useBeacon = false) {
+    if (!this.sessionId) return;
+    this.record({ type: 'session-end', outcome, reason });
+    this.sessionId = null;
+    this.flush(useBeacon);
+  }
+
+  flush(useBeacon = false) {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pending.length === 0) return;
+    const body = JSON.stringify({ events: this.pending.splice(0, MAX_HISTORY_BATCH) });
+
+    if (useBeacon && typeof navigator.sendBeacon === 'function') {
+      navigator.sendBeacon(this.endpoint, new Blob([body], { type: 'application/json' }));
+    } else {
+      this.sending = this.sending
+        .then(() => fetch(this.endpoint, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body }))
+        .then((response) => {
+          if (!response.ok) console.warn('History events rejected:', response.status);
+        })
+        .catch((error) => console.warn('Failed to save history events:', error));
+    }
+    if (this.pending.length > 0) this.flush(useBeacon);
+  }
+}
@@ -0,0 +1,85 @@
+// Conversation history on the local disk: an append-only JSON Lines log of
+// HistoryEvents, folded into sessions when read
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getHistoryFile } from '@/lib/env';
+import { foldHistory, isHistoryEvent, type HistoryEvent, type HistorySession } from '@/lib/history';
+
+// Who started each history session, per file, loaded on first use
+const sessionOwners = new Map<string, Promise<Map<string, string>>>();
+
+async function loadOwners(file: string): Promise<Map<string, string>> {
+  const owners = new Map<string, string>();
+  for (const event of await readEventsFrom(file)) {
+    if (event.type === 'session-start' && event.user) owners.set(event.sessionId, event.user);
+  }
+  return owners;
+}
+
+function getOwners(file: string): Promise<Map<string, string>> {
+  let owners = sessionOwners.get(file);
+  if (!owners) {
+    owners = loadOwners(file);
+    // A failed read is retried on the next request
+    owners.catch(() => sessionOwners.delete(file));
+    sessionOwners.set(file, owners);
+  }
+  return owners;
+}
+
+/**
+ * Appends a batch posted by `user`. A session belongs to whoever started it,
+ * so a batch that starts a known session or adds to someone else's is refused
+ * as a whole; returns the offending session id, or null once written.
+ */
+export async function appendHistoryEvents(user: string, events: HistoryEvent[]): Promise<string | null> {
+  if (events.length === 0) return null;
+  const file = getHistoryFile();
+  const owners = await getOwners(file);
+
+  // Checked and claimed without awaiting in between, so two requests can't both claim a session
+  const claimed = new Map<string, string>();
+  for (const event of events) {
+    const owner = claimed.get(event.sessionId) ?? owners.get(event.sessionId);
+    if (event.type === 'session-start' ? owner !== undefined : owner !== user) return event.sessionId;
+    if (event.type === 'session-start') claimed.set(event.sessionId, user);
+  }
+  claimed.forEach((owner, sessionId) => owners.set(sessionId, owner));
+
+  const stamped = events.map((event) => (event.type === 'session-start' ? { ...event, user } : event));
+  await mkdir(path.dirname(file), { recursive: true });
+  // One write per batch so concurrent requests don't interleave lines
+  await appendFile(file, stamped.map((event) => JSON.stringify(event) + '\n').join(''), 'utf8');
+  return null;
+}
+
+async function readEventsFrom(file: string): Promise<HistoryEvent[]> {
+  let contents: string;
+  try {
+    contents = await readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const events: HistoryEvent[] = [];
+  for (const line of contents.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line);
+      if (isHistoryEvent(event)) events.push(event);
+    } catch {
+      // A line cut short by a crash; skip it
+    }
+  }
+  return events;
+}
+
+export async function readHistoryEvents(): Promise<HistoryEvent[]> {
+  return readEventsFrom(getHistoryFile());
+}
+
+export async function readHistory(): Promise<HistorySession[]> {
+  return foldHistory(await readHistoryEvents());
+}
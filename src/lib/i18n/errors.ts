@@ -0,0 +1,17 @@
+import { DIDApiError } from '@/lib/didClient';
+import type { MessageKey } from './index';
+
+// Turns a D-ID failure into something the user can act on; null means show error.message
+export const describeError = (error: Error): MessageKey | null => {
+  if (!(error instanceof DIDApiError)) return null;
+  if (error.isNetworkError) return 'error.network';
+  // This app's own sign-in and quotas, answered by the proxy before D-ID is called
+  if (error.code === 'auth_required') return 'error.signInRequired';
+  if (error.quota) return `error.quota.${error.quota.scope}.${error.quota.kind}`;
+  if (error.status === 401 || error.status === 403) return 'error.unauthorized';
+  if (error.status === 402) return 'error.noCredits';
+  if (error.status === 404) return 'error.notFound';
+  if (error.status === 429) return 'error.rateLimited';
+  if (error.status >= 500) return 'error.serverError';
+  return null;
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { matchAcceptLanguage, resolveLocale, translate } from './index';
+
+describe('resolveLocale', () => {
+  it('prefers a valid cookie over Accept-Language', () => {
+    expect(resolveLocale('tr', 'en-US,en;q=0.9')).toBe('tr');
+    expect(resolveLocale('de', 'tr-TR,tr;q=0.9')).toBe('tr');
+  });
+
+  it('falls back to English', () => {
+    expect(resolveLocale(undefined, 'de-DE,fr;q=0.8')).toBe('en');
+    expect(resolveLocale(undefined, null)).toBe('en');
+  });
+});
+
+describe('matchAcceptLanguage', () => {
+  it('ranks languages by q-value and ignores q=0', () => {
+    expect(matchAcceptLanguage('en;q=0.5, tr-TR;q=0.8')).toBe('tr');
+    expect(matchAcceptLanguage('tr;q=0, en;q=0.1')).toBe('en');
+  });
+});
+
+describe('translate', () => {
+  it('fills in placeholders', () => {
+    expect(translate('en', 'status.reconnectingAttempt', { attempt: 2, maxAttempts: 5 })).toBe('Reconnecting 2/5…');
+    expect(translate('tr', 'disconnected.title', { name: 'Ada' })).toBe('Ada bağlantısı kesildi');
+  });
+});
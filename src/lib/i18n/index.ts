@@ -0,0 +1,57 @@
+// Locales, detection and message lookup shared by the server and the browser
+
+import { en, type MessageKey, type Messages } from './messages/en';
+import { tr } from './messages/tr';
+
+export type { MessageKey, Messages };
+
+export const LOCALES = ['en', 'tr'] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Set by the language switcher; wins over Accept-Language
+export const LOCALE_COOKIE = 'locale';
+
+// Shown in the switcher in their own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  tr: 'Türkçe'
+};
+
+const catalogs: Record<Locale, Messages> = { en, tr };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// Picks the best supported locale from an Accept-Language header, honouring q-values
+export function matchAcceptLanguage(header: string | null | undefined): Locale | null {
+  if (!header) return null;
+  const ranked = header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find((p) => p.trim().startsWith('q='));
+      return { tag: tag.toLowerCase(), q: q ? Number(q.trim().slice(2)) : 1 };
+    })
+    .filter(({ tag, q }) => tag && Number.isFinite(q) && q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of ranked) {
+    const language = tag.split('-')[0];
+    if (isLocale(language)) return language;
+  }
+  return null;
+}
+
+export function resolveLocale(cookieValue: string | null | undefined, acceptLanguage: string | null | undefined): Locale {
+  if (isLocale(cookieValue)) return cookieValue;
+  return matchAcceptLanguage(acceptLanguage) ?? DEFAULT_LOCALE;
+}
+
+export type TranslateParams = Record<string, string | number>;
+
+export function translate(locale: Locale, key: MessageKey, params?: TranslateParams): string {
+  const message = catalogs[locale][key] ?? en[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
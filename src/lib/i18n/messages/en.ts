@@ -0,0 +1,351 @@
+// English UI strings; the reference catalog every other locale must match.
+// `{name}` placeholders are filled in by translate().
+
+export const en = {
+  'meta.title': 'D-ID Agents 2.0 API Demo',
+  'meta.description': 'D-ID Agents 2.0 API Demo with WebRTC streaming',
+
+  'header.title': 'Agents 2.0 API Demo',
+  'header.logoAlt': 'D-ID Logo',
+  'locale.label': 'Language',
+
+  'start.title': 'Connect to your D-ID Agent',
+  'start.subtitle': 'Click the button below to start talking',
+  'start.button': 'Start',
+  'start.checkSetup': 'Check my setup first',
+  'start.hideCheck': 'Hide the setup check',
+
+  'agent.defaultName': 'Your Agent',
+  'agent.select': 'Select Agent',
+  'agent.loading': 'Loading agents…',
+
+  'session.disconnect': 'Disconnect',
+  'session.disconnectTitle': 'End the WebRTC Session',
+
+  'status.connecting': 'Connecting…',
+  'status.connected': 'Connected',
+  'status.reconnecting': 'Reconnecting…',
+  'status.reconnectingAttempt': 'Reconnecting {attempt}/{maxAttempts}…',
+  'status.failed': 'Connection failed',
+  'status.disconnected': 'Disconnected',
+  'status.idleTimeout': 'Session ended due to inactivity',
+
+  'playback.stream': 'Live stream',
+  'playback.clip': 'Clip mode',
+  'playback.forced': 'Clip mode was switched on in the options',
+  'playback.iceFailed': 'WebRTC could not connect on this network, so answers are rendered as video clips',
+  'playback.iceTimeout': 'WebRTC took too long to connect, so answers are rendered as video clips',
+  'playback.rendering': 'Rendering clip…',
+
+  'error.dismiss': 'Dismiss',
+  'error.network': 'Network error: could not reach the server.',
+  'error.unauthorized': 'The D-ID API key was rejected.',
+  'error.noCredits': 'The D-ID account is out of credits.',
+  'error.notFound': 'Agent not found.',
+  'error.rateLimited': 'Too many requests to D-ID, please wait a moment.',
+  'error.serverError': 'D-ID is having trouble right now, please try again.',
+  'error.signInRequired': 'Your sign-in has expired. Reload the page to sign in again.',
+  'error.quota.user.streams': "You've started as many sessions as you can today. The limit resets at midnight UTC.",
+  'error.quota.user.concurrent': 'You already have the maximum number of sessions open. Disconnect one and try again.',
+  'error.quota.user.characters': "You've used today's speech allowance. The limit resets at midnight UTC.",
+  'error.quota.global.streams': 'This demo has reached its session limit for today. Please try again tomorrow.',
+  'error.quota.global.concurrent': 'Too many people are using the demo right now. Please try again in a few minutes.',
+  'error.quota.global.characters': "This demo has used today's speech allowance. Please try again tomorrow.",
+
+  'mode.chat': 'Chat',
+  'mode.chatTitle': 'The agent answers your message',
+  'mode.speak': 'Speak text',
+  'mode.speakTitle': 'The agent repeats your text',
+
+  'options.bargeIn': 'Barge-in',
+  'options.bargeInTitle': 'Interrupt the agent when you start speaking',
+  'options.diagnostics': 'Diagnostics',
+  'options.diagnosticsTitle': 'Show live stream quality metrics on the video',
+  'options.forceClips': 'Clip mode',
+  'options.forceClipsTitle': 'Render answers as video clips instead of streaming them (applies from the next connect)',
+
+  'utterance.queued': 'Queued',
+  'utterance.sent': 'Sent',
+  'utterance.speaking': 'Speaking',
+  'utterance.done': 'Done',
+  'utterance.failed': 'Failed',
+  'utterance.moveUp': 'Move up',
+  'utterance.moveDown': 'Move down',
+  'utterance.cancel': 'Cancel',
+
+  'captions.toggle': 'Captions',
+  'captions.toggleTitle': 'Show what the agent says as text over the video',
+  'captions.size': 'Caption size',
+  'captions.small': 'Small',
+  'captions.medium': 'Medium',
+  'captions.large': 'Large',
+  'captions.downloadTitle': 'Download everything said so far as subtitles',
+  'captions.downloadVtt': 'Transcript (.vtt)',
+  'captions.downloadSrt': 'Transcript (.srt)',
+
+  'speech.language': 'Speech recognition language',
+  'speech.handsFree': 'Hands-free',
+  'speech.handsFreeTitle': 'Send what you said automatically when you pause',
+  'speech.silenceTitle': 'Pause length that sends the message',
+  'speech.silenceBefore': 'after',
+  'speech.silenceAfter': 's of silence',
+  'speech.toggle': 'Speech to Text',
+  'speech.startListening': 'Start speaking',
+  'speech.stopListening': 'Stop listening',
+  'speech.unsupported': 'Speech recognition is not supported in this browser.',
+  'speech.permissionDenied': 'Microphone access was denied.',
+
+  'input.chatPlaceholder': 'Ask the agent something.',
+  'input.speakPlaceholder': 'Write something to speak.',
+  'input.send': 'Send Message',
+  'input.stop': 'Stop Speaking',
+
+  'compose.label': 'Script type',
+  'compose.text': 'Text',
+  'compose.ssml': 'SSML',
+  'compose.audio': 'Audio',
+  'compose.ssmlPlaceholder': 'Write SSML, e.g. Hello <break time="500ms"/> there.',
+  'compose.audioPlaceholder': 'Paste an audio URL or upload a file.',
+  'compose.upload': 'Upload audio',
+  'compose.uploading': 'Uploading…',
+  'compose.uploadFailed': 'Upload failed: {message}',
+
+  'voice.provider': 'Voice provider',
+  'voice.id': 'Voice id for this message',
+  'voice.idPlaceholder': 'Voice id (agent voice)',
+  'voice.style': 'Speaking style (Microsoft voices)',
+  'voice.stylePlaceholder': 'Style, e.g. cheerful',
+
+  'ssml.empty': 'The SSML has nothing to say.',
+  'ssml.malformed': 'The SSML is not well-formed: {detail}',
+  'ssml.unsupportedTag': 'Unsupported SSML tag <{detail}>.',
+
+  'recording.start': '● Record',
+  'recording.stop': '■ Stop recording',
+  'recording.toggleTitle': 'Record the agent video and the conversation',
+  'recording.includeMic': 'Include mic',
+  'recording.includeMicTitle': 'Mix your microphone into the recording',
+  'recording.unsupported': 'Recording is not supported in this browser.',
+  'recording.micDenied': 'Microphone access was denied; recording the agent only.',
+  'recording.failed': 'Recording failed.',
+  'recording.listTitle': 'Recordings',
+  'recording.delete': 'Delete recording',
+  'recording.subtitles': 'Transcript',
+  'recording.downloadVideo': 'Download video (WebM)',
+  'recording.downloadPart': 'Download part {index} (WebM)',
+  'recording.downloadTranscript': 'Transcript (JSON)',
+  'recording.downloadSubtitles': 'Subtitles (WebVTT)',
+
+  'panel.title': 'Agent panel',
+  'panel.addAgent': 'Add',
+  'panel.addAgentTitle': 'Open another session next to the others',
+  'panel.empty': 'Add two or more agents to talk to them side by side.',
+  'panel.connect': 'Connect',
+  'panel.connectAll': 'Connect all',
+  'panel.disconnectAll': 'Disconnect all',
+  'panel.remove': 'Remove',
+  'panel.removeTitle': 'End this session and remove it from the panel',
+  'panel.target': 'Send to',
+  'panel.targetAll': 'All agents',
+  'panel.speaking': 'Speaking',
+  'panel.singleLink': 'Single agent view',
+
+  'history.title': 'Conversation history',
+  'history.backLink': 'Back to the demo',
+  'history.search': 'Search',
+  'history.searchPlaceholder': 'Agent, stream id or anything that was said',
+  'history.exportJson': 'Export JSON',
+  'history.exportCsv': 'Export CSV',
+  'history.loading': 'Loading history…',
+  'history.loadFailed': 'Could not load the history.',
+  'history.disabled': 'History is turned off on this server (HISTORY_ENABLED=0).',
+  'history.adminOnly': 'Only admins can read the conversation history (ADMIN_USERS).',
+  'history.empty': 'No sessions recorded yet.',
+  'history.noMatches': 'No sessions match your search.',
+  'history.inProgress': 'In progress',
+  'history.duration': 'Duration',
+  'history.reconnects': 'Reconnects: {count}',
+  'history.messages': 'Messages: {count}',
+  'history.streams': 'Streams',
+  'history.failureReason': 'Reason: {reason}',
+  'history.noMessages': 'Nothing was said in this session.',
+  'history.spoken': 'Spoken {start}–{end}',
+  'history.outcome.disconnected': 'Disconnected',
+  'history.outcome.idleTimeout': 'Timed out',
+  'history.outcome.failed': 'Failed',
+  'history.outcome.closed': 'Closed',
+  'history.role.user': 'User',
+  'history.role.agent': 'Agent',
+  'history.kind.speak': 'Scripted',
+
+  'auth.title': 'Sign in',
+  'auth.subtitle': 'This demo is private. Sign in to talk to the agents.',
+  'auth.username': 'User name',
+  'auth.password': 'Password',
+  'auth.or': 'or',
+  'auth.accessCode': 'Access code',
+  'auth.signIn': 'Sign in',
+  'auth.signingIn': 'Signing in…',
+  'auth.signOut': 'Sign out',
+  'auth.invalid': 'Those credentials are not valid.',
+  'auth.failed': 'Could not sign in. Please try again.',
+
+  'usage.streams': 'Sessions today: {used}/{limit}',
+  'usage.concurrent': 'Open: {used}/{limit}',
+  'usage.characters': 'Characters today: {used}/{limit}',
+  'usage.resets': 'Daily limits reset at {time}',
+
+  'settings.title': 'Stream settings',
+  'settings.backLink': 'Back to the demo',
+  'settings.description': 'Defaults for every new stream. Pages can override them; changes apply from the next connection.',
+  'settings.readOnly': 'Only admins can change these settings (ADMIN_USERS).',
+  'settings.fluent': 'Fluent streaming',
+  'settings.fluentHint': 'Keeps the stream running between answers. Off shows the idle video while the agent is silent.',
+  'settings.compatibility': 'Compatibility mode',
+  'settings.compatibility.on': 'On (VP8, widest browser support)',
+  'settings.compatibility.off': 'Off (H.264)',
+  'settings.compatibility.auto': 'Auto (D-ID decides)',
+  'settings.resolution': 'Output resolution (px)',
+  'settings.resolutionHint': '{min}–{max}; leave empty for D-ID’s default.',
+  'settings.warmup': 'Stream warmup',
+  'settings.warmupHint': 'Starts the stream with a short silent clip so the first answer plays sooner.',
+  'settings.sessionTimeout': 'Session timeout (seconds)',
+  'settings.sessionTimeoutHint': '{min}–{max}; how long D-ID keeps an unused stream open. Leave empty for D-ID’s default.',
+  'settings.didDefault': 'D-ID default',
+  'settings.invalid': 'Some values are out of range.',
+  'settings.save': 'Save',
+  'settings.saving': 'Saving…',
+  'settings.saved': 'Settings saved.',
+  'settings.saveFailed': 'Could not save the settings.',
+  'settings.reset': 'Reset to defaults',
+
+  'preflight.title': 'Pre-flight check',
+  'preflight.intro': 'Checks whether this browser and network can stream an agent. Copy the report into a support ticket if something fails.',
+  'preflight.quotaNote': 'Testing ICE opens a stream and closes it straight away; it counts toward today’s stream quota.',
+  'preflight.backLink': 'Back to the demo',
+  'preflight.fullPage': 'Open the full check',
+  'preflight.run': 'Run checks',
+  'preflight.rerun': 'Run again',
+  'preflight.running': 'Checking…',
+  'preflight.copy': 'Copy report',
+  'preflight.copied': 'Report copied.',
+  'preflight.copyFailed': 'Could not copy; select the report below instead.',
+  'preflight.report': 'Report',
+  'preflight.overall.pass': 'Everything looks good.',
+  'preflight.overall.warn': 'The agent should work, with the limits below.',
+  'preflight.overall.fail': 'The agent will probably not work here.',
+  'preflight.status.pass': 'Pass',
+  'preflight.status.warn': 'Warning',
+  'preflight.status.fail': 'Fail',
+  'preflight.check.webrtc': 'WebRTC',
+  'preflight.check.iceHost': 'Local network (host)',
+  'preflight.check.iceSrflx': 'STUN (srflx)',
+  'preflight.check.iceRelay': 'TURN relay (relay)',
+  'preflight.check.microphone': 'Microphone',
+  'preflight.check.speechRecognition': 'Speech recognition',
+  'preflight.check.autoplay': 'Autoplay with sound',
+  'preflight.check.config': 'Server config',
+  'preflight.check.proxy': 'D-ID proxy',
+  'preflight.result.webrtcAvailable': 'RTCPeerConnection is available.',
+  'preflight.result.webrtcMissing': 'This browser has no RTCPeerConnection, so the agent can only play clips.',
+  'preflight.result.iceSkipped': 'Skipped because WebRTC is missing.',
+  'preflight.result.iceServersUnavailable': 'The agent’s ICE servers could not be loaded, so this was not tested.',
+  'preflight.result.hostFound': 'Local candidates were gathered.',
+  'preflight.result.hostMissing': 'No local candidates; WebRTC may be disabled by a policy or extension.',
+  'preflight.result.srflxFound': 'The STUN server answered.',
+  'preflight.result.srflxMissing': 'The STUN server did not answer; UDP is probably blocked.',
+  'preflight.result.relayFound': 'A TURN relay was allocated.',
+  'preflight.result.relayMissing': 'No TURN relay could be allocated.',
+  'preflight.result.relayNotOffered': 'The agent’s ICE servers include no TURN server.',
+  'preflight.result.micGranted': 'Microphone access is allowed.',
+  'preflight.result.micPrompt': 'The browser will ask for the microphone the first time you speak.',
+  'preflight.result.micDenied': 'Microphone access is blocked; allow it in the site settings to speak to the agent.',
+  'preflight.result.micUnknown': 'This browser does not say whether the microphone is allowed.',
+  'preflight.result.micMissing': 'This browser has no microphone support.',
+  'preflight.result.webSpeech': 'The browser’s speech recognition is available.',
+  'preflight.result.serverSpeech': 'The browser has no speech recognition; speech is transcribed on the server instead.',
+  'preflight.result.noSpeech': 'Speech input is not available in this browser.',
+  'preflight.result.autoplayAllowed': 'Video can play with sound without a click.',
+  'preflight.result.autoplayMuted': 'Only muted video may autoplay; the Start button unlocks sound.',
+  'preflight.result.autoplayBlocked': 'Sound needs a click first; the Start button takes care of it.',
+  'preflight.result.configOk': '/api/config answered.',
+  'preflight.result.configFailed': '/api/config could not be loaded.',
+  'preflight.result.proxyOk': 'The agent was loaded through the proxy.',
+  'preflight.result.proxyFailed': 'The agent could not be loaded through the proxy.',
+  'preflight.result.proxySkipped': 'No agent is selected, so the proxy was not tested.',
+
+  'presentation.title': 'Presentation mode',
+  'presentation.select': 'Presentation script',
+  'presentation.none': 'No presentation',
+  'presentation.empty': 'No presentations saved yet',
+  'presentation.start': 'Start presentation',
+  'presentation.restart': 'Play again',
+  'presentation.pause': 'Pause',
+  'presentation.resume': 'Resume',
+  'presentation.backToScript': 'Back to the script',
+  'presentation.skip': 'Skip line',
+  'presentation.stop': 'Stop',
+  'presentation.live': 'Go live on interaction',
+  'presentation.liveTitle': 'Pause the script when someone types or talks, and return to the attract loop once they stop',
+  'presentation.edit': 'Edit scripts',
+  'presentation.loading': 'Loading script…',
+  'presentation.loadFailed': 'Could not load this script. Check it on the editor page.',
+  'presentation.status.stopped': 'Ready',
+  'presentation.status.playing': 'Playing',
+  'presentation.status.paused': 'Paused',
+  'presentation.status.live': 'Live: someone is interacting',
+  'presentation.status.finished': 'Finished',
+  'presentation.issue.syntax': 'The file could not be read.',
+  'presentation.issue.invalidScript': 'This setting is not valid.',
+  'presentation.issue.noSteps': 'The script needs a list of steps.',
+  'presentation.issue.invalidStep': 'This step is not valid.',
+  'presentation.issue.invalidNumber': 'This number is out of range.',
+  'presentation.issue.duplicateLabel': 'This label is used more than once.',
+  'presentation.issue.unknownLabel': 'No step has this label.',
+
+  'presentations.title': 'Presentation scripts',
+  'presentations.backLink': 'Back to the demo',
+  'presentations.description': 'Scripts the agent plays on its own: lines, waits, loops and random branches. Pick one under the video, or open /?presentation=<id> to start it automatically.',
+  'presentations.readOnly': 'Only admins can change these scripts (ADMIN_USERS).',
+  'presentations.list': 'Saved scripts',
+  'presentations.empty': 'No scripts saved yet.',
+  'presentations.new': 'New script',
+  'presentations.format': 'Format',
+  'presentations.source': 'Script',
+  'presentations.sourceHint': 'Steps: say (with optional pause and ssml), wait (seconds), goto (with optional times), branch (labels). Any step can have a label; attract sets where to go when nobody is interacting.',
+  'presentations.preview': 'Steps',
+  'presentations.step.wait': 'Wait {seconds} s',
+  'presentations.step.goto': 'Go to {label}',
+  'presentations.step.loop': 'Go to {label} ({times}×)',
+  'presentations.step.branch': 'Pick one: {labels}',
+  'presentations.save': 'Save',
+  'presentations.saving': 'Saving…',
+  'presentations.saved': 'Script saved.',
+  'presentations.saveFailed': 'Could not save the script.',
+  'presentations.loadFailed': 'Could not load the script.',
+  'presentations.delete': 'Delete',
+  'presentations.confirmDelete': 'Delete “{name}”?',
+  'presentations.play': 'Play on the demo page',
+
+  'disconnected.title': '{name} Disconnected',
+  'disconnected.question': 'Want to continue where we left off?',
+  'disconnected.button': "Let's continue",
+  'disconnected.buttonTitle': 'Connect to a new WebRTC Session',
+
+  'stats.label': 'Stream diagnostics',
+  'stats.noVideo': 'No video',
+  'stats.freezes': 'Freezes',
+  'stats.ice': 'ICE',
+  'stats.iceTitle': 'Selected ICE candidate pair (local → remote)',
+  'stats.videoBitrate': 'Video kbps',
+  'stats.audioBitrate': 'Audio kbps',
+  'stats.fps': 'FPS',
+  'stats.videoJitter': 'Video jitter ms',
+  'stats.videoLoss': 'Video loss %',
+  'stats.audioJitter': 'Audio jitter ms',
+  'stats.audioLoss': 'Audio loss %',
+  'stats.rtt': 'RTT ms'
+} as const;
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,347 @@
+import type { Messages } from './en';
+
+export const tr: Messages = {
+  'meta.title': 'D-ID Agents 2.0 API Demosu',
+  'meta.description': 'WebRTC yayınlı D-ID Agents 2.0 API demosu',
+
+  'header.title': 'Agents 2.0 API Demosu',
+  'header.logoAlt': 'D-ID Logosu',
+  'locale.label': 'Dil',
+
+  'start.title': "D-ID Agent'a Bağlan",
+  'start.subtitle': 'Konuşmaya başlamak için aşağıdaki butona tıklayın',
+  'start.button': 'Başla',
+  'start.checkSetup': 'Önce kurulumumu kontrol et',
+  'start.hideCheck': 'Kurulum kontrolünü gizle',
+
+  'agent.defaultName': 'Agent',
+  'agent.select': 'Agent seçin',
+  'agent.loading': "Agent'lar yükleniyor…",
+
+  'session.disconnect': 'Bağlantıyı kes',
+  'session.disconnectTitle': 'WebRTC oturumunu sonlandır',
+
+  'status.connecting': 'Bağlanıyor…',
+  'status.connected': 'Bağlandı',
+  'status.reconnecting': 'Yeniden bağlanıyor…',
+  'status.reconnectingAttempt': 'Yeniden bağlanıyor {attempt}/{maxAttempts}…',
+  'status.failed': 'Bağlantı başarısız',
+  'status.disconnected': 'Bağlantı kesildi',
+  'status.idleTimeout': 'Hareketsizlik nedeniyle oturum sona erdi',
+
+  'playback.stream': 'Canlı yayın',
+  'playback.clip': 'Klip modu',
+  'playback.forced': 'Klip modu seçeneklerden açıldı',
+  'playback.iceFailed': 'WebRTC bu ağda bağlanamadı, bu yüzden yanıtlar video klip olarak oluşturuluyor',
+  'playback.iceTimeout': 'WebRTC bağlantısı çok uzun sürdü, bu yüzden yanıtlar video klip olarak oluşturuluyor',
+  'playback.rendering': 'Klip oluşturuluyor…',
+
+  'error.dismiss': 'Kapat',
+  'error.network': 'Ağ hatası: sunucuya ulaşılamadı.',
+  'error.unauthorized': 'D-ID API anahtarı reddedildi.',
+  'error.noCredits': 'D-ID hesabının kredisi bitti.',
+  'error.notFound': 'Agent bulunamadı.',
+  'error.rateLimited': "D-ID'ye çok fazla istek gönderildi, lütfen biraz bekleyin.",
+  'error.serverError': 'D-ID şu anda sorun yaşıyor, lütfen tekrar deneyin.',
+  'error.signInRequired': 'Oturumunuzun süresi doldu. Tekrar giriş yapmak için sayfayı yenileyin.',
+  'error.quota.user.streams': 'Bugün başlatabileceğiniz oturum sınırına ulaştınız. Sınır UTC gece yarısı sıfırlanır.',
+  'error.quota.user.concurrent': 'Açık oturum sınırına ulaştınız. Birini kapatıp tekrar deneyin.',
+  'error.quota.user.characters': 'Bugünkü konuşma hakkınızı kullandınız. Sınır UTC gece yarısı sıfırlanır.',
+  'error.quota.global.streams': 'Bu demo bugünkü oturum sınırına ulaştı. Lütfen yarın tekrar deneyin.',
+  'error.quota.global.concurrent': 'Şu anda demoyu çok fazla kişi kullanıyor. Lütfen birkaç dakika sonra tekrar deneyin.',
+  'error.quota.global.characters': 'Bu demo bugünkü konuşma hakkını kullandı. Lütfen yarın tekrar deneyin.',
+
+  'mode.chat': 'Sohbet',
+  'mode.chatTitle': 'Agent mesajınızı yanıtlar',
+  'mode.speak': 'Metni seslendir',
+  'mode.speakTitle': 'Agent metninizi aynen tekrarlar',
+
+  'options.bargeIn': 'Söz kesme',
+  'options.bargeInTitle': "Konuşmaya başladığınızda Agent'ı durdur",
+  'options.diagnostics': 'Tanılama',
+  'options.diagnosticsTitle': 'Canlı yayın kalite ölçümlerini videonun üzerinde göster',
+  'options.forceClips': 'Klip modu',
+  'options.forceClipsTitle': 'Yanıtları yayınlamak yerine video klip olarak oluştur (sonraki bağlantıdan itibaren geçerli)',
+
+  'utterance.queued': 'Sırada',
+  'utterance.sent': 'Gönderildi',
+  'utterance.speaking': 'Konuşuyor',
+  'utterance.done': 'Tamamlandı',
+  'utterance.failed': 'Başarısız',
+  'utterance.moveUp': 'Yukarı taşı',
+  'utterance.moveDown': 'Aşağı taşı',
+  'utterance.cancel': 'İptal',
+
+  'captions.toggle': 'Altyazı',
+  'captions.toggleTitle': "Agent'ın söylediklerini videonun üzerinde metin olarak göster",
+  'captions.size': 'Altyazı boyutu',
+  'captions.small': 'Küçük',
+  'captions.medium': 'Orta',
+  'captions.large': 'Büyük',
+  'captions.downloadTitle': 'Şimdiye kadar söylenenlerin tümünü altyazı olarak indir',
+  'captions.downloadVtt': 'Döküm (.vtt)',
+  'captions.downloadSrt': 'Döküm (.srt)',
+
+  'speech.language': 'Konuşma tanıma dili',
+  'speech.handsFree': 'Eller serbest',
+  'speech.handsFreeTitle': 'Duraksadığınızda söylediklerinizi otomatik gönder',
+  'speech.silenceTitle': 'Mesajı gönderen duraksama süresi',
+  'speech.silenceBefore': '',
+  'speech.silenceAfter': 'sn sessizlikten sonra',
+  'speech.toggle': 'Konuşmayı metne çevir',
+  'speech.startListening': 'Konuşmaya başla',
+  'speech.stopListening': 'Dinlemeyi durdur',
+  'speech.unsupported': 'Bu tarayıcı konuşma tanımayı desteklemiyor.',
+  'speech.permissionDenied': 'Mikrofon erişimi reddedildi.',
+
+  'input.chatPlaceholder': "Agent'a bir şey sorun.",
+  'input.speakPlaceholder': 'Seslendirilecek bir şey yazın.',
+  'input.send': 'Mesaj gönder',
+  'input.stop': 'Konuşmayı durdur',
+
+  'compose.label': 'Metin türü',
+  'compose.text': 'Metin',
+  'compose.ssml': 'SSML',
+  'compose.audio': 'Ses',
+  'compose.ssmlPlaceholder': 'SSML yazın, örn. Merhaba <break time="500ms"/> dünya.',
+  'compose.audioPlaceholder': "Bir ses URL'si yapıştırın veya dosya yükleyin.",
+  'compose.upload': 'Ses yükle',
+  'compose.uploading': 'Yükleniyor…',
+  'compose.uploadFailed': 'Yükleme başarısız: {message}',
+
+  'voice.provider': 'Ses sağlayıcısı',
+  'voice.id': 'Bu mesaj için ses kimliği',
+  'voice.idPlaceholder': "Ses kimliği (Agent'ın sesi)",
+  'voice.style': 'Konuşma stili (Microsoft sesleri)',
+  'voice.stylePlaceholder': 'Stil, örn. cheerful',
+
+  'ssml.empty': 'SSML seslendirilecek bir şey içermiyor.',
+  'ssml.malformed': 'SSML geçerli değil: {detail}',
+  'ssml.unsupportedTag': 'Desteklenmeyen SSML etiketi <{detail}>.',
+
+  'recording.start': '● Kaydet',
+  'recording.stop': '■ Kaydı durdur',
+  'recording.toggleTitle': 'Agent videosunu ve konuşmayı kaydet',
+  'recording.includeMic': 'Mikrofonu ekle',
+  'recording.includeMicTitle': 'Mikrofonunuzu kayda karıştır',
+  'recording.unsupported': 'Bu tarayıcı kaydı desteklemiyor.',
+  'recording.micDenied': "Mikrofon erişimi reddedildi; yalnızca Agent kaydediliyor.",
+  'recording.failed': 'Kayıt başarısız oldu.',
+  'recording.listTitle': 'Kayıtlar',
+  'recording.delete': 'Kaydı sil',
+  'recording.subtitles': 'Döküm',
+  'recording.downloadVideo': 'Videoyu indir (WebM)',
+  'recording.downloadPart': '{index}. bölümü indir (WebM)',
+  'recording.downloadTranscript': 'Döküm (JSON)',
+  'recording.downloadSubtitles': 'Altyazı (WebVTT)',
+
+  'panel.title': 'Ajan paneli',
+  'panel.addAgent': 'Ekle',
+  'panel.addAgentTitle': 'Diğerlerinin yanında yeni bir oturum aç',
+  'panel.empty': 'Yan yana konuşmak için iki veya daha fazla ajan ekleyin.',
+  'panel.connect': 'Bağlan',
+  'panel.connectAll': 'Hepsini bağla',
+  'panel.disconnectAll': 'Hepsinin bağlantısını kes',
+  'panel.remove': 'Kaldır',
+  'panel.removeTitle': 'Bu oturumu sonlandır ve panelden kaldır',
+  'panel.target': 'Alıcı',
+  'panel.targetAll': 'Tüm ajanlar',
+  'panel.speaking': 'Konuşuyor',
+  'panel.singleLink': 'Tek ajan görünümü',
+
+  'history.title': 'Konuşma geçmişi',
+  'history.backLink': 'Demoya dön',
+  'history.search': 'Ara',
+  'history.searchPlaceholder': 'Ajan, yayın kimliği veya söylenen herhangi bir şey',
+  'history.exportJson': 'JSON olarak dışa aktar',
+  'history.exportCsv': 'CSV olarak dışa aktar',
+  'history.loading': 'Geçmiş yükleniyor…',
+  'history.loadFailed': 'Geçmiş yüklenemedi.',
+  'history.disabled': 'Bu sunucuda geçmiş kaydı kapalı (HISTORY_ENABLED=0).',
+  'history.adminOnly': 'Konuşma geçmişini yalnızca yöneticiler okuyabilir (ADMIN_USERS).',
+  'history.empty': 'Henüz kaydedilmiş oturum yok.',
+  'history.noMatches': 'Aramanızla eşleşen oturum yok.',
+  'history.inProgress': 'Devam ediyor',
+  'history.duration': 'Süre',
+  'history.reconnects': 'Yeniden bağlanma: {count}',
+  'history.messages': 'Mesaj: {count}',
+  'history.streams': 'Yayınlar',
+  'history.failureReason': 'Neden: {reason}',
+  'history.noMessages': 'Bu oturumda hiçbir şey söylenmedi.',
+  'history.spoken': 'Seslendirme {start}–{end}',
+  'history.outcome.disconnected': 'Bağlantı kesildi',
+  'history.outcome.idleTimeout': 'Zaman aşımı',
+  'history.outcome.failed': 'Başarısız',
+  'history.outcome.closed': 'Kapatıldı',
+  'history.role.user': 'Kullanıcı',
+  'history.role.agent': 'Ajan',
+  'history.kind.speak': 'Metin',
+
+  'auth.title': 'Giriş yap',
+  'auth.subtitle': 'Bu demo özeldir. Ajanlarla konuşmak için giriş yapın.',
+  'auth.username': 'Kullanıcı adı',
+  'auth.password': 'Parola',
+  'auth.or': 'veya',
+  'auth.accessCode': 'Erişim kodu',
+  'auth.signIn': 'Giriş yap',
+  'auth.signingIn': 'Giriş yapılıyor…',
+  'auth.signOut': 'Çıkış yap',
+  'auth.invalid': 'Bu bilgiler geçerli değil.',
+  'auth.failed': 'Giriş yapılamadı. Lütfen tekrar deneyin.',
+
+  'usage.streams': 'Bugünkü oturumlar: {used}/{limit}',
+  'usage.concurrent': 'Açık: {used}/{limit}',
+  'usage.characters': 'Bugünkü karakterler: {used}/{limit}',
+  'usage.resets': 'Günlük sınırlar {time} itibarıyla sıfırlanır',
+
+  'settings.title': 'Akış ayarları',
+  'settings.backLink': 'Demoya dön',
+  'settings.description': 'Her yeni akış için varsayılanlar. Sayfalar bunları geçersiz kılabilir; değişiklikler bir sonraki bağlantıdan itibaren geçerlidir.',
+  'settings.readOnly': 'Bu ayarları yalnızca yöneticiler değiştirebilir (ADMIN_USERS).',
+  'settings.fluent': 'Akıcı yayın',
+  'settings.fluentHint': 'Yanıtlar arasında akışı açık tutar. Kapalıyken ajan sessizken bekleme videosu gösterilir.',
+  'settings.compatibility': 'Uyumluluk modu',
+  'settings.compatibility.on': 'Açık (VP8, en geniş tarayıcı desteği)',
+  'settings.compatibility.off': 'Kapalı (H.264)',
+  'settings.compatibility.auto': 'Otomatik (D-ID karar verir)',
+  'settings.resolution': 'Çıkış çözünürlüğü (px)',
+  'settings.resolutionHint': '{min}–{max}; D-ID varsayılanı için boş bırakın.',
+  'settings.warmup': 'Akış ısınması',
+  'settings.warmupHint': 'İlk yanıtın daha hızlı başlaması için akışı kısa, sessiz bir klip ile başlatır.',
+  'settings.sessionTimeout': 'Oturum zaman aşımı (saniye)',
+  'settings.sessionTimeoutHint': "{min}–{max}; D-ID'nin kullanılmayan bir akışı ne kadar açık tutacağı. D-ID varsayılanı için boş bırakın.",
+  'settings.didDefault': 'D-ID varsayılanı',
+  'settings.invalid': 'Bazı değerler aralık dışında.',
+  'settings.save': 'Kaydet',
+  'settings.saving': 'Kaydediliyor…',
+  'settings.saved': 'Ayarlar kaydedildi.',
+  'settings.saveFailed': 'Ayarlar kaydedilemedi.',
+  'settings.reset': 'Varsayılanlara dön',
+
+  'preflight.title': 'Ön kontrol',
+  'preflight.intro': "Bu tarayıcının ve ağın bir Agent'ı yayınlayıp yayınlayamayacağını kontrol eder. Bir şey başarısız olursa raporu destek talebine kopyalayın.",
+  'preflight.quotaNote': 'ICE testi bir yayın açıp hemen kapatır; bugünkü yayın kotasına sayılır.',
+  'preflight.backLink': 'Demoya dön',
+  'preflight.fullPage': 'Tam kontrolü aç',
+  'preflight.run': 'Kontrolleri çalıştır',
+  'preflight.rerun': 'Yeniden çalıştır',
+  'preflight.running': 'Kontrol ediliyor…',
+  'preflight.copy': 'Raporu kopyala',
+  'preflight.copied': 'Rapor kopyalandı.',
+  'preflight.copyFailed': 'Kopyalanamadı; bunun yerine aşağıdaki raporu seçin.',
+  'preflight.report': 'Rapor',
+  'preflight.overall.pass': 'Her şey yolunda görünüyor.',
+  'preflight.overall.warn': "Agent aşağıdaki kısıtlarla çalışmalı.",
+  'preflight.overall.fail': "Agent burada büyük olasılıkla çalışmayacak.",
+  'preflight.status.pass': 'Başarılı',
+  'preflight.status.warn': 'Uyarı',
+  'preflight.status.fail': 'Başarısız',
+  'preflight.check.webrtc': 'WebRTC',
+  'preflight.check.iceHost': 'Yerel ağ (host)',
+  'preflight.check.iceSrflx': 'STUN (srflx)',
+  'preflight.check.iceRelay': 'TURN aktarımı (relay)',
+  'preflight.check.microphone': 'Mikrofon',
+  'preflight.check.speechRecognition': 'Konuşma tanıma',
+  'preflight.check.autoplay': 'Sesli otomatik oynatma',
+  'preflight.check.config': 'Sunucu yapılandırması',
+  'preflight.check.proxy': 'D-ID proxy',
+  'preflight.result.webrtcAvailable': 'RTCPeerConnection kullanılabilir.',
+  'preflight.result.webrtcMissing': "Bu tarayıcıda RTCPeerConnection yok, bu yüzden Agent yalnızca klip oynatabilir.",
+  'preflight.result.iceSkipped': 'WebRTC olmadığı için atlandı.',
+  'preflight.result.iceServersUnavailable': "Agent'ın ICE sunucuları yüklenemedi, bu yüzden test edilmedi.",
+  'preflight.result.hostFound': 'Yerel adaylar toplandı.',
+  'preflight.result.hostMissing': 'Yerel aday yok; WebRTC bir ilke veya eklenti tarafından kapatılmış olabilir.',
+  'preflight.result.srflxFound': 'STUN sunucusu yanıt verdi.',
+  'preflight.result.srflxMissing': 'STUN sunucusu yanıt vermedi; UDP büyük olasılıkla engelli.',
+  'preflight.result.relayFound': 'Bir TURN aktarımı ayrıldı.',
+  'preflight.result.relayMissing': 'TURN aktarımı ayrılamadı.',
+  'preflight.result.relayNotOffered': "Agent'ın ICE sunucuları arasında TURN sunucusu yok.",
+  'preflight.result.micGranted': 'Mikrofon erişimine izin veriliyor.',
+  'preflight.result.micPrompt': 'Tarayıcı ilk konuştuğunuzda mikrofon izni isteyecek.',
+  'preflight.result.micDenied': "Mikrofon erişimi engelli; Agent ile konuşmak için site ayarlarından izin verin.",
+  'preflight.result.micUnknown': 'Bu tarayıcı mikrofon izninin durumunu bildirmiyor.',
+  'preflight.result.micMissing': 'Bu tarayıcı mikrofonu desteklemiyor.',
+  'preflight.result.webSpeech': 'Tarayıcının konuşma tanıması kullanılabilir.',
+  'preflight.result.serverSpeech': 'Tarayıcıda konuşma tanıma yok; konuşma bunun yerine sunucuda metne çevrilir.',
+  'preflight.result.noSpeech': 'Bu tarayıcıda sesli giriş kullanılamıyor.',
+  'preflight.result.autoplayAllowed': 'Video tıklamadan sesli oynatılabilir.',
+  'preflight.result.autoplayMuted': 'Yalnızca sessiz video otomatik oynatılabilir; Başlat düğmesi sesi açar.',
+  'preflight.result.autoplayBlocked': 'Ses için önce tıklamak gerekiyor; Başlat düğmesi bunu halleder.',
+  'preflight.result.configOk': '/api/config yanıt verdi.',
+  'preflight.result.configFailed': '/api/config yüklenemedi.',
+  'preflight.result.proxyOk': "Agent proxy üzerinden yüklendi.",
+  'preflight.result.proxyFailed': "Agent proxy üzerinden yüklenemedi.",
+  'preflight.result.proxySkipped': 'Agent seçilmediği için proxy test edilmedi.',
+
+  'presentation.title': 'Sunum modu',
+  'presentation.select': 'Sunum metni',
+  'presentation.none': 'Sunum yok',
+  'presentation.empty': 'Henüz kayıtlı sunum yok',
+  'presentation.start': 'Sunumu başlat',
+  'presentation.restart': 'Yeniden oynat',
+  'presentation.pause': 'Duraklat',
+  'presentation.resume': 'Devam et',
+  'presentation.backToScript': 'Metne dön',
+  'presentation.skip': 'Satırı atla',
+  'presentation.stop': 'Durdur',
+  'presentation.live': 'Etkileşimde canlıya geç',
+  'presentation.liveTitle': 'Biri yazdığında veya konuştuğunda metni duraklat, bıraktığında dikkat çekme döngüsüne dön',
+  'presentation.edit': 'Metinleri düzenle',
+  'presentation.loading': 'Metin yükleniyor…',
+  'presentation.loadFailed': 'Bu metin yüklenemedi. Düzenleme sayfasında kontrol edin.',
+  'presentation.status.stopped': 'Hazır',
+  'presentation.status.playing': 'Oynatılıyor',
+  'presentation.status.paused': 'Duraklatıldı',
+  'presentation.status.live': 'Canlı: biri etkileşimde',
+  'presentation.status.finished': 'Bitti',
+  'presentation.issue.syntax': 'Dosya okunamadı.',
+  'presentation.issue.invalidScript': 'Bu ayar geçerli değil.',
+  'presentation.issue.noSteps': 'Metnin bir adım listesine ihtiyacı var.',
+  'presentation.issue.invalidStep': 'Bu adım geçerli değil.',
+  'presentation.issue.invalidNumber': 'Bu sayı aralığın dışında.',
+  'presentation.issue.duplicateLabel': 'Bu etiket birden fazla kez kullanılmış.',
+  'presentation.issue.unknownLabel': 'Bu etikete sahip bir adım yok.',
+
+  'presentations.title': 'Sunum metinleri',
+  'presentations.backLink': 'Demoya dön',
+  'presentations.description': "Agent'ın kendi başına oynattığı metinler: satırlar, beklemeler, döngüler ve rastgele dallar. Videonun altından birini seçin ya da otomatik başlatmak için /?presentation=<id> adresini açın.",
+  'presentations.readOnly': 'Bu metinleri yalnızca yöneticiler değiştirebilir (ADMIN_USERS).',
+  'presentations.list': 'Kayıtlı metinler',
+  'presentations.empty': 'Henüz kayıtlı metin yok.',
+  'presentations.new': 'Yeni metin',
+  'presentations.format': 'Biçim',
+  'presentations.source': 'Metin',
+  'presentations.sourceHint': 'Adımlar: say (isteğe bağlı pause ve ssml ile), wait (saniye), goto (isteğe bağlı times ile), branch (etiketler). Her adımın bir label değeri olabilir; attract, kimse etkileşimde değilken nereye gidileceğini belirler.',
+  'presentations.preview': 'Adımlar',
+  'presentations.step.wait': '{seconds} sn bekle',
+  'presentations.step.goto': '{label} adımına git',
+  'presentations.step.loop': '{label} adımına git ({times}×)',
+  'presentations.step.branch': 'Birini seç: {labels}',
+  'presentations.save': 'Kaydet',
+  'presentations.saving': 'Kaydediliyor…',
+  'presentations.saved': 'Metin kaydedildi.',
+  'presentations.saveFailed': 'Metin kaydedilemedi.',
+  'presentations.loadFailed': 'Metin yüklenemedi.',
+  'presentations.delete': 'Sil',
+  'presentations.confirmDelete': '“{name}” silinsin mi?',
+  'presentations.play': 'Demo sayfasında oynat',
+
+  'disconnected.title': '{name} bağlantısı kesildi',
+  'disconnected.question': 'Kaldığımız yerden devam etmek ister misiniz?',
+  'disconnected.button': 'Devam edelim',
+  'disconnected.buttonTitle': 'Yeni bir WebRTC oturumuna bağlan',
+
+  'stats.label': 'Yayın tanılama',
+  'stats.noVideo': 'Video yok',
+  'stats.freezes': 'Donmalar',
+  'stats.ice': 'ICE',
+  'stats.iceTitle': 'Seçilen ICE aday çifti (yerel → uzak)',
+  'stats.videoBitrate': 'Video kbps',
+  'stats.audioBitrate': 'Ses kbps',
+  'stats.fps': 'FPS',
+  'stats.videoJitter': 'Video jitter ms',
+  'stats.videoLoss': 'Video kayıp %',
+  'stats.audioJitter': 'Ses jitter ms',
+  'stats.audioLoss': 'Ses kayıp %',
+  'stats.rtt': 'RTT ms'
+};
@@ -0,0 +1,8 @@
+import { cookies, headers } from 'next/headers';
+import { LOCALE_COOKIE, resolveLocale, type Locale } from '@/lib/i18n';
+
+// The request's locale: the switcher's cookie, else the browser's Accept-Language
+export async function getLocale(): Promise<Locale> {
+  const [cookieStore, headerList] = await Promise.all([cookies(), headers()]);
+  return resolveLocale(cookieStore.get(LOCALE_COOKIE)?.value, headerList.get('accept-language'));
+}
@@ -0,0 +1,239 @@
+// Offline stand-in for the D-ID Agents API. Used by the test suite and by
+// `MOCK_DID=1` dev mode, where the /api proxy answers from here instead of D-ID.
+
+import { clipPath, clipRequestFor, type ClipKind } from '@/lib/clips';
+import type { DIDAgent, DIDScript } from '@/lib/didClient';
+
+export interface MockFailure {
+  // Path (e.g. '/agents/agt_1/streams') or pattern the failure applies to
+  endpoint: string | RegExp;
+  method?: 'GET' | 'POST' | 'DELETE';
+  status?: number;
+  retryAfter?: number;
+  // Hang for this long, then fail like a dropped connection
+  timeoutMs?: number;
+  // How many matching requests fail before the rule is used up
+  times?: number;
+}
+
+export interface MockDIDOptions {
+  agents?: DIDAgent[];
+  // Whether created streams report fluent mode
+  fluent?: boolean;
+  chatReply?: (message: string) => string;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+export const MOCK_AGENT: DIDAgent = {
+  id: 'v2_agt_mock',
+  preview_name: 'Mock Agent',
+  presenter: {
+    thumbnail: '',
+    idle_video: '',
+    source_url: 'https://mock.d-id.local/presenter.png'
+  }
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}): MockResponse => ({
+  status,
+  body,
+  headers: { 'Content-Type': 'application/json', ...headers }
+});
+
+export class MockDIDBackend {
+  readonly requests: MockRequest[] = [];
+  private failures: MockFailure[] = [];
+  private options: Required<MockDIDOptions>;
+  private streamCount = 0;
+  private videoCount = 0;
+  private clipCount = 0;
+  // user_data of each rendered clip, returned when it's polled like D-ID does
+  private clipUserData = new Map<string, unknown>();
+
+  constructor(options: MockDIDOptions = {}) {
+    this.options = {
+      agents: options.agents ?? [MOCK_AGENT],
+      fluent: options.fluent ?? true,
+      chatReply: options.chatReply ?? ((message) => `You said: ${message}`)
+    };
+  }
+
+  configure(options: MockDIDOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  injectFailure(failure: MockFailure) {
+    this.failures.push({ times: 1, ...failure });
+  }
+
+  reset() {
+    this.requests.length = 0;
+    this.failures.length = 0;
+  }
+
+  requestsTo(method: string, endpoint: string | RegExp) {
+    return this.requests.filter((r) => r.method === method && this.matches(endpoint, r.path));
+  }
+
+  /**
+   * Answers one D-ID request. Rejects with a TypeError for injected timeouts,
+   * mirroring what fetch does when the connection drops.
+   */
+  async handle(method: string, path: string, body: unknown): Promise<MockResponse> {
+    this.requests.push({ method, path, body });
+
+    const failure = this.failures.find(
+      (f) => (f.times ?? 1) > 0 && (!f.method || f.method === method) && this.matches(f.endpoint, path)
+    );
+    if (failure) {
+      failure.times = (failure.times ?? 1) - 1;
+      if (failure.timeoutMs !== undefined) {
+        await sleep(failure.timeoutMs);
+        throw new TypeError('Mock D-ID request timed out');
+      }
+      const status = failure.status ?? 500;
+      const headers: Record<string, string> =
+        failure.retryAfter !== undefined ? { 'Retry-After': String(failure.retryAfter) } : {};
+      return json(status, { kind: 'MockFailure', description: `Injected ${status}` }, headers);
+    }
+
+    return this.route(method, path, body);
+  }
+
+  /**
+   * fetch() replacement serving /api/config and the /api proxy from this
+   * backend. The config doesn't set `mock`, so the hook uses whatever
+   * RTCPeerConnection the test installed rather than an auto-connecting fake.
+   */
+  fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url, 'http://localhost');
+    const method = (init.method ?? 'GET').toUpperCase();
+
+    if (url.pathname === '/api/config') {
+      return new Response(JSON.stringify({ url: '/api' }), { headers: { 'Content-Type': 'application/json' } });
+    }
+    if (!url.pathname.startsWith('/api/')) {
+      return new Response(null, { status: 404 });
+    }
+
+    const body = typeof init.body === 'string' && init.body ? JSON.parse(init.body) : null;
+    const path = url.pathname.slice('/api'.length);
+    const clipRoute = path.match(/^\/agents\/([^/]+)\/clips(?:\/([^/]+))?$/);
+    const response = clipRoute
+      ? await this.handleClipRoute(method, decodeURIComponent(clipRoute[1]), clipRoute[2], url.searchParams.get('kind'), body)
+      : await this.handle(method, path, body);
+    return new Response(response.body === null ? null : JSON.stringify(response.body), {
+      status: response.status,
+      headers: response.headers
+    });
+  };
+
+  // What /api/agents/[agentId]/clips does: pick clips or talks from the presenter, then call D-ID
+  private async handleClipRoute(method: string, agentId: string, clipId: string | undefined, kind: string | null, body: unknown) {
+    if (clipId) return this.handle(method, clipPath(kind as ClipKind, decodeURIComponent(clipId)), null);
+
+    const agent = this.options.agents.find((a) => a.id === agentId);
+    if (!agent) return json(404, { kind: 'NotFoundError', description: `Agent ${agentId} not found` });
+    const clip = clipRequestFor(agent, (body as { script: DIDScript }).script);
+    if (!clip) return json(422, { error: 'This agent has no presenter that can be rendered as a clip' });
+    const response = await this.handle('POST', clip.path, clip.body);
+    return response.status < 300 ? { ...response, body: { ...(response.body as object), kind: clip.kind } } : response;
+  }
+
+  private matches(endpoint: string | RegExp, path: string) {
+    return typeof endpoint === 'string' ? endpoint === path : endpoint.test(path);
+  }
+
+  private route(method: string, path: string, body: unknown): MockResponse {
+    const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+    // Clips and talks render instantly; the URL only plays in mock mode's simulated playback
+    if (segments[0] === 'clips' || segments[0] === 'talks') {
+      const prefix = segments[0] === 'clips' ? 'clp' : 'tlk';
+      if (!segments[1] && method === 'POST') {
+        this.clipCount += 1;
+        const id = `${prefix}_mock_${this.clipCount}`;
+        this.clipUserData.set(id, (body as { user_data?: unknown } | null)?.user_data);
+        return json(201, { id, status: 'created' });
+      }
+      if (segments[1] && method === 'GET') {
+        if (!this.clipUserData.has(segments[1])) return json(404, { kind: 'NotFoundError' });
+        return json(200, {
+          id: segments[1],
+          status: 'done',
+          result_url: `https://mock.d-id.local/${segments[0]}/${segments[1]}.mp4`,
+          user_data: this.clipUserData.get(segments[1])
+        });
+      }
+    }
+    if (segments[0] !== 'agents') return json(404, { kind: 'NotFoundError' });
+
+    const [, agentId, resource, resourceId, action] = segments;
+    if (!agentId) {
+      return method === 'GET' ? json(200, { agents: this.options.agents }) : json(405, {});
+    }
+
+    const agent = this.options.agents.find((a) => a.id === agentId);
+    if (!agent) return json(404, { kind: 'NotFoundError', description: `Agent ${agentId} not found` });
+
+    if (!resource && method === 'GET') return json(200, agent);
+
+    if (resource === 'streams') {
+      if (!resourceId && method === 'POST') {
+        this.streamCount += 1;
+        const requested = (body as { fluent?: boolean } | null)?.fluent;
+        return json(200, {
+          id: `strm_mock_${this.streamCount}`,
+          session_id: `sess_mock_${this.streamCount}`,
+          offer: { type: 'offer', sdp: 'v=0\r\no=- 0 0 IN IP4 127.0.0.1\r\ns=mock\r\n' },
+          ice_servers: [{ urls: ['stun:stun.l.google.com:19302'] }],
+          fluent: requested === false ? false : this.options.fluent
+        });
+      }
+      if (resourceId && !action && method === 'POST') {
+        this.videoCount += 1;
+        return json(200, { status: 'started', video_id: `vid_mock_${this.videoCount}` });
+      }
+      if (resourceId && !action && method === 'DELETE') return json(200, { status: 'deleted' });
+      if (resourceId && action === 'sdp' && method === 'POST' && (body as { offer?: unknown } | null)?.offer) {
+        return json(200, { status: 'success', answer: { type: 'answer', sdp: 'v=0\r\no=- 1 1 IN IP4 127.0.0.1\r\ns=mock-restart\r\n' } });
+      }
+      if (resourceId && (action === 'sdp' || action === 'ice') && method === 'POST') {
+        return json(200, { status: 'success' });
+      }
+    }
+
+    if (resource === 'chat' && method === 'POST') {
+      if (!resourceId) return json(201, { id: 'cht_mock_1' });
+      const messages = (body as { messages?: { role: string; content: string }[] } | null)?.messages ?? [];
+      const lastUserMessage = [...messages].reverse().find((m) => m.role === 'user');
+      return json(200, { result: this.options.chatReply(lastUserMessage?.content ?? '') });
+    }
+
+    return json(404, { kind: 'NotFoundError', description: `No mock for ${method} ${path}` });
+  }
+}
+
+export const isMockDID = () => process.env.MOCK_DID === '1';
+
+// One backend per server process; kept on globalThis so dev hot reloads share it
+const globalForMock = globalThis as typeof globalThis & { __mockDIDBackend?: MockDIDBackend };
+
+export function getMockDIDBackend() {
+  if (!globalForMock.__mockDIDBackend) {
+    globalForMock.__mockDIDBackend = new MockDIDBackend();
+  }
+  return globalForMock.__mockDIDBackend;
+}
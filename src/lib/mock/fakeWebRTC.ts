@@ -0,0 +1,292 @@
+// Scriptable stand-ins for RTCPeerConnection and RTCDataChannel. Tests drive
+// them by hand; `MOCK_DID=1` dev mode uses `autoConnect` so the UI just works.
+
+export interface FakePeerOptions {
+  // Walk through connecting → connected and deliver a track after the answer is set
+  autoConnect?: boolean;
+}
+
+class FakeMediaStreamTrack extends EventTarget {
+  readonly id = `track_${Math.random().toString(36).slice(2, 10)}`;
+  readyState: MediaStreamTrackState = 'live';
+  enabled = true;
+
+  constructor(readonly kind: 'audio' | 'video') {
+    super();
+  }
+
+  stop() {
+    this.readyState = 'ended';
+  }
+}
+
+class FakeMediaStream extends EventTarget {
+  readonly id = `stream_${Math.random().toString(36).slice(2, 10)}`;
+
+  constructor(private readonly tracks: MediaStreamTrack[]) {
+    super();
+  }
+
+  getTracks() {
+    return [...this.tracks];
+  }
+
+  getVideoTracks() {
+    return this.tracks.filter((t) => t.kind === 'video');
+  }
+
+  getAudioTracks() {
+    return this.tracks.filter((t) => t.kind === 'audio');
+  }
+}
+
+/**
+ * A remote stream for the fake peer. In a browser it's a real canvas capture
+ * so <video> elements can play it; elsewhere (jsdom) a plain object with tracks.
+ */
+export function createFakeMediaStream(): MediaStream {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    if (typeof canvas.captureStream === 'function') {
+      canvas.width = 640;
+      canvas.height = 360;
+      const context = canvas.getContext('2d');
+      let frame = 0;
+      const draw = () => {
+        if (!context) return;
+        context.fillStyle = '#2b2a28';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.fillStyle = '#ff882e';
+        context.beginPath();
+        context.arc(320, 180, 60 + 10 * Math.sin(frame++ / 8), 0, Math.PI * 2);
+        context.fill();
+        context.fillStyle = 'white';
+        context.font = '20px sans-serif';
+        context.fillText('Mock D-ID stream', 240, 320);
+      };
+      draw();
+      const timer = setInterval(draw, 1000 / 15);
+      const stream = canvas.captureStream(15);
+      stream.getVideoTracks()[0]?.addEventListener('ended', () => clearInterval(timer));
+      return stream;
+    }
+  }
+  const tracks = [new FakeMediaStreamTrack('video'), new FakeMediaStreamTrack('audio')];
+  return new FakeMediaStream(tracks as unknown as MediaStreamTrack[]) as unknown as MediaStream;
+}
+
+export class FakeRTCDataChannel extends EventTarget {
+  readyState: RTCDataChannelState = 'connecting';
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onopen: ((event: Event) => void) | null = null;
+  readonly sent: string[] = [];
+
+  constructor(readonly label: string) {
+    super();
+  }
+
+  send(data: string) {
+    if (this.readyState !== 'open') {
+      throw new Error(`FakeRTCDataChannel "${this.label}" is not open`);
+    }
+    this.sent.push(data);
+  }
+
+  open() {
+    this.readyState = 'open';
+    const event = new Event('open');
+    this.onopen?.(event);
+    this.dispatchEvent(event);
+  }
+
+  // Delivers a message as if it came from the remote peer
+  receive(data: string) {
+    const event = new MessageEvent('message', { data });
+    this.onmessage?.(event);
+    this.dispatchEvent(event);
+  }
+
+  close() {
+    this.readyState = 'closed';
+  }
+}
+
+class FakeRTCRtpReceiver {
+  private bytesReceived = 0;
+  private packetsReceived = 0;
+  flowing = false;
+
+  constructor(readonly track: MediaStreamTrack) {}
+
+  // Bytes grow only while media is "flowing", which is what the hook polls for
+  async getStats() {
+    return new Map([['inbound', this.inboundReport()]]);
+  }
+
+  inboundReport() {
+    if (this.flowing) {
+      this.bytesReceived += 1000;
+      this.packetsReceived += 10;
+    }
+    const video = this.track.kind === 'video';
+    return {
+      id: `inbound_${this.track.id}`,
+      type: 'inbound-rtp',
+      kind: this.track.kind,
+      bytesReceived: this.bytesReceived,
+      packetsReceived: this.packetsReceived,
+      packetsLost: 0,
+      jitter: 0.004,
+      ...(video && { framesPerSecond: this.flowing ? 25 : 0, frameWidth: 512, frameHeight: 512, freezeCount: 0 })
+    };
+  }
+}
+
+export class FakeRTCPeerConnection extends EventTarget {
+  // Every instance created, newest last, so tests can reach the hook's peer
+  static instances: FakeRTCPeerConnection[] = [];
+
+  static latest() {
+    return FakeRTCPeerConnection.instances[FakeRTCPeerConnection.instances.length - 1];
+  }
+
+  connectionState: RTCPeerConnectionState = 'new';
+  iceConnectionState: RTCIceConnectionState = 'new';
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  signalingState: RTCSignalingState = 'stable';
+  restartIceCalls = 0;
+  readonly dataChannels: FakeRTCDataChannel[] = [];
+  private receivers: FakeRTCRtpReceiver[] = [];
+  private readonly autoConnect: boolean;
+
+  constructor(readonly configuration: RTCConfiguration = {}, options: FakePeerOptions = {}) {
+    super();
+    this.autoConnect = options.autoConnect ?? false;
+    FakeRTCPeerConnection.instances.push(this);
+  }
+
+  createDataChannel(label: string) {
+    const channel = new FakeRTCDataChannel(label);
+    this.dataChannels.push(channel);
+    return channel;
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    this.remoteDescription = description;
+    if (description.type === 'offer') {
+      this.signalingState = 'have-remote-offer';
+      return;
+    }
+    // The answer to an ICE restart offer: the path comes back
+    this.signalingState = 'stable';
+    if (this.autoConnect) {
+      setTimeout(() => this.connectionState !== 'closed' && this.simulateConnectionState('connected'), 50);
+    }
+  }
+
+  async createAnswer(): Promise<RTCSessionDescriptionInit> {
+    return { type: 'answer', sdp: 'v=0\r\no=- 0 0 IN IP4 127.0.0.1\r\ns=fake-answer\r\n' };
+  }
+
+  async createOffer(options: RTCOfferOptions = {}): Promise<RTCSessionDescriptionInit> {
+    return { type: 'offer', sdp: `v=0\r\no=- 1 1 IN IP4 127.0.0.1\r\ns=fake-offer${options.iceRestart ? '-restart' : ''}\r\n` };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit) {
+    if (description.type === 'rollback') {
+      this.signalingState = 'stable';
+      return;
+    }
+    this.localDescription = description;
+    if (description.type === 'offer') {
+      this.signalingState = 'have-local-offer';
+      return;
+    }
+    this.signalingState = 'stable';
+    if (this.autoConnect) {
+      setTimeout(() => this.runAutoConnect(), 50);
+    }
+  }
+
+  restartIce() {
+    this.restartIceCalls += 1;
+  }
+
+  getReceivers() {
+    return this.receivers as unknown as RTCRtpReceiver[];
+  }
+
+  // A host-to-host pair plus one inbound-rtp entry per received track
+  async getStats() {
+    const entries: [string, Record<string, unknown>][] = [
+      ['transport', { id: 'transport', type: 'transport', selectedCandidatePairId: 'pair' }],
+      ['pair', { id: 'pair', type: 'candidate-pair', state: 'succeeded', nominated: true, currentRoundTripTime: 0.02, localCandidateId: 'local', remoteCandidateId: 'remote' }],
+      ['local', { id: 'local', type: 'local-candidate', candidateType: 'host' }],
+      ['remote', { id: 'remote', type: 'remote-candidate', candidateType: 'host' }]
+    ];
+    this.receivers.forEach((receiver) => {
+      const report = receiver.inboundReport();
+      entries.push([report.id, report]);
+    });
+    return new Map(entries) as unknown as RTCStatsReport;
+  }
+
+  close() {
+    // Like the real thing, close() doesn't fire connectionstatechange
+    this.connectionState = 'closed';
+    this.dataChannels.forEach((channel) => channel.close());
+  }
+
+  simulateConnectionState(state: RTCPeerConnectionState) {
+    this.connectionState = state;
+    if (state === 'connected') {
+      this.dataChannels.forEach((channel) => channel.readyState !== 'open' && channel.open());
+    }
+    this.dispatchEvent(new Event('connectionstatechange'));
+  }
+
+  simulateIceCandidate(candidate: Partial<RTCIceCandidateInit> | null) {
+    this.dispatchEvent(Object.assign(new Event('icecandidate'), { candidate }));
+  }
+
+  // Delivers the remote stream; one 'track' event per track, like browsers do
+  emitTrack(stream: MediaStream = createFakeMediaStream()) {
+    stream.getTracks().forEach((track) => {
+      this.receivers.push(new FakeRTCRtpReceiver(track));
+      this.dispatchEvent(Object.assign(new Event('track'), { streams: [stream], track }));
+    });
+    return stream;
+  }
+
+  setMediaFlowing(flowing: boolean) {
+    this.receivers.forEach((receiver) => {
+      receiver.flowing = flowing;
+    });
+  }
+
+  /**
+   * Plays an utterance: stream/started, media flowing for `durationMs`, then
+   * stream/done, on the first data channel.
+   */
+  simulateUtterance(videoId: string, durationMs = 2000) {
+    const channel = this.dataChannels[0];
+    if (!channel) return;
+    channel.receive(`stream/started:${JSON.stringify({ metadata: { videoId } })}`);
+    this.setMediaFlowing(true);
+    setTimeout(() => {
+      if (this.connectionState === 'closed') return;
+      this.setMediaFlowing(false);
+      channel.receive(`stream/done:${JSON.stringify({ metadata: { videoId } })}`);
+    }, durationMs);
+  }
+
+  private runAutoConnect() {
+    if (this.connectionState === 'closed') return;
+    this.simulateIceCandidate({ candidate: 'candidate:1 1 udp 2122260223 127.0.0.1 9 typ host', sdpMid: '0', sdpMLineIndex: 0 });
+    this.simulateIceCandidate(null);
+    this.simulateConnectionState('connecting');
+    this.simulateConnectionState('connected');
+    this.emitTrack();
+  }
+}
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MOCK_AGENT, MockDIDBackend } from '@/lib/mock/didBackend';
+import { candidateKind, formatPreflightReport, iceResults, runPreflight, type PreflightResult } from '@/lib/preflight';
+
+const stun: RTCIceServer[] = [{ urls: ['stun:stun.example.com:3478'] }];
+const stunAndTurn: RTCIceServer[] = [...stun, { urls: 'turns:turn.example.com:443', username: 'u', credential: 'c' }];
+
+const byId = (results: PreflightResult[]) => Object.fromEntries(results.map((result) => [result.id, [result.status, result.code]]));
+
+describe('ICE results', () => {
+  it('reads the candidate type from the SDP line', () => {
+    expect(candidateKind('candidate:1 1 udp 2122260223 192.168.1.2 54321 typ host generation 0')).toBe('host');
+    expect(candidateKind('candidate:2 1 udp 1686052607 203.0.113.7 61000 typ srflx raddr 192.168.1.2 rport 54321')).toBe('srflx');
+    expect(candidateKind('candidate:3 1 udp 41885439 198.51.100.4 50000 typ relay raddr 203.0.113.7 rport 61000')).toBe('relay');
+    expect(candidateKind('candidate:4 1 udp 1 10.0.0.1 1 typ prflx')).toBeNull();
+  });
+
+  it('passes what was gathered and judges the rest by what the servers offer', () => {
+    expect(byId(iceResults(new Set(['host', 'srflx', 'relay']), stunAndTurn))).toEqual({
+      iceHost: ['pass', 'hostFound'],
+      iceSrflx: ['pass', 'srflxFound'],
+      iceRelay: ['pass', 'relayFound']
+    });
+    // STUN works, so a missing relay only limits stricter networks
+    expect(byId(iceResults(new Set(['host', 'srflx']), stunAndTurn)).iceRelay).toEqual(['warn', 'relayMissing']);
+    expect(byId(iceResults(new Set(['host', 'srflx']), stun)).iceRelay).toEqual(['warn', 'relayNotOffered']);
+    // Nothing got out of the local network
+    expect(byId(iceResults(new Set(['host']), stunAndTurn))).toEqual({
+      iceHost: ['pass', 'hostFound'],
+      iceSrflx: ['warn', 'srflxMissing'],
+      iceRelay: ['fail', 'relayMissing']
+    });
+    expect(iceResults(new Set(['host']), null, 'Injected 500')[2]).toEqual({
+      id: 'iceRelay', status: 'warn', code: 'iceServersUnavailable', detail: 'Injected 500'
+    });
+  });
+});
+
+describe('runPreflight', () => {
+  let backend: MockDIDBackend;
+
+  // Gathers a host and a server-reflexive candidate, then completes
+  class GatheringPeerConnection {
+    static configurations: RTCConfiguration[] = [];
+    onicecandidate: ((event: { candidate: { candidate: string } | null }) => void) | null = null;
+    closed = false;
+
+    constructor(configuration: RTCConfiguration) {
+      GatheringPeerConnection.configurations.push(configuration);
+    }
+
+    createDataChannel() {
+      return {};
+    }
+
+    async createOffer() {
+      return { type: 'offer', sdp: 'v=0' };
+    }
+
+    async setLocalDescription() {
+      setTimeout(() => {
+        this.onicecandidate?.({ candidate: { candidate: 'candidate:1 1 udp 1 192.168.1.2 5000 typ host' } });
+        this.onicecandidate?.({ candidate: { candidate: 'candidate:2 1 udp 1 203.0.113.7 6000 typ srflx' } });
+        this.onicecandidate?.({ candidate: null });
+      }, 0);
+    }
+
+    close() {
+      this.closed = true;
+    }
+  }
+
+  beforeEach(() => {
+    backend = new MockDIDBackend();
+    GatheringPeerConnection.configurations = [];
+    vi.stubGlobal('fetch', backend.fetch);
+    vi.stubGlobal('RTCPeerConnection', GatheringPeerConnection);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('tests ICE against the servers of a stream it closes straight away', async () => {
+    const seen: string[] = [];
+    const results = await runPreflight({ agentId: MOCK_AGENT.id, onResult: (result) => seen.push(result.id) });
+
+    expect(GatheringPeerConnection.configurations).toEqual([{ iceServers: [{ urls: ['stun:stun.l.google.com:19302'] }] }]);
+    expect(backend.requestsTo('POST', `/agents/${MOCK_AGENT.id}/streams`)).toHaveLength(1);
+    expect(backend.requestsTo('DELETE', `/agents/${MOCK_AGENT.id}/streams/strm_mock_1`)).toHaveLength(1);
+    expect(byId(results)).toMatchObject({
+      webrtc: ['pass', 'webrtcAvailable'],
+      iceHost: ['pass', 'hostFound'],
+      iceSrflx: ['pass', 'srflxFound'],
+      iceRelay: ['warn', 'relayNotOffered'],
+      config: ['pass', 'configOk'],
+      proxy: ['pass', 'proxyOk']
+    });
+    // Reported as they came in, returned in report order
+    expect(seen).toHaveLength(9);
+    expect(results.map((result) => result.id)).toEqual([
+      'webrtc', 'iceHost', 'iceSrflx', 'iceRelay', 'microphone', 'speechRecognition', 'autoplay', 'config', 'proxy'
+    ]);
+  });
+
+  it('reports a proxy failure and skips the agent ICE servers', async () => {
+    backend.injectFailure({ method: 'GET', endpoint: `/agents/${MOCK_AGENT.id}`, status: 502 });
+    const results = await runPreflight({ agentId: MOCK_AGENT.id });
+
+    expect(byId(results).proxy).toEqual(['fail', 'proxyFailed']);
+    expect(byId(results).iceSrflx).toEqual(['warn', 'iceServersUnavailable']);
+    expect(backend.requestsTo('POST', `/agents/${MOCK_AGENT.id}/streams`)).toHaveLength(0);
+  });
+});
+
+describe('formatPreflightReport', () => {
+  it('heads the report with the overall status and lists results in check order', () => {
+    const report = formatPreflightReport(
+      [
+        { id: 'proxy', status: 'pass', code: 'proxyOk' },
+        { id: 'iceRelay', status: 'fail', code: 'relayMissing', detail: 'candidates: host' }
+      ],
+      { title: 'Pre-flight check', checkedAt: '2026-10-19T12:00:00.000Z', agentId: 'agt_1', userAgent: 'TestBrowser/1.0' },
+      (result) => ({ label: result.id, message: result.code })
+    );
+
+    expect(report).toBe([
+      'Pre-flight check — FAIL',
+      'Checked at: 2026-10-19T12:00:00.000Z',
+      'Agent: agt_1',
+      'Browser: TestBrowser/1.0',
+      '',
+      '[FAIL] iceRelay: relayMissing [iceRelay/relayMissing] (candidates: host)',
+      '[PASS] proxy: proxyOk [proxy/proxyOk]',
+      ''
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,303 @@
+// Checks run on /preflight and from the start overlay: can this browser, on this
+// network, stream an agent? Results are codes; the UI words them.
+
+import { DEFAULT_RETRY_POLICY, DIDClient, type DIDStreamCreateResponse } from '@/lib/didClient';
+import { resolveSpeechProvider, type SpeechProviderPreference } from '@/lib/speechToText';
+import { resolveStreamSettings, toDIDStreamOptions, type StreamSettings } from '@/lib/streamSettings';
+
+export type PreflightCheckId =
+  | 'webrtc'
+  | 'iceHost'
+  | 'iceSrflx'
+  | 'iceRelay'
+  | 'microphone'
+  | 'speechRecognition'
+  | 'autoplay'
+  | 'config'
+  | 'proxy';
+
+// Report order
+export const PREFLIGHT_CHECKS: PreflightCheckId[] = [
+  'webrtc',
+  'iceHost',
+  'iceSrflx',
+  'iceRelay',
+  'microphone',
+  'speechRecognition',
+  'autoplay',
+  'config',
+  'proxy'
+];
+
+export type PreflightStatus = 'pass' | 'warn' | 'fail';
+
+export type PreflightCode =
+  | 'webrtcAvailable'
+  | 'webrtcMissing'
+  | 'iceSkipped'
+  | 'iceServersUnavailable'
+  | 'hostFound'
+  | 'hostMissing'
+  | 'srflxFound'
+  | 'srflxMissing'
+  | 'relayFound'
+  | 'relayMissing'
+  | 'relayNotOffered'
+  | 'micGranted'
+  | 'micPrompt'
+  | 'micDenied'
+  | 'micUnknown'
+  | 'micMissing'
+  | 'webSpeech'
+  | 'serverSpeech'
+  | 'noSpeech'
+  | 'autoplayAllowed'
+  | 'autoplayMuted'
+  | 'autoplayBlocked'
+  | 'configOk'
+  | 'configFailed'
+  | 'proxyOk'
+  | 'proxyFailed'
+  | 'proxySkipped';
+
+export interface PreflightResult {
+  id: PreflightCheckId;
+  status: PreflightStatus;
+  code: PreflightCode;
+  // Untranslated specifics for the report, e.g. an HTTP status or the candidates seen
+  detail?: string;
+}
+
+type IceCandidateKind = 'host' | 'srflx' | 'relay';
+
+// Long enough for a TURN allocation on a slow network
+export const ICE_GATHER_TIMEOUT_MS = 8000;
+
+const result = (id: PreflightCheckId, status: PreflightStatus, code: PreflightCode, detail?: string): PreflightResult =>
+  detail ? { id, status, code, detail } : { id, status, code };
+
+const errorDetail = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// e.g. "candidate:1 1 udp 2122260223 192.168.1.2 54321 typ host ..."
+export function candidateKind(candidate: string): IceCandidateKind | null {
+  const match = /\btyp (host|srflx|relay)\b/.exec(candidate);
+  return match ? (match[1] as IceCandidateKind) : null;
+}
+
+const offersTurn = (iceServers: RTCIceServer[]) =>
+  iceServers.some((server) => [server.urls].flat().some((url) => /^turns?:/.test(url)));
+
+/**
+ * Host candidates mean WebRTC works at all, server-reflexive ones that STUN got
+ * through and relay ones that TURN did. Without either of the last two only
+ * direct connections can work, which D-ID's servers don't accept.
+ */
+export function iceResults(found: Set<IceCandidateKind>, iceServers: RTCIceServer[] | null, unavailableReason?: string): PreflightResult[] {
+  const detail = found.size > 0 ? `candidates: ${[...found].join(', ')}` : 'no candidates';
+  const host = found.has('host')
+    ? result('iceHost', 'pass', 'hostFound')
+    : result('iceHost', 'fail', 'hostMissing', detail);
+  if (!iceServers) {
+    return [
+      host,
+      result('iceSrflx', 'warn', 'iceServersUnavailable', unavailableReason),
+      result('iceRelay', 'warn', 'iceServersUnavailable', unavailableReason)
+    ];
+  }
+
+  const reachable = found.has('srflx') || found.has('relay');
+  const srflx = found.has('srflx')
+    ? result('iceSrflx', 'pass', 'srflxFound')
+    : result('iceSrflx', 'warn', 'srflxMissing', detail);
+  const relay =
+    found.has('relay') ? result('iceRelay', 'pass', 'relayFound') :
+    !offersTurn(iceServers) ? result('iceRelay', reachable ? 'warn' : 'fail', 'relayNotOffered') :
+    result('iceRelay', reachable ? 'warn' : 'fail', 'relayMissing', detail);
+  return [host, srflx, relay];
+}
+
+// Collects the candidate kinds a throwaway peer connection gathers with these servers
+export async function gatherIceCandidateKinds(iceServers: RTCIceServer[], timeoutMs = ICE_GATHER_TIMEOUT_MS): Promise<Set<IceCandidateKind>> {
+  const found = new Set<IceCandidateKind>();
+  const pc = new RTCPeerConnection({ iceServers });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const gathered = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, timeoutMs);
+      pc.onicecandidate = (event) => {
+        // A null candidate means gathering is complete
+        if (!event.candidate) {
+          resolve();
+          return;
+        }
+        const kind = candidateKind(event.candidate.candidate);
+        if (kind) found.add(kind);
+      };
+    });
+    // Something to negotiate, or nothing is gathered
+    pc.createDataChannel('preflight');
+    await pc.setLocalDescription(await pc.createOffer());
+    await gathered;
+  } finally {
+    clearTimeout(timer);
+    pc.close();
+  }
+  return found;
+}
+
+/**
+ * D-ID hands out ICE servers per stream, so this opens one and closes it right
+ * away. It counts against the stream quota like any other.
+ */
+async function fetchIceServers(client: DIDClient, agentId: string, settings: StreamSettings): Promise<RTCIceServer[]> {
+  const stream: DIDStreamCreateResponse = await client.createStream(agentId, toDIDStreamOptions(settings));
+  client.deleteStream(agentId, stream.id, stream.session_id).catch((error) => console.warn('Failed to close preflight stream:', error));
+  return stream.ice_servers;
+}
+
+async function checkMicrophone(): Promise<PreflightResult> {
+  if (!navigator.mediaDevices?.getUserMedia) return result('microphone', 'fail', 'micMissing');
+  try {
+    const { state } = await navigator.permissions.query({ name: 'microphone' as PermissionName });
+    if (state === 'granted') return result('microphone', 'pass', 'micGranted');
+    if (state === 'denied') return result('microphone', 'fail', 'micDenied');
+    return result('microphone', 'warn', 'micPrompt');
+  } catch (error) {
+    // Some browsers can't query the microphone permission
+    return result('microphone', 'warn', 'micUnknown', errorDetail(error));
+  }
+}
+
+function checkSpeechRecognition(preference: SpeechProviderPreference): PreflightResult {
+  const provider = resolveSpeechProvider(preference);
+  if (provider === 'web-speech') return result('speechRecognition', 'pass', 'webSpeech');
+  if (provider === 'server') return result('speechRecognition', 'warn', 'serverSpeech');
+  return result('speechRecognition', 'fail', 'noSpeech', `preference: ${preference}`);
+}
+
+// Chrome starts audio contexts suspended until the page is clicked; the policy API is newer and more precise
+async function checkAutoplay(): Promise<PreflightResult> {
+  const policy = (navigator as Navigator & { getAutoplayPolicy?: (type: 'mediaelement') => string }).getAutoplayPolicy?.('mediaelement');
+  if (policy === 'allowed') return result('autoplay', 'pass', 'autoplayAllowed');
+  if (policy === 'allowed-muted') return result('autoplay', 'warn', 'autoplayMuted');
+  if (policy === 'disallowed') return result('autoplay', 'warn', 'autoplayBlocked');
+
+  if (typeof AudioContext === 'undefined') return result('autoplay', 'warn', 'autoplayBlocked', 'no AudioContext');
+  const context = new AudioContext();
+  const state = context.state;
+  context.close().catch(() => {});
+  return state === 'running'
+    ? result('autoplay', 'pass', 'autoplayAllowed')
+    : result('autoplay', 'warn', 'autoplayBlocked', `AudioContext ${state}`);
+}
+
+async function checkConfig(): Promise<{ result: PreflightResult; stream?: Partial<StreamSettings> }> {
+  try {
+    const response = await fetch('/api/config');
+    if (!response.ok) return { result: result('config', 'fail', 'configFailed', `HTTP ${response.status}`) };
+    const config: { stream?: Partial<StreamSettings> } = await response.json();
+    return { result: result('config', 'pass', 'configOk'), stream: config.stream };
+  } catch (error) {
+    return { result: result('config', 'fail', 'configFailed', errorDetail(error)) };
+  }
+}
+
+interface PreflightOptions {
+  // Agent whose ICE servers are tested; without one only host candidates are gathered
+  agentId?: string;
+  speechProvider?: SpeechProviderPreference;
+  // Called as each result comes in, so the UI can fill in while the slow checks run
+  onResult?: (result: PreflightResult) => void;
+}
+
+export async function runPreflight({ agentId, speechProvider = 'auto', onResult }: PreflightOptions = {}): Promise<PreflightResult[]> {
+  const results: PreflightResult[] = [];
+  const report = (...items: PreflightResult[]) => {
+    results.push(...items);
+    items.forEach((item) => onResult?.(item));
+  };
+
+  const hasWebRTC = typeof RTCPeerConnection !== 'undefined';
+  report(hasWebRTC ? result('webrtc', 'pass', 'webrtcAvailable') : result('webrtc', 'fail', 'webrtcMissing'));
+  report(await checkMicrophone());
+  report(checkSpeechRecognition(speechProvider));
+  report(await checkAutoplay());
+
+  const config = await checkConfig();
+  report(config.result);
+
+  // Retrying would only hide what went wrong
+  const client = new DIDClient('/api', { ...DEFAULT_RETRY_POLICY, retries: 0 });
+  let iceServers: RTCIceServer[] | null = null;
+  let iceServersError = agentId ? undefined : 'no agent';
+  if (!agentId) {
+    report(result('proxy', 'warn', 'proxySkipped'));
+  } else {
+    try {
+      await client.getAgent(agentId);
+      report(result('proxy', 'pass', 'proxyOk'));
+    } catch (error) {
+      iceServersError = errorDetail(error);
+      report(result('proxy', 'fail', 'proxyFailed', iceServersError));
+    }
+    if (!iceServersError) {
+      try {
+        iceServers = await fetchIceServers(client, agentId, resolveStreamSettings(config.stream));
+      } catch (error) {
+        iceServersError = errorDetail(error);
+      }
+    }
+  }
+
+  if (!hasWebRTC) {
+    report(...(['iceHost', 'iceSrflx', 'iceRelay'] as const).map((id) => result(id, 'fail', 'iceSkipped')));
+  } else {
+    const found = await gatherIceCandidateKinds(iceServers ?? []).catch((error) => {
+      console.warn('ICE gathering failed:', error);
+      return new Set<IceCandidateKind>();
+    });
+    report(...iceResults(found, iceServers, iceServersError));
+  }
+
+  return sortResults(results);
+}
+
+export const sortResults = (results: PreflightResult[]) =>
+  [...results].sort((a, b) => PREFLIGHT_CHECKS.indexOf(a.id) - PREFLIGHT_CHECKS.indexOf(b.id));
+
+// The worst status wins
+export function overallStatus(results: PreflightResult[]): PreflightStatus {
+  if (results.some((item) => item.status === 'fail')) return 'fail';
+  return results.some((item) => item.status === 'warn') ? 'warn' : 'pass';
+}
+
+export interface PreflightReportContext {
+  title: string;
+  checkedAt: string;
+  agentId: string | null;
+  userAgent: string;
+}
+
+/**
+ * Plain text for a support ticket. `describe` words each result in the UI
+ * language; codes and details stay as they are so support can read them either way.
+ */
+export function formatPreflightReport(
+  results: PreflightResult[],
+  context: PreflightReportContext,
+  describe: (result: PreflightResult) => { label: string; message: string }
+): string {
+  const lines = sortResults(results).map((item) => {
+    const { label, message } = describe(item);
+    const detail = item.detail ? ` (${item.detail})` : '';
+    return `[${item.status.toUpperCase()}] ${label}: ${message} [${item.id}/${item.code}]${detail}`;
+  });
+  return [
+    `${context.title} — ${overallStatus(results).toUpperCase()}`,
+    `Checked at: ${context.checkedAt}`,
+    `Agent: ${context.agentId ?? '-'}`,
+    `Browser: ${context.userAgent}`,
+    '',
+    ...lines
+  ].join('\n') + '\n';
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { parsePresentation, PRESENTATION_TEMPLATE, readPresentationBody } from '@/lib/presentation';
+
+const codes = (source: string, format: 'yaml' | 'json' = 'yaml') => {
+  const result = parsePresentation(source, format);
+  return result.ok ? [] : result.issues.map((issue) => `${issue.path}:${issue.code}`);
+};
+
+describe('parsePresentation', () => {
+  it('reads the authoring shorthand into steps', () => {
+    const result = parsePresentation(`
+name: Booth
+voice: { provider: microsoft, voiceId: en-US-JennyNeural }
+attract: { label: loop }
+steps:
+  - say: Hello!
+    pause: 1.5
+  - label: loop
+    say: <speak>Hi</speak>
+    ssml: true
+  - wait: 2
+  - branch: [loop, { goto: end, weight: 3 }]
+  - goto: loop
+    times: 2
+  - label: end
+    say: Bye
+`, 'yaml');
+
+    expect(result).toEqual({
+      ok: true,
+      script: {
+        name: 'Booth',
+        voice: { provider: 'microsoft', voiceId: 'en-US-JennyNeural' },
+        attract: { label: 'loop', idleSeconds: 30 },
+        steps: [
+          { kind: 'say', text: 'Hello!', ssml: false, pauseAfterMs: 1500 },
+          { kind: 'say', label: 'loop', text: '<speak>Hi</speak>', ssml: true, pauseAfterMs: 0 },
+          { kind: 'wait', ms: 2000 },
+          { kind: 'branch', options: [{ target: 'loop', weight: 1 }, { target: 'end', weight: 3 }] },
+          { kind: 'goto', target: 'loop', times: 2 },
+          { kind: 'say', label: 'end', text: 'Bye', ssml: false, pauseAfterMs: 0 }
+        ]
+      }
+    });
+    expect(parsePresentation(JSON.stringify({ name: 'J', steps: [{ say: 'Hi' }] }), 'json').ok).toBe(true);
+    expect(parsePresentation(PRESENTATION_TEMPLATE, 'yaml').ok).toBe(true);
+  });
+
+  it('points at every broken step', () => {
+    expect(codes('name: [unclosed')).toEqual([':syntax']);
+    expect(codes('{"name": "x",}', 'json')).toEqual([':syntax']);
+    expect(codes('name: Empty\nsteps: []')).toEqual(['steps:noSteps']);
+    expect(codes(`
+name: Broken
+steps:
+  - say: Hi
+    wait: 2
+  - wait: -1
+  - goto: loop
+    times: 1.5
+  - branch: []
+`)).toEqual([
+      'steps[0]:invalidStep',
+      'steps[1].wait:invalidNumber',
+      'steps[2].times:invalidNumber',
+      'steps[3].branch:invalidStep'
+    ]);
+  });
+
+  it('checks labels once the steps are valid', () => {
+    expect(codes(`
+name: Labels
+attract: { label: nowhere }
+steps:
+  - label: a
+    say: One
+  - label: a
+    say: Two
+  - goto: b
+`)).toEqual(['steps[1].label:duplicateLabel', 'steps[2]:unknownLabel', 'attract.label:unknownLabel']);
+  });
+});
+
+describe('readPresentationBody', () => {
+  it('only accepts a known format and a script that parses', () => {
+    expect(readPresentationBody({ format: 'xml', source: 'name: x' })).toMatchObject({ ok: false });
+    expect(readPresentationBody({ format: 'yaml', source: 'name: x' })).toMatchObject({
+      ok: false,
+      issues: [{ code: 'noSteps', path: 'steps' }]
+    });
+    expect(readPresentationBody({ format: 'yaml', source: PRESENTATION_TEMPLATE })).toMatchObject({
+      ok: true,
+      format: 'yaml',
+      script: { name: 'Booth loop' }
+    });
+  });
+});
@@ -0,0 +1,272 @@
+// Presentation scripts for unattended demos: lines the agent speaks in order,
+// with waits, jumps (loops) and random branches. Written as YAML or JSON:
+//
+//   name: Booth loop
+//   attract: { label: attract, idleSeconds: 45 }
+//   steps:
+//     - say: Welcome to our booth!
+//       pause: 2
+//     - label: attract
+//       say: Ask me anything about D-ID agents.
+//     - branch: [products, pricing]
+//     - label: products
+//       say: ...
+//     - goto: attract
+
+import { parse as parseYaml } from 'yaml';
+import { VOICE_PROVIDERS, type VoiceProviderId, type VoiceSettings } from '@/lib/scripts';
+
+export type PresentationFormat = 'yaml' | 'json';
+
+export const PRESENTATION_FORMATS: PresentationFormat[] = ['yaml', 'json'];
+
+export type PresentationStep =
+  // pauseAfterMs: quiet time once the line is done
+  | { kind: 'say'; label?: string; text: string; ssml: boolean; pauseAfterMs: number }
+  | { kind: 'wait'; label?: string; ms: number }
+  // times: how often to jump before falling through; null jumps every time
+  | { kind: 'goto'; label?: string; target: string; times: number | null }
+  | { kind: 'branch'; label?: string; options: { target: string; weight: number }[] };
+
+export interface PresentationScript {
+  name: string;
+  steps: PresentationStep[];
+  // Voice for every line; the agent's own voice when unset
+  voice?: VoiceSettings;
+  // Where to go once nobody has interacted for idleSeconds, and after the last step
+  attract?: { label: string | null; idleSeconds: number };
+}
+
+export type PresentationIssueCode =
+  | 'syntax'
+  | 'invalidScript'
+  | 'noSteps'
+  | 'invalidStep'
+  | 'invalidNumber'
+  | 'duplicateLabel'
+  | 'unknownLabel';
+
+export interface PresentationIssue {
+  code: PresentationIssueCode;
+  // Where in the script, e.g. "steps[3].wait"
+  path: string;
+  // Parser message or the offending value
+  detail?: string;
+}
+
+export type PresentationParseResult =
+  | { ok: true; script: PresentationScript }
+  | { ok: false; issues: PresentationIssue[] };
+
+export const MAX_WAIT_SECONDS = 3600;
+export const MAX_LOOP_TIMES = 1000;
+export const IDLE_SECONDS_RANGE = { min: 5, max: 3600 };
+export const DEFAULT_IDLE_SECONDS = 30;
+
+const STEP_KINDS = ['say', 'wait', 'goto', 'branch'] as const;
+
+const isObject = (data: unknown): data is Record<string, unknown> =>
+  typeof data === 'object' && data !== null && !Array.isArray(data);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+// Source text to plain data; YAML is a superset of JSON but JSON files get JSON's error messages
+function parseSource(source: string, format: PresentationFormat): { data: unknown } | { issue: PresentationIssue } {
+  try {
+    return { data: format === 'json' ? JSON.parse(source) : parseYaml(source) };
+  } catch (error) {
+    return { issue: { code: 'syntax', path: '', detail: error instanceof Error ? error.message.split('\n')[0] : String(error) } };
+  }
+}
+
+function readVoice(value: unknown, issues: PresentationIssue[]): VoiceSettings | undefined {
+  if (value === undefined) return undefined;
+  if (
+    !isObject(value) ||
+    !VOICE_PROVIDERS.includes(value.provider as VoiceProviderId) ||
+    !isNonEmptyString(value.voiceId) ||
+    (value.style !== undefined && typeof value.style !== 'string')
+  ) {
+    issues.push({ code: 'invalidScript', path: 'voice', detail: 'expected { provider, voiceId, style? }' });
+    return undefined;
+  }
+  return { provider: value.provider as VoiceProviderId, voiceId: value.voiceId, ...(value.style ? { style: value.style as string } : {}) };
+}
+
+function readStep(data: unknown, path: string, issues: PresentationIssue[]): PresentationStep | null {
+  if (!isObject(data)) {
+    issues.push({ code: 'invalidStep', path, detail: 'expected an object' });
+    return null;
+  }
+  const kinds = STEP_KINDS.filter((kind) => data[kind] !== undefined);
+  if (kinds.length !== 1) {
+    issues.push({ code: 'invalidStep', path, detail: `expected one of ${STEP_KINDS.join(', ')}` });
+    return null;
+  }
+  if (data.label !== undefined && !isNonEmptyString(data.label)) {
+    issues.push({ code: 'invalidStep', path: `${path}.label`, detail: 'expected text' });
+    return null;
+  }
+  const label = data.label as string | undefined;
+  const withLabel = <S extends PresentationStep>(step: S): S => (label ? { ...step, label } : step);
+  const issueCount = issues.length;
+
+  switch (kinds[0]) {
+    case 'say': {
+      if (!isNonEmptyString(data.say)) issues.push({ code: 'invalidStep', path: `${path}.say`, detail: 'expected text' });
+      if (data.ssml !== undefined && typeof data.ssml !== 'boolean') issues.push({ code: 'invalidStep', path: `${path}.ssml`, detail: 'expected true or false' });
+      const pause = data.pause ?? 0;
+      if (!isNumberIn(pause, 0, MAX_WAIT_SECONDS)) issues.push({ code: 'invalidNumber', path: `${path}.pause`, detail: String(data.pause) });
+      if (issues.length > issueCount) return null;
+      return withLabel({ kind: 'say', text: (data.say as string).trim(), ssml: data.ssml === true, pauseAfterMs: Math.round((pause as number) * 1000) });
+    }
+    case 'wait': {
+      if (!isNumberIn(data.wait, 0, MAX_WAIT_SECONDS)) {
+        issues.push({ code: 'invalidNumber', path: `${path}.wait`, detail: String(data.wait) });
+        return null;
+      }
+      return withLabel({ kind: 'wait', ms: Math.round(data.wait * 1000) });
+    }
+    case 'goto': {
+      if (!isNonEmptyString(data.goto)) issues.push({ code: 'invalidStep', path: `${path}.goto`, detail: 'expected a label' });
+      const times = data.times ?? null;
+      if (times !== null && !(Number.isInteger(times) && isNumberIn(times, 1, MAX_LOOP_TIMES))) {
+        issues.push({ code: 'invalidNumber', path: `${path}.times`, detail: String(times) });
+      }
+      if (issues.length > issueCount) return null;
+      return withLabel({ kind: 'goto', target: data.goto as string, times: times as number | null });
+    }
+    case 'branch': {
+      const options = Array.isArray(data.branch) ? data.branch : [];
+      if (options.length === 0) issues.push({ code: 'invalidStep', path: `${path}.branch`, detail: 'expected a list of labels' });
+      const parsed = options.map((option, index) => {
+        // A bare label, or { goto, weight } to make some branches likelier
+        const target = isObject(option) ? option.goto : option;
+        const weight = isObject(option) ? option.weight ?? 1 : 1;
+        if (!isNonEmptyString(target)) issues.push({ code: 'invalidStep', path: `${path}.branch[${index}]`, detail: 'expected a label' });
+        if (!isNumberIn(weight, Number.MIN_VALUE, Number.MAX_SAFE_INTEGER)) {
+          issues.push({ code: 'invalidNumber', path: `${path}.branch[${index}].weight`, detail: String(weight) });
+        }
+        return { target: target as string, weight: weight as number };
+      });
+      if (issues.length > issueCount) return null;
+      return withLabel({ kind: 'branch', options: parsed });
+    }
+  }
+}
+
+// Every jump needs a step to land on, and labels must be unique
+function checkLabels(script: PresentationScript, issues: PresentationIssue[]) {
+  const labels = new Set<string>();
+  script.steps.forEach((step, index) => {
+    if (!step.label) return;
+    if (labels.has(step.label)) issues.push({ code: 'duplicateLabel', path: `steps[${index}].label`, detail: step.label });
+    labels.add(step.label);
+  });
+
+  script.steps.forEach((step, index) => {
+    const targets = step.kind === 'goto' ? [step.target] : step.kind === 'branch' ? step.options.map((option) => option.target) : [];
+    targets
+      .filter((target) => !labels.has(target))
+      .forEach((target) => issues.push({ code: 'unknownLabel', path: `steps[${index}]`, detail: target }));
+  });
+  if (script.attract?.label && !labels.has(script.attract.label)) {
+    issues.push({ code: 'unknownLabel', path: 'attract.label', detail: script.attract.label });
+  }
+}
+
+export function parsePresentation(source: string, format: PresentationFormat): PresentationParseResult {
+  const parsed = parseSource(source, format);
+  if ('issue' in parsed) return { ok: false, issues: [parsed.issue] };
+
+  const data = parsed.data;
+  if (!isObject(data)) return { ok: false, issues: [{ code: 'invalidScript', path: '', detail: 'expected an object with name and steps' }] };
+
+  const issues: PresentationIssue[] = [];
+  if (!isNonEmptyString(data.name)) issues.push({ code: 'invalidScript', path: 'name', detail: 'expected text' });
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    issues.push({ code: 'noSteps', path: 'steps' });
+    return { ok: false, issues };
+  }
+
+  const steps = data.steps.map((step, index) => readStep(step, `steps[${index}]`, issues));
+  const voice = readVoice(data.voice, issues);
+
+  let attract: PresentationScript['attract'];
+  if (data.attract !== undefined) {
+    const value = isObject(data.attract) ? data.attract : null;
+    const label = value?.label ?? null;
+    const idleSeconds = value?.idleSeconds ?? DEFAULT_IDLE_SECONDS;
+    if (!value || (label !== null && !isNonEmptyString(label))) {
+      issues.push({ code: 'invalidScript', path: 'attract', detail: 'expected { label?, idleSeconds? }' });
+    } else if (!isNumberIn(idleSeconds, IDLE_SECONDS_RANGE.min, IDLE_SECONDS_RANGE.max)) {
+      issues.push({ code: 'invalidNumber', path: 'attract.idleSeconds', detail: String(idleSeconds) });
+    } else {
+      attract = { label: label as string | null, idleSeconds };
+    }
+  }
+
+  if (issues.length > 0) return { ok: false, issues };
+  const script: PresentationScript = {
+    name: (data.name as string).trim(),
+    steps: steps as PresentationStep[],
+    ...(voice ? { voice } : {}),
+    ...(attract ? { attract } : {})
+  };
+  checkLabels(script, issues);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, script };
+}
+
+// Scripts are spoken line by line; anything this long is a mistake
+export const MAX_PRESENTATION_LENGTH = 100_000;
+
+/**
+ * Checks a { format, source } body from the editor. The script is parsed here
+ * so the server never stores one the player can't run.
+ */
+export function readPresentationBody(
+  body: unknown
+): { ok: true; format: PresentationFormat; source: string; script: PresentationScript } | { ok: false; error: string; issues?: PresentationIssue[] } {
+  const { format, source } = (isObject(body) ? body : {}) as { format?: unknown; source?: unknown };
+  if (!PRESENTATION_FORMATS.includes(format as PresentationFormat)) {
+    return { ok: false, error: `format must be one of ${PRESENTATION_FORMATS.join(', ')}` };
+  }
+  if (typeof source !== 'string' || source.length > MAX_PRESENTATION_LENGTH) {
+    return { ok: false, error: `source must be text of at most ${MAX_PRESENTATION_LENGTH} characters` };
+  }
+  const parsed = parsePresentation(source, format as PresentationFormat);
+  if (!parsed.ok) return { ok: false, error: 'Invalid presentation script', issues: parsed.issues };
+  return { ok: true, format: format as PresentationFormat, source, script: parsed.script };
+}
+
+// Step index for each label
+export function labelIndex(script: PresentationScript): Map<string, number> {
+  const labels = new Map<string, number>();
+  script.steps.forEach((step, index) => {
+    if (step.label && !labels.has(step.label)) labels.set(step.label, index);
+  });
+  return labels;
+}
+
+// Starting point for the editor's "New" button
+export const PRESENTATION_TEMPLATE = `name: Booth loop
+attract:
+  label: attract
+  idleSeconds: 45
+steps:
+  - say: Welcome! I'm a D-ID agent, and I run this booth on my own.
+    pause: 1
+  - label: attract
+    say: Come closer and ask me anything, or just watch.
+  - wait: 5
+  - branch: [features, fun]
+  - label: features
+    say: I can answer questions live, speak any script and switch languages.
+  - goto: attract
+  - label: fun
+    say: Did you know I never need a coffee break?
+  - goto: attract
+`;
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Utterance, UtteranceStatus } from '@/lib/agentSession';
+import { parsePresentation, type PresentationScript } from '@/lib/presentation';
+import { PresentationPlayer } from '@/lib/presentationPlayer';
+import type { SpeakScript } from '@/lib/scripts';
+
+const script = (source: string): PresentationScript => {
+  const result = parsePresentation(source, 'yaml');
+  if (!result.ok) throw new Error(JSON.stringify(result.issues));
+  return result.script;
+};
+
+// Stands in for the session: records what was said and reports queue changes
+function createTarget() {
+  const spoken: { id: string; text: string }[] = [];
+  const target = {
+    ready: true,
+    speak: vi.fn((input: SpeakScript) => {
+      if (!target.ready) return null;
+      const id = `utt_${spoken.length + 1}`;
+      spoken.push({ id, text: input.type === 'text' ? input.text : input.type === 'ssml' ? input.ssml : input.audioUrl });
+      return id;
+    }),
+    interrupt: vi.fn(),
+    cancelUtterance: vi.fn()
+  };
+  const lines = () => spoken.map((item) => item.text);
+  const queue = (status: UtteranceStatus): Utterance[] => {
+    const last = spoken[spoken.length - 1];
+    return [{ id: last.id, text: last.text, script: { type: 'text', text: last.text }, status, videoId: null, error: null }];
+  };
+  return { target, lines, queue };
+}
+
+describe('PresentationPlayer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('says one line at a time, waits, and loops a fixed number of times', () => {
+    const { target, lines, queue } = createTarget();
+    const player = new PresentationPlayer(target);
+    player.load(script(`
+name: Loop
+steps:
+  - say: Hello
+    pause: 1
+  - label: again
+    say: Again
+  - goto: again
+    times: 1
+  - wait: 2
+  - say: Bye
+`));
+    player.start();
+    expect(lines()).toEqual(['Hello']);
+
+    player.handleUtterances(queue('speaking'));
+    player.handleUtterances(queue('done'));
+    expect(lines()).toEqual(['Hello']);
+    vi.advanceTimersByTime(1000);
+    expect(lines()).toEqual(['Hello', 'Again']);
+
+    player.handleUtterances(queue('done'));
+    expect(lines()).toEqual(['Hello', 'Again', 'Again']);
+    player.handleUtterances(queue('failed'));
+    expect(player.getSnapshot().currentLine).toBeNull();
+    vi.advanceTimersByTime(2000);
+    expect(lines()).toEqual(['Hello', 'Again', 'Again', 'Bye']);
+
+    player.handleUtterances(queue('done'));
+    expect(player.getSnapshot().status).toBe('finished');
+  });
+
+  it('pauses, resumes the cut-off line and skips ahead', () => {
+    const { target, lines, queue } = createTarget();
+    const player = new PresentationPlayer(target);
+    player.load(script('name: P\nsteps:\n  - say: One\n  - say: Two\n  - say: Three\n'));
+    player.start();
+    player.handleUtterances(queue('speaking'));
+
+    player.pause();
+    expect(target.interrupt).toHaveBeenCalledTimes(1);
+    expect(player.getSnapshot().status).toBe('paused');
+    player.resume();
+    expect(lines()).toEqual(['One', 'One']);
+
+    // Still queued, so it's dropped rather than interrupting someone else
+    player.skip();
+    expect(target.cancelUtterance).toHaveBeenCalledWith('utt_2');
+    expect(target.interrupt).toHaveBeenCalledTimes(1);
+    expect(lines()).toEqual(['One', 'One', 'Two']);
+    expect(player.getSnapshot().stepIndex).toBe(1);
+  });
+
+  it('retries a line until the stream is ready', () => {
+    const { target, lines } = createTarget();
+    target.ready = false;
+    const player = new PresentationPlayer(target, { retryDelayMs: 500 });
+    player.load(script('name: R\nsteps:\n  - say: Hi\n'));
+    player.start();
+    expect(lines()).toEqual([]);
+
+    target.ready = true;
+    vi.advanceTimersByTime(500);
+    expect(lines()).toEqual(['Hi']);
+  });
+
+  it('steps aside for visitors and returns to the attract loop once they leave', () => {
+    const { target, lines, queue } = createTarget();
+    const player = new PresentationPlayer(target, { random: () => 0.9 });
+    player.load(script(`
+name: Booth
+attract: { label: attract, idleSeconds: 10 }
+steps:
+  - say: Welcome
+  - label: attract
+    say: Come closer
+  - branch: [a, { goto: b, weight: 3 }]
+  - label: a
+    say: A
+  - label: b
+    say: B
+`));
+    player.setLiveOnInteraction(true);
+    player.start();
+    player.handleUtterances(queue('speaking'));
+
+    player.noteInteraction();
+    expect(player.getSnapshot().status).toBe('live');
+    expect(target.interrupt).toHaveBeenCalled();
+    vi.advanceTimersByTime(9000);
+    player.noteInteraction();
+    vi.advanceTimersByTime(9000);
+    expect(lines()).toEqual(['Welcome']);
+
+    vi.advanceTimersByTime(1000);
+    expect(player.getSnapshot().status).toBe('playing');
+    expect(lines()).toEqual(['Welcome', 'Come closer']);
+
+    // 0.9 of a total weight of 4 lands on b; after the last step it's back to attract
+    player.handleUtterances(queue('done'));
+    player.handleUtterances(queue('done'));
+    expect(lines()).toEqual(['Welcome', 'Come closer', 'B', 'Come closer']);
+  });
+});
@@ -0,0 +1,313 @@
+// Plays a presentation script through a session's speak queue: one line at a
+// time, the next once the last one is done (its stream/done) or failed.
+
+import { DEFAULT_IDLE_SECONDS, labelIndex, type PresentationScript, type PresentationStep } from '@/lib/presentation';
+import type { SpeakScript } from '@/lib/scripts';
+import type { Utterance, UtteranceStatus } from '@/lib/agentSession';
+
+// 'live': someone is using the mic or keyboard, so the script waits for them to leave
+export type PresentationStatus = 'stopped' | 'playing' | 'paused' | 'live' | 'finished';
+
+export interface PresentationState {
+  status: PresentationStatus;
+  script: PresentationScript | null;
+  stepIndex: number;
+  // The line being spoken or about to be
+  currentLine: string | null;
+  // Interaction pauses the script until nobody has interacted for the attract idle time
+  liveOnInteraction: boolean;
+}
+
+// What the player needs from a session (or useAgentConnection)
+export interface PresentationTarget {
+  speak: (script: SpeakScript) => string | null;
+  interrupt: () => void;
+  cancelUtterance: (id: string) => void;
+}
+
+interface PresentationPlayerOptions {
+  // Picks branches; Math.random unless a test needs them predictable
+  random?: () => number;
+  // How soon to try a line again when the stream isn't ready for it
+  retryDelayMs?: number;
+}
+
+// Jumps and branches in a row before the script counts as stuck
+const MAX_JUMPS = 1000;
+
+const RETRY_DELAY_MS = 2000;
+
+const INITIAL_STATE: PresentationState = {
+  status: 'stopped',
+  script: null,
+  stepIndex: 0,
+  currentLine: null,
+  liveOnInteraction: false
+};
+
+export class PresentationPlayer {
+  private state: PresentationState = INITIAL_STATE;
+  private readonly listeners = new Set<() => void>();
+  private readonly random: () => number;
+  private readonly retryDelayMs: number;
+  private labels = new Map<string, number>();
+  // How often each goto with `times` has jumped since the loop was entered
+  private readonly loopCounts = new Map<number, number>();
+  // Pending wait, pause after a line or retry
+  private stepTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private utteranceId: string | null = null;
+  // Last status seen in the queue; once seen, the line disappearing means it was cancelled
+  private utteranceStatus: UtteranceStatus | null = null;
+  // The current say step has been spoken; resuming moves on instead of repeating it
+  private lineDone = false;
+
+  constructor(private target: PresentationTarget | null = null, options: PresentationPlayerOptions = {}) {
+    this.random = options.random ?? Math.random;
+    this.retryDelayMs = options.retryDelayMs ?? RETRY_DELAY_MS;
+  }
+
+  // Hooks hand over the latest session functions as they change
+  setTarget(target: PresentationTarget | null) {
+    this.target = target;
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.state;
+
+  load(script: PresentationScript | null) {
+    this.stop();
+    this.labels = script ? labelIndex(script) : new Map();
+    this.update({ script });
+  }
+
+  start() {
+    if (!this.state.script) return;
+    this.halt();
+    this.loopCounts.clear();
+    this.update({ status: 'playing' });
+    this.run(0);
+  }
+
+  // Stops the current line at once; resume() says it again
+  pause() {
+    if (this.state.status !== 'playing') return;
+    this.halt();
+    this.update({ status: 'paused' });
+  }
+
+  // Also ends live interaction early
+  resume() {
+    if (this.state.status === 'live') {
+      this.returnToAttract();
+      return;
+    }
+    if (this.state.status !== 'paused') return;
+    this.update({ status: 'playing' });
+    this.run(this.lineDone ? this.state.stepIndex + 1 : this.state.stepIndex);
+  }
+
+  // Cuts the current line or wait short and moves on
+  skip() {
+    const { status, stepIndex } = this.state;
+    if (status !== 'playing' && status !== 'paused') return;
+    this.halt();
+    if (status === 'playing') {
+      this.run(stepIndex + 1);
+    } else {
+      // Paused: resume picks up after the skipped step
+      this.lineDone = true;
+      this.update({ currentLine: null });
+    }
+  }
+
+  stop() {
+    this.halt();
+    this.clearIdleTimer();
+    this.update({ status: 'stopped', stepIndex: 0, currentLine: null });
+  }
+
+  setLiveOnInteraction(liveOnInteraction: boolean) {
+    this.update({ liveOnInteraction });
+    if (!liveOnInteraction && this.state.status === 'live') this.returnToAttract();
+  }
+
+  /**
+   * Someone used the mic or keyboard. With liveOnInteraction the script steps
+   * aside for them and comes back at the attract label (or the start) once
+   * they've been idle for the script's idle time.
+   */
+  noteInteraction() {
+    const { status, liveOnInteraction } = this.state;
+    if (!liveOnInteraction || (status !== 'playing' && status !== 'live')) return;
+    if (status === 'playing') {
+      console.log('Presentation: switching to live interaction');
+      this.halt();
+      this.update({ status: 'live', currentLine: null });
+    }
+    this.clearIdleTimer();
+    const idleSeconds = this.state.script?.attract?.idleSeconds ?? DEFAULT_IDLE_SECONDS;
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      this.returnToAttract();
+    }, idleSeconds * 1000);
+  }
+
+  // Called with the session's queue whenever it changes
+  handleUtterances(utterances: Utterance[]) {
+    const id = this.utteranceId;
+    if (!id) return;
+    const item = utterances.find((utterance) => utterance.id === id);
+    const isFinished = item ? item.status === 'done' || item.status === 'failed' : this.utteranceStatus !== null;
+    this.utteranceStatus = item?.status ?? null;
+    if (!isFinished) return;
+    if (item?.status === 'failed') console.warn('Presentation line failed, moving on:', item.error);
+    this.finishLine();
+  }
+
+  dispose() {
+    this.stop();
+    this.listeners.clear();
+  }
+
+  private update(changes: Partial<PresentationState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Runs control steps until one says or waits something
+  private run(index: number) {
+    const { script } = this.state;
+    if (!script) return;
+    this.clearStepTimer();
+    this.lineDone = false;
+
+    let next = index;
+    for (let jumps = 0; jumps <= MAX_JUMPS; jumps += 1) {
+      if (next >= script.steps.length) {
+        const attract = script.attract?.label;
+        if (!attract) {
+          this.update({ status: 'finished', stepIndex: script.steps.length, currentLine: null });
+          return;
+        }
+        next = this.labels.get(attract) ?? 0;
+        continue;
+      }
+
+      const step: PresentationStep = script.steps[next];
+      if (step.kind === 'goto') {
+        next = this.jump(next, step);
+      } else if (step.kind === 'branch') {
+        next = this.labels.get(this.pickBranch(step)) ?? next + 1;
+      } else if (step.kind === 'wait') {
+        const resumeAt = next + 1;
+        this.update({ stepIndex: next, currentLine: null });
+        this.stepTimer = setTimeout(() => this.run(resumeAt), step.ms);
+        return;
+      } else {
+        this.say(next, step);
+        return;
+      }
+    }
+
+    console.warn('Presentation keeps jumping without saying anything; stopping');
+    this.update({ status: 'finished', currentLine: null });
+  }
+
+  private jump(index: number, step: Extract<PresentationStep, { kind: 'goto' }>) {
+    const target = this.labels.get(step.target) ?? index + 1;
+    if (step.times === null) return target;
+    const count = this.loopCounts.get(index) ?? 0;
+    if (count < step.times) {
+      this.loopCounts.set(index, count + 1);
+      return target;
+    }
+    // Done looping; a later pass through this loop starts counting again
+    this.loopCounts.delete(index);
+    return index + 1;
+  }
+
+  private pickBranch(step: Extract<PresentationStep, { kind: 'branch' }>) {
+    const total = step.options.reduce((sum, option) => sum + option.weight, 0);
+    let roll = this.random() * total;
+    for (const option of step.options) {
+      roll -= option.weight;
+      if (roll < 0) return option.target;
+    }
+    return step.options[step.options.length - 1].target;
+  }
+
+  private say(index: number, step: Extract<PresentationStep, { kind: 'say' }>) {
+    const voice = this.state.script?.voice;
+    const script: SpeakScript = step.ssml
+      ? { type: 'ssml', ssml: step.text, ...(voice ? { voice } : {}) }
+      : { type: 'text', text: step.text, ...(voice ? { voice } : {}) };
+    this.update({ stepIndex: index, currentLine: step.text });
+
+    const id = this.target?.speak(script);
+    if (!id) {
+      // Not connected yet, or between streams
+      this.stepTimer = setTimeout(() => this.run(index), this.retryDelayMs);
+      return;
+    }
+    this.utteranceId = id;
+    this.utteranceStatus = null;
+  }
+
+  private finishLine() {
+    this.utteranceId = null;
+    this.lineDone = true;
+    const { script, stepIndex } = this.state;
+    const step = script?.steps[stepIndex];
+    const pauseAfterMs = step?.kind === 'say' ? step.pauseAfterMs : 0;
+    if (pauseAfterMs > 0) {
+      this.stepTimer = setTimeout(() => this.run(stepIndex + 1), pauseAfterMs);
+    } else {
+      this.run(stepIndex + 1);
+    }
+  }
+
+  // Silences the current line and cancels pending timers
+  private halt() {
+    this.clearStepTimer();
+    const id = this.utteranceId;
+    this.utteranceId = null;
+    if (!id) return;
+    // A line already playing is cut off; one still waiting is dropped from the queue
+    if (this.utteranceStatus === 'speaking') {
+      this.target?.interrupt();
+    } else {
+      this.target?.cancelUtterance(id);
+    }
+  }
+
+  private returnToAttract() {
+    const { script } = this.state;
+    if (!script) return;
+    this.clearIdleTimer();
+    console.log('Presentation: nobody interacting, back to the attract loop');
+    this.loopCounts.clear();
+    this.update({ status: 'playing' });
+    this.run(script.attract?.label ? this.labels.get(script.attract.label) ?? 0 : 0);
+  }
+
+  private clearStepTimer() {
+    if (this.stepTimer) {
+      clearTimeout(this.stepTimer);
+      this.stepTimer = null;
+    }
+  }
+
+  private clearIdleTimer() {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+// Presentation scripts on the local disk, as one JSON file. The source is kept
+// as written so comments and formatting survive a round trip through the editor.
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getPresentationsFile } from '@/lib/env';
+import { PRESENTATION_FORMATS, type PresentationFormat } from '@/lib/presentation';
+
+export interface StoredPresentation {
+  id: string;
+  // From the script's own name when it was saved
+  name: string;
+  format: PresentationFormat;
+  source: string;
+  updatedAt: string;
+}
+
+export type PresentationSummary = Omit<StoredPresentation, 'source'>;
+
+export type PresentationFields = Pick<StoredPresentation, 'name' | 'format' | 'source'>;
+
+interface PresentationsFile {
+  presentations: StoredPresentation[];
+}
+
+const isStoredPresentation = (value: unknown): value is StoredPresentation => {
+  const item = value as StoredPresentation | null;
+  return (
+    typeof item?.id === 'string' &&
+    typeof item.name === 'string' &&
+    PRESENTATION_FORMATS.includes(item.format) &&
+    typeof item.source === 'string' &&
+    typeof item.updatedAt === 'string'
+  );
+};
+
+// Changes to the same file run one after another, so none reads a file another is about to replace
+const pendingChanges = new Map<string, Promise<unknown>>();
+
+function serialized<T>(change: () => Promise<T>): Promise<T> {
+  const file = getPresentationsFile();
+  const next = (pendingChanges.get(file) ?? Promise.resolve()).then(change, change);
+  pendingChanges.set(file, next.catch(() => {}));
+  return next;
+}
+
+async function readPresentationsFile(): Promise<PresentationsFile> {
+  try {
+    const data = JSON.parse(await readFile(getPresentationsFile(), 'utf8'));
+    const presentations: unknown[] = Array.isArray(data?.presentations) ? data.presentations : [];
+    return { presentations: presentations.filter(isStoredPresentation) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('Failed to read presentations file, starting empty:', error);
+    }
+    return { presentations: [] };
+  }
+}
+
+async function writePresentationsFile(data: PresentationsFile): Promise<void> {
+  const file = getPresentationsFile();
+  await mkdir(path.dirname(file), { recursive: true });
+  // Write then rename so a crash never leaves half a file
+  const temporary = `${file}.${randomUUID()}.tmp`;
+  await writeFile(temporary, JSON.stringify(data, null, 2), 'utf8');
+  await rename(temporary, file);
+}
+
+// Without the sources, by name
+export async function listPresentations(): Promise<PresentationSummary[]> {
+  const { presentations } = await readPresentationsFile();
+  return presentations
+    .map(({ id, name, format, updatedAt }) => ({ id, name, format, updatedAt }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getPresentation(id: string): Promise<StoredPresentation | null> {
+  const { presentations } = await readPresentationsFile();
+  return presentations.find((item) => item.id === id) ?? null;
+}
+
+export function createPresentation(fields: PresentationFields): Promise<StoredPresentation> {
+  return serialized(async () => {
+    const data = await readPresentationsFile();
+    const presentation: StoredPresentation = { id: `prs_${randomUUID()}`, ...fields, updatedAt: new Date().toISOString() };
+    await writePresentationsFile({ presentations: [...data.presentations, presentation] });
+    return presentation;
+  });
+}
+
+// Null if there's no such presentation
+export function updatePresentation(id: string, fields: PresentationFields): Promise<StoredPresentation | null> {
+  return serialized(async () => {
+    const data = await readPresentationsFile();
+    const existing = data.presentations.find((item) => item.id === id);
+    if (!existing) return null;
+    const presentation: StoredPresentation = { ...existing, ...fields, updatedAt: new Date().toISOString() };
+    await writePresentationsFile({
+      presentations: data.presentations.map((item) => (item.id === id ? presentation : item))
+    });
+    return presentation;
+  });
+}
+
+// False if there was nothing to delete
+export function deletePresentation(id: string): Promise<boolean> {
+  return serialized(async () => {
+    const data = await readPresentationsFile();
+    const presentations = data.presentations.filter((item) => item.id !== id);
+    if (presentations.length === data.presentations.length) return false;
+    await writePresentationsFile({ presentations });
+    return true;
+  });
+}
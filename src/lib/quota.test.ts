@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { emptyUsage, STALE_STREAM_MS, UsageTracker, type QuotaConfig, type QuotaLimits } from '@/lib/quota';
+
+const UNLIMITED: QuotaLimits = { streamsPerDay: 0, concurrentSessions: 0, charactersPerDay: 0 };
+
+const quotas = (user: Partial<QuotaLimits>, global: Partial<QuotaLimits> = {}): QuotaConfig => ({
+  user: { ...UNLIMITED, ...user },
+  global: { ...UNLIMITED, ...global }
+});
+
+const createTracker = (start = Date.UTC(2026, 9, 19, 12)) => {
+  const clock = { now: start };
+  return { clock, tracker: new UsageTracker(emptyUsage(start), () => clock.now) };
+};
+
+describe('UsageTracker', () => {
+  it('limits streams per user per day and starts over at midnight UTC', () => {
+    const { clock, tracker } = createTracker();
+    const config = quotas({ streamsPerDay: 2 });
+
+    tracker.openStream('user:alice', 'strm_1');
+    tracker.openStream('user:alice', 'strm_2');
+    expect(tracker.checkStream(config, 'user:alice')).toEqual({
+      kind: 'streams',
+      scope: 'user',
+      limit: 2,
+      used: 2,
+      resetsAt: '2026-10-20T00:00:00.000Z'
+    });
+    expect(tracker.checkStream(config, 'user:bob')).toBeNull();
+
+    clock.now = Date.UTC(2026, 9, 20, 0, 0, 1);
+    expect(tracker.checkStream(config, 'user:alice')).toBeNull();
+  });
+
+  it('counts open sessions until they are closed or go stale', () => {
+    const { clock, tracker } = createTracker();
+    const config = quotas({ concurrentSessions: 1 }, { concurrentSessions: 2 });
+
+    tracker.openStream('user:alice', 'strm_1');
+    expect(tracker.checkStream(config, 'user:alice')).toMatchObject({ kind: 'concurrent', scope: 'user', resetsAt: null });
+    tracker.openStream('user:bob', 'strm_2');
+    expect(tracker.checkStream(config, 'user:carol')).toMatchObject({ kind: 'concurrent', scope: 'global', used: 2 });
+
+    expect(tracker.closeStream('strm_1', 'user:bob')).toBe(false);
+    expect(tracker.checkStream(config, 'user:alice')).not.toBeNull();
+    expect(tracker.closeStream('strm_1', 'user:alice')).toBe(true);
+    expect(tracker.checkStream(config, 'user:alice')).toBeNull();
+
+    clock.now += STALE_STREAM_MS / 2;
+    tracker.touchStream('strm_2');
+    clock.now += STALE_STREAM_MS / 2 + 1;
+    expect(tracker.report(config, 'user:bob').user.concurrent).toBe(1);
+    clock.now += STALE_STREAM_MS;
+    expect(tracker.report(config, 'user:bob').global.concurrent).toBe(0);
+  });
+
+  it('refuses text that would go over the character allowance', () => {
+    const { tracker } = createTracker();
+    const config = quotas({ charactersPerDay: 100 }, { charactersPerDay: 150 });
+
+    tracker.addCharacters('user:alice', 90);
+    expect(tracker.checkCharacters(config, 'user:alice', 10)).toBeNull();
+    expect(tracker.checkCharacters(config, 'user:alice', 11)).toMatchObject({ kind: 'characters', scope: 'user', used: 90 });
+
+    tracker.addCharacters('user:bob', 60);
+    expect(tracker.checkCharacters(config, 'user:carol', 0)).toMatchObject({ scope: 'global', used: 150 });
+    expect(tracker.report(config, 'user:alice')).toMatchObject({
+      user: { characters: 90 },
+      global: { characters: 150 },
+      resetsAt: '2026-10-20T00:00:00.000Z'
+    });
+  });
+});
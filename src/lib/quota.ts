@@ -0,0 +1,217 @@
+// Usage quotas for the D-ID proxy: streams opened and characters spoken per
+// day, and sessions open at once, per user and across the whole deployment
+
+export type QuotaKind = 'streams' | 'concurrent' | 'characters';
+export type QuotaScope = 'user' | 'global';
+
+// 0 means unlimited
+export interface QuotaLimits {
+  streamsPerDay: number;
+  concurrentSessions: number;
+  charactersPerDay: number;
+}
+
+export interface QuotaConfig {
+  user: QuotaLimits;
+  global: QuotaLimits;
+}
+
+// Sent to the browser with a 429 when a request would go over a limit
+export interface QuotaExceeded {
+  kind: QuotaKind;
+  scope: QuotaScope;
+  limit: number;
+  used: number;
+  // When daily counts start over; null for concurrent sessions
+  resetsAt: string | null;
+}
+
+export interface UsageCounts {
+  streams: number;
+  concurrent: number;
+  characters: number;
+}
+
+export interface UsageReport {
+  limits: QuotaConfig;
+  user: UsageCounts;
+  global: UsageCounts;
+  resetsAt: string;
+}
+
+// What's kept on disk between restarts
+export interface UsageData {
+  // UTC day the daily counts belong to, YYYY-MM-DD
+  day: string;
+  daily: Record<string, { streams: number; characters: number }>;
+  // Open streams by stream id
+  active: Record<string, { user: string; lastSeen: number }>;
+}
+
+// A stream nobody has used for this long is assumed gone without a DELETE (e.g. a crashed tab)
+export const STALE_STREAM_MS = 10 * 60 * 1000;
+
+export const QUOTA_LIMIT_KEYS: Record<QuotaKind, keyof QuotaLimits> = {
+  streams: 'streamsPerDay',
+  concurrent: 'concurrentSessions',
+  characters: 'charactersPerDay'
+};
+
+const utcDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const nextUtcMidnight = (time: number) => {
+  const date = new Date(time);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)).toISOString();
+};
+
+export const emptyUsage = (now = Date.now()): UsageData => ({ day: utcDay(now), daily: {}, active: {} });
+
+export const isUsageData = (data: unknown): data is UsageData => {
+  const usage = data as UsageData | null;
+  return (
+    typeof usage?.day === 'string' &&
+    typeof usage.daily === 'object' && usage.daily !== null &&
+    typeof usage.active === 'object' && usage.active !== null
+  );
+};
+
+/**
+ * Counts usage and answers whether the next stream or utterance fits the
+ * limits. Limits are passed on each check so configuration changes apply
+ * without a restart.
+ */
+export class UsageTracker {
+  constructor(
+    private data: UsageData = emptyUsage(),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  checkStream(config: QuotaConfig, user: string): QuotaExceeded | null {
+    const usage = this.counts(user);
+    return (
+      this.exceeded(config, 'streams', usage, 1) ??
+      this.exceeded(config, 'concurrent', usage, 1)
+    );
+  }
+
+  // `count` is what's about to be spoken; 0 only checks that some allowance is left
+  checkCharacters(config: QuotaConfig, user: string, count: number): QuotaExceeded | null {
+    return this.exceeded(config, 'characters', this.counts(user), Math.max(count, 1));
+  }
+
+  openStream(user: string, streamId: string) {
+    this.rollOver();
+    this.dailyFor(user).streams += 1;
+    this.data.active[streamId] = { user, lastSeen: this.now() };
+  }
+
+  // Counts a stream before D-ID has made it, so requests racing each other can't
+  // all pass the check. Returns a placeholder id for confirmStream or cancelStream.
+  reserveStream(user: string): string {
+    const reservation = `pending_${crypto.randomUUID()}`;
+    this.openStream(user, reservation);
+    return reservation;
+  }
+
+  confirmStream(reservation: string, streamId: string) {
+    const stream = this.data.active[reservation];
+    if (!stream) return;
+    delete this.data.active[reservation];
+    this.data.active[streamId] = { user: stream.user, lastSeen: this.now() };
+  }
+
+  // D-ID didn't make the stream, so it doesn't count against the day either
+  cancelStream(reservation: string) {
+    const stream = this.data.active[reservation];
+    if (!stream) return;
+    delete this.data.active[reservation];
+    const daily = this.data.daily[stream.user];
+    if (daily) daily.streams = Math.max(daily.streams - 1, 0);
+  }
+
+  // Who opened a stream that is still counted as open, or null
+  streamOwner(streamId: string): string | null {
+    return this.data.active[streamId]?.user ?? null;
+  }
+
+  // False, leaving it open, if the stream belongs to someone else
+  closeStream(streamId: string, user: string): boolean {
+    const owner = this.streamOwner(streamId);
+    if (owner !== null && owner !== user) return false;
+    delete this.data.active[streamId];
+    return true;
+  }
+
+  // Any request on a stream shows it's still in use
+  touchStream(streamId: string) {
+    const stream = this.data.active[streamId];
+    if (stream) stream.lastSeen = this.now();
+  }
+
+  addCharacters(user: string, count: number) {
+    this.rollOver();
+    if (count > 0) this.dailyFor(user).characters += count;
+  }
+
+  report(config: QuotaConfig, user: string): UsageReport {
+    const { user: userCounts, global } = this.counts(user);
+    return { limits: config, user: userCounts, global, resetsAt: nextUtcMidnight(this.now()) };
+  }
+
+  toJSON(): UsageData {
+    return this.data;
+  }
+
+  private exceeded(
+    config: QuotaConfig,
+    kind: QuotaKind,
+    usage: Record<QuotaScope, UsageCounts>,
+    adding: number
+  ): QuotaExceeded | null {
+    for (const scope of ['user', 'global'] as const) {
+      const limit = config[scope][QUOTA_LIMIT_KEYS[kind]];
+      const used = usage[scope][kind];
+      if (limit > 0 && used + adding > limit) {
+        return { kind, scope, limit, used, resetsAt: kind === 'concurrent' ? null : nextUtcMidnight(this.now()) };
+      }
+    }
+    return null;
+  }
+
+  private counts(user: string): Record<QuotaScope, UsageCounts> {
+    this.rollOver();
+    const streams = Object.values(this.data.active);
+    const days = Object.values(this.data.daily);
+    const daily = this.data.daily[user];
+    return {
+      user: {
+        streams: daily?.streams ?? 0,
+        concurrent: streams.filter((stream) => stream.user === user).length,
+        characters: daily?.characters ?? 0
+      },
+      global: {
+        streams: days.reduce((sum, day) => sum + day.streams, 0),
+        concurrent: streams.length,
+        characters: days.reduce((sum, day) => sum + day.characters, 0)
+      }
+    };
+  }
+
+  private dailyFor(user: string) {
+    this.data.daily[user] ??= { streams: 0, characters: 0 };
+    return this.data.daily[user];
+  }
+
+  // Starts the daily counts over on a new UTC day and forgets abandoned streams
+  private rollOver() {
+    const now = this.now();
+    const day = utcDay(now);
+    if (this.data.day !== day) {
+      this.data.day = day;
+      this.data.daily = {};
+    }
+    for (const [streamId, stream] of Object.entries(this.data.active)) {
+      if (now - stream.lastSeen > STALE_STREAM_MS) delete this.data.active[streamId];
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { buildCues, currentCaption, formatVttTime, recordingFileName, toSRT, toWebVTT, type RecordingEvent } from './recording';
+
+describe('buildCues', () => {
+  it('pairs spoken spans with the message they played, by video id or in order', () => {
+    const events: RecordingEvent[] = [
+      { type: 'segment', index: 1, atMs: 0 },
+      { type: 'message', role: 'user', text: 'Hi there', atMs: 500 },
+      { type: 'message', role: 'assistant', text: 'Hello!', atMs: 1200 },
+      { type: 'message', role: 'speak', text: 'Queued line', atMs: 1300, videoId: 'vid_2' },
+      { type: 'stream', state: 'started', videoId: 'vid_2', atMs: 1500 },
+      { type: 'stream', state: 'done', videoId: 'vid_2', atMs: 2500 },
+      { type: 'stream', state: 'started', videoId: null, atMs: 2600 },
+      // The stream dropped mid-sentence and the recording moved to a new file
+      { type: 'segment', index: 2, atMs: 4000 }
+    ];
+
+    expect(buildCues(events, 6000)).toEqual([
+      { startMs: 500, endMs: 3500, speaker: 'user', text: 'Hi there' },
+      { startMs: 1500, endMs: 2500, speaker: 'agent', text: 'Queued line' },
+      { startMs: 2600, endMs: 4000, speaker: 'agent', text: 'Hello!' }
+    ]);
+  });
+
+  it('fills in a chat answer that arrives after the agent started speaking', () => {
+    const events: RecordingEvent[] = [
+      { type: 'stream', state: 'started', videoId: null, atMs: 100 },
+      { type: 'message', role: 'assistant', text: 'Late answer', atMs: 300 },
+      { type: 'stream', state: 'done', videoId: null, atMs: 900 }
+    ];
+
+    expect(buildCues(events, 1000)).toEqual([{ startMs: 100, endMs: 900, speaker: 'agent', text: 'Late answer' }]);
+  });
+});
+
+describe('currentCaption', () => {
+  it('shows the text being spoken until stream/done', () => {
+    const events: RecordingEvent[] = [
+      { type: 'message', role: 'user', text: 'Hi', atMs: 0 },
+      { type: 'message', role: 'speak', text: 'Second', atMs: 50, videoId: 'vid_2' },
+      { type: 'message', role: 'assistant', text: 'First', atMs: 100 }
+    ];
+    expect(currentCaption(events)).toBeNull();
+
+    events.push({ type: 'stream', state: 'started', videoId: 'vid_2', atMs: 200 });
+    expect(currentCaption(events)).toBe('Second');
+
+    events.push({ type: 'stream', state: 'done', videoId: 'vid_2', atMs: 800 });
+    expect(currentCaption(events)).toBeNull();
+
+    events.push({ type: 'stream', state: 'started', videoId: null, atMs: 900 });
+    expect(currentCaption(events)).toBe('First');
+  });
+});
+
+describe('subtitle files', () => {
+  it('writes numbered cues with speaker voices and escaped text', () => {
+    expect(formatVttTime(3723004)).toBe('01:02:03.004');
+    expect(toWebVTT([{ startMs: 0, endMs: 1500, speaker: 'agent', text: 'a < b' }], 'Ada')).toBe(
+      'WEBVTT\n\n1\n00:00:00.000 --> 00:00:01.500\n<v Ada>a &lt; b\n'
+    );
+  });
+
+  it('writes SRT cues with comma timestamps and speaker names', () => {
+    expect(toSRT([
+      { startMs: 500, endMs: 3500, speaker: 'user', text: 'Hi there' },
+      { startMs: 3723004, endMs: 3724000, speaker: 'agent', text: 'Hello!\n\nBye' }
+    ], 'Ada')).toBe(
+      '1\n00:00:00,500 --> 00:00:03,500\nUser: Hi there\n\n2\n01:02:03,004 --> 01:02:04,000\nAda: Hello!\nBye\n'
+    );
+  });
+
+  it('names files after the UTC start time', () => {
+    expect(recordingFileName(new Date('2026-10-19T11:40:05.123Z'), '-part2.webm')).toBe('session-2026-10-19T11-40-05Z-part2.webm');
+  });
+});
@@ -0,0 +1,143 @@
+// Session recordings: what happened while recording, and the JSON/WebVTT/SRT transcripts built from it.
+// Live captions use the same events.
+
+// Everything is timed in ms since the recording started
+export type RecordingEvent =
+  | { type: 'message'; role: 'user' | 'assistant' | 'speak'; text: string; atMs: number; videoId?: string | null }
+  | { type: 'stream'; state: 'started' | 'done'; videoId: string | null; atMs: number }
+  // A new WebM file began, e.g. after a reconnect replaced the stream
+  | { type: 'segment'; index: number; atMs: number };
+
+// Any event as logged by callers; the recorder stamps the time
+type WithoutTime<E> = E extends RecordingEvent ? Omit<E, 'atMs'> : never;
+export type RecordingEventInput = WithoutTime<RecordingEvent>;
+
+export interface RecordingSegment {
+  index: number;
+  blob: Blob;
+  url: string;
+  fileName: string;
+  startMs: number;
+  endMs: number;
+}
+
+export interface Recording {
+  id: string;
+  startedAt: string;
+  durationMs: number;
+  includesMic: boolean;
+  segments: RecordingSegment[];
+  events: RecordingEvent[];
+  transcriptUrl: string;
+  transcriptFileName: string;
+  subtitlesUrl: string;
+  subtitlesFileName: string;
+}
+
+export interface TranscriptCue {
+  startMs: number;
+  endMs: number;
+  speaker: 'user' | 'agent';
+  text: string;
+}
+
+// How long a user message stays on screen in the subtitles
+const USER_CUE_MS = 3000;
+
+// Pairs each stream/started..stream/done span with the text the agent said in it
+export function buildCues(events: RecordingEvent[], durationMs: number): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  const unspoken: Extract<RecordingEvent, { type: 'message' }>[] = [];
+  let open: { startMs: number; text: string } | null = null;
+
+  const close = (endMs: number) => {
+    if (open) cues.push({ startMs: open.startMs, endMs: Math.max(endMs, open.startMs), speaker: 'agent', text: open.text });
+    open = null;
+  };
+
+  for (const event of events) {
+    if (event.type === 'message') {
+      if (event.role === 'user') {
+        cues.push({ startMs: event.atMs, endMs: Math.min(event.atMs + USER_CUE_MS, durationMs), speaker: 'user', text: event.text });
+      } else if (open && !open.text) {
+        // A chat answer can arrive after D-ID has started speaking it
+        open.text = event.text;
+      } else {
+        unspoken.push(event);
+      }
+    } else if (event.type === 'stream' && event.state === 'started') {
+      close(event.atMs);
+      const byVideo = event.videoId ? unspoken.findIndex((m) => m.videoId === event.videoId) : -1;
+      const [message] = unspoken.splice(byVideo === -1 ? 0 : byVideo, 1);
+      open = { startMs: event.atMs, text: message?.text ?? '' };
+    } else {
+      // stream/done, or a new segment because the stream it was playing on went away
+      close(event.atMs);
+    }
+  }
+  close(durationMs);
+
+  return cues.filter((cue) => cue.text).sort((a, b) => a.startMs - b.startMs);
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+export function formatVttTime(ms: number): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(total % 1000, 3)}`;
+}
+
+// Cue text may not contain blank lines or the --> separator
+const escapeCueText = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n\s*\n/g, '\n');
+
+export function toWebVTT(cues: TranscriptCue[], agentName = 'Agent'): string {
+  const blocks = cues.map((cue, index) => {
+    const voice = cue.speaker === 'user' ? 'User' : agentName;
+    return `${index + 1}\n${formatVttTime(cue.startMs)} --> ${formatVttTime(cue.endMs)}\n<v ${voice}>${escapeCueText(cue.text)}`;
+  });
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+// What the agent is saying right now: the text of a stream/started span that hasn't ended
+export function currentCaption(events: RecordingEvent[]): string | null {
+  const last = [...events].reverse().find((event) => event.type !== 'message');
+  if (last?.type !== 'stream' || last.state !== 'started') return null;
+  const cue = buildCues(events, last.atMs).find((item) => item.speaker === 'agent' && item.startMs === last.atMs);
+  return cue?.text ?? null;
+}
+
+export function formatSrtTime(ms: number): string {
+  return formatVttTime(ms).replace('.', ',');
+}
+
+// SRT has no voices, so each cue starts with the speaker's name
+export function toSRT(cues: TranscriptCue[], agentName = 'Agent'): string {
+  return cues.map((cue, index) => {
+    const speaker = cue.speaker === 'user' ? 'User' : agentName;
+    const text = cue.text.replace(/\n\s*\n/g, '\n');
+    return `${index + 1}\n${formatSrtTime(cue.startMs)} --> ${formatSrtTime(cue.endMs)}\n${speaker}: ${text}\n`;
+  }).join('\n');
+}
+
+export function toTranscriptJSON(recording: Pick<Recording, 'startedAt' | 'durationMs' | 'includesMic' | 'events'> & {
+  segments: Pick<RecordingSegment, 'index' | 'fileName' | 'startMs' | 'endMs'>[];
+}): string {
+  return JSON.stringify({
+    startedAt: recording.startedAt,
+    durationMs: Math.round(recording.durationMs),
+    includesMic: recording.includesMic,
+    segments: recording.segments.map(({ index, fileName, startMs, endMs }) => ({ index, fileName, startMs, endMs })),
+    events: recording.events,
+    cues: buildCues(recording.events, recording.durationMs)
+  }, null, 2);
+}
+
+// e.g. session-2026-10-19T11-40-05Z-part2.webm
+export function recordingFileName(startedAt: Date, suffix: string): string {
+  const stamp = startedAt.toISOString().replace(/\.\d+Z$/, 'Z').replace(/:/g, '-');
+  return `session-${stamp}${suffix}`;
+}
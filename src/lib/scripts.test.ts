@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { describeScript, normalizeSsml, toDIDScript, validateSsml } from './scripts';
+
+describe('validateSsml', () => {
+  it('accepts fragments and full documents', () => {
+    expect(validateSsml('Hello <break time="500ms"/> <emphasis>there</emphasis>')).toBeNull();
+    expect(validateSsml('<speak><prosody rate="slow">Merhaba</prosody></speak>')).toBeNull();
+    expect(validateSsml('<mstts:express-as style="cheerful">Hi</mstts:express-as>')).toBeNull();
+  });
+
+  it('reports malformed markup, unknown tags and empty input', () => {
+    expect(validateSsml('Hello <break time="1s">')?.code).toBe('malformed');
+    expect(validateSsml('<script>alert(1)</script>')).toEqual({ code: 'unsupportedTag', detail: 'script' });
+    expect(validateSsml('<break time="1s"/>')?.code).toBe('empty');
+    expect(validateSsml('   ')?.code).toBe('empty');
+  });
+});
+
+describe('toDIDScript', () => {
+  it('maps SSML with a voice override to a D-ID text script', () => {
+    expect(toDIDScript({
+      type: 'ssml',
+      ssml: 'Hi <break time="1s"/>',
+      voice: { provider: 'microsoft', voiceId: 'tr-TR-EmelNeural', style: 'cheerful' }
+    })).toEqual({
+      type: 'text',
+      input: normalizeSsml('Hi <break time="1s"/>'),
+      ssml: true,
+      provider: { type: 'microsoft', voice_id: 'tr-TR-EmelNeural', voice_config: { style: 'cheerful' } }
+    });
+  });
+
+  it('leaves the agent voice alone without a voice id and passes audio URLs through', () => {
+    expect(toDIDScript({ type: 'text', text: ' Hello ', voice: { provider: 'amazon', voiceId: ' ' } }))
+      .toEqual({ type: 'text', input: 'Hello' });
+    const audio = { type: 'audio', audioUrl: 'https://example.com/api/audio/a.mp3' } as const;
+    expect(toDIDScript(audio)).toEqual({ type: 'audio', audio_url: audio.audioUrl });
+    expect(describeScript(audio)).toBe('a.mp3');
+  });
+});
@@ -0,0 +1,103 @@
+// The script forms speak() accepts, SSML checks and their D-ID wire format
+
+import type { DIDScript, DIDVoiceProvider } from '@/lib/didClient';
+
+export const VOICE_PROVIDERS = ['microsoft', 'elevenlabs', 'amazon', 'google'] as const;
+export type VoiceProviderId = (typeof VOICE_PROVIDERS)[number];
+
+// Overrides the agent's voice for one message
+export interface VoiceSettings {
+  provider: VoiceProviderId;
+  voiceId: string;
+  // Speaking style such as 'cheerful'; only Microsoft voices honour it
+  style?: string;
+}
+
+export type SpeakScript =
+  | { type: 'text'; text: string; voice?: VoiceSettings }
+  | { type: 'ssml'; ssml: string; voice?: VoiceSettings }
+  // A file D-ID can download; `label` is shown in the queue instead of the URL
+  | { type: 'audio'; audioUrl: string; label?: string };
+
+export type SsmlIssueCode = 'empty' | 'malformed' | 'unsupportedTag';
+
+export interface SsmlIssue {
+  code: SsmlIssueCode;
+  // Parser message or the offending tag name
+  detail?: string;
+}
+
+// Elements the TTS providers behind D-ID understand
+const SSML_TAGS = new Set([
+  'speak', 'break', 'prosody', 'emphasis', 'say-as', 'phoneme', 'sub', 'p', 's', 'lang', 'voice',
+  'mstts:express-as', 'mstts:silence'
+]);
+
+const MSTTS_NAMESPACE = 'https://www.w3.org/2001/mstts';
+
+// Bare fragments are wrapped in <speak> so users can type just the marked-up text
+export function normalizeSsml(ssml: string): string {
+  const trimmed = ssml.trim();
+  if (/^<speak[\s>]/.test(trimmed)) return trimmed;
+  const namespace = trimmed.includes('mstts:') ? ` xmlns:mstts="${MSTTS_NAMESPACE}"` : '';
+  return `<speak${namespace}>${trimmed}</speak>`;
+}
+
+// Browser only: relies on DOMParser. Returns null when the SSML looks sendable.
+export function validateSsml(ssml: string): SsmlIssue | null {
+  if (!ssml.trim()) return { code: 'empty' };
+
+  const document = new DOMParser().parseFromString(normalizeSsml(ssml), 'application/xml');
+  const parseError = document.getElementsByTagName('parsererror')[0];
+  if (parseError) {
+    return { code: 'malformed', detail: parseError.textContent?.trim().split('\n')[0] };
+  }
+
+  for (const element of Array.from(document.getElementsByTagName('*'))) {
+    if (!SSML_TAGS.has(element.tagName)) return { code: 'unsupportedTag', detail: element.tagName };
+  }
+  if (!document.documentElement.textContent?.trim()) return { code: 'empty' };
+  return null;
+}
+
+const toDIDVoice = (voice: VoiceSettings | undefined): DIDVoiceProvider | undefined => {
+  if (!voice?.voiceId.trim()) return undefined;
+  const provider: DIDVoiceProvider = { type: voice.provider, voice_id: voice.voiceId.trim() };
+  if (voice.style?.trim()) provider.voice_config = { style: voice.style.trim() };
+  return provider;
+};
+
+export function toDIDScript(script: SpeakScript): DIDScript {
+  if (script.type === 'audio') return { type: 'audio', audio_url: script.audioUrl };
+
+  const provider = toDIDVoice(script.voice);
+  const base: DIDScript = script.type === 'ssml'
+    ? { type: 'text', input: normalizeSsml(script.ssml), ssml: true }
+    : { type: 'text', input: script.text.trim() };
+  return provider ? { ...base, provider } : base;
+}
+
+// What the queue shows for a script
+export function describeScript(script: SpeakScript): string {
+  if (script.type === 'audio') return script.label || script.audioUrl.split('/').pop() || script.audioUrl;
+  if (script.type === 'ssml') return script.ssml.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  return script.text.trim();
+}
+
+// Whether a script has anything to say
+export function isEmptyScript(script: SpeakScript): boolean {
+  if (script.type === 'audio') return !script.audioUrl.trim();
+  return script.type === 'ssml' ? !script.ssml.trim() : !script.text.trim();
+}
+
+// Uploads an audio file through /api/audio and returns the URL to put in an audio script
+export async function uploadAudioScript(file: File): Promise<string> {
+  const form = new FormData();
+  form.append('file', file);
+  const response = await fetch('/api/audio', { method: 'POST', body: form });
+  const body = await response.json().catch(() => null);
+  if (!response.ok || typeof body?.url !== 'string') {
+    throw new Error(body?.error ?? `Upload failed (${response.status})`);
+  }
+  return body.url;
+}
@@ -0,0 +1,50 @@
+// Server-side settings on the local disk, as one JSON file
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getSettingsFile } from '@/lib/env';
+import { DEFAULT_STREAM_SETTINGS, isStreamSettings, type StreamSettings } from '@/lib/streamSettings';
+
+interface SettingsFile {
+  stream?: unknown;
+}
+
+// Changes to the same file run one after another, so none reads a file another is about to replace
+const pendingChanges = new Map<string, Promise<unknown>>();
+
+function serialized<T>(change: () => Promise<T>): Promise<T> {
+  const file = getSettingsFile();
+  const next = (pendingChanges.get(file) ?? Promise.resolve()).then(change, change);
+  pendingChanges.set(file, next.catch(() => {}));
+  return next;
+}
+
+async function readSettingsFile(): Promise<SettingsFile> {
+  try {
+    return JSON.parse(await readFile(getSettingsFile(), 'utf8')) ?? {};
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('Failed to read settings file, using defaults:', error);
+    }
+    return {};
+  }
+}
+
+// The saved stream settings, or the built-in defaults if none were saved or the file is unusable
+export async function readStreamSettings(): Promise<StreamSettings> {
+  const { stream } = await readSettingsFile();
+  return isStreamSettings(stream) ? stream : DEFAULT_STREAM_SETTINGS;
+}
+
+export function writeStreamSettings(stream: StreamSettings): Promise<void> {
+  return serialized(async () => {
+    const file = getSettingsFile();
+    const settings = { ...(await readSettingsFile()), stream };
+    await mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so a crash never leaves half a file
+    const temporary = `${file}.${randomUUID()}.tmp`;
+    await writeFile(temporary, JSON.stringify(settings, null, 2), 'utf8');
+    await rename(temporary, file);
+  });
+}
@@ -0,0 +1,299 @@
+// Speech-to-text providers behind useSpeechInput. 'web-speech' uses the browser's
+// SpeechRecognition; 'server' records the mic with MediaRecorder, cuts it into
+// segments at pauses and transcribes each one through /api/transcribe.
+
+export type SpeechProviderId = 'web-speech' | 'server';
+
+// 'auto' picks Web Speech where it exists and falls back to the server
+export type SpeechProviderPreference = SpeechProviderId | 'auto';
+
+export interface SpeechResult {
+  transcript: string;
+  // Interim results replace each other; final ones are appended
+  isFinal: boolean;
+}
+
+export interface SpeechProviderHandlers {
+  onResult: (result: SpeechResult) => void;
+  // Voice heard, possibly before there's any text (used for barge-in)
+  onSpeechStart?: () => void;
+  onError: (kind: 'permission-denied' | 'error', message: string) => void;
+  // Listening stopped, either through stop() or on its own
+  onEnd: () => void;
+}
+
+export interface SpeechToTextProvider {
+  readonly id: SpeechProviderId;
+  start: (language: string, handlers: SpeechProviderHandlers) => void;
+  // Finishes the current utterance, then calls onEnd
+  stop: () => void;
+  // Drops everything without calling back
+  abort: () => void;
+}
+
+const getRecognitionCtor = () =>
+  typeof window === 'undefined' ? undefined : window.SpeechRecognition || window.webkitSpeechRecognition;
+
+export const isWebSpeechAvailable = () => !!getRecognitionCtor();
+
+export const isMediaRecorderAvailable = () =>
+  typeof window !== 'undefined' && typeof window.MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// The provider to use here, or null when the browser can do neither
+export function resolveSpeechProvider(preference: SpeechProviderPreference): SpeechProviderId | null {
+  if (preference === 'web-speech') return isWebSpeechAvailable() ? 'web-speech' : null;
+  if (preference === 'server') return isMediaRecorderAvailable() ? 'server' : null;
+  if (isWebSpeechAvailable()) return 'web-speech';
+  return isMediaRecorderAvailable() ? 'server' : null;
+}
+
+export function createSpeechProvider(id: SpeechProviderId): SpeechToTextProvider {
+  return id === 'web-speech' ? createWebSpeechProvider() : createServerSpeechProvider();
+}
+
+export function createWebSpeechProvider(): SpeechToTextProvider {
+  let recognition: InstanceType<NonNullable<ReturnType<typeof getRecognitionCtor>>> | null = null;
+
+  return {
+    id: 'web-speech',
+
+    start(language, handlers) {
+      const RecognitionCtor = getRecognitionCtor();
+      if (!RecognitionCtor) {
+        handlers.onError('error', 'Speech recognition is not supported in this browser');
+        return;
+      }
+
+      recognition = new RecognitionCtor();
+      recognition.continuous = true;
+      recognition.interimResults = true;
+      recognition.lang = language;
+
+      recognition.onresult = (event) => {
+        handlers.onSpeechStart?.();
+        let interim = '';
+        for (let i = event.resultIndex; i < event.results.length; ++i) {
+          const transcript = event.results[i][0].transcript;
+          if (event.results[i].isFinal) {
+            handlers.onResult({ transcript, isFinal: true });
+          } else {
+            interim += transcript;
+          }
+        }
+        handlers.onResult({ transcript: interim, isFinal: false });
+      };
+
+      recognition.onerror = (event) => {
+        // Silence and our own stop() aren't failures
+        if (event.error === 'no-speech' || event.error === 'aborted') return;
+        if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+          handlers.onError('permission-denied', 'Microphone access was denied');
+        } else {
+          handlers.onError('error', event.error === 'audio-capture' ? 'No microphone was found' : `Speech recognition failed: ${event.error}`);
+        }
+      };
+
+      recognition.onend = () => handlers.onEnd();
+      recognition.start();
+    },
+
+    stop() {
+      recognition?.stop();
+    },
+
+    abort() {
+      if (!recognition) return;
+      recognition.onend = null;
+      recognition.onresult = null;
+      recognition.onerror = null;
+      recognition.abort();
+      recognition = null;
+    }
+  };
+}
+
+export interface ServerSpeechOptions {
+  url: string;
+  // RMS level (0–1) above which the mic counts as speech
+  voiceThreshold: number;
+  // A pause this long ends a segment
+  segmentSilenceMs: number;
+  // Long monologues are cut here anyway
+  maxSegmentMs: number;
+}
+
+export const DEFAULT_SERVER_SPEECH_OPTIONS: ServerSpeechOptions = {
+  url: '/api/transcribe',
+  voiceThreshold: 0.02,
+  segmentSilenceMs: 700,
+  maxSegmentMs: 15000
+};
+
+const LEVEL_CHECK_INTERVAL_MS = 100;
+
+export function createServerSpeechProvider(options: Partial<ServerSpeechOptions> = {}): SpeechToTextProvider {
+  const { url, voiceThreshold, segmentSilenceMs, maxSegmentMs } = { ...DEFAULT_SERVER_SPEECH_OPTIONS, ...options };
+
+  // One listening session; abort() or a new start() replaces it
+  let session: {
+    active: boolean;
+    stream: MediaStream | null;
+    audioContext: AudioContext | null;
+    recorder: MediaRecorder | null;
+    levelTimer: ReturnType<typeof setInterval> | null;
+    // Transcriptions finish in order even if the requests don't
+    transcriptions: Promise<void>;
+  } | null = null;
+
+  // Set by start(); ends the running session gracefully
+  let stopSession = () => {};
+
+  const release = (current: NonNullable<typeof session>) => {
+    if (current.levelTimer) clearInterval(current.levelTimer);
+    current.levelTimer = null;
+    current.stream?.getTracks().forEach((t) => t.stop());
+    current.audioContext?.close().catch(() => {});
+  };
+
+  return {
+    id: 'server',
+
+    start(language, handlers) {
+      const current: NonNullable<typeof session> = {
+        active: true,
+        stream: null,
+        audioContext: null,
+        recorder: null,
+        levelTimer: null,
+        transcriptions: Promise.resolve()
+      };
+      session = current;
+      let segmentCount = 0;
+
+      const transcribe = (audio: Blob) => {
+        current.transcriptions = current.transcriptions.then(async () => {
+          try {
+            const response = await fetch(`${url}?lang=${encodeURIComponent(language)}`, {
+              method: 'POST',
+              headers: { 'Content-Type': audio.type || 'audio/webm' },
+              body: audio
+            });
+            if (response.status === 503) {
+              // No transcriber on the server; every segment would fail the same way
+              if (session === current) handlers.onError('error', 'Speech-to-text is not configured on the server');
+              return;
+            }
+            if (!response.ok) throw new Error(`Transcription failed: ${response.status}`);
+            const { text } = await response.json();
+            if (session !== current) return;
+            if (typeof text === 'string' && text) {
+              handlers.onResult({ transcript: segmentCount++ > 0 ? ` ${text}` : text, isFinal: true });
+            } else {
+              handlers.onResult({ transcript: '', isFinal: false });
+            }
+          } catch (error) {
+            console.warn('Transcription request failed:', error);
+            if (session === current) handlers.onError('error', 'Transcription failed');
+          }
+        });
+      };
+
+      // Records one segment; it's only uploaded if someone spoke during it
+      const startSegment = (stream: MediaStream) => {
+        const recorder = new MediaRecorder(stream);
+        const chunks: Blob[] = [];
+        let heardVoice = false;
+        let lastVoiceAt = 0;
+        const startedAt = Date.now();
+        current.recorder = recorder;
+
+        recorder.ondataavailable = (event) => {
+          if (event.data.size > 0) chunks.push(event.data);
+        };
+        recorder.onstop = () => {
+          if (heardVoice && chunks.length > 0) {
+            transcribe(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+          }
+        };
+        recorder.start();
+
+        return {
+          voice(now: number) {
+            if (!heardVoice) {
+              handlers.onSpeechStart?.();
+              handlers.onResult({ transcript: '…', isFinal: false });
+            }
+            heardVoice = true;
+            lastVoiceAt = now;
+          },
+          // True once the segment should be cut: a pause after speech, or too long
+          isComplete(now: number) {
+            if (heardVoice && now - lastVoiceAt >= segmentSilenceMs) return true;
+            return now - startedAt >= maxSegmentMs;
+          }
+        };
+      };
+
+      navigator.mediaDevices
+        .getUserMedia({ audio: true })
+        .then((stream) => {
+          current.stream = stream;
+          if (!current.active) {
+            release(current);
+            return;
+          }
+
+          const audioContext = new AudioContext();
+          current.audioContext = audioContext;
+          const analyser = audioContext.createAnalyser();
+          analyser.fftSize = 1024;
+          audioContext.createMediaStreamSource(stream).connect(analyser);
+          const samples = new Float32Array(analyser.fftSize);
+
+          let segment = startSegment(stream);
+          current.levelTimer = setInterval(() => {
+            analyser.getFloatTimeDomainData(samples);
+            const rms = Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+            const now = Date.now();
+            if (rms >= voiceThreshold) segment.voice(now);
+            if (segment.isComplete(now)) {
+              current.recorder?.stop();
+              segment = startSegment(stream);
+            }
+          }, LEVEL_CHECK_INTERVAL_MS);
+        })
+        .catch((error) => {
+          if (session !== current) return;
+          const denied = error?.name === 'NotAllowedError' || error?.name === 'SecurityError';
+          handlers.onError(denied ? 'permission-denied' : 'error', denied ? 'Microphone access was denied' : 'No microphone was found');
+          handlers.onEnd();
+        });
+
+      stopSession = () => {
+        if (!current.active) return;
+        current.active = false;
+        if (current.recorder?.state === 'recording') current.recorder.stop();
+        release(current);
+        // onstop queues the last segment asynchronously; wait a tick before reporting the end
+        setTimeout(() => {
+          current.transcriptions.then(() => {
+            if (session === current) handlers.onEnd();
+          });
+        }, 0);
+      };
+    },
+
+    stop() {
+      stopSession();
+    },
+
+    abort() {
+      const current = session;
+      session = null;
+      if (!current) return;
+      current.active = false;
+      if (current.recorder?.state === 'recording') current.recorder.stop();
+      release(current);
+    }
+  };
+}
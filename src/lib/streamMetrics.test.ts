@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMetricsSampler } from '@/lib/streamMetrics';
+
+const report = (entries: Record<string, unknown>[]) =>
+  new Map(entries.map((entry) => [entry.id as string, entry])) as unknown as RTCStatsReport;
+
+const sample = (videoBytes: number, videoPackets: number, videoLost: number) =>
+  report([
+    { id: 't', type: 'transport', selectedCandidatePairId: 'p2' },
+    { id: 'p1', type: 'candidate-pair', currentRoundTripTime: 0.5, localCandidateId: 'l1', remoteCandidateId: 'r1' },
+    { id: 'p2', type: 'candidate-pair', currentRoundTripTime: 0.04, localCandidateId: 'l2', remoteCandidateId: 'r2' },
+    { id: 'l1', type: 'local-candidate', candidateType: 'host' },
+    { id: 'r1', type: 'remote-candidate', candidateType: 'host' },
+    { id: 'l2', type: 'local-candidate', candidateType: 'relay' },
+    { id: 'r2', type: 'remote-candidate', candidateType: 'srflx' },
+    {
+      id: 'v',
+      type: 'inbound-rtp',
+      kind: 'video',
+      bytesReceived: videoBytes,
+      packetsReceived: videoPackets,
+      packetsLost: videoLost,
+      jitter: 0.012,
+      framesPerSecond: 24,
+      frameWidth: 1280,
+      frameHeight: 720,
+      freezeCount: 2
+    },
+    { id: 'a', type: 'inbound-rtp', kind: 'audio', bytesReceived: 0, packetsReceived: 0, packetsLost: 0, jitter: 0.002 }
+  ]);
+
+describe('createMetricsSampler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads the selected candidate pair and video details', () => {
+    const metrics = createMetricsSampler().sample(sample(1000, 10, 0));
+
+    expect(metrics.candidatePair).toEqual({ local: 'relay', remote: 'srflx' });
+    expect(metrics.roundTripTimeMs).toBeCloseTo(40);
+    expect(metrics.video).toMatchObject({ width: 1280, height: 720, framesPerSecond: 24, freezeCount: 2 });
+    expect(metrics.video?.jitterMs).toBeCloseTo(12);
+    expect(metrics.audio?.framesPerSecond).toBeNull();
+  });
+
+  it('computes bitrate and packet loss against the previous sample', () => {
+    vi.useFakeTimers();
+    const sampler = createMetricsSampler();
+    sampler.sample(sample(1000, 100, 0));
+
+    vi.advanceTimersByTime(1000);
+    const metrics = sampler.sample(sample(126000, 190, 10));
+
+    // 125000 bytes in one second
+    expect(metrics.video?.bitrateKbps).toBeCloseTo(1000);
+    // 10 lost out of 100 sent in the interval
+    expect(metrics.video?.packetLossPercent).toBeCloseTo(10);
+  });
+});
@@ -0,0 +1,122 @@
+// Turns RTCPeerConnection.getStats() reports into the numbers shown in the
+// diagnostics overlay. Rates are computed against the previous sample.
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+export interface InboundMediaMetrics {
+  bitrateKbps: number;
+  bytesReceived: number;
+  // Lost / (lost + received) since the previous sample, 0–100
+  packetLossPercent: number;
+  packetsLost: number;
+  jitterMs: number;
+  // Video only
+  framesPerSecond: number | null;
+  width: number | null;
+  height: number | null;
+  freezeCount: number | null;
+}
+
+export interface StreamMetrics {
+  timestamp: number;
+  video: InboundMediaMetrics | null;
+  audio: InboundMediaMetrics | null;
+  roundTripTimeMs: number | null;
+  // Candidate types of the selected pair, e.g. relay when going through TURN
+  candidatePair: { local: CandidateType | null; remote: CandidateType | null } | null;
+}
+
+// How many samples (one per second) the hook keeps for the overlay's graphs
+export const METRICS_HISTORY_LENGTH = 60;
+
+type StatsEntry = Record<string, unknown> & { id?: string; type?: string };
+
+const numberOr = (value: unknown, fallback: number) => (typeof value === 'number' && Number.isFinite(value) ? value : fallback);
+
+const numberOrNull = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+const candidateType = (entry: StatsEntry | undefined) => {
+  const type = entry?.candidateType;
+  return type === 'host' || type === 'srflx' || type === 'prflx' || type === 'relay' ? type : null;
+};
+
+const readInbound = (
+  entry: StatsEntry,
+  previous: InboundMediaMetrics | null,
+  previousPacketsReceived: number | undefined,
+  elapsedMs: number
+): InboundMediaMetrics => {
+  const bytesReceived = numberOr(entry.bytesReceived, 0);
+  const packetsLost = numberOr(entry.packetsLost, 0);
+  const packetsReceived = numberOr(entry.packetsReceived, 0);
+
+  const bytesDelta = previous ? Math.max(0, bytesReceived - previous.bytesReceived) : 0;
+  const lostDelta = previous ? Math.max(0, packetsLost - previous.packetsLost) : packetsLost;
+  const receivedDelta = Math.max(0, packetsReceived - (previousPacketsReceived ?? 0));
+  const totalDelta = lostDelta + receivedDelta;
+
+  return {
+    // bits per millisecond is kilobits per second
+    bitrateKbps: previous && elapsedMs > 0 ? (bytesDelta * 8) / elapsedMs : 0,
+    bytesReceived,
+    packetLossPercent: totalDelta > 0 ? (lostDelta / totalDelta) * 100 : 0,
+    packetsLost,
+    jitterMs: numberOr(entry.jitter, 0) * 1000,
+    framesPerSecond: numberOrNull(entry.framesPerSecond),
+    width: numberOrNull(entry.frameWidth),
+    height: numberOrNull(entry.frameHeight),
+    freezeCount: numberOrNull(entry.freezeCount)
+  };
+};
+
+// Packet counts aren't part of InboundMediaMetrics, so the collector remembers them between samples
+export interface MetricsSampler {
+  sample: (report: RTCStatsReport) => StreamMetrics;
+}
+
+export function createMetricsSampler(): MetricsSampler {
+  let previous: StreamMetrics | null = null;
+  const previousPacketsReceived: Partial<Record<'audio' | 'video', number>> = {};
+
+  return {
+    sample(report) {
+      const entries = new Map<string, StatsEntry>();
+      report.forEach((entry: StatsEntry, key: string) => entries.set(entry.id ?? key, entry));
+
+      const now = Date.now();
+      const elapsedMs = previous ? now - previous.timestamp : 0;
+      const metrics: StreamMetrics = { timestamp: now, video: null, audio: null, roundTripTimeMs: null, candidatePair: null };
+
+      // The selected pair comes from the transport; Firefox marks it `selected` instead
+      let selectedPairId: string | null = null;
+      entries.forEach((entry) => {
+        if (entry.type === 'transport' && typeof entry.selectedCandidatePairId === 'string') {
+          selectedPairId = entry.selectedCandidatePairId;
+        }
+      });
+
+      entries.forEach((entry) => {
+        if (entry.type === 'inbound-rtp' && (entry.kind === 'video' || entry.kind === 'audio')) {
+          const kind = entry.kind;
+          metrics[kind] = readInbound(entry, previous?.[kind] ?? null, previousPacketsReceived[kind], elapsedMs);
+          previousPacketsReceived[kind] = numberOr(entry.packetsReceived, 0);
+        }
+
+        const isSelectedPair =
+          entry.type === 'candidate-pair' &&
+          (selectedPairId ? entry.id === selectedPairId : entry.selected === true || (entry.nominated === true && entry.state === 'succeeded'));
+        if (isSelectedPair) {
+          const rtt = numberOrNull(entry.currentRoundTripTime);
+          metrics.roundTripTimeMs = rtt === null ? null : rtt * 1000;
+          metrics.candidatePair = {
+            local: candidateType(entries.get(String(entry.localCandidateId))),
+            remote: candidateType(entries.get(String(entry.remoteCandidateId)))
+          };
+        }
+      });
+
+      previous = metrics;
+      return metrics;
+    }
+  };
+}
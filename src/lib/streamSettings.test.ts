@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_STREAM_SETTINGS, isStreamSettings, resolveStreamSettings, toDIDStreamOptions } from '@/lib/streamSettings';
+
+describe('stream settings', () => {
+  it('sends only the options that are set', () => {
+    expect(toDIDStreamOptions(DEFAULT_STREAM_SETTINGS)).toEqual({ compatibility_mode: 'on', fluent: true });
+    expect(toDIDStreamOptions({
+      fluent: false,
+      compatibilityMode: 'auto',
+      outputResolution: 720,
+      streamWarmup: true,
+      sessionTimeoutSeconds: 180
+    })).toEqual({
+      compatibility_mode: 'auto',
+      fluent: false,
+      output_resolution: 720,
+      stream_warmup: true,
+      session_timeout: 180
+    });
+  });
+
+  it('layers overrides over the server defaults', () => {
+    const server = { ...DEFAULT_STREAM_SETTINGS, outputResolution: 1080, streamWarmup: true };
+    expect(resolveStreamSettings(server, { fluent: false, outputResolution: undefined, streamWarmup: false })).toEqual({
+      ...server,
+      fluent: false,
+      streamWarmup: false
+    });
+    expect(resolveStreamSettings(undefined, undefined)).toEqual(DEFAULT_STREAM_SETTINGS);
+  });
+
+  it('rejects incomplete or out-of-range settings', () => {
+    expect(isStreamSettings(DEFAULT_STREAM_SETTINGS)).toBe(true);
+    expect(isStreamSettings({ ...DEFAULT_STREAM_SETTINGS, outputResolution: 100 })).toBe(false);
+    expect(isStreamSettings({ ...DEFAULT_STREAM_SETTINGS, outputResolution: 720.5 })).toBe(false);
+    expect(isStreamSettings({ ...DEFAULT_STREAM_SETTINGS, sessionTimeoutSeconds: 301 })).toBe(false);
+    expect(isStreamSettings({ ...DEFAULT_STREAM_SETTINGS, compatibilityMode: 'maybe' })).toBe(false);
+    expect(isStreamSettings({ fluent: true })).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+// Options for creating D-ID streams: server defaults edited on /admin/settings,
+// optionally overridden per page through useAgentConnection
+
+import type { DIDStreamOptions } from '@/lib/didClient';
+
+export type CompatibilityMode = 'on' | 'off' | 'auto';
+
+export interface StreamSettings {
+  // Fluent agents stream continuously; talk agents show the idle video between answers
+  fluent: boolean;
+  // Codec compatibility: 'on' favours VP8 for older browsers, 'auto' lets D-ID pick
+  compatibilityMode: CompatibilityMode;
+  // Output video height in pixels; null leaves it to D-ID
+  outputResolution: number | null;
+  // Starts the stream with a short silent clip so the first answer plays sooner
+  streamWarmup: boolean;
+  // Seconds D-ID keeps an unused stream open; null for D-ID's default
+  sessionTimeoutSeconds: number | null;
+}
+
+export const DEFAULT_STREAM_SETTINGS: StreamSettings = {
+  fluent: true,
+  compatibilityMode: 'on',
+  outputResolution: null,
+  streamWarmup: false,
+  sessionTimeoutSeconds: null
+};
+
+export const COMPATIBILITY_MODES: CompatibilityMode[] = ['on', 'off', 'auto'];
+
+// What D-ID accepts for output_resolution and session_timeout
+export const OUTPUT_RESOLUTION_RANGE = { min: 150, max: 1080 };
+export const SESSION_TIMEOUT_RANGE = { min: 1, max: 300 };
+
+const isIntegerIn = (value: unknown, range: { min: number; max: number }) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= range.min && value <= range.max;
+
+// Checks settings sent to /api/settings
+export function isStreamSettings(data: unknown): data is StreamSettings {
+  const settings = data as Partial<StreamSettings> | null;
+  return (
+    typeof settings === 'object' && settings !== null &&
+    typeof settings.fluent === 'boolean' &&
+    COMPATIBILITY_MODES.includes(settings.compatibilityMode as CompatibilityMode) &&
+    (settings.outputResolution === null || isIntegerIn(settings.outputResolution, OUTPUT_RESOLUTION_RANGE)) &&
+    typeof settings.streamWarmup === 'boolean' &&
+    (settings.sessionTimeoutSeconds === null || isIntegerIn(settings.sessionTimeoutSeconds, SESSION_TIMEOUT_RANGE))
+  );
+}
+
+// Later layers win; fields left undefined fall through to the one below
+export function resolveStreamSettings(...layers: (Partial<StreamSettings> | undefined)[]): StreamSettings {
+  const settings = { ...DEFAULT_STREAM_SETTINGS };
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer ?? {})) {
+      if (value !== undefined) Object.assign(settings, { [key]: value });
+    }
+  }
+  return settings;
+}
+
+// Body for POST /agents/{id}/streams; unset options are left out so D-ID applies its own defaults
+export function toDIDStreamOptions(settings: StreamSettings): DIDStreamOptions {
+  const options: DIDStreamOptions = {
+    compatibility_mode: settings.compatibilityMode,
+    fluent: settings.fluent
+  };
+  if (settings.outputResolution !== null) options.output_resolution = settings.outputResolution;
+  if (settings.streamWarmup) options.stream_warmup = true;
+  if (settings.sessionTimeoutSeconds !== null) options.session_timeout = settings.sessionTimeoutSeconds;
+  return options;
+}
@@ -0,0 +1,69 @@
+// Server-side speech-to-text behind /api/transcribe. TRANSCRIBE_URL points at an
+// OpenAI-compatible /audio/transcriptions endpoint; in MOCK_DID=1 mode a local
+// stand-in answers instead so the route works offline.
+
+import { isTranscriberConfigured } from '@/lib/env';
+
+export interface Transcriber {
+  readonly name: string;
+  // `language` is a BCP-47 tag such as 'en-US' or 'tr-TR'
+  transcribe: (audio: Blob, language: string) => Promise<string>;
+}
+
+export class TranscriptionError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'TranscriptionError';
+  }
+}
+
+/**
+ * Doesn't recognise anything: it reports how much audio arrived, or returns
+ * TRANSCRIBE_LOCAL_TEXT when set, so the MediaRecorder path can be exercised
+ * without a speech service. Only used in mock mode.
+ */
+export const localTranscriber: Transcriber = {
+  name: 'local',
+  async transcribe(audio, language) {
+    const fixedText = process.env.TRANSCRIBE_LOCAL_TEXT;
+    if (fixedText) return fixedText;
+    return `[${language}] ${Math.max(1, Math.round(audio.size / 1024))} KB of audio received`;
+  }
+};
+
+export function createHttpTranscriber(url: string, apiKey?: string, model = 'whisper-1'): Transcriber {
+  return {
+    name: 'http',
+    async transcribe(audio, language) {
+      const form = new FormData();
+      const extension = audio.type.includes('ogg') ? 'ogg' : audio.type.includes('mp4') ? 'mp4' : 'webm';
+      form.append('file', audio, `speech.${extension}`);
+      form.append('model', model);
+      // Whisper-style APIs take ISO-639-1 codes
+      form.append('language', language.split('-')[0]);
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        body: form,
+        cache: 'no-store'
+      });
+      if (!response.ok) {
+        throw new TranscriptionError(`Transcription backend returned ${response.status}`, response.status);
+      }
+      const data = await response.json();
+      if (typeof data?.text !== 'string') {
+        throw new TranscriptionError('Unexpected response from transcription backend', 502);
+      }
+      return data.text;
+    }
+  };
+}
+
+// Null when nothing can transcribe
+export function getTranscriber(): Transcriber | null {
+  if (!isTranscriberConfigured()) return null;
+  const url = process.env.TRANSCRIBE_URL;
+  if (!url) return localTranscriber;
+  return createHttpTranscriber(url, process.env.TRANSCRIBE_API_KEY, process.env.TRANSCRIBE_MODEL || undefined);
+}
@@ -0,0 +1,104 @@
+// Quota usage on the local disk: one small JSON file, rewritten after every change
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { NextResponse } from 'next/server';
+import { getUsageFile } from '@/lib/env';
+import { emptyUsage, isUsageData, UsageTracker, type QuotaExceeded } from '@/lib/quota';
+
+// One tracker per file, loaded on first use
+const trackers = new Map<string, Promise<UsageTracker>>();
+// Writes to the same file go one after another
+const pendingWrites = new Map<string, Promise<void>>();
+
+async function loadTracker(file: string): Promise<UsageTracker> {
+  try {
+    const data = JSON.parse(await readFile(file, 'utf8'));
+    if (isUsageData(data)) return new UsageTracker(data);
+    console.warn('Ignoring malformed usage file:', file);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('Failed to read usage file, starting from zero:', error);
+    }
+  }
+  return new UsageTracker(emptyUsage());
+}
+
+function saveTracker(file: string, tracker: UsageTracker): Promise<void> {
+  const write = async () => {
+    await mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so a crash never leaves half a file
+    const temporary = `${file}.tmp`;
+    await writeFile(temporary, JSON.stringify(tracker), 'utf8');
+    await rename(temporary, file);
+  };
+  const next = (pendingWrites.get(file) ?? Promise.resolve()).then(write, write);
+  pendingWrites.set(file, next);
+  return next;
+}
+
+function getTracker(file: string): Promise<UsageTracker> {
+  let tracker = trackers.get(file);
+  if (!tracker) {
+    tracker = loadTracker(file);
+    trackers.set(file, tracker);
+  }
+  return tracker;
+}
+
+/**
+ * Runs `change` against the usage tracker and persists the result. A check and
+ * an update made in the same `change` run synchronously, so nothing can come
+ * between them; separate calls can interleave with other requests.
+ */
+export async function withUsage<T>(change: (tracker: UsageTracker) => T): Promise<T> {
+  const file = getUsageFile();
+  const tracker = await getTracker(file);
+  const result = change(tracker);
+  await saveTracker(file, tracker);
+  return result;
+}
+
+export async function readUsage<T>(read: (tracker: UsageTracker) => T): Promise<T> {
+  return read(await getTracker(getUsageFile()));
+}
+
+const SCOPE_TEXT = { user: 'for this user', global: 'for this demo' };
+const KIND_TEXT = {
+  streams: 'Daily stream limit reached',
+  concurrent: 'Too many sessions open',
+  characters: 'Daily speech limit reached'
+};
+
+// 429 with the exhausted quota; the client shows it instead of retrying
+export function quotaExceededResponse(quota: QuotaExceeded) {
+  return NextResponse.json(
+    {
+      error: `${KIND_TEXT[quota.kind]} ${SCOPE_TEXT[quota.scope]} (${quota.used}/${quota.limit})`,
+      code: 'quota_exceeded',
+      quota
+    },
+    { status: 429 }
+  );
+}
+
+// Characters a speak request will say: text scripts without SSML markup; audio scripts count as none
+export function countSpokenCharacters(body: string): number {
+  try {
+    const { script } = JSON.parse(body) ?? {};
+    if (script?.type !== 'text' || typeof script.input !== 'string') return 0;
+    return (script.ssml ? script.input.replace(/<[^>]*>/g, '') : script.input).trim().length;
+  } catch {
+    return 0;
+  }
+}
+
+// Characters of the agent's chat answer, which is spoken on the stream
+export async function countAnswerCharacters(response: Response): Promise<number> {
+  try {
+    const { result } = await response.clone().json();
+    return typeof result === 'string' ? result.trim().length : 0;
+  } catch {
+    return 0;
+  }
+}
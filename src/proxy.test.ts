@@ -0,0 +1,133 @@
+// @vitest-environment node
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AUTH_COOKIE, checkCredentials, createSessionToken, readSessionToken, safeReturnPath } from '@/lib/auth';
+import { getAuthConfig } from '@/lib/env';
+import { POST } from '@/app/api/auth/login/route';
+import { proxy } from './proxy';
+
+const request = (path: string, init: { method?: string; cookie?: string; headers?: Record<string, string> } = {}) =>
+  new NextRequest(`http://localhost:3000${path}`, {
+    method: init.method,
+    headers: { ...init.headers, ...(init.cookie ? { cookie: `${AUTH_COOKIE}=${init.cookie}` } : {}) }
+  });
+
+// The identity the proxy passed on to the route
+const forwardedUser = (response: Response) => response.headers.get('x-middleware-request-x-demo-user');
+
+describe('proxy', () => {
+  beforeEach(() => {
+    vi.stubEnv('AUTH_USERS', 'alice:wonderland,bob:builder');
+    vi.stubEnv('ACCESS_CODE', 'open-sesame');
+    vi.stubEnv('AUTH_SECRET', 'test-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('sends signed-out visitors to the sign-in page and answers 401 on the API', async () => {
+    const page = proxy(request('/panel?agents=a,b'));
+    expect(page.status).toBe(307);
+    expect(page.headers.get('location')).toBe('http://localhost:3000/login?next=%2Fpanel%3Fagents%3Da%2Cb');
+
+    const api = proxy(request('/api/agents/agt_1/streams', { method: 'POST' }));
+    expect(api.status).toBe(401);
+    expect(await api.json()).toMatchObject({ code: 'auth_required' });
+  });
+
+  it('lets the sign-in page, the embed loader and D-ID audio downloads through', () => {
+    expect(forwardedUser(proxy(request('/login')))).toBe('ip:unknown');
+    expect(forwardedUser(proxy(request('/api/auth/login', { method: 'POST' })))).not.toBeNull();
+    expect(forwardedUser(proxy(request('/embed.js')))).not.toBeNull();
+    expect(forwardedUser(proxy(request('/api/audio/clip.mp3')))).not.toBeNull();
+    expect(proxy(request('/api/audio', { method: 'POST' })).status).toBe(401);
+  });
+
+  it('identifies accounts by name and the shared code by address', () => {
+    const auth = getAuthConfig();
+    const alice = checkCredentials(auth, { username: 'alice', password: 'wonderland' });
+    const guest = checkCredentials(auth, { code: 'open-sesame' });
+    expect(alice?.user).toBe('alice');
+    expect(guest?.user).toBeNull();
+
+    const asAlice = proxy(request('/', {
+      cookie: createSessionToken(alice!, 'test-secret'),
+      headers: { 'x-demo-user': 'user:bob' }
+    }));
+    expect(forwardedUser(asAlice)).toBe('user:alice');
+
+    const asGuest = proxy(request('/api/usage', {
+      cookie: createSessionToken(guest!, 'test-secret'),
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }
+    }));
+    expect(forwardedUser(asGuest)).toBe('ip:unknown');
+
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    expect(forwardedUser(proxy(request('/api/usage', {
+      cookie: createSessionToken(guest!, 'test-secret'),
+      headers: { 'x-forwarded-for': '203.0.113.7, 198.51.100.2' }
+    })))).toBe('ip:198.51.100.2');
+  });
+
+  it('rejects wrong credentials and forged or expired cookies', () => {
+    const auth = getAuthConfig();
+    expect(checkCredentials(auth, { username: 'alice', password: 'builder' })).toBeNull();
+    expect(checkCredentials(auth, { username: 'mallory', password: 'test-secret' })).toBeNull();
+    expect(checkCredentials(auth, { code: 'open sesame' })).toBeNull();
+
+    const token = createSessionToken({ user: 'alice', expiresAt: Date.now() / 1000 + 60 }, 'test-secret');
+    const forged = `${Buffer.from(JSON.stringify({ u: 'bob', exp: 4102444800 })).toString('base64url')}.${token.split('.')[1]}`;
+    expect(readSessionToken(token, auth)).toMatchObject({ user: 'alice' });
+    expect(readSessionToken(forged, auth)).toBeNull();
+    expect(readSessionToken(token, { ...auth, secret: 'other-secret' })).toBeNull();
+    expect(readSessionToken(token, auth, Date.now() + 61000)).toBeNull();
+    expect(proxy(request('/', { cookie: forged })).status).toBe(307);
+  });
+
+  it('only accepts cookies for configured accounts, and none without AUTH_SECRET', async () => {
+    const expiresAt = Date.now() / 1000 + 60;
+    const mallory = createSessionToken({ user: 'mallory', expiresAt }, 'test-secret');
+    expect(readSessionToken(mallory, getAuthConfig())).toBeNull();
+    expect(proxy(request('/', { cookie: mallory })).status).toBe(307);
+
+    const guest = createSessionToken({ user: null, expiresAt }, 'test-secret');
+    vi.stubEnv('ACCESS_CODE', '');
+    expect(readSessionToken(guest, getAuthConfig())).toBeNull();
+
+    vi.stubEnv('AUTH_SECRET', '');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const alice = createSessionToken({ user: 'alice', expiresAt }, '');
+    expect(readSessionToken(alice, getAuthConfig())).toBeNull();
+    const login = await POST(new Request('http://localhost:3000/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ username: 'alice', password: 'wonderland' })
+    }));
+    expect(login.status).toBe(500);
+  });
+
+  it('issues a cookie the embed frame can send once embedding sites are configured over HTTPS', async () => {
+    const login = (url: string) => POST(new Request(url, {
+      method: 'POST',
+      body: JSON.stringify({ username: 'alice', password: 'wonderland' })
+    }));
+    expect((await login('https://demo.example/api/auth/login')).headers.get('set-cookie')).toMatch(/SameSite=lax/i);
+
+    vi.stubEnv('EMBED_ALLOWED_ORIGINS', 'https://shop.example');
+    const cookie = (await login('https://demo.example/api/auth/login')).headers.get('set-cookie');
+    expect(cookie).toMatch(/SameSite=none/i);
+    expect(cookie).toMatch(/Secure/);
+    expect((await login('http://localhost:3000/api/auth/login')).headers.get('set-cookie')).toMatch(/SameSite=lax/i);
+  });
+
+  it('leaves everything open without credentials and keeps the embed frame policy', () => {
+    vi.stubEnv('AUTH_USERS', '');
+    vi.stubEnv('ACCESS_CODE', '');
+    const response = proxy(request('/embed/agt_1'));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Security-Policy')).toMatch(/^frame-ancestors 'self'/);
+    expect(safeReturnPath('//evil.example')).toBe('/');
+    expect(safeReturnPath('/panel?agents=a')).toBe('/panel?agents=a');
+  });
+});
@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { AUTH_COOKIE, isAuthEnabled, readSessionToken, USER_HEADER } from '@/lib/auth';
+import { frameAncestors } from '@/lib/embed';
+import { getAuthConfig, getEmbedAllowedOrigins, getTrustedProxyHops } from '@/lib/env';
+
+// Open without signing in: the sign-in page and its API, the embed loader,
+// and uploaded audio, which D-ID downloads itself
+const isPublic = (pathname: string, method: string) =>
+  pathname === '/login' ||
+  pathname.startsWith('/api/auth/') ||
+  pathname === '/embed.js' ||
+  (method === 'GET' && /^\/api\/audio\/[^/]+$/.test(pathname));
+
+// The address the nearest trusted proxy saw, counting from the right of X-Forwarded-For
+// since anything further left came from the client. Without a trusted proxy the
+// proxy can't see the socket, so addresses aren't told apart.
+const clientAddress = (request: NextRequest) => {
+  const hops = getTrustedProxyHops();
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map((entry) => entry.trim()) ?? [];
+  return (hops > 0 && forwarded[forwarded.length - hops]) || 'unknown';
+};
+
+// Requires a session when sign-in is configured, tells the routes who is asking,
+// and lets only the configured sites put the embed widget in a frame
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const auth = getAuthConfig();
+  const session = readSessionToken(request.cookies.get(AUTH_COOKIE)?.value, auth);
+
+  if (isAuthEnabled(auth) && !session && !isPublic(pathname, request.method)) {
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.json({ error: 'Sign in required', code: 'auth_required' }, { status: 401 });
+    }
+    const login = new URL('/login', request.url);
+    login.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(login);
+  }
+
+  // Quotas count per account, or per address for the shared code and open access.
+  // Always overwritten, so the browser can't pick its own identity.
+  const headers = new Headers(request.headers);
+  headers.set(USER_HEADER, session?.user ? `user:${session.user}` : `ip:${clientAddress(request)}`);
+  const response = NextResponse.next({ request: { headers } });
+
+  if (pathname === '/embed' || pathname.startsWith('/embed/')) {
+    response.headers.set('Content-Security-Policy', `frame-ancestors ${frameAncestors(getEmbedAllowedOrigins())}`);
+  }
+  return response;
+}
+
+export const config = {
+  matcher: '/((?!_next/static|_next/image|favicon.ico).*)'
+};
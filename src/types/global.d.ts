@@ -7,11 +7,19 @@ declare global {
 
 interface SpeechRecognition extends EventTarget {
   continuous: boolean;
+  interimResults: boolean;
   lang: string;
   onend: ((this: SpeechRecognition, ev: Event) => any) | null;
   onresult: ((this: SpeechRecognition, ev: SpeechRecognitionEvent) => any) | null;
+  onerror: ((this: SpeechRecognition, ev: SpeechRecognitionErrorEvent) => void) | null;
   start(): void;
   stop(): void;
+  abort(): void;
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  readonly error: string;
+  readonly message: string;
 }
 
 interface SpeechRecognitionEvent extends Event {
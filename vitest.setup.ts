@@ -0,0 +1,12 @@
+// jsdom has no media playback; the hook only needs play() to resolve.
+// Route tests run in the node environment, where there's no DOM to patch.
+if (typeof HTMLMediaElement !== 'undefined') {
+  Object.defineProperty(HTMLMediaElement.prototype, 'play', {
+    configurable: true,
+    value: () => Promise.resolve()
+  });
+  Object.defineProperty(HTMLMediaElement.prototype, 'pause', {
+    configurable: true,
+    value: () => {}
+  });
+}